@@ -63,7 +63,8 @@ export const config = {
   // Payment Gateways
   razorpay: {
     keyId: process.env.RAZORPAY_KEY_ID,
-    keySecret: process.env.RAZORPAY_KEY_SECRET
+    keySecret: process.env.RAZORPAY_KEY_SECRET,
+    webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET
   },
   
   stripe: {
@@ -71,6 +72,33 @@ export const config = {
     secretKey: process.env.STRIPE_SECRET_KEY,
     webhookSecret: process.env.STRIPE_WEBHOOK_SECRET
   },
+
+  // Which gateway takes a payment: the customer's choice, else the gateway set
+  // for the currency (e.g. "USD:stripe,EUR:stripe"), else the default
+  payments: {
+    defaultGateway: process.env.PAYMENT_DEFAULT_GATEWAY || 'razorpay',
+    currency: process.env.PAYMENT_CURRENCY || 'INR',
+    currencyGateways: process.env.PAYMENT_CURRENCY_GATEWAYS || '',
+    // An in-process stand-in for Razorpay for development and tests; never in production
+    fakeGateway: process.env.PAYMENT_FAKE_GATEWAY === 'true' && process.env.NODE_ENV !== 'production',
+    fakeGatewaySecret: process.env.PAYMENT_FAKE_GATEWAY_SECRET || 'fake_gateway_test_secret',
+    fakeGatewayWebhookUrl: process.env.PAYMENT_FAKE_GATEWAY_WEBHOOK_URL ||
+      `http://localhost:${process.env.PORT || '5000'}/api/${process.env.API_VERSION || 'v1'}/payments/webhook/razorpay`
+  },
+  
+  // Provider settlements: the platform's commission, GST on the commission and
+  // TDS come out of each job's share before it is paid out in the weekly run
+  settlement: {
+    commissionPercent: parseFloat(process.env.SETTLEMENT_COMMISSION_PERCENT || '5'),
+    tdsPercent: parseFloat(process.env.SETTLEMENT_TDS_PERCENT || '1'),
+    payoutAdapter: process.env.PAYOUT_ADAPTER || 'local'
+  },
+
+  // Customer wallet: promotional credits lapse after this many days unless
+  // granted with their own expiry
+  wallet: {
+    promotionalCreditDays: parseInt(process.env.WALLET_PROMOTIONAL_CREDIT_DAYS || '90', 10)
+  },
   
   // File Upload (Cloudinary)
   cloudinary: {
@@ -79,6 +107,43 @@ export const config = {
     apiSecret: process.env.CLOUDINARY_API_SECRET
   },
   
+  // Booking & Scheduling
+  booking: {
+    slotIntervalMinutes: parseInt(process.env.BOOKING_SLOT_INTERVAL_MINUTES || '30', 10),
+    travelBufferMinutes: parseInt(process.env.BOOKING_TRAVEL_BUFFER_MINUTES || '30', 10),
+    travelMinMinutes: parseInt(process.env.BOOKING_TRAVEL_MIN_MINUTES || '10', 10),
+    travelSpeedKmh: parseFloat(process.env.BOOKING_TRAVEL_SPEED_KMH || '20'),
+    travelRoadFactor: parseFloat(process.env.BOOKING_TRAVEL_ROAD_FACTOR || '1.3'),
+    lockTimeoutMs: parseInt(process.env.BOOKING_LOCK_TIMEOUT_MS || '10000', 10),
+    seriesHorizonDays: parseInt(process.env.BOOKING_SERIES_HORIZON_DAYS || '28', 10),
+    acceptanceWindowMinutes: parseInt(process.env.BOOKING_ACCEPTANCE_WINDOW_MINUTES || '30', 10),
+    maxProviderOffers: parseInt(process.env.BOOKING_MAX_PROVIDER_OFFERS || '3', 10),
+    dispatchBroadcastSize: parseInt(process.env.BOOKING_DISPATCH_BROADCAST_SIZE || '5', 10),
+    jobCodeMaxAttempts: parseInt(process.env.BOOKING_JOB_CODE_MAX_ATTEMPTS || '5', 10),
+    jobCodeLockMinutes: parseInt(process.env.BOOKING_JOB_CODE_LOCK_MINUTES || '15', 10),
+    noShowGraceMinutes: parseInt(process.env.BOOKING_NO_SHOW_GRACE_MINUTES || '30', 10),
+    noShowCustomerFeePercent: parseInt(process.env.BOOKING_NO_SHOW_CUSTOMER_FEE_PERCENT || '25', 10),
+    noShowProviderPenaltyPoints: parseInt(process.env.BOOKING_NO_SHOW_PROVIDER_PENALTY_POINTS || '10', 10),
+    providerNudgeMinutes: parseInt(process.env.BOOKING_PROVIDER_NUDGE_MINUTES || '15', 10),
+    reviewRequestDelayHours: parseInt(process.env.BOOKING_REVIEW_REQUEST_DELAY_HOURS || '2', 10),
+    orderMaxLines: parseInt(process.env.BOOKING_ORDER_MAX_LINES || '10', 10),
+    calendarFeedMaxEvents: parseInt(process.env.BOOKING_CALENDAR_FEED_MAX_EVENTS || '500', 10),
+    crewMaxSize: parseInt(process.env.BOOKING_CREW_MAX_SIZE || '4', 10),
+    crewCheckInWindowMinutes: parseInt(process.env.BOOKING_CREW_CHECK_IN_WINDOW_MINUTES || '60', 10),
+    urgentWindowMinutes: parseInt(process.env.BOOKING_URGENT_WINDOW_MINUTES || '120', 10),
+    urgentResponseMinutes: parseInt(process.env.BOOKING_URGENT_RESPONSE_MINUTES || '15', 10),
+    urgentOfferWindowMinutes: parseInt(process.env.BOOKING_URGENT_OFFER_WINDOW_MINUTES || '5', 10),
+    surgeMaxMultiplier: parseFloat(process.env.BOOKING_SURGE_MAX_MULTIPLIER || '2'),
+    surgeDemandWindowMinutes: parseInt(process.env.BOOKING_SURGE_DEMAND_WINDOW_MINUTES || '120', 10),
+    disputeWindowDays: parseInt(process.env.BOOKING_DISPUTE_WINDOW_DAYS || '14', 10),
+    disputeResponseHours: parseInt(process.env.BOOKING_DISPUTE_RESPONSE_HOURS || '48', 10),
+    disputeResolutionHours: parseInt(process.env.BOOKING_DISPUTE_RESOLUTION_HOURS || '120', 10),
+    disputePenaltyPoints: parseInt(process.env.BOOKING_DISPUTE_PENALTY_POINTS || '5', 10),
+    amcSchedulingHorizonDays: parseInt(process.env.BOOKING_AMC_SCHEDULING_HORIZON_DAYS || '7', 10),
+    amcRenewalReminderDays: parseInt(process.env.BOOKING_AMC_RENEWAL_REMINDER_DAYS || '30', 10),
+    jobPostExpiryDays: parseInt(process.env.BOOKING_JOB_POST_EXPIRY_DAYS || '14', 10)
+  },
+
   // Frontend
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
   
@@ -109,6 +109,19 @@ export const redisUtils = {
     }
   },
 
+  // Take a lock that expires on its own. Returns true when the caller holds it;
+  // without a Redis connection there is nobody to coordinate with, so it always does.
+  async acquireLock(key: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      if (!redisClient || !config.redis.url || !redisClient.isReady) return true;
+      const result = await redisClient.set(key, process.pid.toString(), { NX: true, EX: ttlSeconds });
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Redis lock error:', error);
+      return false;
+    }
+  },
+
   // Increment value
   async incr(key: string): Promise<number | null> {
     try {
@@ -1,9 +1,12 @@
 import { Request, Response } from 'express';
-import { User, Service, ServiceProvider, Booking, Review } from '@/models';
+import { User, Service, ServiceProvider, Booking, Review, Coupon, PricingRule } from '@/models';
 import { AppError } from '@/utils/AppError';
 import { catchAsync } from '@/utils/catchAsync';
 import { APIFeatures } from '@/utils/APIFeatures';
 import { emailService } from '@/services/email.service';
+import { warrantyService } from '@/services/warranty.service';
+import { ledgerService } from '@/services/ledger.service';
+import { IAuthenticatedRequest } from '@/types';
 
 // Get dashboard overview statistics
 export const getDashboardStats = catchAsync(async (req: Request, res: Response) => {
@@ -180,7 +183,7 @@ export const getAnalytics = catchAsync(async (req: Request, res: Response) => {
       break;
   }
 
-  const [userGrowth, bookingTrends, revenueTrends] = await Promise.all([
+  const [userGrowth, bookingTrends, revenueTrends, warrantyClaims] = await Promise.all([
     // User growth over time
     User.aggregate([
       { $match: { createdAt: { $gte: startDate } } },
@@ -226,7 +229,10 @@ export const getAnalytics = catchAsync(async (req: Request, res: Response) => {
         }
       },
       { $sort: { _id: 1 } }
-    ])
+    ]),
+
+    // Warranty claim rates per provider and service
+    warrantyService.getClaimRates(startDate)
   ]);
 
   res.status(200).json({
@@ -235,6 +241,7 @@ export const getAnalytics = catchAsync(async (req: Request, res: Response) => {
       userGrowth,
       bookingTrends,
       revenueTrends,
+      warrantyClaims,
       period
     }
   });
@@ -539,6 +546,127 @@ export const exportData = catchAsync(async (req: Request, res: Response) => {
   }
 });
 
+// Create a discount coupon
+export const createCoupon = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const coupon = await Coupon.create({
+    ...req.body,
+    usedCount: 0,
+    createdBy: req.user!._id
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Coupon created successfully',
+    data: { coupon }
+  });
+});
+
+// List coupons, optionally only the active ones
+export const getCoupons = catchAsync(async (req: Request, res: Response) => {
+  const filter: any = {};
+
+  if (req.query.isActive !== undefined) {
+    filter.isActive = req.query.isActive === 'true';
+  }
+
+  const coupons = await Coupon.find(filter).sort({ createdAt: -1 });
+
+  res.status(200).json({
+    success: true,
+    data: { coupons }
+  });
+});
+
+// Switch a coupon on or off
+export const updateCouponStatus = catchAsync(async (req: Request, res: Response) => {
+  const coupon = await Coupon.findByIdAndUpdate(
+    req.params.id,
+    { isActive: req.body.isActive },
+    { new: true }
+  );
+
+  if (!coupon) {
+    throw new AppError('Coupon not found', 404);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `Coupon ${coupon.isActive ? 'activated' : 'deactivated'} successfully`,
+    data: { coupon }
+  });
+});
+
+// Create a surge pricing rule
+export const createPricingRule = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const rule = await PricingRule.create({
+    ...req.body,
+    createdBy: req.user!._id
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Pricing rule created successfully',
+    data: { rule }
+  });
+});
+
+// List pricing rules, optionally filtered by city, category or status
+export const getPricingRules = catchAsync(async (req: Request, res: Response) => {
+  const filter: any = {};
+
+  if (req.query.isActive !== undefined) {
+    filter.isActive = req.query.isActive === 'true';
+  }
+  if (req.query.city) {
+    filter.city = (req.query.city as string).toLowerCase();
+  }
+  if (req.query.category) {
+    filter.category = req.query.category;
+  }
+
+  const rules = await PricingRule.find(filter).sort({ kind: 1, multiplier: -1 });
+
+  res.status(200).json({
+    success: true,
+    data: { rules }
+  });
+});
+
+// Change a pricing rule's multiplier, conditions or status
+export const updatePricingRule = catchAsync(async (req: Request, res: Response) => {
+  const allowedFields = ['name', 'multiplier', 'city', 'category', 'startTime', 'endTime', 'minDemandRatio', 'isActive'];
+  const updates: any = {};
+
+  allowedFields.forEach(field => {
+    if (req.body[field] !== undefined) {
+      updates[field] = req.body[field];
+    }
+  });
+
+  const rule = await PricingRule.findByIdAndUpdate(req.params.id, updates, { new: true, runValidators: true });
+
+  if (!rule) {
+    throw new AppError('Pricing rule not found', 404);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Pricing rule updated successfully',
+    data: { rule }
+  });
+});
+
+// Trial balance of the ledger: debit and credit totals of every account as of a date
+export const getTrialBalance = catchAsync(async (req: Request, res: Response) => {
+  const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+  const trialBalance = await ledgerService.getTrialBalance(asOf);
+
+  res.status(200).json({
+    success: true,
+    data: { trialBalance }
+  });
+});
+
 // Get pending approvals (providers, services, etc.)
 export const getPendingApprovals = catchAsync(async (req: Request, res: Response) => {
   const [pendingProviders, reportedReviews, flaggedContent] = await Promise.all([
@@ -0,0 +1,377 @@
+import { Response, NextFunction } from 'express';
+import AmcContract from '@/models/AmcContract.model';
+import AmcPlan from '@/models/AmcPlan.model';
+import Booking from '@/models/Booking.model';
+import Service from '@/models/Service.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAmcContract, IAuthenticatedRequest, IUser } from '@/types';
+import amcService from '@/services/amc.service';
+import paymentService from '@/services/payment.service';
+
+// Plan fields an admin can set
+const PLAN_FIELDS = ['name', 'description', 'visits', 'termMonths', 'price', 'maxInstalments', 'isActive'];
+
+// Load a contract and make sure the user is its customer, its provider or an admin
+const findAccessibleContract = async (id: string, user: IUser): Promise<IAmcContract> => {
+  const contract = await AmcContract.findById(id);
+
+  if (!contract) {
+    throw new AppError('Maintenance contract not found', 404);
+  }
+
+  if (user.role === 'admin') {
+    return contract;
+  }
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (provider && contract.provider.toString() === provider._id.toString()) {
+      return contract;
+    }
+  } else if (contract.customer.toString() === user._id.toString()) {
+    return contract;
+  }
+
+  throw new AppError('You can only access your own maintenance contracts', 403);
+};
+
+/**
+ * @desc    Get maintenance plans on sale
+ * @route   GET /api/v1/amc/plans
+ * @access  Public
+ */
+export const getAmcPlans = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const query: any = { isActive: true };
+
+  if (req.query.serviceId) {
+    query.service = req.query.serviceId;
+  }
+
+  const plans = await AmcPlan.find(query)
+    .populate('service', 'name category duration')
+    .sort({ price: 1 });
+
+  successResponse(res, 'Maintenance plans retrieved successfully', { plans });
+});
+
+/**
+ * @desc    Get maintenance plan by ID
+ * @route   GET /api/v1/amc/plans/:id
+ * @access  Public
+ */
+export const getAmcPlanById = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const plan = await AmcPlan.findById(req.params.id).populate('service', 'name category duration');
+
+  if (!plan) {
+    return next(new AppError('Maintenance plan not found', 404));
+  }
+
+  successResponse(res, 'Maintenance plan retrieved successfully', { plan });
+});
+
+/**
+ * @desc    Create a maintenance plan
+ * @route   POST /api/v1/amc/plans
+ * @access  Private/Admin
+ */
+export const createAmcPlan = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const service = await Service.findById(req.body.serviceId);
+
+  if (!service) {
+    return next(new AppError('Service not found', 404));
+  }
+
+  const data: any = { service: service._id, createdBy: req.user!._id };
+  PLAN_FIELDS.forEach(field => {
+    if (req.body[field] !== undefined) {
+      data[field] = req.body[field];
+    }
+  });
+
+  const plan = await AmcPlan.create(data);
+
+  successResponse(res, 'Maintenance plan created successfully', { plan }, 201);
+});
+
+/**
+ * @desc    Update a maintenance plan. Contracts already sold keep their terms.
+ * @route   PATCH /api/v1/amc/plans/:id
+ * @access  Private/Admin
+ */
+export const updateAmcPlan = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const plan = await AmcPlan.findById(req.params.id);
+
+  if (!plan) {
+    return next(new AppError('Maintenance plan not found', 404));
+  }
+
+  PLAN_FIELDS.forEach(field => {
+    if (req.body[field] !== undefined) {
+      plan.set(field, req.body[field]);
+    }
+  });
+
+  await plan.save();
+
+  successResponse(res, 'Maintenance plan updated successfully', { plan });
+});
+
+/**
+ * @desc    Buy a maintenance plan
+ * @route   POST /api/v1/amc/contracts
+ * @access  Private/Customer
+ */
+export const purchaseAmcContract = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { planId, address, contactPhone, preferredTime, startDate, instalments, providerId } = req.body;
+  const user = req.user!;
+
+  const contract = await amcService.purchase({
+    customer: user,
+    planId,
+    address,
+    contactPhone: contactPhone || user.phone,
+    preferredTime,
+    startDate: startDate ? new Date(startDate) : undefined,
+    instalments: instalments !== undefined ? Number(instalments) : undefined,
+    providerId
+  });
+
+  successResponse(res, 'Maintenance contract created successfully', { contract }, 201);
+});
+
+/**
+ * @desc    Get maintenance contracts (customer's own, provider's assigned, or all for admins)
+ * @route   GET /api/v1/amc/contracts
+ * @access  Private
+ */
+export const getAmcContracts = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { status, page = 1, limit = 20 } = req.query;
+  const user = req.user!;
+
+  const query: any = {};
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (!provider) {
+      return next(new AppError('Provider profile not found', 404));
+    }
+    query.provider = provider._id;
+  } else if (user.role !== 'admin') {
+    query.customer = user._id;
+  }
+
+  if (status) {
+    query.status = status;
+  }
+
+  const pageNumber = parseInt(page as string, 10);
+  const limitNumber = parseInt(limit as string, 10);
+
+  const [contracts, totalCount] = await Promise.all([
+    AmcContract.find(query)
+      .populate('plan', 'name visits termMonths')
+      .populate('service', 'name category')
+      .sort({ createdAt: -1 })
+      .skip((pageNumber - 1) * limitNumber)
+      .limit(limitNumber),
+    AmcContract.countDocuments(query)
+  ]);
+
+  successResponse(res, 'Maintenance contracts retrieved successfully', {
+    contracts: contracts.map(contract => ({
+      ...contract.toJSON(),
+      entitlement: amcService.getEntitlement(contract)
+    })),
+    pagination: {
+      currentPage: pageNumber,
+      totalPages: Math.ceil(totalCount / limitNumber),
+      totalCount,
+      hasNextPage: pageNumber * limitNumber < totalCount,
+      hasPrevPage: pageNumber > 1
+    }
+  });
+});
+
+/**
+ * @desc    Get a maintenance contract with its visits and remaining entitlement
+ * @route   GET /api/v1/amc/contracts/:id
+ * @access  Private
+ */
+export const getAmcContractById = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const contract = await findAccessibleContract(req.params.id!, req.user!);
+
+  await amcService.syncVisits(contract);
+
+  const bookings = await Booking.find({ amcContract: contract._id })
+    .select('bookingNumber provider scheduledDate status amcVisitIndex')
+    .sort({ scheduledDate: 1 });
+
+  await contract.populate([
+    { path: 'plan', select: 'name visits termMonths maxInstalments' },
+    { path: 'service', select: 'name category duration' }
+  ]);
+
+  successResponse(res, 'Maintenance contract retrieved successfully', {
+    contract,
+    entitlement: amcService.getEntitlement(contract),
+    bookings
+  });
+});
+
+/**
+ * @desc    Create a payment order for the next instalment
+ * @route   POST /api/v1/amc/contracts/:id/pay
+ * @access  Private/Customer
+ */
+export const createAmcPayment = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contract = await findAccessibleContract(req.params.id!, req.user!);
+
+  if (contract.customer.toString() !== req.user!._id.toString()) {
+    return next(new AppError('You can only pay for your own contracts', 403));
+  }
+
+  const { paymentOrder, instalment } = await amcService.createPaymentOrder(contract, req.body.gateway);
+
+  successResponse(res, 'Payment order created successfully', {
+    orderId: paymentOrder.id,
+    amount: paymentOrder.amount,
+    currency: paymentOrder.currency,
+    gateway: paymentOrder.gateway,
+    clientSecret: paymentOrder.clientSecret,
+    checkout: paymentOrder.checkout,
+    contractId: contract._id,
+    contractNumber: contract.contractNumber,
+    instalment: instalment.index
+  });
+});
+
+/**
+ * @desc    Verify an instalment payment
+ * @route   POST /api/v1/amc/contracts/:id/verify
+ * @access  Private/Customer
+ */
+export const verifyAmcPayment = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const verification = paymentService.getVerificationFields(req.body);
+
+  if (!verification.orderId || !verification.paymentId) {
+    return next(new AppError('All payment verification fields are required', 400));
+  }
+
+  const contract = await findAccessibleContract(req.params.id!, req.user!);
+
+  if (contract.customer.toString() !== req.user!._id.toString()) {
+    return next(new AppError('You can only verify payments for your own contracts', 403));
+  }
+
+  const instalment = contract.instalments.find(entry => entry.gatewayOrderId === verification.orderId);
+  if (!instalment) {
+    return next(new AppError('Payment does not belong to this contract', 400));
+  }
+
+  const gateway = instalment.gateway || 'razorpay';
+  const isPaymentValid = await paymentService.verifyPayment(gateway, verification);
+
+  if (!isPaymentValid) {
+    return next(new AppError('Invalid payment signature', 400));
+  }
+
+  // Held payments are recorded by the payment.captured webhook once captured
+  const paymentDetails = await paymentService.getPaymentDetails(verification.paymentId, gateway);
+  if (paymentDetails.status === 'authorized') {
+    return successResponse(res, 'Payment authorized and awaiting capture', {
+      contract,
+      paymentId: verification.paymentId,
+      instalment: instalment.index,
+      status: 'authorized'
+    }, 202);
+  }
+
+  const updated = await amcService.recordPayment(contract, instalment.index, verification.paymentId);
+
+  successResponse(res, 'Payment verified successfully', {
+    contract: updated,
+    paymentId: verification.paymentId,
+    instalment: instalment.index,
+    status: 'paid'
+  });
+});
+
+/**
+ * @desc    Book the next visit under the contract at a chosen time
+ * @route   POST /api/v1/amc/contracts/:id/visits
+ * @access  Private/Customer
+ */
+export const bookAmcVisit = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contract = await findAccessibleContract(req.params.id!, req.user!);
+
+  if (contract.customer.toString() !== req.user!._id.toString()) {
+    return next(new AppError('You can only book visits on your own contracts', 403));
+  }
+
+  const booking = await amcService.bookVisit(contract, new Date(req.body.scheduledDate));
+
+  successResponse(res, 'Visit booked successfully', {
+    booking,
+    entitlement: amcService.getEntitlement(contract)
+  }, 201);
+});
+
+/**
+ * @desc    Renew a contract on the same plan from the day it ends
+ * @route   POST /api/v1/amc/contracts/:id/renew
+ * @access  Private/Customer
+ */
+export const renewAmcContract = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contract = await findAccessibleContract(req.params.id!, req.user!);
+
+  if (contract.customer.toString() !== req.user!._id.toString()) {
+    return next(new AppError('You can only renew your own contracts', 403));
+  }
+
+  const renewal = await amcService.renew(contract);
+
+  successResponse(res, 'Maintenance contract renewed successfully', { contract: renewal }, 201);
+});
+
+/**
+ * @desc    Cancel a contract that has not been paid for
+ * @route   POST /api/v1/amc/contracts/:id/cancel
+ * @access  Private/Customer/Admin
+ */
+export const cancelAmcContract = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const contract = await findAccessibleContract(req.params.id!, req.user!);
+
+  await amcService.cancel(contract);
+
+  successResponse(res, 'Maintenance contract cancelled successfully', { contract });
+});
+
+/**
+ * @desc    Assign the contract's future visits to another provider
+ * @route   PATCH /api/v1/amc/contracts/:id/provider
+ * @access  Private/Admin
+ */
+export const assignAmcProvider = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const contract = await findAccessibleContract(req.params.id!, req.user!);
+
+  await amcService.assignProvider(contract, req.body.providerId);
+
+  successResponse(res, 'Provider assigned successfully', { contract });
+});
+
+export default {
+  getAmcPlans,
+  getAmcPlanById,
+  createAmcPlan,
+  updateAmcPlan,
+  purchaseAmcContract,
+  getAmcContracts,
+  getAmcContractById,
+  createAmcPayment,
+  verifyAmcPayment,
+  bookAmcVisit,
+  renewAmcContract,
+  cancelAmcContract,
+  assignAmcProvider
+};
@@ -4,9 +4,56 @@ import ServiceProvider from '@/models/ServiceProvider.model';
 import Service from '@/models/Service.model';
 import User from '@/models/User.model';
 import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
-import { IAuthenticatedRequest } from '@/types';
+import { IAuthenticatedRequest, IBooking, IQuote, IQuoteLineItem, IRescheduleRequest, IServiceProvider, IUser, IWorkSummary } from '@/types';
+import { config } from '@/config/env';
 import logger from '@/config/logger';
 import emailService from '@/services/email.service';
+import availabilityService from '@/services/availability.service';
+import pricingService, { GST_RATE } from '@/services/pricing.service';
+import bookingAssignmentService from '@/services/bookingAssignment.service';
+import jobVerificationService from '@/services/jobVerification.service';
+import noShowService from '@/services/noShow.service';
+import calendarService from '@/services/calendar.service';
+import crewService from '@/services/crew.service';
+import pricingRuleService from '@/services/pricingRule.service';
+import warrantyService from '@/services/warranty.service';
+import walletService from '@/services/wallet.service';
+
+// Statuses in which a booking can still be moved to another time
+const RESCHEDULABLE_STATUSES = ['pending', 'confirmed'];
+
+// Statuses in which the provider can quote for extra work
+const QUOTABLE_STATUSES = ['confirmed', 'in-progress'];
+
+// Which side of the booking the user is on, or null if they are not involved
+const getBookingParty = async (booking: IBooking, user: IUser): Promise<'customer' | 'provider' | 'admin' | null> => {
+  if (user.role === 'admin') {
+    return 'admin';
+  }
+
+  if (booking.customer._id.toString() === user._id.toString()) {
+    return 'customer';
+  }
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (provider && booking.provider && booking.provider._id.toString() === provider._id.toString()) {
+      return 'provider';
+    }
+  }
+
+  return null;
+};
+
+// Helpers on a crew job can see it, but do not act for the booking's provider
+const isCrewHelper = async (booking: IBooking, user: IUser): Promise<boolean> => {
+  if (user.role !== 'provider' || !booking.crew?.length) {
+    return false;
+  }
+
+  const provider = await ServiceProvider.findOne({ user: user._id });
+  return !!provider && crewService.getCrewRole(booking, provider._id.toString()) === 'helper';
+};
 
 /**
  * @desc    Create new booking
@@ -20,11 +67,66 @@ export const createBooking = catchAsync(async (req: IAuthenticatedRequest, res:
     scheduledDate,
     address,
     contactPhone,
-    specialInstructions
+    specialInstructions,
+    bookingType = 'standard',
+    quantity,
+    crew
   } = req.body;
 
   const user = req.user!;
 
+  // Urgent jobs go out to several providers at once unless the customer chose otherwise
+  const dispatchMode = req.body.dispatchMode || (bookingType === 'urgent' ? 'broadcast' : 'sequential');
+
+  const scheduledStart = new Date(scheduledDate);
+  if (scheduledStart <= new Date()) {
+    return next(new AppError('Scheduled date must be in the future', 400));
+  }
+
+  if (bookingType === 'urgent' && scheduledStart.getTime() > Date.now() + config.booking.urgentWindowMinutes * 60 * 1000) {
+    return next(new AppError(`Urgent bookings must start within ${config.booking.urgentWindowMinutes} minutes`, 400));
+  }
+
+  // No provider chosen: let the system find one
+  if (!providerId) {
+    if (crew?.length) {
+      return next(new AppError('Choose a lead provider to book a crew', 400));
+    }
+
+    const service = await Service.findById(serviceId);
+    if (!service || !service.isActive) {
+      return next(new AppError('Service not found or unavailable', 404));
+    }
+
+    const booking = await bookingAssignmentService.dispatchBooking({
+      customer: user,
+      service,
+      scheduledDate: scheduledStart,
+      address,
+      contactPhone: contactPhone || user.phone,
+      specialInstructions,
+      bookingType,
+      quantity
+    }, dispatchMode);
+
+    const populatedBooking = await Booking.findById(booking._id)
+      .populate('service', 'name category basePrice duration')
+      .populate({
+        path: 'provider',
+        select: 'user hourlyRate',
+        populate: { path: 'user', select: 'name phone avatar' }
+      });
+
+    try {
+      await emailService.sendBookingConfirmation(user, populatedBooking);
+    } catch (error) {
+      logger.error('Failed to send booking confirmation email:', error);
+    }
+
+    successResponse(res, 'Booking created successfully', { booking: populatedBooking }, 201);
+    return;
+  }
+
   // Validate provider exists and is available
   const provider = await ServiceProvider.findById(providerId).populate('user');
   if (!provider || !provider.isAvailable) {
@@ -42,32 +144,36 @@ export const createBooking = catchAsync(async (req: IAuthenticatedRequest, res:
     return next(new AppError('This provider does not offer the selected service', 400));
   }
 
-  // Calculate pricing
-  const baseAmount = service.basePrice;
-  const taxAmount = Math.round(baseAmount * 0.18); // 18% GST
-  const totalAmount = baseAmount + taxAmount;
+  // Team jobs: every helper must be free at the same time as the lead
+  const crewPlan = crew?.length
+    ? await crewService.planCrew(provider, service, address, crew)
+    : { helpers: [], crew: [] };
+
+  // Price the quantity asked for; surge rules add a charge line for each multiplier that applies
+  const quote = await pricingRuleService.quote(service, address, scheduledStart, quantity);
 
-  // Create booking
-  const booking = await Booking.create({
+  // Create booking while holding every member's slot so concurrent requests cannot overlap
+  const booking = await availabilityService.reserveSlots([provider, ...crewPlan.helpers], scheduledStart, quote.estimatedDuration, () => Booking.create({
     customer: user._id,
     provider: providerId,
     service: serviceId,
-    scheduledDate: new Date(scheduledDate),
-    estimatedDuration: service.duration,
+    scheduledDate: scheduledStart,
+    estimatedDuration: quote.estimatedDuration,
     address,
     contactPhone: contactPhone || user.phone,
     specialInstructions,
-    pricing: {
-      baseAmount,
-      additionalCharges: [],
-      taxAmount,
-      totalAmount
-    },
+    quantity: service.priceUnit === 'fixed' ? undefined : quantity,
+    pricing: quote.pricing,
+    ...bookingAssignmentService.buildUrgency(bookingType, scheduledStart),
     payment: {
       status: 'pending',
       paidAmount: 0
-    }
-  });
+    },
+    crew: crewPlan.crew
+  }), { address });
+
+  // Start the provider's acceptance window (or confirm straight away if they auto-accept)
+  await bookingAssignmentService.openOffer(booking, provider);
 
   // Populate booking details for response
   const populatedBooking = await Booking.findById(booking._id)
@@ -89,9 +195,40 @@ export const createBooking = catchAsync(async (req: IAuthenticatedRequest, res:
     logger.error('Failed to send booking confirmation emails:', error);
   }
 
+  await crewService.notifyHelpers(booking, crewPlan.helpers);
+
   successResponse(res, 'Booking created successfully', { booking: populatedBooking }, 201);
 });
 
+/**
+ * @desc    Preview the price of a booking before it is made
+ * @route   POST /api/v1/bookings/quote
+ * @access  Private
+ */
+export const getBookingQuote = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { serviceId, scheduledDate, address, quantity } = req.body;
+
+  const service = await Service.findById(serviceId);
+  if (!service || !service.isActive) {
+    return next(new AppError('Service not found or unavailable', 404));
+  }
+
+  const quote = await pricingRuleService.quote(service, address, new Date(scheduledDate), quantity);
+
+  successResponse(res, 'Quote calculated successfully', {
+    service: {
+      id: service._id,
+      name: service.name,
+      priceUnit: service.priceUnit
+    },
+    quantity: quote.quantity,
+    lines: quote.lines,
+    minimumChargeApplied: quote.minimumChargeApplied,
+    estimatedDuration: quote.estimatedDuration,
+    pricing: quote.pricing
+  });
+});
+
 /**
  * @desc    Get user bookings (customer or provider)
  * @route   GET /api/v1/bookings
@@ -119,7 +256,7 @@ export const getUserBookings = catchAsync(async (req: IAuthenticatedRequest, res
     );
 
     totalCount = await Booking.countDocuments({
-      provider: provider._id,
+      $or: [{ provider: provider._id }, { 'crew.provider': provider._id }],
       ...(status && { status })
     });
   } else {
@@ -169,6 +306,11 @@ export const getBookingById = catchAsync(async (req: IAuthenticatedRequest, res:
       path: 'provider',
       select: 'user hourlyRate rating totalReviews',
       populate: { path: 'user', select: 'name phone avatar' }
+    })
+    .populate({
+      path: 'crew.provider',
+      select: 'user rating',
+      populate: { path: 'user', select: 'name phone avatar' }
     });
 
   if (!booking) {
@@ -181,7 +323,8 @@ export const getBookingById = catchAsync(async (req: IAuthenticatedRequest, res:
                    (user.role === 'provider' && booking.provider && 
                     typeof booking.provider === 'object' && 
                     'user' in booking.provider && 
-                    booking.provider.user.toString() === user._id.toString());
+                    booking.provider.user.toString() === user._id.toString()) ||
+                   await isCrewHelper(booking, user);
 
   if (!canAccess) {
     return next(new AppError('You can only access your own bookings', 403));
@@ -190,6 +333,37 @@ export const getBookingById = catchAsync(async (req: IAuthenticatedRequest, res:
   successResponse(res, 'Booking retrieved successfully', { booking });
 });
 
+/**
+ * @desc    Download booking as a calendar (.ics) file
+ * @route   GET /api/v1/bookings/:id/calendar.ics
+ * @access  Private
+ */
+export const downloadBookingCalendar = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const booking = await Booking.findById(req.params.id)
+    .populate('customer', 'name')
+    .populate('service', 'name')
+    .populate({
+      path: 'provider',
+      select: 'user',
+      populate: { path: 'user', select: 'name phone' }
+    });
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const party = await getBookingParty(booking, req.user!);
+  if (!party && !await isCrewHelper(booking, req.user!)) {
+    return next(new AppError('You can only access your own bookings', 403));
+  }
+
+  const calendar = calendarService.buildBookingCalendar(booking, party === 'customer' ? 'customer' : 'provider');
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="booking-${booking.bookingNumber}.ics"`);
+  res.status(200).send(calendar);
+});
+
 /**
  * @desc    Update booking status
  * @route   PUT /api/v1/bookings/:id/status
@@ -211,7 +385,7 @@ export const updateBookingStatus = catchAsync(async (req: IAuthenticatedRequest,
   // Validate status transitions
   const validTransitions: { [key: string]: string[] } = {
     'pending': ['confirmed', 'cancelled'],
-    'confirmed': ['in-progress', 'cancelled'],
+    'confirmed': ['in-progress', 'cancelled', 'no-show'],
     'in-progress': ['completed', 'cancelled'],
     'completed': [],
     'cancelled': [],
@@ -228,7 +402,7 @@ export const updateBookingStatus = catchAsync(async (req: IAuthenticatedRequest,
     canUpdate = true;
   } else if (user.role === 'provider') {
     const provider = await ServiceProvider.findOne({ user: user._id });
-    canUpdate = provider && booking.provider.toString() === provider._id.toString();
+    canUpdate = provider && booking.provider && booking.provider.toString() === provider._id.toString();
   } else if (user.role === 'customer' && ['cancelled'].includes(status)) {
     canUpdate = booking.customer._id.toString() === user._id.toString();
   }
@@ -237,6 +411,27 @@ export const updateBookingStatus = catchAsync(async (req: IAuthenticatedRequest,
     return next(new AppError('You do not have permission to update this booking status', 403));
   }
 
+  // No-shows carry penalties and refunds, so they go through the report endpoint
+  if (status === 'no-show' && user.role !== 'admin') {
+    return next(new AppError('Use the no-show endpoint to report a no-show', 400));
+  }
+
+  // Providers prove they are on site with the customer's codes
+  if (user.role === 'provider' && ['in-progress', 'completed'].includes(status)) {
+    const action = status === 'in-progress' ? 'start' : 'complete';
+    return next(new AppError(`Use the ${action} endpoint with the customer's code to ${action} this job`, 400));
+  }
+
+  if (booking.status === 'pending' && status === 'confirmed') {
+    // A late acceptance hands the booking to the next provider instead
+    if (bookingAssignmentService.isOfferExpired(booking)) {
+      await bookingAssignmentService.expireOffer(booking);
+      return next(new AppError('The acceptance window for this booking has expired', 409));
+    }
+
+    bookingAssignmentService.recordAcceptance(booking);
+  }
+
   // Update booking status
   await booking.updateStatus(status, user._id.toString(), reason, comments);
 
@@ -254,6 +449,8 @@ export const updateBookingStatus = catchAsync(async (req: IAuthenticatedRequest,
     await ServiceProvider.findByIdAndUpdate(booking.provider, {
       $inc: { completedBookings: 1 }
     });
+    await crewService.recordCompletion(booking);
+    await warrantyService.recordCompletion(booking);
   }
 
   successResponse(res, 'Booking status updated successfully', {
@@ -267,13 +464,13 @@ export const updateBookingStatus = catchAsync(async (req: IAuthenticatedRequest,
 });
 
 /**
- * @desc    Cancel booking
+ * @desc    Cancel booking, refunding straight to the wallet when the customer asks
  * @route   DELETE /api/v1/bookings/:id
  * @access  Private
  */
 export const cancelBooking = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
   const { id } = req.params;
-  const { reason } = req.body;
+  const { reason, refundTo } = req.body;
   const user = req.user!;
 
   const booking = await Booking.findById(id).populate('customer', 'name email');
@@ -299,14 +496,27 @@ export const cancelBooking = catchAsync(async (req: IAuthenticatedRequest, res:
     return next(new AppError('You do not have permission to cancel this booking', 403));
   }
 
+  if (refundTo === 'wallet' && booking.customer._id.toString() !== user._id.toString()) {
+    return next(new AppError('Only the customer can have the refund paid into their wallet', 403));
+  }
+
   // Calculate refund amount
   const refundAmount = booking.calculateRefundAmount();
 
-  // Update booking
-  await booking.updateStatus('cancelled', user._id.toString(), reason);
+  // Update booking. The cancellation is saved before anything is refunded, so
+  // a refund that fails cannot be repeated by cancelling again.
   booking.refundAmount = refundAmount;
   booking.cancelledBy = user.role as any;
-  await booking.save();
+  await booking.updateStatus('cancelled', user._id.toString(), reason);
+
+  // Otherwise the refund goes back to the original payment through POST /payments/refund
+  const walletCredit = refundTo === 'wallet'
+    ? await walletService.refundBooking(booking, refundAmount, reason || 'Booking cancellation')
+    : null;
+
+  if (walletCredit) {
+    await booking.save();
+  }
 
   successResponse(res, 'Booking cancelled successfully', {
     booking: {
@@ -315,10 +525,821 @@ export const cancelBooking = catchAsync(async (req: IAuthenticatedRequest, res:
       status: booking.status,
       refundAmount,
       cancelledBy: user.role
+    },
+    ...(walletCredit && {
+      walletRefund: {
+        amount: walletCredit.amount,
+        transactionNumber: walletCredit.transactionNumber,
+        walletBalance: walletCredit.balanceAfter
+      }
+    })
+  });
+});
+
+/**
+ * @desc    Get bookings currently offered to the provider
+ * @route   GET /api/v1/bookings/offers
+ * @access  Private/Provider
+ */
+export const getBookingOffers = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const user = req.user!;
+
+  const provider = await ServiceProvider.findOne({ user: user._id });
+  if (!provider) {
+    successResponse(res, 'No booking offers found', { bookings: [] });
+    return;
+  }
+
+  const bookings = await Booking.find({
+    status: 'pending',
+    offerHistory: { $elemMatch: { provider: provider._id, outcome: 'pending' } }
+  })
+    .populate('service', 'name category basePrice duration')
+    .populate('customer', 'name')
+    .select('-dispatch.candidates')
+    .sort({ 'acceptance.deadline': 1 });
+
+  successResponse(res, 'Booking offers retrieved successfully', { bookings });
+});
+
+/**
+ * @desc    Accept a booking offer
+ * @route   PUT /api/v1/bookings/:id/accept
+ * @access  Private/Provider
+ */
+export const acceptBooking = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id);
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const provider = await ServiceProvider.findOne({ user: user._id });
+  if (!provider) {
+    return next(new AppError('Provider profile not found', 404));
+  }
+
+  const accepted = await bookingAssignmentService.acceptOffer(booking, provider);
+
+  successResponse(res, 'Booking accepted successfully', {
+    booking: {
+      id: accepted._id,
+      bookingNumber: accepted.bookingNumber,
+      status: accepted.status,
+      provider: accepted.provider
+    }
+  });
+});
+
+/**
+ * @desc    Decline a booking offer so it moves to the next provider
+ * @route   PUT /api/v1/bookings/:id/decline
+ * @access  Private/Provider
+ */
+export const declineBooking = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { reason } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id);
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const provider = await ServiceProvider.findOne({ user: user._id });
+  const isOffered = provider && (
+    await getBookingParty(booking, user) === 'provider' ||
+    bookingAssignmentService.hasPendingOffer(booking, provider._id.toString())
+  );
+
+  if (!provider || !isOffered) {
+    return next(new AppError('This booking was not offered to you', 403));
+  }
+
+  if (booking.status !== 'pending') {
+    return next(new AppError(`Cannot decline booking in ${booking.status} status`, 400));
+  }
+
+  const updated = await bookingAssignmentService.declineOffer(booking, provider._id.toString(), reason);
+
+  successResponse(res, 'Booking declined successfully', {
+    booking: {
+      id: updated._id,
+      bookingNumber: updated.bookingNumber,
+      status: updated.status,
+      reassigned: updated.status !== 'cancelled'
+    }
+  });
+});
+
+/**
+ * @desc    Transfer booking to another provider
+ * @route   PUT /api/v1/bookings/:id/transfer
+ * @access  Private (Assigned provider or Admin)
+ */
+export const transferBooking = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { providerId, reason } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id).populate('service', 'name');
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const party = await getBookingParty(booking, user);
+  if (party !== 'admin' && party !== 'provider') {
+    return next(new AppError('Only the assigned provider or an admin can transfer this booking', 403));
+  }
+
+  const toProvider = await ServiceProvider.findById(providerId);
+  if (!toProvider) {
+    return next(new AppError('Service provider not found', 404));
+  }
+
+  const updated = await bookingAssignmentService.transferBooking(booking, toProvider, user, reason);
+
+  successResponse(res, 'Booking transferred successfully', {
+    booking: {
+      id: updated._id,
+      bookingNumber: updated.bookingNumber,
+      status: updated.status,
+      provider: updated.provider
     }
   });
 });
 
+/**
+ * @desc    Propose a new time for a booking
+ * @route   POST /api/v1/bookings/:id/reschedule-requests
+ * @access  Private
+ */
+export const createRescheduleRequest = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { scheduledDate, reason } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id)
+    .populate('customer', 'name email')
+    .populate('service', 'name')
+    .populate({ path: 'provider', populate: { path: 'user', select: 'name email' } });
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const party = await getBookingParty(booking, user);
+  if (!party) {
+    return next(new AppError('You can only reschedule your own bookings', 403));
+  }
+
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return next(new AppError(`Cannot reschedule booking in ${booking.status} status`, 400));
+  }
+
+  if (!booking.provider) {
+    return next(new AppError('This booking has not been assigned to a provider yet', 400));
+  }
+
+  if (booking.rescheduleRequests.some(request => request.status === 'pending')) {
+    return next(new AppError('This booking already has a pending reschedule request', 400));
+  }
+
+  const proposedDate = new Date(scheduledDate);
+  if (proposedDate <= new Date()) {
+    return next(new AppError('Scheduled date must be in the future', 400));
+  }
+
+  if (proposedDate.getTime() === booking.scheduledDate.getTime()) {
+    return next(new AppError('Proposed time is the same as the current booking time', 400));
+  }
+
+  const provider = booking.provider as IServiceProvider;
+  const available = await availabilityService.isSlotAvailable(
+    provider,
+    proposedDate,
+    booking.estimatedDuration,
+    { excludeBookingId: booking._id.toString(), address: booking.address }
+  );
+
+  if (!available) {
+    return next(new AppError('The provider is not available at the selected time', 409));
+  }
+
+  // Only customer-initiated changes are charged; the fee is fixed when proposed
+  const fee = party === 'customer' ? booking.calculateRescheduleFee() : 0;
+
+  booking.rescheduleRequests.push({
+    proposedBy: user._id,
+    proposedByRole: party,
+    previousDate: booking.scheduledDate,
+    proposedDate,
+    reason,
+    fee,
+    status: 'pending'
+  } as IRescheduleRequest);
+  await booking.save();
+
+  const rescheduleRequest = booking.rescheduleRequests[booking.rescheduleRequests.length - 1];
+
+  // Ask the other party to respond
+  try {
+    const recipient = party === 'customer' ? provider.user : booking.customer;
+    if (recipient && typeof recipient === 'object' && 'email' in recipient) {
+      await emailService.sendBookingStatusUpdate(recipient, booking, 'reschedule-requested');
+    }
+  } catch (error) {
+    logger.error('Failed to send reschedule request email:', error);
+  }
+
+  successResponse(res, 'Reschedule request created successfully', { rescheduleRequest }, 201);
+});
+
+/**
+ * @desc    Accept a reschedule request
+ * @route   PUT /api/v1/bookings/:id/reschedule-requests/:requestId/accept
+ * @access  Private
+ */
+export const acceptRescheduleRequest = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id, requestId } = req.params;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id)
+    .populate('customer', 'name email')
+    .populate('service', 'name')
+    .populate({ path: 'provider', populate: { path: 'user', select: 'name email' } });
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const rescheduleRequest = booking.rescheduleRequests.find(request => request._id.toString() === requestId);
+  if (!rescheduleRequest) {
+    return next(new AppError('Reschedule request not found', 404));
+  }
+
+  const party = await getBookingParty(booking, user);
+  if (!party || (party !== 'admin' && party === rescheduleRequest.proposedByRole)) {
+    return next(new AppError('Only the other party can respond to this reschedule request', 403));
+  }
+
+  if (rescheduleRequest.status !== 'pending') {
+    return next(new AppError(`Reschedule request has already been ${rescheduleRequest.status}`, 400));
+  }
+
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return next(new AppError(`Cannot reschedule booking in ${booking.status} status`, 400));
+  }
+
+  if (rescheduleRequest.proposedDate <= new Date()) {
+    return next(new AppError('The proposed time has already passed', 400));
+  }
+
+  const provider = booking.provider as IServiceProvider;
+  const previousDate = booking.scheduledDate;
+
+  // Re-check availability and move the booking while holding the slot of the provider and any crew
+  const helpers = await crewService.getHelpers(booking);
+  await availabilityService.reserveSlots([provider, ...helpers], rescheduleRequest.proposedDate, booking.estimatedDuration, () => {
+    booking.scheduledDate = rescheduleRequest.proposedDate;
+
+    if (rescheduleRequest.fee > 0) {
+      pricingService.addCharges(booking, [{
+        name: 'Reschedule fee',
+        amount: rescheduleRequest.fee,
+        description: `Rescheduled from ${previousDate.toISOString()}`
+      }], user._id, 'Reschedule fee');
+    }
+
+    rescheduleRequest.status = 'accepted';
+    rescheduleRequest.respondedBy = user._id;
+    rescheduleRequest.respondedAt = new Date();
+
+    booking.statusHistory.push({
+      status: booking.status,
+      changedBy: user._id,
+      changedAt: new Date(),
+      reason: rescheduleRequest.reason,
+      comments: `Rescheduled from ${previousDate.toISOString()} to ${rescheduleRequest.proposedDate.toISOString()}`,
+      event: 'reschedule'
+    });
+
+    return booking.save();
+  }, { excludeBookingId: booking._id.toString(), address: booking.address });
+
+  // Let the proposer know the new time is confirmed
+  try {
+    const recipient = rescheduleRequest.proposedByRole === 'provider' ? provider.user : booking.customer;
+    if (recipient && typeof recipient === 'object' && 'email' in recipient) {
+      await emailService.sendBookingStatusUpdate(recipient, booking, 'rescheduled');
+    }
+  } catch (error) {
+    logger.error('Failed to send reschedule confirmation email:', error);
+  }
+
+  successResponse(res, 'Reschedule request accepted successfully', {
+    booking: {
+      id: booking._id,
+      bookingNumber: booking.bookingNumber,
+      scheduledDate: booking.scheduledDate,
+      pricing: booking.pricing
+    },
+    rescheduleRequest
+  });
+});
+
+/**
+ * @desc    Decline a reschedule request
+ * @route   PUT /api/v1/bookings/:id/reschedule-requests/:requestId/decline
+ * @access  Private
+ */
+export const declineRescheduleRequest = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id, requestId } = req.params;
+  const { reason } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id)
+    .populate('customer', 'name email')
+    .populate('service', 'name')
+    .populate({ path: 'provider', populate: { path: 'user', select: 'name email' } });
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const rescheduleRequest = booking.rescheduleRequests.find(request => request._id.toString() === requestId);
+  if (!rescheduleRequest) {
+    return next(new AppError('Reschedule request not found', 404));
+  }
+
+  const party = await getBookingParty(booking, user);
+  if (!party || (party !== 'admin' && party === rescheduleRequest.proposedByRole)) {
+    return next(new AppError('Only the other party can respond to this reschedule request', 403));
+  }
+
+  if (rescheduleRequest.status !== 'pending') {
+    return next(new AppError(`Reschedule request has already been ${rescheduleRequest.status}`, 400));
+  }
+
+  rescheduleRequest.status = 'declined';
+  rescheduleRequest.respondedBy = user._id;
+  rescheduleRequest.respondedAt = new Date();
+  rescheduleRequest.responseReason = reason;
+  await booking.save();
+
+  try {
+    const provider = booking.provider as IServiceProvider;
+    const recipient = rescheduleRequest.proposedByRole === 'provider' ? provider.user : booking.customer;
+    if (recipient && typeof recipient === 'object' && 'email' in recipient) {
+      await emailService.sendBookingStatusUpdate(recipient, booking, 'reschedule-declined');
+    }
+  } catch (error) {
+    logger.error('Failed to send reschedule declined email:', error);
+  }
+
+  successResponse(res, 'Reschedule request declined successfully', { rescheduleRequest });
+});
+
+/**
+ * @desc    Submit a quote for additional work
+ * @route   POST /api/v1/bookings/:id/quotes
+ * @access  Private/Provider
+ */
+export const submitQuote = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { lineItems, notes } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id)
+    .populate('customer', 'name email')
+    .populate('service', 'name');
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const party = await getBookingParty(booking, user);
+  if (party !== 'provider' && party !== 'admin') {
+    return next(new AppError('Only the assigned provider can submit quotes for this booking', 403));
+  }
+
+  if (!QUOTABLE_STATUSES.includes(booking.status)) {
+    return next(new AppError(`Cannot submit a quote for a booking in ${booking.status} status`, 400));
+  }
+
+  const items: IQuoteLineItem[] = (lineItems as Omit<IQuoteLineItem, 'amount'>[]).map(item => {
+    const quantity = item.quantity ?? 1;
+    return {
+      type: item.type,
+      description: item.description,
+      quantity,
+      unitPrice: item.unitPrice,
+      amount: Math.round(quantity * item.unitPrice)
+    };
+  });
+
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const taxAmount = Math.round(subtotal * GST_RATE);
+
+  // A new quote replaces any that the customer has not answered yet
+  booking.quotes.forEach(quote => {
+    if (quote.status === 'pending') {
+      quote.status = 'superseded';
+    }
+  });
+
+  booking.quotes.push({
+    lineItems: items,
+    subtotal,
+    taxAmount,
+    totalAmount: subtotal + taxAmount,
+    notes,
+    status: 'pending',
+    submittedBy: user._id
+  } as IQuote);
+  await booking.save();
+
+  const quote = booking.quotes[booking.quotes.length - 1];
+
+  try {
+    if (booking.customer && typeof booking.customer === 'object' && 'email' in booking.customer) {
+      await emailService.sendBookingStatusUpdate(booking.customer, booking, 'quote-submitted');
+    }
+  } catch (error) {
+    logger.error('Failed to send quote email:', error);
+  }
+
+  successResponse(res, 'Quote submitted successfully', { quote }, 201);
+});
+
+/**
+ * @desc    Get quotes and pricing history for a booking
+ * @route   GET /api/v1/bookings/:id/quotes
+ * @access  Private
+ */
+export const getBookingQuotes = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id).select('customer provider quotes pricing pricingHistory payment');
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  if (!(await getBookingParty(booking, user))) {
+    return next(new AppError('You can only access your own bookings', 403));
+  }
+
+  successResponse(res, 'Quotes retrieved successfully', {
+    quotes: booking.quotes,
+    pricing: booking.pricing,
+    pricingHistory: booking.pricingHistory,
+    amountDue: pricingService.getAmountDue(booking)
+  });
+});
+
+/**
+ * @desc    Approve a quote and add its line items to the booking price
+ * @route   PUT /api/v1/bookings/:id/quotes/:quoteId/approve
+ * @access  Private/Customer
+ */
+export const approveQuote = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id, quoteId } = req.params;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id)
+    .populate('service', 'name')
+    .populate({ path: 'provider', populate: { path: 'user', select: 'name email' } });
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const party = await getBookingParty(booking, user);
+  if (party !== 'customer' && party !== 'admin') {
+    return next(new AppError('Only the customer can approve quotes for this booking', 403));
+  }
+
+  const quote = booking.quotes.find(item => item._id.toString() === quoteId);
+  if (!quote) {
+    return next(new AppError('Quote not found', 404));
+  }
+
+  if (quote.status !== 'pending') {
+    return next(new AppError(`Quote has already been ${quote.status}`, 400));
+  }
+
+  if (!QUOTABLE_STATUSES.includes(booking.status)) {
+    return next(new AppError(`Cannot approve a quote for a booking in ${booking.status} status`, 400));
+  }
+
+  const labels = { labour: 'Labour', materials: 'Materials', other: 'Other' };
+  pricingService.addCharges(
+    booking,
+    quote.lineItems.map(item => ({
+      name: `${labels[item.type]}: ${item.description}`.slice(0, 100),
+      amount: item.amount,
+      description: item.quantity !== 1 ? `${item.quantity} x ₹${item.unitPrice}` : undefined
+    })),
+    user._id,
+    'Quote approved',
+    quote._id
+  );
+
+  quote.status = 'approved';
+  quote.respondedBy = user._id;
+  quote.respondedAt = new Date();
+
+  // Keep the work summary in line with the materials the customer paid for
+  const materials = quote.lineItems.filter(item => item.type === 'materials').map(item => item.description);
+  if (materials.length > 0) {
+    if (!booking.workSummary) {
+      booking.workSummary = {} as IWorkSummary;
+    }
+    const used = booking.workSummary.materialsUsed || [];
+    booking.workSummary.materialsUsed = [...used, ...materials.filter(material => !used.includes(material))];
+  }
+
+  await booking.save();
+
+  try {
+    const provider = booking.provider as IServiceProvider;
+    if (provider.user && typeof provider.user === 'object' && 'email' in provider.user) {
+      await emailService.sendBookingStatusUpdate(provider.user, booking, 'quote-approved');
+    }
+  } catch (error) {
+    logger.error('Failed to send quote approval email:', error);
+  }
+
+  successResponse(res, 'Quote approved successfully', {
+    quote,
+    pricing: booking.pricing,
+    amountDue: pricingService.getAmountDue(booking)
+  });
+});
+
+/**
+ * @desc    Reject a quote
+ * @route   PUT /api/v1/bookings/:id/quotes/:quoteId/reject
+ * @access  Private/Customer
+ */
+export const rejectQuote = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id, quoteId } = req.params;
+  const { reason } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(id)
+    .populate('service', 'name')
+    .populate({ path: 'provider', populate: { path: 'user', select: 'name email' } });
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const party = await getBookingParty(booking, user);
+  if (party !== 'customer' && party !== 'admin') {
+    return next(new AppError('Only the customer can reject quotes for this booking', 403));
+  }
+
+  const quote = booking.quotes.find(item => item._id.toString() === quoteId);
+  if (!quote) {
+    return next(new AppError('Quote not found', 404));
+  }
+
+  if (quote.status !== 'pending') {
+    return next(new AppError(`Quote has already been ${quote.status}`, 400));
+  }
+
+  quote.status = 'rejected';
+  quote.respondedBy = user._id;
+  quote.respondedAt = new Date();
+  quote.rejectionReason = reason;
+  await booking.save();
+
+  try {
+    const provider = booking.provider as IServiceProvider;
+    if (provider.user && typeof provider.user === 'object' && 'email' in provider.user) {
+      await emailService.sendBookingStatusUpdate(provider.user, booking, 'quote-rejected');
+    }
+  } catch (error) {
+    logger.error('Failed to send quote rejection email:', error);
+  }
+
+  successResponse(res, 'Quote rejected successfully', { quote });
+});
+
+/**
+ * @desc    Get the customer's start / completion codes for a booking
+ * @route   GET /api/v1/bookings/:id/job-codes
+ * @access  Private/Customer
+ */
+export const getJobCodes = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const booking = await jobVerificationService.findWithCodes(req.params.id!);
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  if (booking.customer.toString() !== req.user!._id.toString()) {
+    return next(new AppError('Only the customer can view job codes', 403));
+  }
+
+  if (!['confirmed', 'in-progress'].includes(booking.status)) {
+    return next(new AppError(`No job codes are needed for a booking in ${booking.status} status`, 400));
+  }
+
+  const codes = await jobVerificationService.getCustomerCodes(booking);
+
+  successResponse(res, 'Job codes retrieved successfully', codes);
+});
+
+/**
+ * @desc    Start a job with the customer's start code
+ * @route   POST /api/v1/bookings/:id/start
+ * @access  Private/Provider
+ */
+export const startJob = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const booking = await jobVerificationService.findWithCodes(req.params.id!);
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  if (await getBookingParty(booking, req.user!) !== 'provider') {
+    return next(new AppError('Only the assigned provider can start this job', 403));
+  }
+
+  await jobVerificationService.verify(booking, 'start', req.body.code, req.user!._id.toString());
+
+  successResponse(res, 'Job started successfully', {
+    booking: {
+      id: booking._id,
+      bookingNumber: booking.bookingNumber,
+      status: booking.status,
+      workStartTime: booking.workSummary?.workStartTime
+    }
+  });
+});
+
+/**
+ * @desc    Complete a job with the customer's completion code
+ * @route   POST /api/v1/bookings/:id/complete
+ * @access  Private/Provider
+ */
+export const completeJob = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const booking = await jobVerificationService.findWithCodes(req.params.id!);
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  if (await getBookingParty(booking, req.user!) !== 'provider') {
+    return next(new AppError('Only the assigned provider can complete this job', 403));
+  }
+
+  await jobVerificationService.verify(booking, 'end', req.body.code, req.user!._id.toString());
+
+  await ServiceProvider.findByIdAndUpdate(booking.provider, {
+    $inc: { completedBookings: 1 }
+  });
+  await crewService.recordCompletion(booking);
+  await warrantyService.recordCompletion(booking);
+
+  try {
+    const customer = await User.findById(booking.customer);
+    if (customer) {
+      await emailService.sendBookingStatusUpdate(customer, booking, 'completed');
+    }
+  } catch (error) {
+    logger.error('Failed to send booking status update email:', error);
+  }
+
+  successResponse(res, 'Job completed successfully', {
+    booking: {
+      id: booking._id,
+      bookingNumber: booking.bookingNumber,
+      status: booking.status,
+      workStartTime: booking.workSummary?.workStartTime,
+      workEndTime: booking.workSummary?.workEndTime,
+      actualDuration: booking.actualDuration
+    }
+  });
+});
+
+/**
+ * @desc    Check in a crew member on arrival
+ * @route   POST /api/v1/bookings/:id/crew/check-in
+ * @access  Private/Provider
+ */
+export const checkInCrewMember = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const booking = await Booking.findById(req.params.id);
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  if (booking.crew.length === 0) {
+    return next(new AppError('This booking does not have a crew', 400));
+  }
+
+  const provider = await ServiceProvider.findOne({ user: req.user!._id });
+  if (!provider) {
+    return next(new AppError('Provider profile not found', 404));
+  }
+
+  const member = await crewService.checkIn(booking, provider);
+
+  successResponse(res, 'Checked in successfully', {
+    booking: {
+      id: booking._id,
+      bookingNumber: booking.bookingNumber,
+      status: booking.status
+    },
+    member,
+    crew: booking.crew
+  });
+});
+
+/**
+ * @desc    Report that the other party did not show up
+ * @route   POST /api/v1/bookings/:id/no-show
+ * @access  Private
+ */
+export const reportNoShow = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { party, evidence, notes } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(req.params.id);
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const reporterRole = await getBookingParty(booking, user);
+  if (!reporterRole) {
+    return next(new AppError('You can only report no-shows for your own bookings', 403));
+  }
+
+  await noShowService.report(booking, { reporter: user, reporterRole, party, evidence, notes });
+
+  successResponse(res, 'No-show reported successfully', {
+    booking: {
+      id: booking._id,
+      bookingNumber: booking.bookingNumber,
+      status: booking.status,
+      noShow: booking.noShow,
+      refundAmount: booking.refundAmount
+    }
+  });
+});
+
+/**
+ * @desc    Claim a free re-visit under the service warranty
+ * @route   POST /api/v1/bookings/:id/warranty-claim
+ * @access  Private/Customer
+ */
+export const claimWarranty = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { issue, scheduledDate } = req.body;
+  const user = req.user!;
+
+  const booking = await Booking.findById(req.params.id);
+
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const revisit = await warrantyService.claim(booking, user, {
+    issue,
+    scheduledDate: new Date(scheduledDate)
+  });
+
+  const populatedRevisit = await Booking.findById(revisit._id)
+    .populate('service', 'name category warrantyDays')
+    .populate({
+      path: 'provider',
+      select: 'user',
+      populate: { path: 'user', select: 'name email phone avatar' }
+    });
+
+  try {
+    await emailService.sendBookingConfirmation(user, populatedRevisit);
+
+    const provider = populatedRevisit!.provider as IServiceProvider;
+    if (provider.user && typeof provider.user === 'object' && 'email' in provider.user) {
+      await emailService.sendBookingConfirmation(provider.user as IUser, populatedRevisit);
+    }
+  } catch (error) {
+    logger.error('Failed to send warranty re-visit emails:', error);
+  }
+
+  successResponse(res, 'Warranty claim raised successfully', { booking: populatedRevisit }, 201);
+});
+
 /**
  * @desc    Add work summary to booking
  * @route   PUT /api/v1/bookings/:id/work-summary
@@ -389,9 +1410,14 @@ export const getTodaysBookings = catchAsync(async (req: IAuthenticatedRequest, r
     providerId = provider._id;
   }
 
-  const bookings = await (Booking as any).getTodaysBookings(providerId);
+  const bookings: IBooking[] = await (Booking as any).getTodaysBookings(providerId);
 
-  successResponse(res, "Today's bookings retrieved successfully", { bookings });
+  // Providers see whether they lead each crew job or are helping on it
+  successResponse(res, "Today's bookings retrieved successfully", {
+    bookings: providerId
+      ? bookings.map(booking => ({ ...booking.toJSON(), crewRole: crewService.getCrewRole(booking, providerId.toString()) }))
+      : bookings
+  });
 });
 
 /**
@@ -501,10 +1527,29 @@ export const getBookingStats = catchAsync(async (req: IAuthenticatedRequest, res
 
 export default {
   createBooking,
+  getBookingQuote,
   getUserBookings,
   getBookingById,
+  downloadBookingCalendar,
   updateBookingStatus,
   cancelBooking,
+  getBookingOffers,
+  acceptBooking,
+  declineBooking,
+  transferBooking,
+  createRescheduleRequest,
+  acceptRescheduleRequest,
+  declineRescheduleRequest,
+  submitQuote,
+  getBookingQuotes,
+  approveQuote,
+  rejectQuote,
+  getJobCodes,
+  startJob,
+  completeJob,
+  checkInCrewMember,
+  reportNoShow,
+  claimWarranty,
   addWorkSummary,
   getTodaysBookings,
   getUpcomingBookings,
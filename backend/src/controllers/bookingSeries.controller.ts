@@ -0,0 +1,240 @@
+import { Response, NextFunction } from 'express';
+import Booking from '@/models/Booking.model';
+import BookingSeries from '@/models/BookingSeries.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import Service from '@/models/Service.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAuthenticatedRequest, IBookingSeries, IUser } from '@/types';
+import availabilityService from '@/services/availability.service';
+import bookingSeriesService from '@/services/bookingSeries.service';
+
+// Load a series and make sure the user is its customer, its provider or an admin
+const findAccessibleSeries = async (id: string, user: IUser): Promise<IBookingSeries> => {
+  const series = await BookingSeries.findById(id);
+
+  if (!series) {
+    throw new AppError('Booking series not found', 404);
+  }
+
+  if (user.role === 'admin' || series.customer.toString() === user._id.toString()) {
+    return series;
+  }
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (provider && series.provider.toString() === provider._id.toString()) {
+      return series;
+    }
+  }
+
+  throw new AppError('You can only access your own booking series', 403);
+};
+
+/**
+ * @desc    Create recurring booking series
+ * @route   POST /api/v1/booking-series
+ * @access  Private/Customer
+ */
+export const createBookingSeries = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const {
+    providerId,
+    serviceId,
+    startDate,
+    frequency,
+    until,
+    count,
+    address,
+    contactPhone,
+    specialInstructions
+  } = req.body;
+
+  const user = req.user!;
+
+  // Validate provider exists and is available
+  const provider = await ServiceProvider.findById(providerId);
+  if (!provider || !provider.isAvailable) {
+    return next(new AppError('Service provider not found or unavailable', 404));
+  }
+
+  // Validate service exists and is active
+  const service = await Service.findById(serviceId);
+  if (!service || !service.isActive) {
+    return next(new AppError('Service not found or unavailable', 404));
+  }
+
+  // Check if provider offers this service
+  if (!provider.services.some(id => id.toString() === serviceId)) {
+    return next(new AppError('This provider does not offer the selected service', 400));
+  }
+
+  const firstOccurrence = new Date(startDate);
+  if (firstOccurrence <= new Date()) {
+    return next(new AppError('Start date must be in the future', 400));
+  }
+
+  let endDate: Date | undefined;
+  if (until) {
+    // The series runs through the whole of its last day
+    endDate = new Date(until);
+    endDate.setHours(23, 59, 59, 999);
+
+    if (endDate < firstOccurrence) {
+      return next(new AppError('End date must be after the start date', 400));
+    }
+  }
+
+  if (!(await availabilityService.isSlotAvailable(provider, firstOccurrence, service.duration, { address }))) {
+    return next(new AppError('The provider is not available at the selected time', 409));
+  }
+
+  const series = await BookingSeries.create({
+    customer: user._id,
+    provider: providerId,
+    service: serviceId,
+    recurrence: {
+      frequency,
+      startDate: firstOccurrence,
+      until: endDate,
+      count
+    },
+    estimatedDuration: service.duration,
+    address,
+    contactPhone: contactPhone || user.phone,
+    specialInstructions
+  });
+
+  const occurrences = await bookingSeriesService.materializeSeries(series);
+
+  successResponse(res, 'Booking series created successfully', { series, occurrences }, 201);
+});
+
+/**
+ * @desc    Get user's booking series
+ * @route   GET /api/v1/booking-series
+ * @access  Private
+ */
+export const getMyBookingSeries = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { status } = req.query;
+  const user = req.user!;
+
+  const query: any = {};
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (!provider) {
+      successResponse(res, 'No booking series found', { series: [] });
+      return;
+    }
+    query.provider = provider._id;
+  } else if (user.role !== 'admin') {
+    query.customer = user._id;
+  }
+
+  if (status) {
+    query.status = status;
+  }
+
+  const series = await BookingSeries.find(query)
+    .populate('service', 'name category basePrice duration')
+    .populate({
+      path: 'provider',
+      select: 'user rating',
+      populate: { path: 'user', select: 'name phone avatar' }
+    })
+    .sort({ createdAt: -1 });
+
+  successResponse(res, 'Booking series retrieved successfully', { series });
+});
+
+/**
+ * @desc    Get booking series with its occurrences
+ * @route   GET /api/v1/booking-series/:id
+ * @access  Private
+ */
+export const getBookingSeriesById = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const series = await findAccessibleSeries(req.params.id!, req.user!);
+
+  const occurrences = await Booking.find({ series: series._id })
+    .select('bookingNumber occurrenceIndex scheduledDate status pricing payment')
+    .sort({ occurrenceIndex: 1 });
+
+  successResponse(res, 'Booking series retrieved successfully', { series, occurrences });
+});
+
+/**
+ * @desc    Skip a single occurrence
+ * @route   POST /api/v1/booking-series/:id/occurrences/:index/skip
+ * @access  Private
+ */
+export const skipOccurrence = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { reason } = req.body;
+  const index = parseInt(req.params.index!, 10);
+  const series = await findAccessibleSeries(req.params.id!, req.user!);
+
+  const booking = await bookingSeriesService.skipOccurrence(series, index, req.user!, reason);
+
+  successResponse(res, 'Occurrence skipped successfully', {
+    occurrenceIndex: index,
+    booking: booking && {
+      id: booking._id,
+      bookingNumber: booking.bookingNumber,
+      status: booking.status,
+      refundAmount: booking.refundAmount
+    }
+  });
+});
+
+/**
+ * @desc    Reschedule a single occurrence
+ * @route   PUT /api/v1/booking-series/:id/occurrences/:index/reschedule
+ * @access  Private
+ */
+export const rescheduleOccurrence = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { scheduledDate, reason } = req.body;
+  const index = parseInt(req.params.index!, 10);
+  const series = await findAccessibleSeries(req.params.id!, req.user!);
+
+  const booking = await bookingSeriesService.rescheduleOccurrence(series, index, new Date(scheduledDate), reason);
+
+  successResponse(res, 'Occurrence rescheduled successfully', {
+    occurrenceIndex: index,
+    scheduledDate: new Date(scheduledDate),
+    booking: booking && {
+      id: booking._id,
+      bookingNumber: booking.bookingNumber,
+      status: booking.status,
+      scheduledDate: booking.scheduledDate
+    }
+  });
+});
+
+/**
+ * @desc    Cancel booking series and all upcoming occurrences
+ * @route   DELETE /api/v1/booking-series/:id
+ * @access  Private
+ */
+export const cancelBookingSeries = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { reason } = req.body;
+  const series = await findAccessibleSeries(req.params.id!, req.user!);
+
+  const cancelledOccurrences = await bookingSeriesService.cancelSeries(series, req.user!, reason);
+
+  successResponse(res, 'Booking series cancelled successfully', {
+    series: {
+      id: series._id,
+      seriesNumber: series.seriesNumber,
+      status: series.status,
+      cancelledBy: series.cancelledBy
+    },
+    cancelledOccurrences
+  });
+});
+
+export default {
+  createBookingSeries,
+  getMyBookingSeries,
+  getBookingSeriesById,
+  skipOccurrence,
+  rescheduleOccurrence,
+  cancelBookingSeries
+};
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import User from '@/models/User.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAuthenticatedRequest, IBooking } from '@/types';
+import { config } from '@/config/env';
+import calendarService from '@/services/calendar.service';
+
+/**
+ * @desc    Create (or replace) the user's calendar subscription feed
+ * @route   POST /api/v1/calendar/feed
+ * @access  Private
+ */
+export const createCalendarFeed = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const user = await User.findById(req.user!._id);
+  const token = user!.generateCalendarFeedToken();
+  await user!.save({ validateBeforeSave: false });
+
+  // The token is only ever shown here; the database holds its hash
+  successResponse(res, 'Calendar feed created successfully', {
+    url: `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}.ics`,
+    createdAt: user!.calendarFeedCreatedAt
+  }, 201);
+});
+
+/**
+ * @desc    Revoke the user's calendar subscription feed
+ * @route   DELETE /api/v1/calendar/feed
+ * @access  Private
+ */
+export const revokeCalendarFeed = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  await User.updateOne(
+    { _id: req.user!._id },
+    { $unset: { calendarFeedToken: 1, calendarFeedCreatedAt: 1 } }
+  );
+
+  successResponse(res, 'Calendar feed revoked successfully');
+});
+
+/**
+ * @desc    Calendar subscription feed with all of a user's bookings
+ * @route   GET /api/v1/calendar/feed/:token.ics
+ * @access  Public (secured with the feed token)
+ */
+export const getCalendarFeed = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const hashedToken = crypto
+    .createHash('sha256')
+    .update(req.params.token!)
+    .digest('hex');
+
+  const user = await User.findOne({ calendarFeedToken: hashedToken, isActive: true });
+  if (!user) {
+    return next(new AppError('Calendar feed not found', 404));
+  }
+
+  const limit = config.booking.calendarFeedMaxEvents;
+  let bookings: IBooking[] = [];
+  let audience: 'customer' | 'provider' = 'customer';
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (provider) {
+      bookings = await Booking.findByProvider(provider._id.toString(), undefined, 1, limit);
+    }
+    audience = 'provider';
+  } else {
+    bookings = await Booking.findByCustomer(user._id.toString(), undefined, 1, limit);
+  }
+
+  const calendar = calendarService.buildFeed(bookings, audience, `${user.name} - Deshi Sahayak bookings`);
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.status(200).send(calendar);
+});
+
+export default {
+  createCalendarFeed,
+  revokeCalendarFeed,
+  getCalendarFeed
+};
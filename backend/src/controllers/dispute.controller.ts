@@ -0,0 +1,200 @@
+import { Response, NextFunction } from 'express';
+import Booking from '@/models/Booking.model';
+import Dispute from '@/models/Dispute.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAuthenticatedRequest, IDispute, IUser } from '@/types';
+import disputeService from '@/services/dispute.service';
+
+// Load a dispute and make sure the user is its customer, its provider or an admin
+const findAccessibleDispute = async (id: string, user: IUser): Promise<IDispute> => {
+  const dispute = await Dispute.findById(id);
+
+  if (!dispute) {
+    throw new AppError('Dispute not found', 404);
+  }
+
+  if (user.role === 'admin') {
+    return dispute;
+  }
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (provider && dispute.provider.toString() === provider._id.toString()) {
+      return dispute;
+    }
+  } else if (dispute.customer.toString() === user._id.toString()) {
+    return dispute;
+  }
+
+  throw new AppError('You can only access disputes about your own bookings', 403);
+};
+
+// Files uploaded through uploadDisputeEvidence
+const getUploadedFiles = (req: IAuthenticatedRequest) =>
+  ((req.files as Express.Multer.File[] | undefined) || []).map(file => ({
+    url: file.path,
+    publicId: file.filename
+  }));
+
+/**
+ * @desc    Raise a dispute about a booking
+ * @route   POST /api/v1/disputes
+ * @access  Private/Customer
+ */
+export const createDispute = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { bookingId, category, description } = req.body;
+
+  const booking = await Booking.findById(bookingId);
+  if (!booking) {
+    return next(new AppError('Booking not found', 404));
+  }
+
+  const dispute = await disputeService.open(booking, req.user!, {
+    category,
+    description,
+    evidence: getUploadedFiles(req)
+  });
+
+  successResponse(res, 'Dispute raised successfully', { dispute }, 201);
+});
+
+/**
+ * @desc    Get disputes the user is party to (all disputes for admins)
+ * @route   GET /api/v1/disputes
+ * @access  Private
+ */
+export const getDisputes = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { status, category, page = 1, limit = 20 } = req.query;
+  const user = req.user!;
+
+  const query: any = {};
+
+  if (user.role === 'provider') {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (!provider) {
+      return next(new AppError('Provider profile not found', 404));
+    }
+    query.provider = provider._id;
+  } else if (user.role !== 'admin') {
+    query.customer = user._id;
+  }
+
+  if (status) {
+    query.status = status;
+  }
+
+  if (category) {
+    query.category = category;
+  }
+
+  const pageNumber = parseInt(page as string, 10);
+  const limitNumber = parseInt(limit as string, 10);
+
+  const [disputes, totalCount] = await Promise.all([
+    Dispute.find(query)
+      .select('-messages')
+      .populate('booking', 'bookingNumber scheduledDate status pricing payment')
+      .sort({ createdAt: -1 })
+      .skip((pageNumber - 1) * limitNumber)
+      .limit(limitNumber),
+    Dispute.countDocuments(query)
+  ]);
+
+  successResponse(res, 'Disputes retrieved successfully', {
+    disputes,
+    pagination: {
+      currentPage: pageNumber,
+      totalPages: Math.ceil(totalCount / limitNumber),
+      totalCount,
+      hasNextPage: pageNumber * limitNumber < totalCount,
+      hasPrevPage: pageNumber > 1
+    }
+  });
+});
+
+/**
+ * @desc    Get a dispute with its conversation
+ * @route   GET /api/v1/disputes/:id
+ * @access  Private
+ */
+export const getDisputeById = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const dispute = await findAccessibleDispute(req.params.id!, req.user!);
+
+  await dispute.populate([
+    { path: 'booking', select: 'bookingNumber service scheduledDate status pricing payment refundAmount' },
+    { path: 'messages.author', select: 'name avatar role' }
+  ]);
+
+  successResponse(res, 'Dispute retrieved successfully', { dispute });
+});
+
+/**
+ * @desc    Post a message, with optional attachments, to the dispute conversation
+ * @route   POST /api/v1/disputes/:id/messages
+ * @access  Private
+ */
+export const addDisputeMessage = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const dispute = await findAccessibleDispute(req.params.id!, req.user!);
+
+  const attachments = getUploadedFiles(req).map(file => file.url);
+  const message = await disputeService.addMessage(dispute, req.user!, req.body.body, attachments);
+
+  successResponse(res, 'Message posted successfully', { message }, 201);
+});
+
+/**
+ * @desc    Ask the support team to step in
+ * @route   POST /api/v1/disputes/:id/escalate
+ * @access  Private/Customer/Provider
+ */
+export const escalateDispute = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const dispute = await findAccessibleDispute(req.params.id!, req.user!);
+
+  await disputeService.escalate(dispute, req.user!);
+
+  successResponse(res, 'Dispute escalated successfully', { dispute });
+});
+
+/**
+ * @desc    Withdraw a dispute
+ * @route   POST /api/v1/disputes/:id/withdraw
+ * @access  Private/Customer
+ */
+export const withdrawDispute = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const dispute = await findAccessibleDispute(req.params.id!, req.user!);
+
+  await disputeService.withdraw(dispute);
+
+  successResponse(res, 'Dispute withdrawn successfully', { dispute });
+});
+
+/**
+ * @desc    Resolve a dispute and apply the outcome to the booking
+ * @route   POST /api/v1/disputes/:id/resolve
+ * @access  Private/Admin
+ */
+export const resolveDispute = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const dispute = await findAccessibleDispute(req.params.id!, req.user!);
+  const { outcome, refundAmount, penaltyPoints, scheduledDate, notes } = req.body;
+
+  await disputeService.resolve(dispute, req.user!, {
+    outcome,
+    refundAmount: refundAmount !== undefined ? Number(refundAmount) : undefined,
+    penaltyPoints: penaltyPoints !== undefined ? Number(penaltyPoints) : undefined,
+    scheduledDate: scheduledDate ? new Date(scheduledDate) : undefined,
+    notes
+  });
+
+  successResponse(res, 'Dispute resolved successfully', { dispute });
+});
+
+export default {
+  createDispute,
+  getDisputes,
+  getDisputeById,
+  addDisputeMessage,
+  escalateDispute,
+  withdrawDispute,
+  resolveDispute
+};
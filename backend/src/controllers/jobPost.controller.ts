@@ -0,0 +1,252 @@
+import { Response, NextFunction } from 'express';
+import JobBid from '@/models/JobBid.model';
+import JobPost from '@/models/JobPost.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAuthenticatedRequest, IJobBid, IJobPost, IServiceProvider, IUser } from '@/types';
+import jobPostService from '@/services/jobPost.service';
+
+// Load the provider profile of the signed-in provider
+const findProviderProfile = async (user: IUser): Promise<IServiceProvider> => {
+  const provider = await ServiceProvider.findOne({ user: user._id });
+
+  if (!provider) {
+    throw new AppError('Provider profile not found', 404);
+  }
+
+  return provider;
+};
+
+// Load a job post and its bid, making sure the bid belongs to the post
+const findPostAndBid = async (postId: string, bidId: string): Promise<{ jobPost: IJobPost; bid: IJobBid }> => {
+  const [jobPost, bid] = await Promise.all([JobPost.findById(postId), JobBid.findById(bidId)]);
+
+  if (!jobPost) {
+    throw new AppError('Job post not found', 404);
+  }
+
+  if (!bid || bid.jobPost.toString() !== jobPost._id.toString()) {
+    throw new AppError('Bid not found', 404);
+  }
+
+  return { jobPost, bid };
+};
+
+/**
+ * @desc    Get job posts (customer's own, open posts a provider can bid on, or all for admins)
+ * @route   GET /api/v1/job-posts
+ * @access  Private
+ */
+export const getJobPosts = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { status, page = 1, limit = 20 } = req.query;
+  const user = req.user!;
+
+  let query: any = {};
+
+  if (user.role === 'provider') {
+    query = jobPostService.getOpenPostsQuery(await findProviderProfile(user));
+  } else {
+    if (user.role !== 'admin') {
+      query.customer = user._id;
+    }
+
+    if (status) {
+      query.status = status;
+    }
+  }
+
+  const pageNumber = parseInt(page as string, 10);
+  const limitNumber = parseInt(limit as string, 10);
+
+  const [jobPosts, totalCount] = await Promise.all([
+    JobPost.find(query)
+      .populate('service', 'name category')
+      .sort({ createdAt: -1 })
+      .skip((pageNumber - 1) * limitNumber)
+      .limit(limitNumber),
+    JobPost.countDocuments(query)
+  ]);
+
+  successResponse(res, 'Job posts retrieved successfully', {
+    jobPosts,
+    pagination: {
+      currentPage: pageNumber,
+      totalPages: Math.ceil(totalCount / limitNumber),
+      totalCount,
+      hasNextPage: pageNumber * limitNumber < totalCount,
+      hasPrevPage: pageNumber > 1
+    }
+  });
+});
+
+/**
+ * @desc    Post a job for providers to bid on, with photos under "images"
+ * @route   POST /api/v1/job-posts
+ * @access  Private/Customer
+ */
+export const createJobPost = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { serviceId, title, description, budget, preferredDates, address, contactPhone } = req.body;
+  const user = req.user!;
+
+  const images = ((req.files as Express.Multer.File[] | undefined) || []).map(file => file.path);
+
+  const jobPost = await jobPostService.create(user, {
+    serviceId,
+    title,
+    description,
+    images,
+    budget: {
+      min: budget.min !== undefined ? Number(budget.min) : undefined,
+      max: Number(budget.max)
+    },
+    preferredDates: ([] as string[]).concat(preferredDates).map(date => new Date(date)),
+    address,
+    contactPhone: contactPhone || user.phone
+  });
+
+  successResponse(res, 'Job posted successfully', { jobPost }, 201);
+});
+
+/**
+ * @desc    Get a job post with its bids. Customers see every bid; providers see their own.
+ * @route   GET /api/v1/job-posts/:id
+ * @access  Private
+ */
+export const getJobPostById = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const user = req.user!;
+  const jobPost = await JobPost.findById(req.params.id).populate('service', 'name category');
+
+  if (!jobPost) {
+    return next(new AppError('Job post not found', 404));
+  }
+
+  const bidQuery: any = { jobPost: jobPost._id };
+
+  if (user.role === 'provider') {
+    const provider = await findProviderProfile(user);
+    bidQuery.provider = provider._id;
+
+    const hasBid = await JobBid.exists(bidQuery);
+    if (!hasBid && (jobPost.status !== 'open' || !jobPostService.canBid(provider, jobPost))) {
+      return next(new AppError('This job is not open to you', 403));
+    }
+  } else if (user.role !== 'admin' && jobPost.customer.toString() !== user._id.toString()) {
+    return next(new AppError('You can only view your own job posts', 403));
+  }
+
+  const bids = await JobBid.find(bidQuery)
+    .populate({
+      path: 'provider',
+      select: 'user experience rating totalReviews completedBookings',
+      populate: { path: 'user', select: 'name avatar' }
+    })
+    .sort({ amount: 1 });
+
+  successResponse(res, 'Job post retrieved successfully', { jobPost, bids });
+});
+
+/**
+ * @desc    Take a job post down before a bid is accepted
+ * @route   POST /api/v1/job-posts/:id/cancel
+ * @access  Private/Customer
+ */
+export const cancelJobPost = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const jobPost = await JobPost.findById(req.params.id);
+
+  if (!jobPost) {
+    return next(new AppError('Job post not found', 404));
+  }
+
+  await jobPostService.cancel(jobPost, req.user!);
+
+  successResponse(res, 'Job post cancelled successfully', { jobPost });
+});
+
+/**
+ * @desc    Get the signed-in provider's bids
+ * @route   GET /api/v1/job-posts/bids
+ * @access  Private/Provider
+ */
+export const getMyJobBids = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { status } = req.query;
+  const provider = await findProviderProfile(req.user!);
+
+  const query: any = { provider: provider._id };
+  if (status) {
+    query.status = status;
+  }
+
+  const bids = await JobBid.find(query)
+    .populate('jobPost', 'postNumber title status expiresAt address.city booking')
+    .sort({ createdAt: -1 });
+
+  successResponse(res, 'Bids retrieved successfully', { bids });
+});
+
+/**
+ * @desc    Bid on a job with a price and start date
+ * @route   POST /api/v1/job-posts/:id/bids
+ * @access  Private/Provider
+ */
+export const submitJobBid = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { amount, proposedDate, estimatedDuration, message } = req.body;
+
+  const jobPost = await JobPost.findById(req.params.id);
+  if (!jobPost) {
+    return next(new AppError('Job post not found', 404));
+  }
+
+  const provider = await findProviderProfile(req.user!);
+
+  const bid = await jobPostService.submitBid(jobPost, provider, {
+    amount: Number(amount),
+    proposedDate: new Date(proposedDate),
+    estimatedDuration: Number(estimatedDuration),
+    message
+  });
+
+  successResponse(res, 'Bid submitted successfully', { bid }, 201);
+});
+
+/**
+ * @desc    Withdraw a pending bid
+ * @route   POST /api/v1/job-posts/:id/bids/:bidId/withdraw
+ * @access  Private/Provider
+ */
+export const withdrawJobBid = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { jobPost, bid } = await findPostAndBid(req.params.id!, req.params.bidId!);
+  const provider = await findProviderProfile(req.user!);
+
+  await jobPostService.withdrawBid(jobPost, bid, provider);
+
+  successResponse(res, 'Bid withdrawn successfully', { bid });
+});
+
+/**
+ * @desc    Accept a bid and book the provider at the bid price
+ * @route   POST /api/v1/job-posts/:id/bids/:bidId/accept
+ * @access  Private/Customer
+ */
+export const acceptJobBid = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { jobPost, bid } = await findPostAndBid(req.params.id!, req.params.bidId!);
+
+  const result = await jobPostService.acceptBid(jobPost, bid, req.user!);
+
+  await result.booking.populate([
+    { path: 'service', select: 'name category' },
+    { path: 'provider', select: 'user rating', populate: { path: 'user', select: 'name phone' } }
+  ]);
+
+  successResponse(res, 'Bid accepted and booking confirmed', result, 201);
+});
+
+export default {
+  getJobPosts,
+  createJobPost,
+  getJobPostById,
+  cancelJobPost,
+  getMyJobBids,
+  submitJobBid,
+  withdrawJobBid,
+  acceptJobBid
+};
@@ -0,0 +1,217 @@
+import { Response, NextFunction } from 'express';
+import Booking from '@/models/Booking.model';
+import Order from '@/models/Order.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAuthenticatedRequest, IOrder, IUser } from '@/types';
+import logger from '@/config/logger';
+import emailService from '@/services/email.service';
+import orderService from '@/services/order.service';
+import paymentService from '@/services/payment.service';
+
+// Load an order and make sure the user is its customer or an admin
+const findAccessibleOrder = async (id: string, user: IUser): Promise<IOrder> => {
+  const order = await Order.findById(id);
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (user.role !== 'admin' && order.customer.toString() !== user._id.toString()) {
+    throw new AppError('You can only access your own orders', 403);
+  }
+
+  return order;
+};
+
+/**
+ * @desc    Check out several services as one order
+ * @route   POST /api/v1/orders
+ * @access  Private/Customer
+ */
+export const createOrder = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { items, address, contactPhone, couponCode } = req.body;
+  const user = req.user!;
+
+  const { order } = await orderService.checkout({
+    customer: user,
+    lines: items,
+    address,
+    contactPhone: contactPhone || user.phone,
+    couponCode
+  });
+
+  const populatedBookings = await Booking.find({ order: order._id })
+    .populate('service', 'name category basePrice duration')
+    .populate({
+      path: 'provider',
+      select: 'user hourlyRate',
+      populate: { path: 'user', select: 'name phone avatar' }
+    })
+    .sort({ scheduledDate: 1 });
+
+  // Send confirmation emails
+  try {
+    for (const booking of populatedBookings) {
+      await emailService.sendBookingConfirmation(user, booking);
+
+      const provider = await ServiceProvider.findById(booking.provider).populate('user');
+      if (provider?.user && typeof provider.user === 'object' && 'email' in provider.user) {
+        await emailService.sendBookingConfirmation(provider.user, booking);
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to send order confirmation emails:', error);
+  }
+
+  successResponse(res, 'Order created successfully', { order, bookings: populatedBookings }, 201);
+});
+
+/**
+ * @desc    Get user's orders
+ * @route   GET /api/v1/orders
+ * @access  Private
+ */
+export const getMyOrders = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const { status, page = 1, limit = 20 } = req.query;
+  const user = req.user!;
+
+  const query: any = {};
+
+  if (user.role !== 'admin') {
+    query.customer = user._id;
+  }
+
+  if (status) {
+    query.status = status;
+  }
+
+  const pageNumber = parseInt(page as string, 10);
+  const limitNumber = parseInt(limit as string, 10);
+
+  const [orders, totalCount] = await Promise.all([
+    Order.find(query)
+      .populate('lines.service', 'name category')
+      .sort({ createdAt: -1 })
+      .skip((pageNumber - 1) * limitNumber)
+      .limit(limitNumber),
+    Order.countDocuments(query)
+  ]);
+
+  successResponse(res, 'Orders retrieved successfully', {
+    orders,
+    pagination: {
+      currentPage: pageNumber,
+      totalPages: Math.ceil(totalCount / limitNumber),
+      totalCount,
+      hasNextPage: pageNumber * limitNumber < totalCount,
+      hasPrevPage: pageNumber > 1
+    }
+  });
+});
+
+/**
+ * @desc    Get order with its bookings
+ * @route   GET /api/v1/orders/:id
+ * @access  Private
+ */
+export const getOrderById = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const order = await findAccessibleOrder(req.params.id!, req.user!);
+
+  const bookings = await Booking.find({ order: order._id })
+    .select('bookingNumber service provider scheduledDate status pricing payment')
+    .populate('service', 'name category')
+    .sort({ scheduledDate: 1 });
+
+  successResponse(res, 'Order retrieved successfully', { order, bookings });
+});
+
+/**
+ * @desc    Create one payment order for everything due on the order
+ * @route   POST /api/v1/orders/:id/pay
+ * @access  Private/Customer
+ */
+export const createOrderPayment = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const order = await findAccessibleOrder(req.params.id!, req.user!);
+
+  if (order.customer.toString() !== req.user!._id.toString()) {
+    return next(new AppError('You can only pay for your own orders', 403));
+  }
+
+  const paymentOrder = await orderService.createPaymentOrder(order, req.body.gateway);
+
+  successResponse(res, 'Payment order created successfully', {
+    orderId: paymentOrder.id,
+    amount: paymentOrder.amount,
+    currency: paymentOrder.currency,
+    gateway: paymentOrder.gateway,
+    clientSecret: paymentOrder.clientSecret,
+    checkout: paymentOrder.checkout,
+    checkoutOrderId: order._id,
+    orderNumber: order.orderNumber
+  });
+});
+
+/**
+ * @desc    Verify the order payment and split it across the bookings
+ * @route   POST /api/v1/orders/:id/verify
+ * @access  Private/Customer
+ */
+export const verifyOrderPayment = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const verification = paymentService.getVerificationFields(req.body);
+
+  if (!verification.orderId || !verification.paymentId) {
+    return next(new AppError('All payment verification fields are required', 400));
+  }
+
+  const order = await findAccessibleOrder(req.params.id!, req.user!);
+
+  if (order.customer.toString() !== req.user!._id.toString()) {
+    return next(new AppError('You can only verify payments for your own orders', 403));
+  }
+
+  if (!order.payment.gatewayOrderId || order.payment.gatewayOrderId !== verification.orderId) {
+    return next(new AppError('Payment does not belong to this order', 400));
+  }
+
+  const gateway = order.payment.gateway || 'razorpay';
+  const isPaymentValid = await paymentService.verifyPayment(gateway, verification);
+
+  if (!isPaymentValid) {
+    return next(new AppError('Invalid payment signature', 400));
+  }
+
+  const paymentDetails = await paymentService.getPaymentDetails(verification.paymentId, gateway);
+
+  // Held payments are recorded by the payment.captured webhook once captured
+  if (paymentDetails.status === 'authorized') {
+    return successResponse(res, 'Payment authorized and awaiting capture', {
+      order,
+      paymentId: verification.paymentId,
+      amount: paymentDetails.amount,
+      status: 'authorized'
+    }, 202);
+  }
+
+  const updated = await orderService.recordPayment(
+    order,
+    verification.paymentId,
+    paymentDetails.amount,
+    gateway
+  );
+
+  successResponse(res, 'Payment verified successfully', {
+    order: updated,
+    paymentId: verification.paymentId,
+    amount: paymentDetails.amount,
+    status: 'paid'
+  });
+});
+
+export default {
+  createOrder,
+  getMyOrders,
+  getOrderById,
+  createOrderPayment,
+  verifyOrderPayment
+};
@@ -4,14 +4,17 @@ import { AppError, catchAsync, successResponse } from '@/middleware/error.middle
 import { IAuthenticatedRequest } from '@/types';
 import logger from '@/config/logger';
 import paymentService from '@/services/payment.service';
+import fakePaymentGateway, { FakeCheckoutOutcome, FakeWebhookEvent } from '@/services/gateways/fake.gateway';
+import pricingService from '@/services/pricing.service';
+import walletService from '@/services/wallet.service';
 
 /**
- * @desc    Create payment order for booking
+ * @desc    Create payment order for booking, paying first from the wallet when asked
  * @route   POST /api/v1/payments/create-order
  * @access  Private
  */
 export const createOrder = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
-  const { bookingId } = req.body;
+  const { bookingId, gateway, useWallet, walletAmount } = req.body;
   const user = req.user!;
 
   if (!bookingId) {
@@ -32,24 +35,51 @@ export const createOrder = catchAsync(async (req: IAuthenticatedRequest, res: Re
     return next(new AppError('You can only create payment orders for your own bookings', 403));
   }
 
-  // Check if booking is in valid state for payment
-  if (!['pending', 'confirmed'].includes(booking.status)) {
+  // Check if booking is in valid state for payment (approved quotes can leave a balance after work starts)
+  if (!['pending', 'confirmed', 'in-progress', 'completed'].includes(booking.status)) {
     return next(new AppError('Cannot create payment order for this booking status', 400));
   }
 
   // Check if payment is already completed
-  if (booking.payment.status === 'paid') {
+  if (pricingService.getAmountDue(booking) === 0) {
     return next(new AppError('Payment already completed for this booking', 400));
   }
 
+  // Unknown, unconfigured or unsuitable gateways are reported as they are
+  const selected = paymentService.selectGateway(undefined, gateway);
+
+  // The wallet pays what it can; the gateway is only needed for the remainder
+  if (useWallet) {
+    const walletPayment = await walletService.payBooking(booking, walletAmount);
+
+    if (pricingService.getAmountDue(booking) === 0) {
+      if (booking.status === 'pending') {
+        await booking.updateStatus('confirmed', user._id.toString(), 'Paid from wallet');
+      }
+
+      return successResponse(res, 'Booking paid from wallet', {
+        amount: 0,
+        walletAmount: walletPayment.amount,
+        walletBalance: walletPayment.balanceAfter,
+        bookingId: booking._id,
+        bookingNumber: booking.bookingNumber,
+        status: 'paid'
+      });
+    }
+  }
+
   try {
     // Create payment order
-    const paymentOrder = await paymentService.createBookingPaymentOrder(booking);
+    const paymentOrder = await paymentService.createBookingPaymentOrder(booking, selected.name);
 
     successResponse(res, 'Payment order created successfully', {
       orderId: paymentOrder.id,
       amount: paymentOrder.amount,
+      walletAmount: booking.payment.walletAmount || 0,
       currency: paymentOrder.currency,
+      gateway: paymentOrder.gateway,
+      clientSecret: paymentOrder.clientSecret,
+      checkout: paymentOrder.checkout,
       bookingId: booking._id,
       bookingNumber: booking.bookingNumber
     });
@@ -65,17 +95,13 @@ export const createOrder = catchAsync(async (req: IAuthenticatedRequest, res: Re
  * @access  Private
  */
 export const verifyPayment = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
-  const {
-    razorpay_order_id,
-    razorpay_payment_id,
-    razorpay_signature,
-    bookingId
-  } = req.body;
+  const { bookingId } = req.body;
+  const verification = paymentService.getVerificationFields(req.body);
 
   const user = req.user!;
 
   // Validate required fields
-  if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature || !bookingId) {
+  if (!verification.orderId || !verification.paymentId || !bookingId) {
     return next(new AppError('All payment verification fields are required', 400));
   }
 
@@ -93,27 +119,40 @@ export const verifyPayment = catchAsync(async (req: IAuthenticatedRequest, res:
     return next(new AppError('You can only verify payments for your own bookings', 403));
   }
 
+  if (!booking.payment.gatewayOrderId || booking.payment.gatewayOrderId !== verification.orderId) {
+    return next(new AppError('Payment does not belong to this booking', 400));
+  }
+
+  const gateway = paymentService.getBookingGateway(booking);
+
   try {
-    // Verify payment signature
-    const isSignatureValid = paymentService.verifyPaymentSignature({
-      razorpay_order_id,
-      razorpay_payment_id,
-      razorpay_signature
-    });
+    // Verify the payment with the gateway that took it
+    const isPaymentValid = await paymentService.verifyPayment(gateway, verification);
 
-    if (!isSignatureValid) {
+    if (!isPaymentValid) {
       return next(new AppError('Invalid payment signature', 400));
     }
 
-    // Get payment details from Razorpay
-    const paymentDetails = await paymentService.getPaymentDetails(razorpay_payment_id);
+    const paymentDetails = await paymentService.getPaymentDetails(verification.paymentId, gateway);
+
+    // Held payments are recorded by the payment.captured webhook once captured
+    if (paymentDetails.status === 'authorized') {
+      return successResponse(res, 'Payment authorized and awaiting capture', {
+        bookingId: booking._id,
+        bookingNumber: booking.bookingNumber,
+        paymentId: verification.paymentId,
+        gateway,
+        amount: paymentDetails.amount,
+        status: 'authorized'
+      }, 202);
+    }
 
     // Update booking payment status
-    await booking.updatePaymentStatus(
-      'paid',
-      razorpay_payment_id,
-      'razorpay',
-      paymentDetails.amount / 100 // Convert from paise to rupees
+    await paymentService.recordBookingPayment(
+      booking,
+      verification.paymentId,
+      gateway,
+      paymentDetails.amount
     );
 
     // Auto-confirm booking after successful payment
@@ -124,8 +163,9 @@ export const verifyPayment = catchAsync(async (req: IAuthenticatedRequest, res:
     successResponse(res, 'Payment verified successfully', {
       bookingId: booking._id,
       bookingNumber: booking.bookingNumber,
-      paymentId: razorpay_payment_id,
-      amount: paymentDetails.amount / 100,
+      paymentId: verification.paymentId,
+      gateway,
+      amount: paymentDetails.amount,
       status: 'paid'
     });
 
@@ -141,7 +181,7 @@ export const verifyPayment = catchAsync(async (req: IAuthenticatedRequest, res:
  * @access  Private
  */
 export const createPaymentLink = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
-  const { bookingId } = req.body;
+  const { bookingId, gateway } = req.body;
   const user = req.user!;
 
   if (!bookingId) {
@@ -162,25 +202,38 @@ export const createPaymentLink = catchAsync(async (req: IAuthenticatedRequest, r
     return next(new AppError('You can only create payment links for your own bookings', 403));
   }
 
+  const selected = paymentService.selectGateway(undefined, gateway);
+
   try {
     const customer = booking.customer as any;
     const service = booking.service as any;
 
+    const amountDue = pricingService.getAmountDue(booking);
+
     // Create payment link
     const paymentLink = await paymentService.createPaymentLink(
-      booking.pricing.totalAmount,
+      amountDue,
       `Payment for ${service.name} - ${booking.bookingNumber}`,
       {
         name: customer.name,
         email: customer.email,
         contact: customer.phone
+      },
+      {
+        gateway: selected.name,
+        // Lets the webhook match the payment to the booking
+        notes: {
+          booking_id: booking._id.toString(),
+          booking_number: booking.bookingNumber
+        }
       }
     );
 
     successResponse(res, 'Payment link created successfully', {
-      paymentLink: paymentLink.short_url,
+      paymentLink: paymentLink.url,
       linkId: paymentLink.id,
-      amount: booking.pricing.totalAmount,
+      gateway: paymentLink.gateway,
+      amount: amountDue,
       bookingNumber: booking.bookingNumber
     });
 
@@ -225,7 +278,8 @@ export const processRefund = catchAsync(async (req: IAuthenticatedRequest, res:
     return next(new AppError('Only cancelled bookings are eligible for refund', 400));
   }
 
-  if (booking.payment.status !== 'paid') {
+  // A booking part-paid from the wallet gets the wallet's part back
+  if (booking.payment.status !== 'paid' && !booking.payment.walletAmount) {
     return next(new AppError('No payment found to refund', 400));
   }
 
@@ -241,29 +295,21 @@ export const processRefund = catchAsync(async (req: IAuthenticatedRequest, res:
       return next(new AppError('No refund amount calculated for this booking', 400));
     }
 
-    // Process refund through payment gateway
-    const refund = await paymentService.refundPayment(
-      booking.payment.transactionId!,
-      refundAmount,
-      {
-        booking_id: booking._id.toString(),
-        booking_number: booking.bookingNumber,
-        reason: reason || 'Booking cancellation'
-      }
-    );
+    // Process refund through the gateway the booking was paid with, and to the wallet for what it paid
+    const refund = await paymentService.refundBooking(booking, refundAmount, reason || 'Booking cancellation');
+
+    if (!refund) {
+      return next(new AppError('No online payment found to refund', 400));
+    }
 
-    // Update booking with refund details
-    booking.payment.refundTransactionId = refund.id;
-    booking.payment.refundAmount = refund.amount / 100; // Convert from paise
-    booking.payment.refundedAt = new Date();
-    booking.payment.status = refund.amount === (booking.pricing.totalAmount * 100) ? 'refunded' : 'partially_refunded';
     await booking.save();
 
     successResponse(res, 'Refund processed successfully', {
       bookingId: booking._id,
       bookingNumber: booking.bookingNumber,
-      refundId: refund.id,
-      refundAmount: refund.amount / 100,
+      refundId: refund.gatewayRefund?.id,
+      walletTransactionId: refund.walletCredit?.transactionNumber,
+      refundAmount: refund.amount,
       status: booking.payment.status
     });
 
@@ -335,30 +381,40 @@ export const getTransactions = catchAsync(async (req: IAuthenticatedRequest, res
 });
 
 /**
- * @desc    Handle Razorpay webhook
- * @route   POST /api/v1/payments/webhook/razorpay
+ * @desc    List the payment gateways the customer can choose from
+ * @route   GET /api/v1/payments/gateways
+ * @access  Private
+ */
+export const getGateways = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const currency = req.query.currency as string | undefined;
+
+  successResponse(res, 'Payment gateways retrieved successfully', {
+    gateways: paymentService.getAvailableGateways(currency),
+    default: paymentService.selectGateway(currency).name
+  });
+});
+
+/**
+ * @desc    Handle a gateway webhook
+ * @route   POST /api/v1/payments/webhook/:gateway
  * @access  Public (but secured with signature validation)
  */
-export const handleRazorpayWebhook = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
-  const signature = req.headers['x-razorpay-signature'] as string;
-  const body = JSON.stringify(req.body);
+export const handleWebhook = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const gateway = paymentService.getGateway(req.params.gateway!);
+  // The raw body is kept for webhooks so the signature can be checked against it
+  const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from(JSON.stringify(req.body || {}));
 
-  if (!signature) {
-    return next(new AppError('Missing webhook signature', 400));
+  let event;
+  try {
+    event = gateway.parseWebhook(rawBody, req.headers);
+  } catch (error) {
+    logger.warn(`Invalid ${gateway.name} webhook received:`, error);
+    return next(new AppError('Invalid webhook signature', 400));
   }
 
   try {
-    // Validate webhook signature (you should set RAZORPAY_WEBHOOK_SECRET in env)
-    const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET || 'your-webhook-secret';
-    const isValidSignature = paymentService.validateWebhookSignature(body, signature, webhookSecret);
-
-    if (!isValidSignature) {
-      logger.warn('Invalid webhook signature received');
-      return next(new AppError('Invalid webhook signature', 400));
-    }
-
     // Process webhook event
-    await paymentService.processWebhookEvent(req.body);
+    await paymentService.processWebhookEvent(gateway.name, event);
 
     res.status(200).json({ status: 'success' });
 
@@ -368,6 +424,63 @@ export const handleRazorpayWebhook = catchAsync(async (req: Request, res: Respon
   }
 });
 
+/**
+ * @desc    Pay an order (or payment link) at the fake gateway's checkout
+ * @route   POST /api/v1/payments/fake/orders/:orderId/checkout
+ * @access  Public (development and tests only)
+ */
+export const fakeCheckout = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const { outcome, method } = req.body;
+  const orderId = req.params.orderId!.startsWith('plink_')
+    ? fakePaymentGateway.linkOrderId(req.params.orderId!)
+    : req.params.orderId!;
+
+  try {
+    const result = fakePaymentGateway.checkout(orderId, outcome as FakeCheckoutOutcome, method);
+    successResponse(res, 'Fake checkout completed', result);
+  } catch (error) {
+    return next(new AppError((error as Error).message, 400));
+  }
+});
+
+/**
+ * @desc    Have the fake gateway capture a held payment and report it
+ * @route   POST /api/v1/payments/fake/payments/:paymentId/capture
+ * @access  Public (development and tests only)
+ */
+export const fakeCapture = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  let payment;
+  try {
+    payment = await fakePaymentGateway.settle(req.params.paymentId!);
+  } catch (error) {
+    return next(new AppError((error as Error).message, 400));
+  }
+
+  const webhookStatus = await fakePaymentGateway.emitWebhook('payment.captured', payment.id);
+
+  successResponse(res, 'Fake payment captured', { payment, webhookStatus });
+});
+
+/**
+ * @desc    Have the fake gateway deliver a webhook to this server
+ * @route   POST /api/v1/payments/fake/webhooks
+ * @access  Public (development and tests only)
+ */
+export const fakeWebhook = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const { event, id } = req.body;
+
+  let delivery;
+  try {
+    delivery = fakePaymentGateway.buildWebhook(event as FakeWebhookEvent, id);
+  } catch (error) {
+    return next(new AppError((error as Error).message, 404));
+  }
+
+  const webhookStatus = await fakePaymentGateway.emitWebhook(event as FakeWebhookEvent, id);
+
+  successResponse(res, 'Fake webhook delivered', { event, id, webhookStatus, body: JSON.parse(delivery.body) });
+});
+
 /**
  * @desc    Get payment statistics (Admin only)
  * @route   GET /api/v1/payments/stats
@@ -426,16 +539,16 @@ export const getPaymentStats = catchAsync(async (req: IAuthenticatedRequest, res
   });
 });
 
-// Add alias for webhook handler
-export const razorpayWebhook = handleRazorpayWebhook;
-
 export default {
   createOrder,
   verifyPayment,
   createPaymentLink,
   processRefund,
   getTransactions,
-  handleRazorpayWebhook,
-  razorpayWebhook,
+  getGateways,
+  handleWebhook,
+  fakeCheckout,
+  fakeCapture,
+  fakeWebhook,
   getPaymentStats
 };
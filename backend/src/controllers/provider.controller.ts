@@ -1,5 +1,4 @@
 import { Request, Response, NextFunction } from 'express';
-import mongoose from 'mongoose';
 import ServiceProvider from '@/models/ServiceProvider.model';
 import User from '@/models/User.model';
 import Service from '@/models/Service.model';
@@ -8,6 +7,10 @@ import { AppError, catchAsync, successResponse } from '@/middleware/error.middle
 import { IAuthenticatedRequest, IAvailability, IPortfolioItem } from '@/types';
 import logger from '@/config/logger';
 import emailService from '@/services/email.service';
+import availabilityService from '@/services/availability.service';
+import crewService from '@/services/crew.service';
+import routePlanService from '@/services/routePlan.service';
+import settlementService from '@/services/settlement.service';
 
 /**
  * @desc    Get all service providers with filters
@@ -322,6 +325,50 @@ export const getProviderReviews = catchAsync(async (req: Request, res: Response,
   });
 });
 
+/**
+ * @desc    Get bookable slots for a provider on a given day. With the job's
+ *          coordinates, slots leave time to travel from and to other jobs.
+ * @route   GET /api/v1/providers/:id/slots?date=YYYY-MM-DD&serviceId=&latitude=&longitude=
+ * @access  Public
+ */
+export const getProviderSlots = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { date, serviceId, latitude, longitude } = req.query;
+
+  const day = availabilityService.parseDate(date as string);
+  if (!day) {
+    return next(new AppError('Date must be in YYYY-MM-DD format', 400));
+  }
+
+  const provider = await ServiceProvider.findById(id);
+  if (!provider || !provider.isAvailable) {
+    return next(new AppError('Service provider not found or unavailable', 404));
+  }
+
+  const service = await Service.findById(serviceId);
+  if (!service || !service.isActive) {
+    return next(new AppError('Service not found or unavailable', 404));
+  }
+
+  if (!provider.services.some(providerService => providerService.toString() === service._id.toString())) {
+    return next(new AppError('This provider does not offer the selected service', 400));
+  }
+
+  const location = latitude !== undefined && longitude !== undefined
+    ? { coordinates: { latitude: Number(latitude), longitude: Number(longitude) } }
+    : undefined;
+
+  const slots = await availabilityService.getAvailableSlots(provider, day, service.duration, location);
+
+  successResponse(res, 'Available slots retrieved successfully', {
+    providerId: provider._id,
+    serviceId: service._id,
+    date,
+    duration: service.duration,
+    slots
+  });
+});
+
 /**
  * @desc    Add portfolio item
  * @route   POST /api/v1/providers/:id/portfolio
@@ -542,12 +589,22 @@ export const getProviderBookings = catchAsync(async (req: IAuthenticatedRequest,
   const { page = 1, limit = 20, status } = req.query;
   const user = req.user!;
 
+  // The dashboard route has no id and shows the signed-in provider's own bookings
+  const provider = id
+    ? await ServiceProvider.findById(id)
+    : await ServiceProvider.findOne({ user: user._id });
+  if (!provider) {
+    return next(new AppError('Provider not found', 404));
+  }
+
   // Check if user can access this provider's bookings
-  if (user.role !== 'admin' && user._id.toString() !== id) {
+  if (user.role !== 'admin' && provider.user.toString() !== user._id.toString()) {
     return next(new AppError('You can only access your own bookings', 403));
   }
 
-  const query: any = { provider: id };
+  // Crew jobs show up for the lead and every helper
+  const providerId = provider._id.toString();
+  const query: any = { $or: [{ provider: providerId }, { 'crew.provider': providerId }] };
   if (status) {
     query.status = status;
   }
@@ -560,6 +617,11 @@ export const getProviderBookings = catchAsync(async (req: IAuthenticatedRequest,
     Booking.find(query)
       .populate('customer', 'name phone avatar')
       .populate('service', 'name category duration')
+      .populate({
+        path: 'crew.provider',
+        select: 'user',
+        populate: { path: 'user', select: 'name phone avatar' }
+      })
       .sort({ scheduledDate: -1 })
       .skip(skip)
       .limit(limitNum)
@@ -568,7 +630,7 @@ export const getProviderBookings = catchAsync(async (req: IAuthenticatedRequest,
   ]);
 
   successResponse(res, 'Provider bookings retrieved successfully', {
-    bookings,
+    bookings: bookings.map(booking => ({ ...booking, crewRole: crewService.getCrewRole(booking, providerId) })),
     pagination: {
       currentPage: pageNum,
       totalPages: Math.ceil(totalCount / limitNum),
@@ -578,16 +640,43 @@ export const getProviderBookings = catchAsync(async (req: IAuthenticatedRequest,
   });
 });
 
+/**
+ * @desc    Plan the provider's day: jobs in booked order with travel between them,
+ *          warnings where a gap is too short, and a shorter visiting order if there is one
+ * @route   GET /api/v1/providers/dashboard/route?date=YYYY-MM-DD
+ * @access  Private/Provider
+ */
+export const getProviderRoutePlan = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { date } = req.query;
+
+  const day = date ? availabilityService.parseDate(date as string) : new Date();
+  if (!day) {
+    return next(new AppError('Date must be in YYYY-MM-DD format', 400));
+  }
+
+  const provider = await ServiceProvider.findOne({ user: req.user!._id }).populate('user', 'name address');
+  if (!provider) {
+    return next(new AppError('Provider profile not found', 404));
+  }
+
+  const plan = await routePlanService.planDay(provider, day);
+
+  successResponse(res, 'Route plan retrieved successfully', { plan });
+});
+
 /**
  * @desc    Update provider settings
- * @route   PUT /api/v1/providers/:id/settings
+ * @route   PUT /api/v1/providers/settings
  * @access  Private
  */
 export const updateProviderSettings = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
   const { id } = req.params;
   const user = req.user!;
 
-  const provider = await ServiceProvider.findById(id);
+  // PUT /settings updates the signed-in provider's own profile
+  const provider = id
+    ? await ServiceProvider.findById(id)
+    : await ServiceProvider.findOne({ user: user._id });
   if (!provider) {
     return next(new AppError('Provider not found', 404));
   }
@@ -597,7 +686,7 @@ export const updateProviderSettings = catchAsync(async (req: IAuthenticatedReque
     return next(new AppError('You can only update your own provider settings', 403));
   }
 
-  const allowedUpdates = ['hourlyRate', 'availability', 'serviceArea', 'isAvailable'];
+  const allowedUpdates = ['hourlyRate', 'availability', 'serviceArea', 'isAvailable', 'autoAcceptBookings'];
   const updateData: any = {};
 
   Object.keys(req.body).forEach(key => {
@@ -607,7 +696,7 @@ export const updateProviderSettings = catchAsync(async (req: IAuthenticatedReque
   });
 
   const updatedProvider = await ServiceProvider.findByIdAndUpdate(
-    id,
+    provider._id,
     updateData,
     { new: true, runValidators: true }
   );
@@ -624,58 +713,25 @@ export const getProviderEarnings = catchAsync(async (req: IAuthenticatedRequest,
   const { id } = req.params;
   const user = req.user!;
 
+  const provider = id
+    ? await ServiceProvider.findById(id)
+    : await ServiceProvider.findOne({ user: user._id });
+  if (!provider) {
+    return next(new AppError('Provider not found', 404));
+  }
+
   // Check if user can access this provider's earnings
-  if (user.role !== 'admin' && user._id.toString() !== id) {
+  if (user.role !== 'admin' && provider.user.toString() !== user._id.toString()) {
     return next(new AppError('You can only access your own earnings', 403));
   }
 
-  const earnings = await Booking.aggregate([
-    {
-      $match: {
-        provider: new mongoose.Types.ObjectId(id),
-        status: 'completed',
-        'payment.status': 'paid'
-      }
-    },
-    {
-      $group: {
-        _id: null,
-        totalEarnings: { $sum: '$pricing.totalAmount' },
-        totalBookings: { $sum: 1 },
-        averageBookingValue: { $avg: '$pricing.totalAmount' }
-      }
-    }
-  ]);
-
-  const monthlyEarnings = await Booking.aggregate([
-    {
-      $match: {
-        provider: new mongoose.Types.ObjectId(id),
-        status: 'completed',
-        'payment.status': 'paid'
-      }
-    },
-    {
-      $group: {
-        _id: {
-          year: { $year: '$createdAt' },
-          month: { $month: '$createdAt' }
-        },
-        earnings: { $sum: '$pricing.totalAmount' },
-        bookings: { $sum: 1 }
-      }
-    },
-    { $sort: { '_id.year': -1, '_id.month': -1 } },
-    { $limit: 12 }
-  ]);
+  // What the provider takes home once commission, GST and TDS are taken out
+  const { overview, monthlyEarnings, balance } = await settlementService.getEarnings(provider._id.toString());
 
   successResponse(res, 'Provider earnings retrieved successfully', {
-    overview: earnings[0] || {
-      totalEarnings: 0,
-      totalBookings: 0,
-      averageBookingValue: 0
-    },
-    monthlyEarnings
+    overview,
+    monthlyEarnings,
+    settlement: balance
   });
 });
 
@@ -687,6 +743,7 @@ export default {
   registerProvider,
   updateProviderProfile,
   getProviderReviews,
+  getProviderSlots,
   addPortfolioItem,
   updateAvailability,
   toggleAvailability,
@@ -695,5 +752,6 @@ export default {
   getMyProviderProfile,
   getProviderBookings,
   updateProviderSettings,
-  getProviderEarnings
+  getProviderEarnings,
+  getProviderRoutePlan
 };
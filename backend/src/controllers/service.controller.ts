@@ -280,6 +280,10 @@ export const createService = catchAsync(async (req: IAuthenticatedRequest, res:
     longDescription,
     basePrice,
     priceUnit,
+    minimumCharge,
+    minimumQuantity,
+    priceTiers,
+    warrantyDays,
     duration,
     tags,
     requirements,
@@ -305,6 +309,10 @@ export const createService = catchAsync(async (req: IAuthenticatedRequest, res:
     longDescription,
     basePrice,
     priceUnit,
+    minimumCharge,
+    minimumQuantity,
+    priceTiers,
+    warrantyDays,
     duration,
     tags: tags || [],
     requirements: requirements || [],
@@ -332,7 +340,7 @@ export const updateService = catchAsync(async (req: IAuthenticatedRequest, res:
   // Update allowed fields
   const allowedUpdates = [
     'name', 'category', 'subcategory', 'description', 'longDescription',
-    'basePrice', 'priceUnit', 'duration', 'tags', 'requirements',
+    'basePrice', 'priceUnit', 'minimumCharge', 'minimumQuantity', 'priceTiers', 'warrantyDays', 'duration', 'tags', 'requirements',
     'images', 'icon', 'isActive'
   ];
 
@@ -0,0 +1,221 @@
+import { Response, NextFunction } from 'express';
+import Payout from '@/models/Payout.model';
+import PayoutRun from '@/models/PayoutRun.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import Settlement from '@/models/Settlement.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAuthenticatedRequest, IPayout, IUser } from '@/types';
+import settlementService from '@/services/settlement.service';
+
+// Load a payout and make sure the user is its provider or an admin
+const findAccessiblePayout = async (id: string, user: IUser): Promise<IPayout> => {
+  const payout = await Payout.findById(id);
+
+  if (!payout) {
+    throw new AppError('Payout not found', 404);
+  }
+
+  if (user.role === 'admin') {
+    return payout;
+  }
+
+  const provider = await ServiceProvider.findOne({ user: user._id });
+  if (provider && payout.provider.toString() === provider._id.toString()) {
+    return payout;
+  }
+
+  throw new AppError('You can only access your own payouts', 403);
+};
+
+/**
+ * @desc    Get my settlement balance and settled jobs
+ * @route   GET /api/v1/settlements/me
+ * @access  Private/Provider
+ */
+export const getMySettlements = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const provider = await ServiceProvider.findOne({ user: req.user!._id });
+
+  if (!provider) {
+    return next(new AppError('Provider profile not found', 404));
+  }
+
+  const balance = await settlementService.getBalance(provider._id.toString());
+
+  const page = parseInt(req.query.page as string, 10) || 1;
+  const limit = parseInt(req.query.limit as string, 10) || 20;
+  const query: any = { provider: provider._id };
+
+  if (req.query.status) {
+    query.status = req.query.status;
+  }
+
+  const [settlements, total] = await Promise.all([
+    Settlement.find(query)
+      .populate('booking', 'bookingNumber scheduledDate')
+      .sort({ completedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Settlement.countDocuments(query)
+  ]);
+
+  successResponse(res, 'Settlements retrieved successfully', {
+    balance,
+    settlements,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+/**
+ * @desc    Get payouts: a provider's own, or any for admins
+ * @route   GET /api/v1/settlements/payouts
+ * @access  Private/Provider/Admin
+ */
+export const getPayouts = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const user = req.user!;
+  const query: any = {};
+
+  if (user.role === 'admin') {
+    if (req.query.providerId) {
+      query.provider = req.query.providerId;
+    }
+    if (req.query.runId) {
+      query.run = req.query.runId;
+    }
+  } else {
+    const provider = await ServiceProvider.findOne({ user: user._id });
+    if (!provider) {
+      return next(new AppError('Provider profile not found', 404));
+    }
+    query.provider = provider._id;
+  }
+
+  if (req.query.status) {
+    query.status = req.query.status;
+  }
+
+  const page = parseInt(req.query.page as string, 10) || 1;
+  const limit = parseInt(req.query.limit as string, 10) || 20;
+
+  const [payouts, total] = await Promise.all([
+    Payout.find(query)
+      .populate('run', 'runNumber periodStart periodEnd')
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Payout.countDocuments(query)
+  ]);
+
+  successResponse(res, 'Payouts retrieved successfully', {
+    payouts,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+/**
+ * @desc    Get a payout statement: the payout and the jobs it pays for
+ * @route   GET /api/v1/settlements/payouts/:id
+ * @access  Private/Provider/Admin
+ */
+export const getPayoutStatement = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const payout = await findAccessiblePayout(req.params.id!, req.user!);
+  const statement = await settlementService.getStatement(payout);
+
+  successResponse(res, 'Payout statement retrieved successfully', statement);
+});
+
+/**
+ * @desc    Retry a failed payout
+ * @route   POST /api/v1/settlements/payouts/:id/retry
+ * @access  Private/Admin
+ */
+export const retryPayout = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const payout = await Payout.findById(req.params.id);
+
+  if (!payout) {
+    return next(new AppError('Payout not found', 404));
+  }
+
+  const retried = await settlementService.retryPayout(payout);
+
+  successResponse(res, retried.status === 'failed' ? 'Payout failed again' : 'Payout sent', { payout: retried });
+});
+
+/**
+ * @desc    Run this week's payouts now rather than waiting for the schedule
+ * @route   POST /api/v1/settlements/runs
+ * @access  Private/Admin
+ */
+export const createPayoutRun = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const run = await settlementService.runPayouts(req.user!._id.toString());
+
+  successResponse(res, 'Payout run completed', { run }, 201);
+});
+
+/**
+ * @desc    Get payout runs
+ * @route   GET /api/v1/settlements/runs
+ * @access  Private/Admin
+ */
+export const getPayoutRuns = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string, 10) || 1;
+  const limit = parseInt(req.query.limit as string, 10) || 20;
+
+  const [runs, total] = await Promise.all([
+    PayoutRun.find()
+      .sort({ periodEnd: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    PayoutRun.countDocuments()
+  ]);
+
+  successResponse(res, 'Payout runs retrieved successfully', {
+    runs,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+/**
+ * @desc    Get a payout run and its payouts
+ * @route   GET /api/v1/settlements/runs/:id
+ * @access  Private/Admin
+ */
+export const getPayoutRun = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const run = await PayoutRun.findById(req.params.id);
+
+  if (!run) {
+    return next(new AppError('Payout run not found', 404));
+  }
+
+  const payouts = await Payout.find({ run: run._id }).populate({
+    path: 'provider',
+    select: 'user',
+    populate: { path: 'user', select: 'name email phone' }
+  });
+
+  successResponse(res, 'Payout run retrieved successfully', { run, payouts });
+});
+
+export default {
+  getMySettlements,
+  getPayouts,
+  getPayoutStatement,
+  retryPayout,
+  createPayoutRun,
+  getPayoutRuns,
+  getPayoutRun
+};
@@ -0,0 +1,81 @@
+import { Response, NextFunction } from 'express';
+import User from '@/models/User.model';
+import WalletTransaction from '@/models/WalletTransaction.model';
+import { AppError, catchAsync, successResponse } from '@/middleware/error.middleware';
+import { IAuthenticatedRequest } from '@/types';
+import walletService from '@/services/wallet.service';
+
+/**
+ * @desc    Get my wallet balance and the promotional credit in it
+ * @route   GET /api/v1/wallet
+ * @access  Private/Customer
+ */
+export const getMyWallet = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const wallet = await walletService.getSummary(req.user!._id);
+
+  successResponse(res, 'Wallet retrieved successfully', { wallet });
+});
+
+/**
+ * @desc    Get my wallet transaction history
+ * @route   GET /api/v1/wallet/transactions
+ * @access  Private/Customer
+ */
+export const getMyTransactions = catchAsync(async (req: IAuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string, 10) || 1;
+  const limit = parseInt(req.query.limit as string, 10) || 20;
+  const query: any = { user: req.user!._id };
+
+  if (req.query.type) {
+    query.type = req.query.type;
+  }
+
+  const [transactions, total] = await Promise.all([
+    WalletTransaction.find(query)
+      .populate('booking', 'bookingNumber scheduledDate')
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    WalletTransaction.countDocuments(query)
+  ]);
+
+  successResponse(res, 'Wallet transactions retrieved successfully', {
+    transactions,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+/**
+ * @desc    Grant a customer promotional wallet credit
+ * @route   POST /api/v1/wallet/credits
+ * @access  Private/Admin
+ */
+export const grantPromotionalCredit = catchAsync(async (req: IAuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { userId, amount, description, expiresAt } = req.body;
+
+  const customer = await User.findById(userId);
+  if (!customer || customer.role !== 'customer') {
+    return next(new AppError('Customer not found', 404));
+  }
+
+  const credit = await walletService.grantPromotion({
+    userId,
+    amount,
+    description,
+    expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    grantedBy: req.user!._id
+  });
+
+  successResponse(res, 'Promotional credit granted successfully', { credit }, 201);
+});
+
+export default {
+  getMyWallet,
+  getMyTransactions,
+  grantPromotionalCredit
+};
@@ -0,0 +1,27 @@
+import logger from '@/config/logger';
+import amcService from '@/services/amc.service';
+
+/**
+ * Book maintenance contract visits that are coming due
+ */
+export const scheduleAmcVisits = async (): Promise<void> => {
+  const booked = await amcService.scheduleDueVisits();
+
+  if (booked > 0) {
+    logger.info(`Booked ${booked} maintenance contract visit(s)`);
+  }
+};
+
+/**
+ * Expire finished maintenance contracts and remind customers whose contracts end soon
+ */
+export const processAmcRenewals = async (): Promise<void> => {
+  const expired = await amcService.expireContracts();
+  const reminded = await amcService.sendRenewalReminders();
+
+  if (expired > 0 || reminded > 0) {
+    logger.info(`Expired ${expired} maintenance contract(s); sent ${reminded} renewal reminder(s)`);
+  }
+};
+
+export default { scheduleAmcVisits, processAmcRenewals };
@@ -0,0 +1,15 @@
+import logger from '@/config/logger';
+import bookingAssignmentService from '@/services/bookingAssignment.service';
+
+/**
+ * Move bookings to the next provider once the acceptance window has passed
+ */
+export const expireBookingOffers = async (): Promise<void> => {
+  const expired = await bookingAssignmentService.expireOverdueOffers();
+
+  if (expired > 0) {
+    logger.info(`Expired ${expired} unanswered booking offer(s)`);
+  }
+};
+
+export default expireBookingOffers;
@@ -0,0 +1,19 @@
+import logger from '@/config/logger';
+import disputeService from '@/services/dispute.service';
+
+/**
+ * Escalate unanswered disputes and flag those past their resolution deadline
+ */
+export const enforceDisputeSlas = async (): Promise<void> => {
+  const { escalated, breached } = await disputeService.enforceSlas();
+
+  if (escalated > 0) {
+    logger.info(`Escalated ${escalated} dispute(s) the provider did not answer in time`);
+  }
+
+  if (breached > 0) {
+    logger.warn(`${breached} dispute(s) passed their resolution deadline`);
+  }
+};
+
+export default enforceDisputeSlas;
@@ -0,0 +1,87 @@
+import cron, { ScheduledTask } from 'node-cron';
+import logger from '@/config/logger';
+import { redisUtils } from '@/config/redis';
+import { materializeRecurringBookings } from './recurringBookings.job';
+import { expireBookingOffers } from './bookingAcceptance.job';
+import { sweepNoShows } from './noShow.job';
+import { enforceDisputeSlas } from './disputes.job';
+import { scheduleAmcVisits, processAmcRenewals } from './amc.job';
+import { sendBookingReminders, nudgeProviders, requestReviews } from './reminders.job';
+import { processScheduledNotifications } from './notifications.job';
+import { runWeeklyPayouts, refreshPayouts } from './payouts.job';
+import { expireWalletCredits } from './wallet.job';
+
+interface JobDefinition {
+  name: string;
+  schedule: string;
+  handler: () => Promise<void>;
+}
+
+// Background jobs and their cron schedules
+const jobs: JobDefinition[] = [
+  { name: 'recurring-bookings', schedule: '15 * * * *', handler: materializeRecurringBookings },
+  { name: 'booking-acceptance', schedule: '* * * * *', handler: expireBookingOffers },
+  { name: 'no-show-sweeper', schedule: '*/5 * * * *', handler: sweepNoShows },
+  { name: 'dispute-slas', schedule: '*/15 * * * *', handler: enforceDisputeSlas },
+  { name: 'amc-visits', schedule: '45 * * * *', handler: scheduleAmcVisits },
+  { name: 'amc-renewals', schedule: '0 9 * * *', handler: processAmcRenewals },
+  { name: 'booking-reminders', schedule: '*/5 * * * *', handler: sendBookingReminders },
+  { name: 'provider-nudges', schedule: '*/10 * * * *', handler: nudgeProviders },
+  { name: 'review-requests', schedule: '30 * * * *', handler: requestReviews },
+  { name: 'scheduled-notifications', schedule: '* * * * *', handler: processScheduledNotifications },
+  { name: 'payout-run', schedule: '0 6 * * 1', handler: runWeeklyPayouts },
+  { name: 'payout-status', schedule: '*/30 * * * *', handler: refreshPayouts },
+  { name: 'wallet-expiry', schedule: '5 * * * *', handler: expireWalletCredits }
+];
+
+// Long enough to outlive clock skew between instances; every tick has its own key
+const LOCK_TTL_SECONDS = 300;
+
+const tasks: ScheduledTask[] = [];
+const running = new Set<string>();
+
+/**
+ * Run a job once per tick across all instances: the first instance to take the
+ * tick's lock runs it, and an instance never overlaps with its own previous run.
+ */
+const runJob = async (job: JobDefinition): Promise<void> => {
+  if (running.has(job.name)) {
+    logger.warn(`Job ${job.name} is still running; skipping this tick`);
+    return;
+  }
+
+  const tick = Math.floor(Date.now() / 60000);
+  if (!(await redisUtils.acquireLock(`jobs:${job.name}:${tick}`, LOCK_TTL_SECONDS))) {
+    return;
+  }
+
+  running.add(job.name);
+  try {
+    await job.handler();
+  } catch (error) {
+    logger.error(`Job ${job.name} failed:`, error);
+  } finally {
+    running.delete(job.name);
+  }
+};
+
+/**
+ * Schedule all background jobs
+ */
+export const startJobs = (): void => {
+  for (const job of jobs) {
+    tasks.push(cron.schedule(job.schedule, () => runJob(job)));
+  }
+
+  logger.info(`Scheduled ${jobs.length} background job(s)`);
+};
+
+/**
+ * Stop all scheduled background jobs
+ */
+export const stopJobs = (): void => {
+  tasks.forEach(task => task.stop());
+  tasks.length = 0;
+};
+
+export default { startJobs, stopJobs };
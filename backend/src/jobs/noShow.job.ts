@@ -0,0 +1,15 @@
+import logger from '@/config/logger';
+import noShowService from '@/services/noShow.service';
+
+/**
+ * Mark confirmed bookings as no-shows once the grace period after their start has passed
+ */
+export const sweepNoShows = async (): Promise<void> => {
+  const flagged = await noShowService.flagOverdueBookings();
+
+  if (flagged > 0) {
+    logger.info(`Flagged ${flagged} booking(s) as no-show`);
+  }
+};
+
+export default sweepNoShows;
@@ -0,0 +1,10 @@
+import notificationService from '@/services/notification.service';
+
+/**
+ * Deliver notifications whose scheduled time has arrived
+ */
+export const processScheduledNotifications = async (): Promise<void> => {
+  await notificationService.processScheduledNotifications();
+};
+
+export default processScheduledNotifications;
@@ -0,0 +1,31 @@
+import logger from '@/config/logger';
+import settlementService from '@/services/settlement.service';
+
+/**
+ * Make the weekly payout run, unless an admin already ran it this week
+ */
+export const runWeeklyPayouts = async (): Promise<void> => {
+  try {
+    await settlementService.runPayouts();
+  } catch (error: any) {
+    if (error.statusCode === 409) {
+      logger.info(error.message);
+      return;
+    }
+
+    throw error;
+  }
+};
+
+/**
+ * Settle payouts whose transfers were still processing
+ */
+export const refreshPayouts = async (): Promise<void> => {
+  const finished = await settlementService.refreshProcessingPayouts();
+
+  if (finished > 0) {
+    logger.info(`Settled ${finished} processing payout(s)`);
+  }
+};
+
+export default runWeeklyPayouts;
@@ -0,0 +1,15 @@
+import logger from '@/config/logger';
+import bookingSeriesService from '@/services/bookingSeries.service';
+
+/**
+ * Create bookings for upcoming occurrences of active booking series
+ */
+export const materializeRecurringBookings = async (): Promise<void> => {
+  const created = await bookingSeriesService.materializeDueSeries();
+
+  if (created > 0) {
+    logger.info(`Materialized ${created} recurring booking occurrence(s)`);
+  }
+};
+
+export default materializeRecurringBookings;
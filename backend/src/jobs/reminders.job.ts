@@ -0,0 +1,37 @@
+import logger from '@/config/logger';
+import reminderService from '@/services/reminder.service';
+
+/**
+ * Remind both parties a day and an hour before each confirmed booking
+ */
+export const sendBookingReminders = async (): Promise<void> => {
+  const sent = await reminderService.sendDueReminders();
+
+  if (sent > 0) {
+    logger.info(`Sent ${sent} booking reminder(s)`);
+  }
+};
+
+/**
+ * Remind providers about bookings they have not accepted yet
+ */
+export const nudgeProviders = async (): Promise<void> => {
+  const nudged = await reminderService.nudgeProviders();
+
+  if (nudged > 0) {
+    logger.info(`Nudged providers about ${nudged} unconfirmed booking(s)`);
+  }
+};
+
+/**
+ * Ask customers to review completed bookings
+ */
+export const requestReviews = async (): Promise<void> => {
+  const requested = await reminderService.requestReviews();
+
+  if (requested > 0) {
+    logger.info(`Requested ${requested} review(s)`);
+  }
+};
+
+export default { sendBookingReminders, nudgeProviders, requestReviews };
@@ -0,0 +1,15 @@
+import logger from '@/config/logger';
+import walletService from '@/services/wallet.service';
+
+/**
+ * Lapse promotional wallet credit that was not spent before its expiry
+ */
+export const expireWalletCredits = async (): Promise<void> => {
+  const expired = await walletService.expireCredits();
+
+  if (expired > 0) {
+    logger.info(`Expired ${expired} promotional wallet credit(s)`);
+  }
+};
+
+export default expireWalletCredits;
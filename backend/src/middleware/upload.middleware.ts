@@ -77,6 +77,28 @@ export const uploadReviewImages = multer({
   }
 }).array('images', 3);
 
+// Dispute evidence upload configuration (photos of the work, receipts, invoices)
+const disputeEvidenceStorage = createCloudinaryStorage('disputes', ['jpg', 'jpeg', 'png', 'webp', 'pdf']);
+export const uploadDisputeEvidence = multer({
+  storage: disputeEvidenceStorage,
+  fileFilter: createFileFilter(allowedFileTypes.all),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per file
+    files: 5 // Maximum 5 files
+  }
+}).array('evidence', 5);
+
+// Job post images upload configuration (photos of the job a customer wants done)
+const jobPostImageStorage = createCloudinaryStorage('job-posts', ['jpg', 'jpeg', 'png', 'webp']);
+export const uploadJobPostImages = multer({
+  storage: jobPostImageStorage,
+  fileFilter: createFileFilter(allowedFileTypes.images),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per file
+    files: 5 // Maximum 5 images
+  }
+}).array('images', 5);
+
 // Provider documents upload configuration
 const documentStorage = createCloudinaryStorage('documents', ['jpg', 'jpeg', 'png', 'pdf']);
 export const uploadProviderDocuments = multer({
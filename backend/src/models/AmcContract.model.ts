@@ -0,0 +1,208 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IAmcContract, IAmcInstalment, IAmcPricing, IAmcVisit } from '@/types';
+import { BookingAddressSchema } from './Booking.model';
+import crypto from 'crypto';
+
+// AMC Visit Schema (one visit the customer is entitled to)
+const AmcVisitSchema = new Schema<IAmcVisit>({
+  index: {
+    type: Number,
+    required: [true, 'Visit index is required'],
+    min: [1, 'Visit index must be at least 1']
+  },
+  dueDate: {
+    type: Date,
+    required: [true, 'Visit due date is required']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['upcoming', 'booked', 'completed', 'missed'],
+      message: 'Invalid visit status'
+    },
+    default: 'upcoming'
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  }
+}, { _id: false });
+
+// AMC Pricing Schema
+const AmcPricingSchema = new Schema<IAmcPricing>({
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0, 'Amount cannot be negative']
+  },
+  taxAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Tax amount cannot be negative']
+  },
+  totalAmount: {
+    type: Number,
+    required: [true, 'Total amount is required'],
+    min: [0, 'Total amount cannot be negative']
+  }
+}, { _id: false });
+
+// AMC Instalment Schema
+const AmcInstalmentSchema = new Schema<IAmcInstalment>({
+  index: {
+    type: Number,
+    required: [true, 'Instalment index is required'],
+    min: [1, 'Instalment index must be at least 1']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Instalment amount is required'],
+    min: [0, 'Instalment amount cannot be negative']
+  },
+  dueDate: {
+    type: Date,
+    required: [true, 'Instalment due date is required']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'paid'],
+      message: 'Invalid instalment status'
+    },
+    default: 'pending'
+  },
+  gateway: {
+    type: String,
+    enum: {
+      values: ['razorpay', 'stripe'],
+      message: 'Invalid payment gateway'
+    }
+  },
+  gatewayOrderId: {
+    type: String
+  },
+  transactionId: {
+    type: String
+  },
+  paidAt: {
+    type: Date
+  }
+}, { _id: false });
+
+// AMC Contract Schema
+const AmcContractSchema = new Schema<IAmcContract>({
+  contractNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Contract number is required']
+  },
+  plan: {
+    type: Schema.Types.ObjectId,
+    ref: 'AmcPlan',
+    required: [true, 'Plan is required']
+  },
+  customer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Customer is required']
+  },
+  service: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: [true, 'Service is required']
+  },
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  address: {
+    type: BookingAddressSchema,
+    required: [true, 'Service address is required']
+  },
+  contactPhone: {
+    type: String,
+    required: [true, 'Contact phone is required'],
+    match: [/^[6-9]\d{9}$/, 'Please enter a valid Indian phone number']
+  },
+  preferredTime: {
+    type: String,
+    required: [true, 'Preferred visit time is required'],
+    match: [/^([01]\d|2[0-3]):([0-5]\d)$/, 'Preferred time must be in HH:MM format']
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  visits: [AmcVisitSchema],
+  pricing: {
+    type: AmcPricingSchema,
+    required: [true, 'Pricing is required']
+  },
+  instalments: {
+    type: [AmcInstalmentSchema],
+    validate: {
+      validator: (instalments: IAmcInstalment[]) => instalments.length > 0,
+      message: 'A contract must have at least one instalment'
+    }
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending_payment', 'active', 'expired', 'cancelled'],
+      message: 'Invalid contract status'
+    },
+    default: 'pending_payment'
+  },
+  renewalOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'AmcContract'
+  },
+  renewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'AmcContract'
+  },
+  renewalReminderSentAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+AmcContractSchema.index({ customer: 1, status: 1 });
+AmcContractSchema.index({ provider: 1, status: 1 });
+AmcContractSchema.index({ status: 1, endDate: 1 });
+AmcContractSchema.index({ 'instalments.gatewayOrderId': 1 });
+
+// Generate contract number
+function generateContractNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `AMC${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate contract number
+AmcContractSchema.pre('validate', function(next) {
+  if (!this.contractNumber) {
+    this.contractNumber = generateContractNumber();
+  }
+
+  next();
+});
+
+// Export the model
+const AmcContract: Model<IAmcContract> = mongoose.model<IAmcContract>('AmcContract', AmcContractSchema);
+export default AmcContract;
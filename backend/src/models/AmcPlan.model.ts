@@ -0,0 +1,71 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IAmcPlan } from '@/types';
+
+// AMC Plan Schema (an annual maintenance contract customers can buy)
+const AmcPlanSchema = new Schema<IAmcPlan>({
+  name: {
+    type: String,
+    required: [true, 'Plan name is required'],
+    trim: true,
+    maxlength: [100, 'Plan name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  service: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: [true, 'Service is required']
+  },
+  visits: {
+    type: Number,
+    required: [true, 'Number of visits is required'],
+    min: [1, 'A plan must include at least 1 visit'],
+    max: [24, 'A plan cannot include more than 24 visits']
+  },
+  termMonths: {
+    type: Number,
+    default: 12,
+    min: [1, 'Term must be at least 1 month'],
+    max: [36, 'Term cannot exceed 36 months']
+  },
+  price: {
+    type: Number,
+    required: [true, 'Price is required'],
+    min: [0, 'Price cannot be negative']
+  },
+  maxInstalments: {
+    type: Number,
+    default: 1,
+    min: [1, 'At least one instalment is required'],
+    max: [12, 'Cannot exceed 12 instalments']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+AmcPlanSchema.index({ service: 1, isActive: 1 });
+
+// Export the model
+const AmcPlan: Model<IAmcPlan> = mongoose.model<IAmcPlan>('AmcPlan', AmcPlanSchema);
+export default AmcPlan;
@@ -1,7 +1,39 @@
-import mongoose, { Schema, Model } from 'mongoose';
-import { IBooking, IStatusChange, IPricing, IAdditionalCharge, IPaymentInfo, IWorkSummary } from '@/types';
+import mongoose, { Schema, Model, Query } from 'mongoose';
+import {
+  IBooking,
+  IStatusChange,
+  IPricing,
+  IPricingRevision,
+  IAdditionalCharge,
+  IPaymentInfo,
+  IWorkSummary,
+  IRescheduleRequest,
+  IBookingAcceptance,
+  IBookingUrgency,
+  IBookingQuantity,
+  IProviderOffer,
+  IBookingDispatch,
+  IDispatchCandidate,
+  IDispatchAssignment,
+  ICrewMember,
+  IJobCode,
+  INoShow,
+  IBookingReminders,
+  IQuote,
+  IQuoteLineItem,
+  IWarrantyClaim
+} from '@/types';
 import crypto from 'crypto';
 
+// Cancellation/reschedule policy tiers, by hours remaining before the service.
+// Refunds shrink and reschedule fees grow as the appointment gets closer.
+const POLICY_TIERS = [
+  { minHoursBefore: 24, refundPercentage: 1.0, rescheduleFeePercentage: 0 },
+  { minHoursBefore: 12, refundPercentage: 0.75, rescheduleFeePercentage: 0.1 },
+  { minHoursBefore: 2, refundPercentage: 0.5, rescheduleFeePercentage: 0.25 },
+  { minHoursBefore: -Infinity, refundPercentage: 0.25, rescheduleFeePercentage: 0.5 }
+];
+
 // Status Change Schema
 const StatusChangeSchema = new Schema<IStatusChange>({
   status: {
@@ -12,10 +44,10 @@ const StatusChangeSchema = new Schema<IStatusChange>({
       message: 'Invalid status'
     }
   },
+  // Not set when the change was made automatically (e.g. an expired acceptance window)
   changedBy: {
     type: Schema.Types.ObjectId,
-    ref: 'User',
-    required: [true, 'Status changer is required']
+    ref: 'User'
   },
   changedAt: {
     type: Date,
@@ -29,9 +61,279 @@ const StatusChangeSchema = new Schema<IStatusChange>({
     type: String,
     trim: true,
     maxlength: [500, 'Comments cannot exceed 500 characters']
+  },
+  event: {
+    type: String,
+    enum: {
+      values: ['reschedule', 'start_verified', 'completion_verified', 'transfer'],
+      message: 'Invalid status history event'
+    }
+  },
+  fromProvider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider'
+  },
+  toProvider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider'
+  }
+}, { _id: false });
+
+// Booking Acceptance Schema (provider response window)
+const BookingAcceptanceSchema = new Schema<IBookingAcceptance>({
+  deadline: {
+    type: Date
+  },
+  respondedAt: {
+    type: Date
+  },
+  autoAccepted: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+// Quantity Schema (customer's input for non-fixed price units)
+const BookingQuantitySchema = new Schema<IBookingQuantity>({
+  squareFeet: {
+    type: Number,
+    min: [1, 'Area must be at least 1 square foot']
+  },
+  items: {
+    type: Number,
+    min: [1, 'Item count must be at least 1']
+  },
+  hours: {
+    type: Number,
+    min: [0.5, 'Hours must be at least 0.5']
+  }
+}, { _id: false });
+
+// Urgency Schema (response guarantee for urgent bookings)
+const BookingUrgencySchema = new Schema<IBookingUrgency>({
+  responseDeadline: {
+    type: Date,
+    required: [true, 'Response deadline is required']
+  },
+  respondedAt: {
+    type: Date
+  },
+  slaMet: {
+    type: Boolean
+  }
+}, { _id: false });
+
+// Warranty Claim Schema (free re-visit under the original job's warranty)
+const WarrantyClaimSchema = new Schema<IWarrantyClaim>({
+  claimOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Original booking is required']
+  },
+  originalProvider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Original provider is required']
+  },
+  issue: {
+    type: String,
+    required: [true, 'Please describe the issue'],
+    trim: true,
+    maxlength: [1000, 'Issue description cannot exceed 1000 characters']
+  },
+  claimedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Provider Offer Schema (every provider the booking was offered to)
+const ProviderOfferSchema = new Schema<IProviderOffer>({
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  offeredAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date
+  },
+  outcome: {
+    type: String,
+    enum: {
+      values: ['pending', 'accepted', 'auto_accepted', 'declined', 'expired', 'withdrawn'],
+      message: 'Invalid offer outcome'
+    },
+    default: 'pending'
+  },
+  respondedAt: {
+    type: Date
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+// Dispatch Candidate Schema (ranking snapshot kept for audit)
+const DispatchCandidateSchema = new Schema<IDispatchCandidate>({
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  rank: {
+    type: Number,
+    required: [true, 'Rank is required'],
+    min: [1, 'Rank must be at least 1']
+  },
+  score: {
+    type: Number,
+    required: [true, 'Score is required']
+  },
+  rating: {
+    type: Number,
+    default: 0
+  },
+  completionRate: {
+    type: Number,
+    default: 0
+  },
+  activeBookings: {
+    type: Number,
+    default: 0
+  },
+  distanceKm: {
+    type: Number
+  }
+}, { _id: false });
+
+// Dispatch Assignment Schema
+const DispatchAssignmentSchema = new Schema<IDispatchAssignment>({
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  assignedAt: {
+    type: Date,
+    default: Date.now
+  },
+  reason: {
+    type: String,
+    required: [true, 'Assignment reason is required'],
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  }
+}, { _id: false });
+
+// Dispatch Schema
+const BookingDispatchSchema = new Schema<IBookingDispatch>({
+  mode: {
+    type: String,
+    enum: {
+      values: ['sequential', 'broadcast'],
+      message: 'Dispatch mode must be sequential or broadcast'
+    },
+    required: [true, 'Dispatch mode is required']
+  },
+  requestedAt: {
+    type: Date,
+    default: Date.now
+  },
+  candidates: [DispatchCandidateSchema],
+  assignments: [DispatchAssignmentSchema]
+}, { _id: false });
+
+// Crew Member Schema (lead provider and helpers on a team job)
+const CrewMemberSchema = new Schema<ICrewMember>({
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  role: {
+    type: String,
+    enum: {
+      values: ['lead', 'helper'],
+      message: 'Crew role must be lead or helper'
+    },
+    required: [true, 'Crew role is required']
+  },
+  sharePercent: {
+    type: Number,
+    required: [true, 'Earnings share is required'],
+    min: [0, 'Earnings share cannot be negative'],
+    max: [100, 'Earnings share cannot exceed 100']
+  },
+  checkedInAt: {
+    type: Date
+  },
+  earnings: {
+    type: Number,
+    min: [0, 'Earnings cannot be negative']
   }
 }, { _id: false });
 
+// Reschedule Request Schema
+const RescheduleRequestSchema = new Schema<IRescheduleRequest>({
+  proposedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Proposer is required']
+  },
+  proposedByRole: {
+    type: String,
+    required: [true, 'Proposer role is required'],
+    enum: {
+      values: ['customer', 'provider', 'admin'],
+      message: 'Invalid proposer role'
+    }
+  },
+  previousDate: {
+    type: Date,
+    required: [true, 'Previous date is required']
+  },
+  proposedDate: {
+    type: Date,
+    required: [true, 'Proposed date is required']
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  fee: {
+    type: Number,
+    default: 0,
+    min: [0, 'Reschedule fee cannot be negative']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'accepted', 'declined'],
+      message: 'Invalid reschedule request status'
+    },
+    default: 'pending'
+  },
+  respondedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  respondedAt: {
+    type: Date
+  },
+  responseReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Response reason cannot exceed 500 characters']
+  }
+}, { timestamps: true });
+
 // Additional Charge Schema
 const AdditionalChargeSchema = new Schema<IAdditionalCharge>({
   name: {
@@ -81,9 +383,150 @@ const PricingSchema = new Schema<IPricing>({
     type: Number,
     required: [true, 'Total amount is required'],
     min: [0, 'Total amount cannot be negative']
+  },
+  version: {
+    type: Number,
+    default: 1,
+    min: [1, 'Pricing version must be at least 1']
+  }
+}, { _id: false });
+
+// Pricing Revision Schema (previous pricing versions, newest last)
+const PricingRevisionSchema = new Schema<IPricingRevision>({
+  version: {
+    type: Number,
+    required: [true, 'Pricing version is required']
+  },
+  baseAmount: {
+    type: Number,
+    required: [true, 'Base amount is required']
+  },
+  additionalCharges: [AdditionalChargeSchema],
+  discount: {
+    type: Number
+  },
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed']
+  },
+  taxAmount: {
+    type: Number,
+    required: [true, 'Tax amount is required']
+  },
+  totalAmount: {
+    type: Number,
+    required: [true, 'Total amount is required']
+  },
+  supersededAt: {
+    type: Date,
+    default: Date.now
+  },
+  supersededBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User who changed the pricing is required']
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  quote: {
+    type: Schema.Types.ObjectId
+  }
+}, { _id: false });
+
+// Quote Line Item Schema
+const QuoteLineItemSchema = new Schema<IQuoteLineItem>({
+  type: {
+    type: String,
+    required: [true, 'Line item type is required'],
+    enum: {
+      values: ['labour', 'materials', 'other'],
+      message: 'Line item type must be labour, materials or other'
+    }
+  },
+  description: {
+    type: String,
+    required: [true, 'Line item description is required'],
+    trim: true,
+    maxlength: [100, 'Line item description cannot exceed 100 characters']
+  },
+  quantity: {
+    type: Number,
+    default: 1,
+    min: [0.01, 'Quantity must be greater than zero']
+  },
+  unitPrice: {
+    type: Number,
+    required: [true, 'Unit price is required'],
+    min: [0, 'Unit price cannot be negative']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Line item amount is required'],
+    min: [0, 'Line item amount cannot be negative']
   }
 }, { _id: false });
 
+// Quote Schema (on-site change orders submitted by the provider)
+const QuoteSchema = new Schema<IQuote>({
+  lineItems: {
+    type: [QuoteLineItemSchema],
+    validate: {
+      validator: function(items: IQuoteLineItem[]) {
+        return items.length > 0 && items.length <= 50;
+      },
+      message: 'A quote must have between 1 and 50 line items'
+    }
+  },
+  subtotal: {
+    type: Number,
+    required: [true, 'Quote subtotal is required'],
+    min: [0, 'Quote subtotal cannot be negative']
+  },
+  taxAmount: {
+    type: Number,
+    required: [true, 'Quote tax amount is required'],
+    min: [0, 'Quote tax amount cannot be negative']
+  },
+  totalAmount: {
+    type: Number,
+    required: [true, 'Quote total is required'],
+    min: [0, 'Quote total cannot be negative']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Quote notes cannot exceed 1000 characters']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'approved', 'rejected', 'superseded'],
+      message: 'Invalid quote status'
+    },
+    default: 'pending'
+  },
+  submittedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Quote submitter is required']
+  },
+  respondedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  respondedAt: {
+    type: Date
+  },
+  rejectionReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+  }
+}, { timestamps: true });
+
 // Payment Info Schema
 const PaymentInfoSchema = new Schema<IPaymentInfo>({
   status: {
@@ -98,10 +541,21 @@ const PaymentInfoSchema = new Schema<IPaymentInfo>({
   method: {
     type: String,
     enum: {
-      values: ['razorpay', 'stripe', 'cash', 'upi'],
+      values: ['razorpay', 'stripe', 'cash', 'upi', 'wallet'],
       message: 'Invalid payment method'
     }
   },
+  gateway: {
+    type: String,
+    enum: {
+      values: ['razorpay', 'stripe'],
+      message: 'Invalid payment gateway'
+    }
+  },
+  gatewayOrderId: {
+    type: String,
+    trim: true
+  },
   transactionId: {
     type: String,
     trim: true
@@ -118,6 +572,10 @@ const PaymentInfoSchema = new Schema<IPaymentInfo>({
     type: String,
     trim: true
   },
+  refundTransactionIds: {
+    type: [String],
+    default: undefined
+  },
   refundAmount: {
     type: Number,
     default: 0,
@@ -125,6 +583,16 @@ const PaymentInfoSchema = new Schema<IPaymentInfo>({
   },
   refundedAt: {
     type: Date
+  },
+  walletAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Wallet amount cannot be negative']
+  },
+  walletRefundAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Wallet refund amount cannot be negative']
   }
 }, { _id: false });
 
@@ -175,8 +643,100 @@ const WorkSummarySchema = new Schema<IWorkSummary>({
   }
 }, { _id: false });
 
+// Reminders Schema
+const BookingRemindersSchema = new Schema<IBookingReminders>({
+  dayBeforeSentAt: {
+    type: Date
+  },
+  hourBeforeSentAt: {
+    type: Date
+  },
+  providerNudgedAt: {
+    type: Date
+  },
+  reviewRequestedAt: {
+    type: Date
+  }
+}, { _id: false });
+
+// No-show Schema
+const NoShowSchema = new Schema<INoShow>({
+  party: {
+    type: String,
+    enum: {
+      values: ['customer', 'provider', 'undetermined'],
+      message: 'No-show party must be customer, provider or undetermined'
+    },
+    required: [true, 'No-show party is required']
+  },
+  detectedAt: {
+    type: Date,
+    default: Date.now
+  },
+  detectedBy: {
+    type: String,
+    enum: {
+      values: ['system', 'customer', 'provider', 'admin'],
+      message: 'Invalid no-show source'
+    },
+    required: [true, 'No-show source is required']
+  },
+  reportedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reportedAt: {
+    type: Date
+  },
+  evidence: {
+    type: [String],
+    validate: {
+      validator: function(evidence: string[]) {
+        return evidence.length <= 10;
+      },
+      message: 'Cannot have more than 10 evidence items'
+    }
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  customerFee: {
+    type: Number,
+    default: 0,
+    min: [0, 'Fee cannot be negative']
+  },
+  providerPenaltyPoints: {
+    type: Number,
+    default: 0,
+    min: [0, 'Penalty cannot be negative']
+  }
+}, { _id: false });
+
+// Job Code Schema (start / completion handshake)
+const JobCodeSchema = new Schema<IJobCode>({
+  code: {
+    type: String,
+    required: [true, 'Code is required'],
+    match: [/^\d{6}$/, 'Code must be 6 digits'],
+    select: false
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: [0, 'Attempts cannot be negative']
+  },
+  lockedUntil: {
+    type: Date
+  },
+  verifiedAt: {
+    type: Date
+  }
+}, { _id: false });
+
 // Address Schema (embedded from User model)
-const BookingAddressSchema = new Schema({
+export const BookingAddressSchema = new Schema({
   street: {
     type: String,
     required: [true, 'Street address is required'],
@@ -231,7 +791,10 @@ const BookingSchema = new Schema<IBooking>({
   provider: {
     type: Schema.Types.ObjectId,
     ref: 'ServiceProvider',
-    required: [true, 'Provider is required']
+    // Broadcast dispatches stay unassigned until the first provider accepts
+    required: [function(this: IBooking) {
+      return this.dispatch?.mode !== 'broadcast';
+    }, 'Provider is required']
   },
   service: {
     type: Schema.Types.ObjectId,
@@ -242,8 +805,9 @@ const BookingSchema = new Schema<IBooking>({
     type: Date,
     required: [true, 'Scheduled date is required'],
     validate: {
-      validator: function(date: Date) {
-        return date > new Date();
+      // Only check when the date is set, so past bookings can still be updated
+      validator: function(this: IBooking, date: Date) {
+        return !(this.isNew || this.isModified('scheduledDate')) || date > new Date();
       },
       message: 'Scheduled date must be in the future'
     }
@@ -273,6 +837,9 @@ const BookingSchema = new Schema<IBooking>({
     trim: true,
     maxlength: [1000, 'Special instructions cannot exceed 1000 characters']
   },
+  quantity: {
+    type: BookingQuantitySchema
+  },
   status: {
     type: String,
     required: [true, 'Status is required'],
@@ -283,10 +850,13 @@ const BookingSchema = new Schema<IBooking>({
     default: 'pending'
   },
   statusHistory: [StatusChangeSchema],
+  rescheduleRequests: [RescheduleRequestSchema],
   pricing: {
     type: PricingSchema,
     required: [true, 'Pricing information is required']
   },
+  pricingHistory: [PricingRevisionSchema],
+  quotes: [QuoteSchema],
   payment: {
     type: PaymentInfoSchema,
     required: [true, 'Payment information is required']
@@ -294,10 +864,21 @@ const BookingSchema = new Schema<IBooking>({
   workSummary: {
     type: WorkSummarySchema
   },
+  jobCodes: {
+    start: JobCodeSchema,
+    end: JobCodeSchema
+  },
+  noShow: {
+    type: NoShowSchema
+  },
+  reminders: {
+    type: BookingRemindersSchema,
+    default: () => ({})
+  },
   cancelledBy: {
     type: String,
     enum: {
-      values: ['customer', 'provider', 'admin'],
+      values: ['customer', 'provider', 'admin', 'system'],
       message: 'Invalid cancellation source'
     }
   },
@@ -312,6 +893,62 @@ const BookingSchema = new Schema<IBooking>({
   refundAmount: {
     type: Number,
     min: [0, 'Refund amount cannot be negative']
+  },
+  acceptance: {
+    type: BookingAcceptanceSchema
+  },
+  offerHistory: [ProviderOfferSchema],
+  dispatch: {
+    type: BookingDispatchSchema
+  },
+  series: {
+    type: Schema.Types.ObjectId,
+    ref: 'BookingSeries'
+  },
+  occurrenceIndex: {
+    type: Number,
+    min: [1, 'Occurrence index must be at least 1']
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  crew: [CrewMemberSchema],
+  bookingType: {
+    type: String,
+    enum: {
+      values: ['standard', 'urgent'],
+      message: 'Booking type must be standard or urgent'
+    },
+    default: 'standard'
+  },
+  urgency: {
+    type: BookingUrgencySchema
+  },
+  redoOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  warrantyExpiresAt: {
+    type: Date
+  },
+  warrantyClaim: {
+    type: WarrantyClaimSchema
+  },
+  amcContract: {
+    type: Schema.Types.ObjectId,
+    ref: 'AmcContract'
+  },
+  amcVisitIndex: {
+    type: Number,
+    min: [1, 'Visit index must be at least 1']
+  },
+  jobPost: {
+    type: Schema.Types.ObjectId,
+    ref: 'JobPost'
+  },
+  settledAt: {
+    type: Date
   }
 }, {
   timestamps: true,
@@ -320,6 +957,9 @@ const BookingSchema = new Schema<IBooking>({
       ret.id = ret._id;
       delete ret._id;
       delete ret.__v;
+      // Job codes are only ever shown to the customer through their own endpoint
+      delete ret.jobCodes?.start?.code;
+      delete ret.jobCodes?.end?.code;
       return ret;
     }
   }
@@ -334,6 +974,15 @@ BookingSchema.index({ status: 1 });
 BookingSchema.index({ scheduledDate: 1 });
 BookingSchema.index({ 'payment.status': 1 });
 BookingSchema.index({ createdAt: -1 });
+BookingSchema.index({ series: 1, occurrenceIndex: 1 });
+BookingSchema.index({ order: 1 });
+BookingSchema.index({ status: 1, 'acceptance.deadline': 1 });
+BookingSchema.index({ 'offerHistory.provider': 1, 'offerHistory.outcome': 1 });
+BookingSchema.index({ 'crew.provider': 1, scheduledDate: 1 });
+BookingSchema.index({ bookingType: 1, status: 1, 'urgency.responseDeadline': 1 });
+BookingSchema.index({ 'warrantyClaim.claimOf': 1 });
+BookingSchema.index({ amcContract: 1, amcVisitIndex: 1 });
+BookingSchema.index({ status: 1, settledAt: 1 });
 
 // Compound indexes
 BookingSchema.index({ customer: 1, status: 1, scheduledDate: -1 });
@@ -364,20 +1013,48 @@ function generateBookingNumber(): string {
   return `BK${timestamp.slice(-6)}${randomBytes}`;
 }
 
-// Pre-save middleware to generate booking number
-BookingSchema.pre('save', function(next) {
+// 6-digit code, zero-padded
+export function generateJobCode(): string {
+  return crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+}
+
+// Generate booking number before validation so the required check passes.
+// Series occurrences arrive with their number already set.
+BookingSchema.pre('validate', function(next) {
   if (!this.bookingNumber) {
     this.bookingNumber = generateBookingNumber();
   }
-  
-  // Add status to history if status changed
-  if (this.isModified('status') && !this.isNew) {
+
+  if (this.isNew && !this.jobCodes?.start?.code) {
+    this.jobCodes = {
+      start: { code: generateJobCode(), attempts: 0 },
+      end: { code: generateJobCode(), attempts: 0 }
+    };
+  }
+
+  next();
+});
+
+// Pre-save middleware to track status changes
+BookingSchema.pre('save', function(next) {
+  // Add status to history if status changed and updateStatus did not already record it
+  const lastChange = this.statusHistory[this.statusHistory.length - 1];
+  if (this.isModified('status') && !this.isNew && lastChange?.status !== this.status) {
     this.statusHistory.push({
       status: this.status,
       changedBy: this.customer, // This should be set properly in the controller
       changedAt: new Date()
     } as IStatusChange);
   }
+
+  // Keep the crew lead in step when the booking is reassigned or transferred
+  if (this.isModified('provider') && !this.isNew && this.crew.length > 0) {
+    const lead = this.crew.find(member => member.role === 'lead');
+    if (lead && this.provider && lead.provider.toString() !== this.provider._id.toString()) {
+      lead.provider = this.provider._id;
+      lead.checkedInAt = undefined;
+    }
+  }
   
   next();
 });
@@ -419,7 +1096,7 @@ BookingSchema.statics.findByProvider = function(
   limit = 20
 ) {
   const skip = (page - 1) * limit;
-  const query: any = { provider: providerId };
+  const query: any = { $or: [{ provider: providerId }, { 'crew.provider': providerId }] };
   
   if (status) {
     query.status = status;
@@ -448,13 +1125,19 @@ BookingSchema.statics.getTodaysBookings = function(providerId?: string) {
     status: { $in: ['confirmed', 'in-progress'] }
   };
   
+  // Crew helpers see the jobs they are working on too
   if (providerId) {
-    query.provider = providerId;
+    query.$or = [{ provider: providerId }, { 'crew.provider': providerId }];
   }
   
   return this.find(query)
     .populate('customer', 'name phone')
     .populate('provider', 'user')
+    .populate({
+      path: 'crew.provider',
+      select: 'user',
+      populate: { path: 'user', select: 'name phone' }
+    })
     .populate('service', 'name duration')
     .sort({ scheduledDate: 1 });
 };
@@ -495,9 +1178,10 @@ BookingSchema.statics.getUpcomingBookings = function(
 // Instance method to update status
 BookingSchema.methods.updateStatus = function(
   newStatus: string,
-  changedBy: string,
+  changedBy: string | null,
   reason?: string,
-  comments?: string
+  comments?: string,
+  event?: IStatusChange['event']
 ) {
   this.status = newStatus;
   
@@ -527,37 +1211,34 @@ BookingSchema.methods.updateStatus = function(
   // Add to status history
   this.statusHistory.push({
     status: newStatus,
-    changedBy: new mongoose.Types.ObjectId(changedBy),
+    changedBy: changedBy ? new mongoose.Types.ObjectId(changedBy) : undefined,
     changedAt: new Date(),
     reason,
-    comments
+    comments,
+    event
   } as IStatusChange);
   
   return this.save();
 };
 
+// Policy tier that applies right now, based on hours until the service
+function getPolicyTier(scheduledDate: Date) {
+  const hoursUntilService = (scheduledDate.getTime() - Date.now()) / (1000 * 60 * 60);
+  return POLICY_TIERS.find(tier => hoursUntilService > tier.minHoursBefore) || POLICY_TIERS[POLICY_TIERS.length - 1]!;
+}
+
 // Instance method to calculate refund amount
 BookingSchema.methods.calculateRefundAmount = function(): number {
-  const now = new Date();
-  const scheduledTime = this.scheduledDate.getTime();
-  const currentTime = now.getTime();
-  const hoursUntilService = (scheduledTime - currentTime) / (1000 * 60 * 60);
-  
-  let refundPercentage = 0;
-  
-  if (hoursUntilService > 24) {
-    refundPercentage = 1.0; // 100% refund
-  } else if (hoursUntilService > 12) {
-    refundPercentage = 0.75; // 75% refund
-  } else if (hoursUntilService > 2) {
-    refundPercentage = 0.5; // 50% refund
-  } else {
-    refundPercentage = 0.25; // 25% refund
-  }
-  
+  const { refundPercentage } = getPolicyTier(this.scheduledDate);
   return Math.round(this.pricing.totalAmount * refundPercentage);
 };
 
+// Instance method to calculate the fee for moving the booking now
+BookingSchema.methods.calculateRescheduleFee = function(): number {
+  const { rescheduleFeePercentage } = getPolicyTier(this.scheduledDate);
+  return Math.round(this.pricing.totalAmount * rescheduleFeePercentage);
+};
+
 // Instance method to add work summary
 BookingSchema.methods.addWorkSummary = function(workSummary: Partial<IWorkSummary>) {
   if (!this.workSummary) {
@@ -575,6 +1256,7 @@ BookingSchema.methods.updatePaymentStatus = function(
   method?: string,
   amount?: number
 ) {
+  const previousTransactionId = this.payment.transactionId;
   this.payment.status = status as any;
   
   if (transactionId) {
@@ -586,13 +1268,23 @@ BookingSchema.methods.updatePaymentStatus = function(
   }
   
   if (amount) {
-    this.payment.paidAmount = amount;
+    // Balance payments (e.g. after an approved quote) add to what was already paid.
+    // The same gateway payment reported twice (verify + webhook) is counted once.
+    if (!transactionId || transactionId !== previousTransactionId) {
+      this.payment.paidAmount = (this.payment.paidAmount || 0) + amount;
+    }
     this.payment.paidAt = new Date();
   }
   
   return this.save();
 };
 
+// Statics the rest of the app calls by name
+interface IBookingModel extends Model<IBooking> {
+  findByCustomer(customerId: string, status?: string, page?: number, limit?: number): Query<IBooking[], IBooking>;
+  findByProvider(providerId: string, status?: string, page?: number, limit?: number): Query<IBooking[], IBooking>;
+}
+
 // Export the model
-const Booking: Model<IBooking> = mongoose.model<IBooking>('Booking', BookingSchema);
+const Booking = mongoose.model<IBooking, IBookingModel>('Booking', BookingSchema);
 export default Booking;
@@ -0,0 +1,216 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IBookingSeries, IRecurrenceRule, ISeriesException } from '@/types';
+import { BookingAddressSchema } from './Booking.model';
+import crypto from 'crypto';
+
+// Days between occurrences for fixed-interval frequencies
+const INTERVAL_DAYS: { [key: string]: number } = {
+  weekly: 7,
+  biweekly: 14
+};
+
+// Recurrence Rule Schema
+const RecurrenceRuleSchema = new Schema<IRecurrenceRule>({
+  frequency: {
+    type: String,
+    required: [true, 'Recurrence frequency is required'],
+    enum: {
+      values: ['weekly', 'biweekly', 'monthly'],
+      message: 'Frequency must be weekly, biweekly or monthly'
+    }
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Series start date is required']
+  },
+  until: {
+    type: Date
+  },
+  count: {
+    type: Number,
+    min: [1, 'Occurrence count must be at least 1'],
+    max: [104, 'Occurrence count cannot exceed 104']
+  }
+}, { _id: false });
+
+// Series Exception Schema (per-occurrence overrides)
+const SeriesExceptionSchema = new Schema<ISeriesException>({
+  occurrenceIndex: {
+    type: Number,
+    required: [true, 'Occurrence index is required'],
+    min: [1, 'Occurrence index must be at least 1']
+  },
+  action: {
+    type: String,
+    required: [true, 'Exception action is required'],
+    enum: {
+      values: ['skip', 'reschedule'],
+      message: 'Exception action must be skip or reschedule'
+    }
+  },
+  rescheduledTo: {
+    type: Date
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Booking Series Schema
+const BookingSeriesSchema = new Schema<IBookingSeries>({
+  seriesNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Series number is required']
+  },
+  customer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Customer is required']
+  },
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  service: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: [true, 'Service is required']
+  },
+  recurrence: {
+    type: RecurrenceRuleSchema,
+    required: [true, 'Recurrence rule is required'],
+    validate: {
+      validator: function(rule: IRecurrenceRule) {
+        return Boolean(rule.until) !== Boolean(rule.count);
+      },
+      message: 'Recurrence must end either on a date or after a number of occurrences'
+    }
+  },
+  estimatedDuration: {
+    type: Number,
+    required: [true, 'Estimated duration is required'],
+    min: [15, 'Duration must be at least 15 minutes'],
+    max: [1440, 'Duration cannot exceed 24 hours']
+  },
+  address: {
+    type: BookingAddressSchema,
+    required: [true, 'Service address is required']
+  },
+  contactPhone: {
+    type: String,
+    required: [true, 'Contact phone is required'],
+    match: [/^[6-9]\d{9}$/, 'Please enter a valid Indian phone number']
+  },
+  specialInstructions: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Special instructions cannot exceed 1000 characters']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['active', 'completed', 'cancelled'],
+      message: 'Invalid series status'
+    },
+    default: 'active'
+  },
+  exceptions: [SeriesExceptionSchema],
+  nextOccurrenceIndex: {
+    type: Number,
+    default: 1,
+    min: [1, 'Occurrence index must be at least 1']
+  },
+  materializedUntil: {
+    type: Date
+  },
+  cancelledBy: {
+    type: String,
+    enum: {
+      values: ['customer', 'provider', 'admin'],
+      message: 'Invalid cancellation source'
+    }
+  },
+  cancellationReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Cancellation reason cannot exceed 500 characters']
+  },
+  cancellationDate: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+BookingSeriesSchema.index({ customer: 1, status: 1 });
+BookingSeriesSchema.index({ provider: 1, status: 1 });
+BookingSeriesSchema.index({ status: 1, materializedUntil: 1 });
+
+// Generate series number
+function generateSeriesNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `BS${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate series number
+BookingSeriesSchema.pre('validate', function(next) {
+  if (!this.seriesNumber) {
+    this.seriesNumber = generateSeriesNumber();
+  }
+
+  next();
+});
+
+// Instance method to get the scheduled date of an occurrence (1-based)
+BookingSeriesSchema.methods.getOccurrenceDate = function(index: number): Date {
+  const start: Date = this.recurrence.startDate;
+  const date = new Date(start);
+
+  if (this.recurrence.frequency === 'monthly') {
+    // Clamp to the last day of shorter months (e.g. 31st -> 30th)
+    date.setDate(1);
+    date.setMonth(start.getMonth() + index - 1);
+    const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    date.setDate(Math.min(start.getDate(), lastDay));
+  } else {
+    date.setDate(start.getDate() + (index - 1) * INTERVAL_DAYS[this.recurrence.frequency]!);
+  }
+
+  return date;
+};
+
+// Instance method to check whether an occurrence falls past the end of the series
+BookingSeriesSchema.methods.hasEnded = function(index: number): boolean {
+  if (this.recurrence.count) {
+    return index > this.recurrence.count;
+  }
+
+  return this.getOccurrenceDate(index) > this.recurrence.until;
+};
+
+// Instance method to get the override for an occurrence
+BookingSeriesSchema.methods.getException = function(index: number): ISeriesException | undefined {
+  return this.exceptions.find((exception: ISeriesException) => exception.occurrenceIndex === index);
+};
+
+// Export the model
+const BookingSeries: Model<IBookingSeries> = mongoose.model<IBookingSeries>('BookingSeries', BookingSeriesSchema);
+export default BookingSeries;
@@ -0,0 +1,120 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ICoupon } from '@/types';
+
+// Coupon Schema
+const CouponSchema = new Schema<ICoupon>({
+  code: {
+    type: String,
+    required: [true, 'Coupon code is required'],
+    unique: true,
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z0-9_-]{3,20}$/, 'Coupon code must be 3-20 letters, numbers, hyphens or underscores']
+  },
+  title: {
+    type: String,
+    required: [true, 'Coupon title is required'],
+    trim: true,
+    maxlength: [100, 'Title cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  type: {
+    type: String,
+    required: [true, 'Coupon type is required'],
+    enum: {
+      values: ['percentage', 'fixed'],
+      message: 'Coupon type must be percentage or fixed'
+    }
+  },
+  value: {
+    type: Number,
+    required: [true, 'Coupon value is required'],
+    min: [0, 'Coupon value cannot be negative'],
+    validate: {
+      validator: function(this: ICoupon, value: number) {
+        return this.type !== 'percentage' || value <= 100;
+      },
+      message: 'Percentage discount cannot exceed 100'
+    }
+  },
+  minimumOrderAmount: {
+    type: Number,
+    min: [0, 'Minimum order amount cannot be negative']
+  },
+  maximumDiscountAmount: {
+    type: Number,
+    min: [0, 'Maximum discount amount cannot be negative']
+  },
+  usageLimit: {
+    type: Number,
+    required: [true, 'Usage limit is required'],
+    min: [1, 'Usage limit must be at least 1']
+  },
+  usedCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Used count cannot be negative']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  applicableServices: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Service'
+  }],
+  applicableCategories: [{
+    type: String,
+    trim: true
+  }],
+  validFrom: {
+    type: Date,
+    required: [true, 'Valid from date is required']
+  },
+  validUntil: {
+    type: Date,
+    required: [true, 'Valid until date is required'],
+    validate: {
+      validator: function(this: ICoupon, date: Date) {
+        return !this.validFrom || date > this.validFrom;
+      },
+      message: 'Valid until date must be after the valid from date'
+    }
+  },
+  userRestrictions: {
+    newUsersOnly: {
+      type: Boolean,
+      default: false
+    },
+    maxUsagePerUser: {
+      type: Number,
+      min: [1, 'Per-user limit must be at least 1']
+    }
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+CouponSchema.index({ isActive: 1, validUntil: 1 });
+
+// Export the model
+const Coupon: Model<ICoupon> = mongoose.model<ICoupon>('Coupon', CouponSchema);
+export default Coupon;
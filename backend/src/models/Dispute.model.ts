@@ -0,0 +1,206 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IDispute, IDisputeEvidence, IDisputeMessage, IDisputeResolution, IDisputeSla } from '@/types';
+import crypto from 'crypto';
+
+// Dispute Evidence Schema (photos and documents backing the claim)
+const DisputeEvidenceSchema = new Schema<IDisputeEvidence>({
+  url: {
+    type: String,
+    required: [true, 'Evidence URL is required']
+  },
+  publicId: {
+    type: String
+  },
+  uploadedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Uploader is required']
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Dispute Message Schema (one post in the conversation)
+const DisputeMessageSchema = new Schema<IDisputeMessage>({
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Message author is required']
+  },
+  authorRole: {
+    type: String,
+    required: [true, 'Author role is required'],
+    enum: {
+      values: ['customer', 'provider', 'admin'],
+      message: 'Invalid author role'
+    }
+  },
+  body: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [2000, 'Message cannot exceed 2000 characters']
+  },
+  attachments: [{
+    type: String
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Dispute SLA Schema
+const DisputeSlaSchema = new Schema<IDisputeSla>({
+  responseDueAt: {
+    type: Date,
+    required: [true, 'Response deadline is required']
+  },
+  resolutionDueAt: {
+    type: Date,
+    required: [true, 'Resolution deadline is required']
+  },
+  providerRespondedAt: {
+    type: Date
+  },
+  escalatedAt: {
+    type: Date
+  },
+  resolutionBreachedAt: {
+    type: Date
+  }
+}, { _id: false });
+
+// Dispute Resolution Schema
+const DisputeResolutionSchema = new Schema<IDisputeResolution>({
+  outcome: {
+    type: String,
+    required: [true, 'Outcome is required'],
+    enum: {
+      values: ['full_refund', 'partial_refund', 'redo', 'provider_penalty', 'rejected'],
+      message: 'Invalid dispute outcome'
+    }
+  },
+  refundAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Refund amount cannot be negative']
+  },
+  penaltyPoints: {
+    type: Number,
+    default: 0,
+    min: [0, 'Penalty points cannot be negative']
+  },
+  redoBooking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Resolution notes cannot exceed 1000 characters']
+  },
+  resolvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Resolver is required']
+  },
+  resolvedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Dispute Schema
+const DisputeSchema = new Schema<IDispute>({
+  disputeNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Dispute number is required']
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking is required']
+  },
+  customer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Customer is required']
+  },
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  category: {
+    type: String,
+    required: [true, 'Dispute category is required'],
+    enum: {
+      values: ['quality', 'damage', 'overcharge', 'no_show'],
+      message: 'Category must be quality, damage, overcharge or no_show'
+    }
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true,
+    maxlength: [2000, 'Description cannot exceed 2000 characters']
+  },
+  evidence: [DisputeEvidenceSchema],
+  messages: [DisputeMessageSchema],
+  status: {
+    type: String,
+    enum: {
+      values: ['open', 'under_review', 'resolving', 'resolved', 'withdrawn'],
+      message: 'Invalid dispute status'
+    },
+    default: 'open'
+  },
+  sla: {
+    type: DisputeSlaSchema,
+    required: [true, 'SLA deadlines are required']
+  },
+  resolution: {
+    type: DisputeResolutionSchema
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+DisputeSchema.index({ booking: 1, status: 1 });
+DisputeSchema.index({ customer: 1, createdAt: -1 });
+DisputeSchema.index({ provider: 1, createdAt: -1 });
+DisputeSchema.index({ status: 1, 'sla.responseDueAt': 1 });
+DisputeSchema.index({ status: 1, 'sla.resolutionDueAt': 1 });
+
+// Generate dispute number
+function generateDisputeNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `DP${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate dispute number
+DisputeSchema.pre('validate', function(next) {
+  if (!this.disputeNumber) {
+    this.disputeNumber = generateDisputeNumber();
+  }
+
+  next();
+});
+
+// Export the model
+const Dispute: Model<IDispute> = mongoose.model<IDispute>('Dispute', DisputeSchema);
+export default Dispute;
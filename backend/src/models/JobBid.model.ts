@@ -0,0 +1,62 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IJobBid } from '@/types';
+
+// Job Bid Schema (a provider's offer on a job post)
+const JobBidSchema = new Schema<IJobBid>({
+  jobPost: {
+    type: Schema.Types.ObjectId,
+    ref: 'JobPost',
+    required: [true, 'Job post is required']
+  },
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Bid amount is required'],
+    min: [1, 'Bid amount must be at least ₹1']
+  },
+  proposedDate: {
+    type: Date,
+    required: [true, 'Proposed start date is required']
+  },
+  estimatedDuration: {
+    type: Number,
+    required: [true, 'Estimated duration is required'],
+    min: [15, 'Estimated duration must be at least 15 minutes']
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'accepted', 'rejected', 'withdrawn'],
+      message: 'Invalid bid status'
+    },
+    default: 'pending'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+JobBidSchema.index({ jobPost: 1, status: 1, amount: 1 });
+JobBidSchema.index({ jobPost: 1, provider: 1 });
+JobBidSchema.index({ provider: 1, createdAt: -1 });
+
+// Export the model
+const JobBid: Model<IJobBid> = mongoose.model<IJobBid>('JobBid', JobBidSchema);
+export default JobBid;
@@ -0,0 +1,134 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IJobPost, IJobPostBudget } from '@/types';
+import { BookingAddressSchema } from './Booking.model';
+import crypto from 'crypto';
+
+// Job Post Budget Schema
+const JobPostBudgetSchema = new Schema<IJobPostBudget>({
+  min: {
+    type: Number,
+    min: [0, 'Budget cannot be negative']
+  },
+  max: {
+    type: Number,
+    required: [true, 'Maximum budget is required'],
+    min: [1, 'Budget must be at least ₹1']
+  }
+}, { _id: false });
+
+// Job Post Schema (custom work a customer puts out to bid)
+const JobPostSchema = new Schema<IJobPost>({
+  postNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Post number is required']
+  },
+  customer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Customer is required']
+  },
+  service: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: [true, 'Service is required']
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [120, 'Title cannot exceed 120 characters']
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true,
+    maxlength: [3000, 'Description cannot exceed 3000 characters']
+  },
+  images: [{
+    type: String
+  }],
+  budget: {
+    type: JobPostBudgetSchema,
+    required: [true, 'Budget is required']
+  },
+  preferredDates: {
+    type: [Date],
+    validate: {
+      validator: (dates: Date[]) => dates.length >= 1 && dates.length <= 5,
+      message: 'Choose between 1 and 5 preferred dates'
+    }
+  },
+  address: {
+    type: BookingAddressSchema,
+    required: [true, 'Job address is required']
+  },
+  contactPhone: {
+    type: String,
+    required: [true, 'Contact phone is required'],
+    match: [/^[6-9]\d{9}$/, 'Please enter a valid Indian phone number']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['open', 'awarded', 'cancelled'],
+      message: 'Invalid job post status'
+    },
+    default: 'open'
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  bidCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Bid count cannot be negative']
+  },
+  acceptedBid: {
+    type: Schema.Types.ObjectId,
+    ref: 'JobBid'
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+JobPostSchema.index({ customer: 1, createdAt: -1 });
+JobPostSchema.index({ status: 1, service: 1, 'address.city': 1, expiresAt: 1 });
+
+// Generate post number
+function generatePostNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `JP${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate post number
+JobPostSchema.pre('validate', function(next) {
+  if (!this.postNumber) {
+    this.postNumber = generatePostNumber();
+  }
+
+  if (this.budget?.min !== undefined && this.budget.min > this.budget.max) {
+    this.invalidate('budget.min', 'Minimum budget cannot exceed the maximum');
+  }
+
+  next();
+});
+
+// Export the model
+const JobPost: Model<IJobPost> = mongoose.model<IJobPost>('JobPost', JobPostSchema);
+export default JobPost;
@@ -0,0 +1,151 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IJournalEntry, IJournalLine } from '@/types';
+import crypto from 'crypto';
+
+export const LEDGER_ACCOUNTS = [
+  'cash', 'customer', 'wallet', 'provider', 'platform_revenue', 'gst_payable', 'tds_payable', 'refunds', 'promotions'
+];
+
+// Journal Line Schema (one side of an entry against one account)
+const JournalLineSchema = new Schema<IJournalLine>({
+  account: {
+    type: String,
+    required: [true, 'Account is required'],
+    enum: {
+      values: LEDGER_ACCOUNTS,
+      message: 'Invalid ledger account'
+    }
+  },
+  party: {
+    type: Schema.Types.ObjectId
+  },
+  debit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Debit cannot be negative']
+  },
+  credit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Credit cannot be negative']
+  }
+}, { _id: false });
+
+// Journal Entry Schema
+const JournalEntrySchema = new Schema<IJournalEntry>({
+  entryNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Entry number is required']
+  },
+  key: {
+    type: String,
+    unique: true,
+    required: [true, 'Entry key is required']
+  },
+  type: {
+    type: String,
+    required: [true, 'Entry type is required'],
+    enum: {
+      values: ['capture', 'refund', 'commission', 'payout', 'promotion', 'expiry'],
+      message: 'Invalid journal entry type'
+    }
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true
+  },
+  reference: {
+    model: {
+      type: String,
+      required: [true, 'Reference model is required'],
+      enum: {
+        values: ['Booking', 'Order', 'AmcContract', 'Settlement', 'Payout', 'WalletTransaction'],
+        message: 'Invalid reference model'
+      }
+    },
+    id: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Reference ID is required'],
+      refPath: 'reference.model'
+    }
+  },
+  lines: {
+    type: [JournalLineSchema],
+    validate: [
+      {
+        validator: (lines: IJournalLine[]) => lines.length >= 2,
+        message: 'A journal entry needs at least two lines'
+      },
+      {
+        validator: (lines: IJournalLine[]) => lines.every(line => (line.debit > 0) !== (line.credit > 0)),
+        message: 'Each line must either debit or credit its account'
+      },
+      {
+        // Compared in paise so rounding cannot unbalance an entry
+        validator: (lines: IJournalLine[]) => {
+          const debits = lines.reduce((sum, line) => sum + Math.round(line.debit * 100), 0);
+          const credits = lines.reduce((sum, line) => sum + Math.round(line.credit * 100), 0);
+          return debits === credits;
+        },
+        message: 'Debits and credits must balance'
+      }
+    ]
+  },
+  postedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+JournalEntrySchema.index({ postedAt: 1 });
+JournalEntrySchema.index({ 'reference.model': 1, 'reference.id': 1 });
+JournalEntrySchema.index({ 'lines.account': 1, 'lines.party': 1 });
+
+// Generate entry number
+function generateEntryNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `JE${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate entry number
+JournalEntrySchema.pre('validate', function(next) {
+  if (!this.entryNumber) {
+    this.entryNumber = generateEntryNumber();
+  }
+
+  next();
+});
+
+// Entries are never changed once posted; mistakes are corrected with a reversing entry
+JournalEntrySchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Journal entries cannot be changed once posted'));
+  }
+
+  next();
+});
+
+JournalEntrySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function(next) {
+    next(new Error('Journal entries cannot be changed once posted'));
+  }
+);
+
+// Export the model
+const JournalEntry: Model<IJournalEntry> = mongoose.model<IJournalEntry>('JournalEntry', JournalEntrySchema);
+export default JournalEntry;
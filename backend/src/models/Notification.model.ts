@@ -11,8 +11,8 @@ const NotificationSchema = new Schema<INotification>({
   type: {
     type: String,
     enum: {
-      values: ['booking', 'payment', 'review', 'system', 'promotion'],
-      message: 'Type must be one of: booking, payment, review, system, promotion'
+      values: ['booking', 'payment', 'review', 'system', 'promotion', 'provider'],
+      message: 'Type must be one of: booking, payment, review, system, promotion, provider'
     },
     required: [true, 'Notification type is required'],
     index: true
@@ -36,15 +36,15 @@ const NotificationSchema = new Schema<INotification>({
   channels: [{
     type: String,
     enum: {
-      values: ['push', 'email', 'sms'],
-      message: 'Channel must be one of: push, email, sms'
+      values: ['in_app', 'push', 'email', 'sms'],
+      message: 'Channel must be one of: in_app, push, email, sms'
     }
   }],
   status: {
     type: String,
     enum: {
-      values: ['pending', 'sent', 'delivered', 'read', 'failed'],
-      message: 'Status must be one of: pending, sent, delivered, read, failed'
+      values: ['pending', 'scheduled', 'sent', 'delivered', 'read', 'failed'],
+      message: 'Status must be one of: pending, scheduled, sent, delivered, read, failed'
     },
     default: 'pending',
     index: true
@@ -58,7 +58,7 @@ const NotificationSchema = new Schema<INotification>({
     default: 'normal',
     index: true
   },
-  scheduledAt: {
+  scheduledFor: {
     type: Date,
     default: null
   },
@@ -66,6 +66,10 @@ const NotificationSchema = new Schema<INotification>({
     type: Date,
     default: null
   },
+  deliveredAt: {
+    type: Date,
+    default: null
+  },
   readAt: {
     type: Date,
     default: null
@@ -90,7 +94,7 @@ const NotificationSchema = new Schema<INotification>({
 NotificationSchema.index({ recipient: 1, status: 1 });
 NotificationSchema.index({ recipient: 1, type: 1 });
 NotificationSchema.index({ recipient: 1, createdAt: -1 });
-NotificationSchema.index({ status: 1, scheduledAt: 1 });
+NotificationSchema.index({ status: 1, scheduledFor: 1 });
 NotificationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
 
 // Instance Methods
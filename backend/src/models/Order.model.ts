@@ -0,0 +1,198 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IOrder, IOrderCoupon, IOrderLine, IOrderPayment, IOrderPricing } from '@/types';
+import crypto from 'crypto';
+
+// Order Line Schema (one child booking)
+const OrderLineSchema = new Schema<IOrderLine>({
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking is required']
+  },
+  service: {
+    type: Schema.Types.ObjectId,
+    ref: 'Service',
+    required: [true, 'Service is required']
+  },
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  scheduledDate: {
+    type: Date,
+    required: [true, 'Scheduled date is required']
+  },
+  subtotal: {
+    type: Number,
+    required: [true, 'Line subtotal is required'],
+    min: [0, 'Line subtotal cannot be negative']
+  },
+  discount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Line discount cannot be negative']
+  },
+  totalAmount: {
+    type: Number,
+    required: [true, 'Line total is required'],
+    min: [0, 'Line total cannot be negative']
+  }
+}, { _id: false });
+
+// Order Coupon Schema (snapshot of the coupon at checkout)
+const OrderCouponSchema = new Schema<IOrderCoupon>({
+  coupon: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: [true, 'Coupon is required']
+  },
+  code: {
+    type: String,
+    required: [true, 'Coupon code is required']
+  },
+  type: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    required: [true, 'Coupon type is required']
+  },
+  value: {
+    type: Number,
+    required: [true, 'Coupon value is required']
+  }
+}, { _id: false });
+
+// Order Pricing Schema
+const OrderPricingSchema = new Schema<IOrderPricing>({
+  subtotal: {
+    type: Number,
+    required: [true, 'Subtotal is required'],
+    min: [0, 'Subtotal cannot be negative']
+  },
+  discount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Discount cannot be negative']
+  },
+  taxAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Tax amount cannot be negative']
+  },
+  totalAmount: {
+    type: Number,
+    required: [true, 'Total amount is required'],
+    min: [0, 'Total amount cannot be negative']
+  }
+}, { _id: false });
+
+// Order Payment Schema
+const OrderPaymentSchema = new Schema<IOrderPayment>({
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'paid', 'failed'],
+      message: 'Invalid payment status'
+    },
+    default: 'pending'
+  },
+  gateway: {
+    type: String,
+    enum: {
+      values: ['razorpay', 'stripe'],
+      message: 'Invalid payment gateway'
+    }
+  },
+  gatewayOrderId: {
+    type: String
+  },
+  transactionId: {
+    type: String
+  },
+  method: {
+    type: String
+  },
+  paidAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Paid amount cannot be negative']
+  },
+  paidAt: {
+    type: Date
+  }
+}, { _id: false });
+
+// Order Schema
+const OrderSchema = new Schema<IOrder>({
+  orderNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Order number is required']
+  },
+  customer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Customer is required']
+  },
+  lines: {
+    type: [OrderLineSchema],
+    validate: {
+      validator: (lines: IOrderLine[]) => lines.length > 0,
+      message: 'An order must have at least one line'
+    }
+  },
+  coupon: {
+    type: OrderCouponSchema
+  },
+  pricing: {
+    type: OrderPricingSchema,
+    required: [true, 'Pricing is required']
+  },
+  payment: {
+    type: OrderPaymentSchema,
+    default: () => ({})
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'paid', 'cancelled'],
+      message: 'Invalid order status'
+    },
+    default: 'pending'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+OrderSchema.index({ customer: 1, createdAt: -1 });
+OrderSchema.index({ 'payment.gatewayOrderId': 1 });
+OrderSchema.index({ 'coupon.coupon': 1, customer: 1 });
+
+// Generate order number
+function generateOrderNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `OR${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate order number
+OrderSchema.pre('validate', function(next) {
+  if (!this.orderNumber) {
+    this.orderNumber = generateOrderNumber();
+  }
+
+  next();
+});
+
+// Export the model
+const Order: Model<IOrder> = mongoose.model<IOrder>('Order', OrderSchema);
+export default Order;
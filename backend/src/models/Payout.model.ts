@@ -0,0 +1,98 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IPayout } from '@/types';
+import { SettlementAmountsSchema } from './Settlement.model';
+import crypto from 'crypto';
+
+// Payout Schema (one provider's transfer in a payout run, with its statement)
+const PayoutSchema = new Schema<IPayout>({
+  payoutNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Payout number is required']
+  },
+  run: {
+    type: Schema.Types.ObjectId,
+    ref: 'PayoutRun',
+    required: [true, 'Payout run is required']
+  },
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  settlements: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Settlement'
+  }],
+  statement: {
+    type: SettlementAmountsSchema,
+    required: [true, 'Statement is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Payout amount is required'],
+    min: [0, 'Payout amount cannot be negative']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'processing', 'paid', 'failed'],
+      message: 'Invalid payout status'
+    },
+    default: 'pending'
+  },
+  adapter: {
+    type: String,
+    required: [true, 'Payout adapter is required']
+  },
+  reference: {
+    type: String
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: [0, 'Attempts cannot be negative']
+  },
+  failureReason: {
+    type: String,
+    trim: true
+  },
+  paidAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+PayoutSchema.index({ provider: 1, createdAt: -1 });
+PayoutSchema.index({ run: 1 });
+PayoutSchema.index({ status: 1 });
+
+// Generate payout number
+function generatePayoutNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `PO${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate payout number
+PayoutSchema.pre('validate', function(next) {
+  if (!this.payoutNumber) {
+    this.payoutNumber = generatePayoutNumber();
+  }
+
+  next();
+});
+
+// Export the model
+const Payout: Model<IPayout> = mongoose.model<IPayout>('Payout', PayoutSchema);
+export default Payout;
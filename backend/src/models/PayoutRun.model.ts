@@ -0,0 +1,72 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IPayoutRun } from '@/types';
+import { SettlementAmountsSchema } from './Settlement.model';
+
+// Payout Run Schema (one weekly batch of provider payouts)
+const PayoutRunSchema = new Schema<IPayoutRun>({
+  runNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Run number is required']
+  },
+  periodStart: {
+    type: Date,
+    required: [true, 'Period start is required']
+  },
+  periodEnd: {
+    type: Date,
+    required: [true, 'Period end is required']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['processing', 'completed'],
+      message: 'Invalid payout run status'
+    },
+    default: 'processing'
+  },
+  totals: {
+    type: SettlementAmountsSchema,
+    default: () => ({})
+  },
+  payoutCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Payout count cannot be negative']
+  },
+  heldAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Held amount cannot be negative']
+  },
+  startedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+PayoutRunSchema.index({ periodEnd: -1 });
+
+// Export the model
+const PayoutRun: Model<IPayoutRun> = mongoose.model<IPayoutRun>('PayoutRun', PayoutRunSchema);
+export default PayoutRun;
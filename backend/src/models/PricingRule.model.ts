@@ -0,0 +1,87 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IPricingRule } from '@/types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Pricing Rule Schema (surge multipliers applied when a booking is priced)
+const PricingRuleSchema = new Schema<IPricingRule>({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Rule name cannot exceed 100 characters']
+  },
+  kind: {
+    type: String,
+    required: [true, 'Rule kind is required'],
+    enum: {
+      values: ['time_of_day', 'same_day', 'demand'],
+      message: 'Rule kind must be time_of_day, same_day or demand'
+    }
+  },
+  multiplier: {
+    type: Number,
+    required: [true, 'Multiplier is required'],
+    min: [1, 'Multiplier cannot be below 1'],
+    max: [5, 'Multiplier cannot exceed 5']
+  },
+  city: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  category: {
+    type: String,
+    trim: true
+  },
+  startTime: {
+    type: String,
+    match: [TIME_PATTERN, 'Start time must be in HH:MM format'],
+    required: [
+      function(this: IPricingRule) { return this.kind === 'time_of_day'; },
+      'Start time is required for time of day rules'
+    ]
+  },
+  endTime: {
+    type: String,
+    match: [TIME_PATTERN, 'End time must be in HH:MM format'],
+    required: [
+      function(this: IPricingRule) { return this.kind === 'time_of_day'; },
+      'End time is required for time of day rules'
+    ]
+  },
+  minDemandRatio: {
+    type: Number,
+    min: [0, 'Demand ratio cannot be negative'],
+    required: [
+      function(this: IPricingRule) { return this.kind === 'demand'; },
+      'Minimum demand ratio is required for demand rules'
+    ]
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+PricingRuleSchema.index({ isActive: 1, city: 1, category: 1 });
+
+// Export the model
+const PricingRule: Model<IPricingRule> = mongoose.model<IPricingRule>('PricingRule', PricingRuleSchema);
+export default PricingRule;
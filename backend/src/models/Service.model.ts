@@ -1,5 +1,18 @@
 import mongoose, { Schema, Model } from 'mongoose';
-import { IService } from '@/types';
+import { IPriceTier, IService } from '@/types';
+
+// Price Tier Schema (one band of a graduated per-unit rate)
+const PriceTierSchema = new Schema<IPriceTier>({
+  upTo: {
+    type: Number,
+    min: [1, 'Tier limit must be at least 1']
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Tier rate is required'],
+    min: [0, 'Tier rate cannot be negative']
+  }
+}, { _id: false });
 
 // Service Schema
 const ServiceSchema = new Schema<IService>({
@@ -62,6 +75,37 @@ const ServiceSchema = new Schema<IService>({
     },
     default: 'fixed'
   },
+  minimumCharge: {
+    type: Number,
+    min: [0, 'Minimum charge cannot be negative']
+  },
+  minimumQuantity: {
+    type: Number,
+    min: [0, 'Minimum quantity cannot be negative']
+  },
+  priceTiers: {
+    type: [PriceTierSchema],
+    default: undefined,
+    validate: {
+      validator: function(tiers: IPriceTier[]) {
+        // Ascending bands; only the last one may be open-ended
+        return tiers.every((tier, i) => {
+          if (tier.upTo === undefined || tier.upTo === null) {
+            return i === tiers.length - 1;
+          }
+          const previous = tiers[i - 1];
+          return !previous || (previous.upTo !== undefined && previous.upTo !== null && tier.upTo > previous.upTo);
+        });
+      },
+      message: 'Price tiers must be in ascending order and only the last tier can be open-ended'
+    }
+  },
+  warrantyDays: {
+    type: Number,
+    default: 0,
+    min: [0, 'Warranty period cannot be negative'],
+    max: [365, 'Warranty period cannot exceed 365 days']
+  },
   duration: {
     type: Number,
     required: [true, 'Estimated duration is required'],
@@ -1,4 +1,4 @@
-import mongoose, { Schema, Model } from 'mongoose';
+import mongoose, { Schema, Model, Query } from 'mongoose';
 import { IServiceProvider, IAvailability, ITimeSlot, IVerificationDocument, IPortfolioItem } from '@/types';
 
 // TimeSlot Schema
@@ -105,6 +105,18 @@ const PortfolioItemSchema = new Schema<IPortfolioItem>({
   }
 }, { _id: false, timestamps: true });
 
+// Booking Lock Schema (short-lived mutex used while reserving slots)
+const BookingLockSchema = new Schema({
+  lockId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
 // ServiceProvider Schema
 const ServiceProviderSchema = new Schema<IServiceProvider>({
   user: {
@@ -223,6 +235,25 @@ const ServiceProviderSchema = new Schema<IServiceProvider>({
   isAvailable: {
     type: Boolean,
     default: true
+  },
+  autoAcceptBookings: {
+    type: Boolean,
+    default: false
+  },
+  noShowCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'No-show count cannot be negative']
+  },
+  reliabilityScore: {
+    type: Number,
+    default: 100,
+    min: [0, 'Reliability score cannot be negative'],
+    max: [100, 'Reliability score cannot exceed 100']
+  },
+  bookingLock: {
+    type: BookingLockSchema,
+    select: false
   }
 }, {
   timestamps: true,
@@ -361,6 +392,11 @@ ServiceProviderSchema.pre('save', function(next) {
   next();
 });
 
+// Statics the rest of the app calls by name
+interface IServiceProviderModel extends Model<IServiceProvider> {
+  findByServiceAndLocation(serviceId: string, city: string, page?: number, limit?: number): Query<IServiceProvider[], IServiceProvider>;
+}
+
 // Export the model
-const ServiceProvider: Model<IServiceProvider> = mongoose.model<IServiceProvider>('ServiceProvider', ServiceProviderSchema);
+const ServiceProvider = mongoose.model<IServiceProvider, IServiceProviderModel>('ServiceProvider', ServiceProviderSchema);
 export default ServiceProvider;
@@ -0,0 +1,116 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { ISettlement, ISettlementAmounts } from '@/types';
+
+// Settlement Amounts Schema (also the totals on payouts and payout runs)
+export const SettlementAmountsSchema = new Schema<ISettlementAmounts>({
+  collected: {
+    type: Number,
+    default: 0,
+    min: [0, 'Collected amount cannot be negative']
+  },
+  gst: {
+    type: Number,
+    default: 0,
+    min: [0, 'GST cannot be negative']
+  },
+  taxable: {
+    type: Number,
+    default: 0,
+    min: [0, 'Taxable amount cannot be negative']
+  },
+  commission: {
+    type: Number,
+    default: 0,
+    min: [0, 'Commission cannot be negative']
+  },
+  commissionGst: {
+    type: Number,
+    default: 0,
+    min: [0, 'GST on commission cannot be negative']
+  },
+  tds: {
+    type: Number,
+    default: 0,
+    min: [0, 'TDS cannot be negative']
+  },
+  net: {
+    type: Number,
+    default: 0,
+    min: [0, 'Net amount cannot be negative']
+  }
+}, { _id: false });
+
+// Settlement Schema (one provider's share of one booking)
+const SettlementSchema = new Schema<ISettlement>({
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking is required']
+  },
+  provider: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceProvider',
+    required: [true, 'Provider is required']
+  },
+  role: {
+    type: String,
+    enum: {
+      values: ['provider', 'lead', 'helper'],
+      message: 'Role must be provider, lead or helper'
+    },
+    default: 'provider'
+  },
+  sharePercent: {
+    type: Number,
+    default: 100,
+    min: [0, 'Share cannot be negative'],
+    max: [100, 'Share cannot exceed 100']
+  },
+  completedAt: {
+    type: Date,
+    required: [true, 'Completion date is required']
+  },
+  amounts: {
+    type: SettlementAmountsSchema,
+    required: [true, 'Amounts are required']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'held', 'in_payout', 'paid', 'reversed'],
+      message: 'Invalid settlement status'
+    },
+    default: 'pending'
+  },
+  holdReason: {
+    type: String,
+    enum: {
+      values: ['dispute', 'refund', 'instalment'],
+      message: 'Hold reason must be dispute, refund or instalment'
+    }
+  },
+  payout: {
+    type: Schema.Types.ObjectId,
+    ref: 'Payout'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+SettlementSchema.index({ booking: 1, provider: 1 }, { unique: true });
+SettlementSchema.index({ provider: 1, status: 1 });
+SettlementSchema.index({ status: 1, completedAt: 1 });
+SettlementSchema.index({ payout: 1 });
+
+// Export the model
+const Settlement: Model<ISettlement> = mongoose.model<ISettlement>('Settlement', SettlementSchema);
+export default Settlement;
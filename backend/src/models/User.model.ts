@@ -130,6 +130,13 @@ const UserSchema = new Schema<IUser>({
     type: Date,
     select: false
   },
+  calendarFeedToken: {
+    type: String,
+    select: false
+  },
+  calendarFeedCreatedAt: {
+    type: Date
+  },
   lastLogin: {
     type: Date,
     default: null
@@ -149,6 +156,7 @@ const UserSchema = new Schema<IUser>({
       delete ret.password;
       delete ret.passwordResetToken;
       delete ret.passwordResetExpires;
+      delete ret.calendarFeedToken;
       delete ret.emailVerificationToken;
       delete ret.emailVerificationExpires;
       delete ret.phoneVerificationToken;
@@ -174,6 +182,7 @@ UserSchema.index({ phone: 1 });
 UserSchema.index({ role: 1 });
 UserSchema.index({ isActive: 1 });
 UserSchema.index({ createdAt: -1 });
+UserSchema.index({ calendarFeedToken: 1 }, { sparse: true });
 
 // Pre-save middleware to hash password
 UserSchema.pre('save', async function(next) {
@@ -324,6 +333,19 @@ UserSchema.methods.generateEmailVerificationToken = function(): string {
   return verificationToken;
 };
 
+// Instance method to generate a calendar feed token. Any previous feed URL stops working.
+UserSchema.methods.generateCalendarFeedToken = function(): string {
+  const feedToken = crypto.randomBytes(32).toString('hex');
+
+  this.calendarFeedToken = crypto
+    .createHash('sha256')
+    .update(feedToken)
+    .digest('hex');
+  this.calendarFeedCreatedAt = new Date();
+
+  return feedToken;
+};
+
 // Instance method to generate phone verification token (6-digit OTP)
 UserSchema.methods.generatePhoneVerificationToken = function(): string {
   const otp = Math.floor(100000 + Math.random() * 900000).toString();
@@ -0,0 +1,31 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IWallet } from '@/types';
+
+// Wallet Schema (one per customer, opened the first time it is used)
+const WalletSchema = new Schema<IWallet>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required'],
+    unique: true
+  },
+  balance: {
+    type: Number,
+    default: 0,
+    min: [0, 'Wallet balance cannot be negative']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Export the model
+const Wallet: Model<IWallet> = mongoose.model<IWallet>('Wallet', WalletSchema);
+export default Wallet;
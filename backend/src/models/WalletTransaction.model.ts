@@ -0,0 +1,107 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IWalletTransaction } from '@/types';
+import crypto from 'crypto';
+
+// Wallet Transaction Schema (one line of a customer's wallet history)
+const WalletTransactionSchema = new Schema<IWalletTransaction>({
+  transactionNumber: {
+    type: String,
+    unique: true,
+    required: [true, 'Transaction number is required']
+  },
+  wallet: {
+    type: Schema.Types.ObjectId,
+    ref: 'Wallet',
+    required: [true, 'Wallet is required']
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  type: {
+    type: String,
+    required: [true, 'Transaction type is required'],
+    enum: {
+      values: ['refund', 'promotion', 'payment', 'expiry'],
+      message: 'Invalid wallet transaction type'
+    }
+  },
+  direction: {
+    type: String,
+    required: [true, 'Direction is required'],
+    enum: {
+      values: ['credit', 'debit'],
+      message: 'Invalid wallet transaction direction'
+    }
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0.01, 'Amount must be positive']
+  },
+  balanceAfter: {
+    type: Number,
+    required: [true, 'Balance after the transaction is required']
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  remaining: {
+    type: Number,
+    min: [0, 'Remaining credit cannot be negative']
+  },
+  expiresAt: {
+    type: Date
+  },
+  expiredCredit: {
+    type: Schema.Types.ObjectId,
+    ref: 'WalletTransaction'
+  },
+  grantedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+WalletTransactionSchema.index({ user: 1, createdAt: -1 });
+WalletTransactionSchema.index({ wallet: 1, remaining: 1 });
+WalletTransactionSchema.index({ expiresAt: 1, remaining: 1 });
+
+// Generate transaction number
+function generateTransactionNumber(): string {
+  const timestamp = Date.now().toString();
+  const randomBytes = crypto.randomBytes(3).toString('hex').toUpperCase();
+  return `WT${timestamp.slice(-6)}${randomBytes}`;
+}
+
+// Pre-validate middleware to generate transaction number
+WalletTransactionSchema.pre('validate', function(next) {
+  if (!this.transactionNumber) {
+    this.transactionNumber = generateTransactionNumber();
+  }
+
+  next();
+});
+
+// Export the model
+const WalletTransaction: Model<IWalletTransaction> = mongoose.model<IWalletTransaction>('WalletTransaction', WalletTransactionSchema);
+export default WalletTransaction;
@@ -3,7 +3,22 @@ import UserModel from './User.model';
 import ServiceModel from './Service.model';
 import ServiceProviderModel from './ServiceProvider.model';
 import BookingModel from './Booking.model';
+import BookingSeriesModel from './BookingSeries.model';
+import OrderModel from './Order.model';
+import CouponModel from './Coupon.model';
+import PricingRuleModel from './PricingRule.model';
+import AmcPlanModel from './AmcPlan.model';
+import AmcContractModel from './AmcContract.model';
+import JobPostModel from './JobPost.model';
+import JobBidModel from './JobBid.model';
 import ReviewModel from './Review.model';
+import DisputeModel from './Dispute.model';
+import SettlementModel from './Settlement.model';
+import PayoutRunModel from './PayoutRun.model';
+import PayoutModel from './Payout.model';
+import JournalEntryModel from './JournalEntry.model';
+import WalletModel from './Wallet.model';
+import WalletTransactionModel from './WalletTransaction.model';
 import NotificationModel from './Notification.model';
 
 // Export models with both default and named exports for flexibility
@@ -11,7 +26,22 @@ export const User = UserModel;
 export const Service = ServiceModel;
 export const ServiceProvider = ServiceProviderModel;
 export const Booking = BookingModel;
+export const BookingSeries = BookingSeriesModel;
+export const Order = OrderModel;
+export const Coupon = CouponModel;
+export const PricingRule = PricingRuleModel;
+export const AmcPlan = AmcPlanModel;
+export const AmcContract = AmcContractModel;
+export const JobPost = JobPostModel;
+export const JobBid = JobBidModel;
 export const Review = ReviewModel;
+export const Dispute = DisputeModel;
+export const Settlement = SettlementModel;
+export const PayoutRun = PayoutRunModel;
+export const Payout = PayoutModel;
+export const JournalEntry = JournalEntryModel;
+export const Wallet = WalletModel;
+export const WalletTransaction = WalletTransactionModel;
 export const Notification = NotificationModel;
 
 // Also export as default for backward compatibility
@@ -20,6 +50,21 @@ export default {
   Service: ServiceModel,
   ServiceProvider: ServiceProviderModel,
   Booking: BookingModel,
+  BookingSeries: BookingSeriesModel,
+  Order: OrderModel,
+  Coupon: CouponModel,
+  PricingRule: PricingRuleModel,
+  AmcPlan: AmcPlanModel,
+  AmcContract: AmcContractModel,
+  JobPost: JobPostModel,
+  JobBid: JobBidModel,
   Review: ReviewModel,
+  Dispute: DisputeModel,
+  Settlement: SettlementModel,
+  PayoutRun: PayoutRunModel,
+  Payout: PayoutModel,
+  JournalEntry: JournalEntryModel,
+  Wallet: WalletModel,
+  WalletTransaction: WalletTransactionModel,
   Notification: NotificationModel
 };
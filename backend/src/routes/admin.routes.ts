@@ -8,11 +8,18 @@ import {
   getPlatformReport,
   updateSettings,
   exportData,
-  getPendingApprovals
+  getPendingApprovals,
+  createCoupon,
+  getCoupons,
+  updateCouponStatus,
+  createPricingRule,
+  getPricingRules,
+  updatePricingRule,
+  getTrialBalance
 } from '@/controllers/admin.controller';
 import { protect, restrictTo } from '@/middleware/auth.middleware';
 import { validateRequest } from '@/middleware/validation.middleware';
-import { body, query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 
 const router = express.Router();
 
@@ -56,6 +63,76 @@ router.get('/export', [
   validateRequest
 ], exportData);
 
+// Finance
+router.get('/finance/trial-balance', [
+  query('asOf').optional().isISO8601().withMessage('As-of date must be a valid date'),
+  validateRequest
+], getTrialBalance);
+
+// Coupons
+router.get('/coupons', [
+  query('isActive').optional().isBoolean(),
+  validateRequest
+], getCoupons);
+
+router.post('/coupons', [
+  body('code').matches(/^[A-Za-z0-9_-]{3,20}$/).withMessage('Coupon code must be 3-20 letters, numbers, hyphens or underscores'),
+  body('title').notEmpty().withMessage('Coupon title is required'),
+  body('type').isIn(['percentage', 'fixed']).withMessage('Coupon type must be percentage or fixed'),
+  body('value').isFloat({ min: 0 }).withMessage('Valid coupon value is required'),
+  body('usageLimit').isInt({ min: 1 }).withMessage('Usage limit must be at least 1'),
+  body('validFrom').isISO8601().withMessage('Valid from date is required'),
+  body('validUntil').isISO8601().withMessage('Valid until date is required'),
+  body('minimumOrderAmount').optional().isFloat({ min: 0 }),
+  body('maximumDiscountAmount').optional().isFloat({ min: 0 }),
+  body('applicableServices').optional().isArray(),
+  body('applicableServices.*').optional().isMongoId(),
+  body('applicableCategories').optional().isArray(),
+  body('userRestrictions.newUsersOnly').optional().isBoolean(),
+  body('userRestrictions.maxUsagePerUser').optional().isInt({ min: 1 }),
+  validateRequest
+], createCoupon);
+
+router.patch('/coupons/:id/status', [
+  param('id').isMongoId().withMessage('Valid coupon ID is required'),
+  body('isActive').isBoolean().withMessage('isActive must be true or false'),
+  validateRequest
+], updateCouponStatus);
+
+// Surge pricing rules
+router.get('/pricing-rules', [
+  query('isActive').optional().isBoolean(),
+  query('city').optional().isString(),
+  query('category').optional().isString(),
+  validateRequest
+], getPricingRules);
+
+router.post('/pricing-rules', [
+  body('name').notEmpty().withMessage('Rule name is required'),
+  body('kind').isIn(['time_of_day', 'same_day', 'demand']).withMessage('Rule kind must be time_of_day, same_day or demand'),
+  body('multiplier').isFloat({ min: 1, max: 5 }).withMessage('Multiplier must be between 1 and 5'),
+  body('city').optional().isString(),
+  body('category').optional().isString(),
+  body('startTime').if(body('kind').equals('time_of_day'))
+    .matches(/^([01]\d|2[0-3]):([0-5]\d)$/).withMessage('Start time must be in HH:MM format'),
+  body('endTime').if(body('kind').equals('time_of_day'))
+    .matches(/^([01]\d|2[0-3]):([0-5]\d)$/).withMessage('End time must be in HH:MM format'),
+  body('minDemandRatio').if(body('kind').equals('demand'))
+    .isFloat({ min: 0 }).withMessage('Minimum demand ratio is required for demand rules'),
+  validateRequest
+], createPricingRule);
+
+router.patch('/pricing-rules/:id', [
+  param('id').isMongoId().withMessage('Valid pricing rule ID is required'),
+  body('name').optional().notEmpty(),
+  body('multiplier').optional().isFloat({ min: 1, max: 5 }).withMessage('Multiplier must be between 1 and 5'),
+  body('startTime').optional().matches(/^([01]\d|2[0-3]):([0-5]\d)$/).withMessage('Start time must be in HH:MM format'),
+  body('endTime').optional().matches(/^([01]\d|2[0-3]):([0-5]\d)$/).withMessage('End time must be in HH:MM format'),
+  body('minDemandRatio').optional().isFloat({ min: 0 }),
+  body('isActive').optional().isBoolean(),
+  validateRequest
+], updatePricingRule);
+
 // Settings management
 router.put('/settings', [
   body('platformFeePercentage').optional().isFloat({ min: 0, max: 100 }),
@@ -0,0 +1,135 @@
+import express from 'express';
+import {
+  getAmcPlans,
+  getAmcPlanById,
+  createAmcPlan,
+  updateAmcPlan,
+  purchaseAmcContract,
+  getAmcContracts,
+  getAmcContractById,
+  createAmcPayment,
+  verifyAmcPayment,
+  bookAmcVisit,
+  renewAmcContract,
+  cancelAmcContract,
+  assignAmcProvider
+} from '@/controllers/amc.controller';
+import { protect, restrictTo } from '@/middleware/auth.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { body, param, query } from 'express-validator';
+
+const router = express.Router();
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Public routes
+router.get('/plans', [
+  query('serviceId').optional().isMongoId().withMessage('Valid service ID is required'),
+  validateRequest
+], getAmcPlans);
+
+router.get('/plans/:id', [
+  param('id').isMongoId().withMessage('Valid plan ID is required'),
+  validateRequest
+], getAmcPlanById);
+
+// All other routes require authentication
+router.use(protect);
+
+// Create a maintenance plan
+router.post('/plans', restrictTo('admin'), [
+  body('serviceId').isMongoId().withMessage('Valid service ID is required'),
+  body('name').isString().trim().notEmpty().withMessage('Plan name is required'),
+  body('description').optional().isString().isLength({ max: 1000 }),
+  body('visits').isInt({ min: 1, max: 24 }).withMessage('Visits must be between 1 and 24'),
+  body('termMonths').optional().isInt({ min: 1, max: 36 }).withMessage('Term must be between 1 and 36 months'),
+  body('price').isFloat({ min: 0 }).withMessage('Price cannot be negative'),
+  body('maxInstalments').optional().isInt({ min: 1, max: 12 }).withMessage('Instalments must be between 1 and 12'),
+  validateRequest
+], createAmcPlan);
+
+// Update a maintenance plan
+router.patch('/plans/:id', restrictTo('admin'), [
+  param('id').isMongoId().withMessage('Valid plan ID is required'),
+  body('name').optional().isString().trim().notEmpty(),
+  body('description').optional().isString().isLength({ max: 1000 }),
+  body('visits').optional().isInt({ min: 1, max: 24 }).withMessage('Visits must be between 1 and 24'),
+  body('termMonths').optional().isInt({ min: 1, max: 36 }).withMessage('Term must be between 1 and 36 months'),
+  body('price').optional().isFloat({ min: 0 }).withMessage('Price cannot be negative'),
+  body('maxInstalments').optional().isInt({ min: 1, max: 12 }).withMessage('Instalments must be between 1 and 12'),
+  body('isActive').optional().isBoolean(),
+  validateRequest
+], updateAmcPlan);
+
+// Get maintenance contracts
+router.get('/contracts', [
+  query('status').optional().isIn(['pending_payment', 'active', 'expired', 'cancelled']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getAmcContracts);
+
+// Buy a maintenance plan
+router.post('/contracts', restrictTo('customer'), [
+  body('planId').isMongoId().withMessage('Valid plan ID is required'),
+  body('address').isObject().withMessage('Address is required'),
+  body('address.street').notEmpty().withMessage('Street address is required'),
+  body('address.city').notEmpty().withMessage('City is required'),
+  body('address.state').notEmpty().withMessage('State is required'),
+  body('address.pincode').matches(/^\d{6}$/).withMessage('Valid 6-digit pincode is required'),
+  body('preferredTime').matches(TIME_PATTERN).withMessage('Preferred time must be in HH:MM format'),
+  body('startDate').optional().isISO8601().withMessage('Valid start date is required'),
+  body('instalments').optional().isInt({ min: 1, max: 12 }).withMessage('Instalments must be between 1 and 12'),
+  body('providerId').optional().isMongoId().withMessage('Valid provider ID is required'),
+  validateRequest
+], purchaseAmcContract);
+
+// Get contract by ID
+router.get('/contracts/:id', [
+  param('id').isMongoId().withMessage('Valid contract ID is required'),
+  validateRequest
+], getAmcContractById);
+
+// Create the payment order for the next instalment
+router.post('/contracts/:id/pay', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid contract ID is required'),
+  body('gateway').optional().isIn(['razorpay', 'stripe']).withMessage('Unknown payment gateway'),
+  validateRequest
+], createAmcPayment);
+
+// Verify an instalment payment
+router.post('/contracts/:id/verify', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid contract ID is required'),
+  body('orderId').optional().isString(),
+  body('paymentId').optional().isString(),
+  body('signature').optional().isString(),
+  validateRequest
+], verifyAmcPayment);
+
+// Book the next visit at a chosen time
+router.post('/contracts/:id/visits', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid contract ID is required'),
+  body('scheduledDate').isISO8601().withMessage('Valid visit date is required'),
+  validateRequest
+], bookAmcVisit);
+
+// Renew the contract
+router.post('/contracts/:id/renew', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid contract ID is required'),
+  validateRequest
+], renewAmcContract);
+
+// Cancel an unpaid contract
+router.post('/contracts/:id/cancel', restrictTo('customer', 'admin'), [
+  param('id').isMongoId().withMessage('Valid contract ID is required'),
+  validateRequest
+], cancelAmcContract);
+
+// Assign another provider
+router.patch('/contracts/:id/provider', restrictTo('admin'), [
+  param('id').isMongoId().withMessage('Valid contract ID is required'),
+  body('providerId').isMongoId().withMessage('Valid provider ID is required'),
+  validateRequest
+], assignAmcProvider);
+
+export default router;
@@ -1,10 +1,29 @@
 import express from 'express';
 import {
   createBooking,
+  getBookingQuote,
   getUserBookings,
   getBookingById,
+  downloadBookingCalendar,
   updateBookingStatus,
   cancelBooking,
+  getBookingOffers,
+  acceptBooking,
+  declineBooking,
+  transferBooking,
+  createRescheduleRequest,
+  acceptRescheduleRequest,
+  declineRescheduleRequest,
+  submitQuote,
+  getBookingQuotes,
+  approveQuote,
+  rejectQuote,
+  getJobCodes,
+  startJob,
+  completeJob,
+  checkInCrewMember,
+  reportNoShow,
+  claimWarranty,
   addWorkSummary,
   getTodaysBookings,
   getUpcomingBookings,
@@ -23,10 +42,36 @@ router.use(protect);
 router.get('/', getUserBookings);
 router.get('/upcoming', getUpcomingBookings);
 router.get('/today', getTodaysBookings);
+router.get('/offers', restrictTo('provider'), getBookingOffers);
 
-// Create new booking
+// Preview the price of a booking before confirming it
+router.post('/quote', [
+  body('serviceId').isMongoId().withMessage('Valid service ID is required'),
+  body('scheduledDate').isISO8601().withMessage('Valid scheduled date is required'),
+  body('address').isObject().withMessage('Address is required'),
+  body('address.city').notEmpty().withMessage('City is required'),
+  body('quantity').optional().isObject().withMessage('Quantity must be an object'),
+  body('quantity.squareFeet').optional().isFloat({ min: 1, max: 1000000 }).withMessage('Area must be a positive number of square feet'),
+  body('quantity.items').optional().isInt({ min: 1, max: 1000 }).withMessage('Item count must be a whole number from 1 to 1000'),
+  body('quantity.hours').optional().isFloat({ min: 0.5, max: 24 }).withMessage('Hours must be between 0.5 and 24'),
+  validateRequest
+], getBookingQuote);
+
+// Create new booking (omit providerId to have the system dispatch one)
 router.post('/', [
-  body('providerId').isMongoId().withMessage('Valid provider ID is required'),
+  body('providerId').optional().isMongoId().withMessage('Valid provider ID is required'),
+  body('dispatchMode').optional().isIn(['sequential', 'broadcast'])
+    .withMessage('Dispatch mode must be sequential or broadcast'),
+  body('bookingType').optional().isIn(['standard', 'urgent'])
+    .withMessage('Booking type must be standard or urgent'),
+  body('quantity').optional().isObject().withMessage('Quantity must be an object'),
+  body('quantity.squareFeet').optional().isFloat({ min: 1, max: 1000000 }).withMessage('Area must be a positive number of square feet'),
+  body('quantity.items').optional().isInt({ min: 1, max: 1000 }).withMessage('Item count must be a whole number from 1 to 1000'),
+  body('quantity.hours').optional().isFloat({ min: 0.5, max: 24 }).withMessage('Hours must be between 0.5 and 24'),
+  body('crew').optional().isArray().withMessage('Crew must be a list of helpers'),
+  body('crew.*.providerId').isMongoId().withMessage('Valid crew member ID is required'),
+  body('crew.*.sharePercent').optional().isInt({ min: 1, max: 99 })
+    .withMessage('Crew share must be between 1 and 99 percent'),
   body('serviceId').isMongoId().withMessage('Valid service ID is required'),
   body('scheduledDate').isISO8601().withMessage('Valid scheduled date is required'),
   body('address').isObject().withMessage('Address is required'),
@@ -43,6 +88,12 @@ router.get('/:id', [
   validateRequest
 ], getBookingById);
 
+// Download booking as a calendar file
+router.get('/:id/calendar.ics', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  validateRequest
+], downloadBookingCalendar);
+
 // Update booking status
 router.put('/:id/status', [
   param('id').isMongoId().withMessage('Valid booking ID is required'),
@@ -54,9 +105,125 @@ router.put('/:id/status', [
 // Cancel booking
 router.delete('/:id', [
   param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('refundTo').optional().isIn(['source', 'wallet']).withMessage('Refund must go to the source or the wallet'),
   validateRequest
 ], cancelBooking);
 
+// Accept or decline a booking offer (providers the booking was offered to)
+router.put('/:id/accept', restrictTo('provider'), [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  validateRequest
+], acceptBooking);
+
+router.put('/:id/decline', restrictTo('provider'), [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('reason').optional().isString().isLength({ max: 500 }),
+  validateRequest
+], declineBooking);
+
+// Transfer booking to another provider (Assigned provider or Admin)
+router.put('/:id/transfer', restrictTo('provider', 'admin'), [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('providerId').isMongoId().withMessage('Valid provider ID is required'),
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Transfer reason is required'),
+  validateRequest
+], transferBooking);
+
+// Reschedule requests (either party proposes, the other responds)
+router.post('/:id/reschedule-requests', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('scheduledDate').isISO8601().withMessage('Valid scheduled date is required'),
+  body('reason').optional().isString().isLength({ max: 500 }),
+  validateRequest
+], createRescheduleRequest);
+
+router.put('/:id/reschedule-requests/:requestId/accept', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  param('requestId').isMongoId().withMessage('Valid reschedule request ID is required'),
+  validateRequest
+], acceptRescheduleRequest);
+
+router.put('/:id/reschedule-requests/:requestId/decline', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  param('requestId').isMongoId().withMessage('Valid reschedule request ID is required'),
+  body('reason').optional().isString().isLength({ max: 500 }),
+  validateRequest
+], declineRescheduleRequest);
+
+// Quotes for additional work (provider submits, customer approves or rejects)
+router.get('/:id/quotes', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  validateRequest
+], getBookingQuotes);
+
+router.post('/:id/quotes', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('lineItems').isArray({ min: 1, max: 50 }).withMessage('Between 1 and 50 line items are required'),
+  body('lineItems.*.type').isIn(['labour', 'materials', 'other'])
+    .withMessage('Line item type must be labour, materials or other'),
+  body('lineItems.*.description').isString().trim().isLength({ min: 1, max: 100 })
+    .withMessage('Line item description is required (max 100 characters)'),
+  body('lineItems.*.quantity').optional().isFloat({ gt: 0 }).withMessage('Quantity must be greater than zero'),
+  body('lineItems.*.unitPrice').isFloat({ min: 0 }).withMessage('Valid unit price is required'),
+  body('notes').optional().isString().isLength({ max: 1000 }),
+  validateRequest
+], submitQuote);
+
+router.put('/:id/quotes/:quoteId/approve', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  param('quoteId').isMongoId().withMessage('Valid quote ID is required'),
+  validateRequest
+], approveQuote);
+
+router.put('/:id/quotes/:quoteId/reject', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  param('quoteId').isMongoId().withMessage('Valid quote ID is required'),
+  body('reason').optional().isString().isLength({ max: 500 }),
+  validateRequest
+], rejectQuote);
+
+// Start / completion handshake (customer shares the code, provider submits it)
+router.get('/:id/job-codes', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  validateRequest
+], getJobCodes);
+
+router.post('/:id/start', restrictTo('provider'), [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('code').matches(/^\d{6}$/).withMessage('Valid 6-digit code is required'),
+  validateRequest
+], startJob);
+
+router.post('/:id/complete', restrictTo('provider'), [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('code').matches(/^\d{6}$/).withMessage('Valid 6-digit code is required'),
+  validateRequest
+], completeJob);
+
+// Each crew member (lead or helper) checks in on arrival
+router.post('/:id/crew/check-in', restrictTo('provider'), [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  validateRequest
+], checkInCrewMember);
+
+// Report the other party's no-show (admins name the party)
+router.post('/:id/no-show', [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('party').optional().isIn(['customer', 'provider']).withMessage('Party must be customer or provider'),
+  body('evidence').optional().isArray({ max: 10 }).withMessage('Up to 10 evidence links are allowed'),
+  body('evidence.*').isURL().withMessage('Evidence must be a valid URL'),
+  body('notes').optional().isString().isLength({ max: 1000 }),
+  validateRequest
+], reportNoShow);
+
+// Claim a free re-visit while the job is under warranty
+router.post('/:id/warranty-claim', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid booking ID is required'),
+  body('issue').isString().trim().isLength({ min: 10, max: 1000 }).withMessage('Issue must be between 10 and 1000 characters'),
+  body('scheduledDate').isISO8601().withMessage('Valid re-visit date is required'),
+  validateRequest
+], claimWarranty);
+
 // Add work summary (providers only)
 router.put('/:id/work-summary', [
   param('id').isMongoId().withMessage('Valid booking ID is required'),
@@ -0,0 +1,70 @@
+import express from 'express';
+import {
+  createBookingSeries,
+  getMyBookingSeries,
+  getBookingSeriesById,
+  skipOccurrence,
+  rescheduleOccurrence,
+  cancelBookingSeries
+} from '@/controllers/bookingSeries.controller';
+import { protect, restrictTo } from '@/middleware/auth.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { body, param } from 'express-validator';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Get user's booking series
+router.get('/', getMyBookingSeries);
+
+// Create new booking series
+router.post('/', restrictTo('customer'), [
+  body('providerId').isMongoId().withMessage('Valid provider ID is required'),
+  body('serviceId').isMongoId().withMessage('Valid service ID is required'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('frequency').isIn(['weekly', 'biweekly', 'monthly'])
+    .withMessage('Frequency must be weekly, biweekly or monthly'),
+  body('until').optional().isISO8601().withMessage('Valid end date is required'),
+  body('count').optional().isInt({ min: 1, max: 104 }).withMessage('Count must be between 1 and 104'),
+  body().custom(value => Boolean(value.until) !== Boolean(value.count))
+    .withMessage('Provide either an end date or an occurrence count'),
+  body('address').isObject().withMessage('Address is required'),
+  body('address.street').notEmpty().withMessage('Street address is required'),
+  body('address.city').notEmpty().withMessage('City is required'),
+  body('address.state').notEmpty().withMessage('State is required'),
+  body('address.pincode').matches(/^\d{6}$/).withMessage('Valid 6-digit pincode is required'),
+  validateRequest
+], createBookingSeries);
+
+// Get booking series by ID
+router.get('/:id', [
+  param('id').isMongoId().withMessage('Valid series ID is required'),
+  validateRequest
+], getBookingSeriesById);
+
+// Skip a single occurrence
+router.post('/:id/occurrences/:index/skip', [
+  param('id').isMongoId().withMessage('Valid series ID is required'),
+  param('index').isInt({ min: 1 }).withMessage('Valid occurrence index is required'),
+  body('reason').optional().isString().isLength({ max: 500 }),
+  validateRequest
+], skipOccurrence);
+
+// Reschedule a single occurrence
+router.put('/:id/occurrences/:index/reschedule', [
+  param('id').isMongoId().withMessage('Valid series ID is required'),
+  param('index').isInt({ min: 1 }).withMessage('Valid occurrence index is required'),
+  body('scheduledDate').isISO8601().withMessage('Valid scheduled date is required'),
+  body('reason').optional().isString().isLength({ max: 500 }),
+  validateRequest
+], rescheduleOccurrence);
+
+// Cancel the whole series
+router.delete('/:id', [
+  param('id').isMongoId().withMessage('Valid series ID is required'),
+  validateRequest
+], cancelBookingSeries);
+
+export default router;
@@ -0,0 +1,28 @@
+import express from 'express';
+import {
+  createCalendarFeed,
+  revokeCalendarFeed,
+  getCalendarFeed
+} from '@/controllers/calendar.controller';
+import { protect } from '@/middleware/auth.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { param } from 'express-validator';
+
+const router = express.Router();
+
+// Subscription feed (before authentication; calendar apps cannot log in)
+router.get('/feed/:token.ics', [
+  param('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid calendar feed'),
+  validateRequest
+], getCalendarFeed);
+
+// Protected routes
+router.use(protect);
+
+// Create or replace the feed URL
+router.post('/feed', createCalendarFeed);
+
+// Revoke the feed URL
+router.delete('/feed', revokeCalendarFeed);
+
+export default router;
@@ -0,0 +1,78 @@
+import express from 'express';
+import {
+  createDispute,
+  getDisputes,
+  getDisputeById,
+  addDisputeMessage,
+  escalateDispute,
+  withdrawDispute,
+  resolveDispute
+} from '@/controllers/dispute.controller';
+import { protect, restrictTo } from '@/middleware/auth.middleware';
+import { uploadDisputeEvidence, handleUploadError } from '@/middleware/upload.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { body, param, query } from 'express-validator';
+
+const router = express.Router();
+
+const DISPUTE_CATEGORIES = ['quality', 'damage', 'overcharge', 'no_show'];
+const DISPUTE_STATUSES = ['open', 'under_review', 'resolving', 'resolved', 'withdrawn'];
+const DISPUTE_OUTCOMES = ['full_refund', 'partial_refund', 'redo', 'provider_penalty', 'rejected'];
+
+// All routes require authentication
+router.use(protect);
+
+// Get disputes the user is party to
+router.get('/', [
+  query('status').optional().isIn(DISPUTE_STATUSES),
+  query('category').optional().isIn(DISPUTE_CATEGORIES),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getDisputes);
+
+// Raise a dispute, with evidence files under the "evidence" field
+router.post('/', restrictTo('customer'), uploadDisputeEvidence, handleUploadError, [
+  body('bookingId').isMongoId().withMessage('Valid booking ID is required'),
+  body('category').isIn(DISPUTE_CATEGORIES).withMessage(`Category must be one of: ${DISPUTE_CATEGORIES.join(', ')}`),
+  body('description').isString().trim().isLength({ min: 10, max: 2000 }).withMessage('Description must be between 10 and 2000 characters'),
+  validateRequest
+], createDispute);
+
+// Get dispute by ID
+router.get('/:id', [
+  param('id').isMongoId().withMessage('Valid dispute ID is required'),
+  validateRequest
+], getDisputeById);
+
+// Post to the conversation, with attachments under the "evidence" field
+router.post('/:id/messages', uploadDisputeEvidence, handleUploadError, [
+  param('id').isMongoId().withMessage('Valid dispute ID is required'),
+  body('body').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Message must be between 1 and 2000 characters'),
+  validateRequest
+], addDisputeMessage);
+
+// Ask the support team to review
+router.post('/:id/escalate', restrictTo('customer', 'provider'), [
+  param('id').isMongoId().withMessage('Valid dispute ID is required'),
+  validateRequest
+], escalateDispute);
+
+// Withdraw the dispute
+router.post('/:id/withdraw', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid dispute ID is required'),
+  validateRequest
+], withdrawDispute);
+
+// Resolve the dispute
+router.post('/:id/resolve', restrictTo('admin'), [
+  param('id').isMongoId().withMessage('Valid dispute ID is required'),
+  body('outcome').isIn(DISPUTE_OUTCOMES).withMessage(`Outcome must be one of: ${DISPUTE_OUTCOMES.join(', ')}`),
+  body('refundAmount').optional().isFloat({ min: 0 }).withMessage('Refund amount must be a positive number'),
+  body('penaltyPoints').optional().isInt({ min: 0, max: 100 }).withMessage('Penalty points must be between 0 and 100'),
+  body('scheduledDate').optional().isISO8601().withMessage('Valid redo date is required'),
+  body('notes').optional().isString().isLength({ max: 1000 }),
+  validateRequest
+], resolveDispute);
+
+export default router;
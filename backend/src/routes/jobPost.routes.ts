@@ -0,0 +1,91 @@
+import express from 'express';
+import {
+  getJobPosts,
+  createJobPost,
+  getJobPostById,
+  cancelJobPost,
+  getMyJobBids,
+  submitJobBid,
+  withdrawJobBid,
+  acceptJobBid
+} from '@/controllers/jobPost.controller';
+import { protect, restrictTo } from '@/middleware/auth.middleware';
+import { uploadJobPostImages, handleUploadError } from '@/middleware/upload.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { body, param, query } from 'express-validator';
+
+const router = express.Router();
+
+const JOB_POST_STATUSES = ['open', 'awarded', 'cancelled'];
+const JOB_BID_STATUSES = ['pending', 'accepted', 'rejected', 'withdrawn'];
+
+// All routes require authentication
+router.use(protect);
+
+// Get job posts
+router.get('/', [
+  query('status').optional().isIn(JOB_POST_STATUSES),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getJobPosts);
+
+// Post a job, with photos under the "images" field
+router.post('/', restrictTo('customer'), uploadJobPostImages, handleUploadError, [
+  body('serviceId').isMongoId().withMessage('Valid service ID is required'),
+  body('title').isString().trim().isLength({ min: 5, max: 120 }).withMessage('Title must be between 5 and 120 characters'),
+  body('description').isString().trim().isLength({ min: 20, max: 3000 }).withMessage('Description must be between 20 and 3000 characters'),
+  body('budget.max').isFloat({ min: 1 }).withMessage('Maximum budget is required'),
+  body('budget.min').optional().isFloat({ min: 0 }).withMessage('Minimum budget cannot be negative'),
+  body('preferredDates').exists().withMessage('At least one preferred date is required'),
+  body('preferredDates.*').isISO8601().withMessage('Preferred dates must be valid dates'),
+  body('address.street').notEmpty().withMessage('Street address is required'),
+  body('address.city').notEmpty().withMessage('City is required'),
+  body('address.state').notEmpty().withMessage('State is required'),
+  body('address.pincode').matches(/^\d{6}$/).withMessage('Valid 6-digit pincode is required'),
+  validateRequest
+], createJobPost);
+
+// Get the provider's own bids
+router.get('/bids', restrictTo('provider'), [
+  query('status').optional().isIn(JOB_BID_STATUSES),
+  validateRequest
+], getMyJobBids);
+
+// Get job post by ID
+router.get('/:id', [
+  param('id').isMongoId().withMessage('Valid job post ID is required'),
+  validateRequest
+], getJobPostById);
+
+// Take a job post down
+router.post('/:id/cancel', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid job post ID is required'),
+  validateRequest
+], cancelJobPost);
+
+// Bid on a job
+router.post('/:id/bids', restrictTo('provider'), [
+  param('id').isMongoId().withMessage('Valid job post ID is required'),
+  body('amount').isFloat({ min: 1 }).withMessage('Bid amount must be at least ₹1'),
+  body('proposedDate').isISO8601().withMessage('Valid start date is required'),
+  body('estimatedDuration').isInt({ min: 15 }).withMessage('Estimated duration must be at least 15 minutes'),
+  body('message').optional().isString().isLength({ max: 1000 }),
+  validateRequest
+], submitJobBid);
+
+// Withdraw a bid
+router.post('/:id/bids/:bidId/withdraw', restrictTo('provider'), [
+  param('id').isMongoId().withMessage('Valid job post ID is required'),
+  param('bidId').isMongoId().withMessage('Valid bid ID is required'),
+  validateRequest
+], withdrawJobBid);
+
+// Accept a bid
+router.post('/:id/bids/:bidId/accept', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid job post ID is required'),
+  param('bidId').isMongoId().withMessage('Valid bid ID is required'),
+  validateRequest
+], acceptJobBid);
+
+export default router;
@@ -0,0 +1,64 @@
+import express from 'express';
+import {
+  createOrder,
+  getMyOrders,
+  getOrderById,
+  createOrderPayment,
+  verifyOrderPayment
+} from '@/controllers/order.controller';
+import { protect, restrictTo } from '@/middleware/auth.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { body, param, query } from 'express-validator';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Get user's orders
+router.get('/', [
+  query('status').optional().isIn(['pending', 'paid', 'cancelled']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getMyOrders);
+
+// Check out several services as one order
+router.post('/', restrictTo('customer'), [
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.providerId').isMongoId().withMessage('Valid provider ID is required for each item'),
+  body('items.*.serviceId').isMongoId().withMessage('Valid service ID is required for each item'),
+  body('items.*.scheduledDate').isISO8601().withMessage('Valid scheduled date is required for each item'),
+  body('items.*.specialInstructions').optional().isString().isLength({ max: 1000 }),
+  body('address').isObject().withMessage('Address is required'),
+  body('address.street').notEmpty().withMessage('Street address is required'),
+  body('address.city').notEmpty().withMessage('City is required'),
+  body('address.state').notEmpty().withMessage('State is required'),
+  body('address.pincode').matches(/^\d{6}$/).withMessage('Valid 6-digit pincode is required'),
+  body('couponCode').optional().isString().trim().notEmpty(),
+  validateRequest
+], createOrder);
+
+// Get order by ID
+router.get('/:id', [
+  param('id').isMongoId().withMessage('Valid order ID is required'),
+  validateRequest
+], getOrderById);
+
+// Create the payment order for the whole checkout
+router.post('/:id/pay', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid order ID is required'),
+  body('gateway').optional().isIn(['razorpay', 'stripe']).withMessage('Unknown payment gateway'),
+  validateRequest
+], createOrderPayment);
+
+// Verify the payment and split it across the bookings
+router.post('/:id/verify', restrictTo('customer'), [
+  param('id').isMongoId().withMessage('Valid order ID is required'),
+  body('orderId').optional().isString(),
+  body('paymentId').optional().isString(),
+  body('signature').optional().isString(),
+  validateRequest
+], verifyOrderPayment);
+
+export default router;
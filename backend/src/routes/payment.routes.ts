@@ -5,33 +5,74 @@ import {
   createPaymentLink,
   processRefund,
   getTransactions,
-  razorpayWebhook,
+  getGateways,
+  handleWebhook,
+  fakeCheckout,
+  fakeCapture,
+  fakeWebhook,
   getPaymentStats
 } from '@/controllers/payment.controller';
+import { config } from '@/config/env';
 import { protect, restrictTo } from '@/middleware/auth.middleware';
 import { validateRequest } from '@/middleware/validation.middleware';
 import { body, param, query } from 'express-validator';
 
 const router = express.Router();
 
-// Webhook route (before authentication)
-router.post('/webhook/razorpay', express.raw({ type: 'application/json' }), razorpayWebhook);
+const PAYMENT_GATEWAYS = ['razorpay', 'stripe'];
+
+// Webhook routes (before authentication); the raw body is kept in server.ts
+router.post('/webhook/:gateway', [
+  param('gateway').isIn(PAYMENT_GATEWAYS).withMessage('Unknown payment gateway'),
+  validateRequest
+], handleWebhook);
+
+// Fake gateway controls, only when it stands in for Razorpay (development and tests)
+if (config.payments.fakeGateway) {
+  router.post('/fake/orders/:orderId/checkout', [
+    param('orderId').matches(/^(order|plink)_fake/).withMessage('Not a fake gateway order'),
+    body('outcome').optional().isIn(['captured', 'authorized', 'declined']),
+    body('method').optional().isString(),
+    validateRequest
+  ], fakeCheckout);
+
+  router.post('/fake/payments/:paymentId/capture', [
+    param('paymentId').matches(/^pay_fake/).withMessage('Not a fake gateway payment'),
+    validateRequest
+  ], fakeCapture);
+
+  router.post('/fake/webhooks', [
+    body('event').isIn(['payment.authorized', 'payment.captured', 'payment.failed', 'refund.created'])
+      .withMessage('Unsupported webhook event'),
+    body('id').notEmpty().withMessage('Payment or refund ID is required'),
+    validateRequest
+  ], fakeWebhook);
+}
 
 // Protected routes
 router.use(protect);
 
+// Gateways the customer can pay through
+router.get('/gateways', [
+  query('currency').optional().isLength({ min: 3, max: 3 }).withMessage('Currency must be a 3-letter code'),
+  validateRequest
+], getGateways);
+
 // Create payment order
 router.post('/create-order', [
   body('bookingId').isMongoId().withMessage('Valid booking ID is required'),
-  body('amount').isFloat({ min: 0.01 }).withMessage('Valid amount is required'),
+  body('gateway').optional().isIn(PAYMENT_GATEWAYS).withMessage('Unknown payment gateway'),
+  body('useWallet').optional().isBoolean().withMessage('useWallet must be true or false').toBoolean(),
+  body('walletAmount').optional().isFloat({ min: 0.01 }).withMessage('Wallet amount must be positive').toFloat(),
   validateRequest
 ], createOrder);
 
-// Verify payment
+// Verify payment (Razorpay checkout posts razorpay_* fields; other gateways post orderId and paymentId)
 router.post('/verify', [
-  body('razorpay_order_id').notEmpty().withMessage('Order ID is required'),
-  body('razorpay_payment_id').notEmpty().withMessage('Payment ID is required'),
-  body('razorpay_signature').notEmpty().withMessage('Payment signature is required'),
+  body('bookingId').isMongoId().withMessage('Valid booking ID is required'),
+  body('orderId').optional().isString(),
+  body('paymentId').optional().isString(),
+  body('signature').optional().isString(),
   validateRequest
 ], verifyPayment);
 
@@ -40,6 +81,7 @@ router.post('/payment-link', [
   body('bookingId').isMongoId().withMessage('Valid booking ID is required'),
   body('amount').isFloat({ min: 0.01 }).withMessage('Valid amount is required'),
   body('description').optional().isString(),
+  body('gateway').optional().isIn(PAYMENT_GATEWAYS).withMessage('Unknown payment gateway'),
   validateRequest
 ], createPaymentLink);
 
@@ -9,8 +9,10 @@ import {
   verifyProvider,
   getProviderBookings,
   getProviderReviews,
+  getProviderSlots,
   updateProviderSettings,
-  getProviderEarnings
+  getProviderEarnings,
+  getProviderRoutePlan
 } from '@/controllers/provider.controller';
 import { protect, restrictTo, optionalAuth } from '@/middleware/auth.middleware';
 import { validateRequest } from '@/middleware/validation.middleware';
@@ -41,6 +43,15 @@ router.get('/:id/reviews', [
   validateRequest
 ], getProviderReviews);
 
+router.get('/:id/slots', [
+  param('id').isMongoId().withMessage('Valid provider ID is required'),
+  query('date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be in YYYY-MM-DD format'),
+  query('serviceId').isMongoId().withMessage('Valid service ID is required'),
+  query('latitude').optional().isFloat({ min: -90, max: 90 }).withMessage('Latitude must be between -90 and 90'),
+  query('longitude').optional().isFloat({ min: -180, max: 180 }).withMessage('Longitude must be between -180 and 180'),
+  validateRequest
+], getProviderSlots);
+
 // Provider registration
 router.post('/register', [
   body('name').notEmpty().withMessage('Name is required'),
@@ -84,6 +95,10 @@ router.put('/settings', [
 router.get('/dashboard/stats', getProviderStats);
 router.get('/dashboard/bookings', getProviderBookings);
 router.get('/dashboard/earnings', getProviderEarnings);
+router.get('/dashboard/route', restrictTo('provider'), [
+  query('date').optional().matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be in YYYY-MM-DD format'),
+  validateRequest
+], getProviderRoutePlan);
 
 // Admin routes
 router.put('/verify/:id', [
@@ -45,6 +45,12 @@ router.post('/', [
   body('basePrice').isNumeric().withMessage('Base price must be a number'),
   body('priceUnit').isIn(['fixed', 'hourly', 'square_foot', 'per_item']).withMessage('Invalid price unit'),
   body('duration').isNumeric().withMessage('Duration must be a number'),
+  body('minimumCharge').optional().isFloat({ min: 0 }).withMessage('Minimum charge cannot be negative'),
+  body('minimumQuantity').optional().isFloat({ min: 0 }).withMessage('Minimum quantity cannot be negative'),
+  body('priceTiers').optional().isArray().withMessage('Price tiers must be a list'),
+  body('priceTiers.*.upTo').optional().isFloat({ min: 1 }).withMessage('Tier limit must be at least 1'),
+  body('priceTiers.*.rate').optional().isFloat({ min: 0 }).withMessage('Tier rate cannot be negative'),
+  body('warrantyDays').optional().isInt({ min: 0, max: 365 }).withMessage('Warranty period must be between 0 and 365 days'),
   validateRequest
 ], createService);
 
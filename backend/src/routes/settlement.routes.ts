@@ -0,0 +1,64 @@
+import express from 'express';
+import {
+  getMySettlements,
+  getPayouts,
+  getPayoutStatement,
+  retryPayout,
+  createPayoutRun,
+  getPayoutRuns,
+  getPayoutRun
+} from '@/controllers/settlement.controller';
+import { protect, restrictTo } from '@/middleware/auth.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { param, query } from 'express-validator';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// My settlement balance and settled jobs
+router.get('/me', restrictTo('provider'), [
+  query('status').optional().isIn(['pending', 'held', 'in_payout', 'paid', 'reversed']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getMySettlements);
+
+// Payouts
+router.get('/payouts', restrictTo('provider', 'admin'), [
+  query('status').optional().isIn(['pending', 'processing', 'paid', 'failed']),
+  query('providerId').optional().isMongoId().withMessage('Valid provider ID is required'),
+  query('runId').optional().isMongoId().withMessage('Valid run ID is required'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getPayouts);
+
+// Payout statement
+router.get('/payouts/:id', restrictTo('provider', 'admin'), [
+  param('id').isMongoId().withMessage('Valid payout ID is required'),
+  validateRequest
+], getPayoutStatement);
+
+// Retry a failed payout
+router.post('/payouts/:id/retry', restrictTo('admin'), [
+  param('id').isMongoId().withMessage('Valid payout ID is required'),
+  validateRequest
+], retryPayout);
+
+// Payout runs
+router.post('/runs', restrictTo('admin'), createPayoutRun);
+
+router.get('/runs', restrictTo('admin'), [
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getPayoutRuns);
+
+router.get('/runs/:id', restrictTo('admin'), [
+  param('id').isMongoId().withMessage('Valid run ID is required'),
+  validateRequest
+], getPayoutRun);
+
+export default router;
@@ -0,0 +1,37 @@
+import express from 'express';
+import {
+  getMyWallet,
+  getMyTransactions,
+  grantPromotionalCredit
+} from '@/controllers/wallet.controller';
+import { protect, restrictTo } from '@/middleware/auth.middleware';
+import { validateRequest } from '@/middleware/validation.middleware';
+import { body, query } from 'express-validator';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// My wallet balance
+router.get('/', restrictTo('customer'), getMyWallet);
+
+// My wallet history
+router.get('/transactions', restrictTo('customer'), [
+  query('type').optional().isIn(['refund', 'promotion', 'payment', 'expiry']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  validateRequest
+], getMyTransactions);
+
+// Grant promotional credit
+router.post('/credits', restrictTo('admin'), [
+  body('userId').isMongoId().withMessage('Valid user ID is required'),
+  body('amount').isFloat({ min: 1 }).withMessage('Amount must be at least 1').toFloat(),
+  body('description').trim().isLength({ min: 3, max: 150 })
+    .withMessage('Description must be between 3 and 150 characters'),
+  body('expiresAt').optional().isISO8601().withMessage('Expiry must be a valid date'),
+  validateRequest
+], grantPromotionalCredit);
+
+export default router;
@@ -12,6 +12,7 @@ import { redisClient } from '@/config/redis';
 import logger from '@/config/logger';
 import { errorHandler, notFound } from '@/middleware/error.middleware';
 import { specs, swaggerUi, swaggerSetup } from '@/config/swagger.config';
+import { startJobs, stopJobs } from '@/jobs';
 
 // Import routes
 import authRoutes from '@/routes/auth.routes';
@@ -19,8 +20,16 @@ import userRoutes from '@/routes/user.routes';
 import serviceRoutes from '@/routes/service.routes';
 import providerRoutes from '@/routes/provider.routes';
 import bookingRoutes from '@/routes/booking.routes';
+import bookingSeriesRoutes from '@/routes/bookingSeries.routes';
+import orderRoutes from '@/routes/order.routes';
+import calendarRoutes from '@/routes/calendar.routes';
 import reviewRoutes from '@/routes/review.routes';
+import disputeRoutes from '@/routes/dispute.routes';
+import amcRoutes from '@/routes/amc.routes';
+import jobPostRoutes from '@/routes/jobPost.routes';
 import paymentRoutes from '@/routes/payment.routes';
+import settlementRoutes from '@/routes/settlement.routes';
+import walletRoutes from '@/routes/wallet.routes';
 import adminRoutes from '@/routes/admin.routes';
 import notificationRoutes from '@/routes/notification.routes';
 
@@ -67,6 +76,8 @@ app.use(cors({
 }));
 app.use(compression()); // Gzip compression
 app.use(morgan('combined', { stream: { write: (message) => logger.info(message.trim()) } }));
+// Gateway webhooks are signed over the exact bytes sent, so they skip JSON parsing
+app.use(`/api/${API_VERSION}/payments/webhook`, express.raw({ type: 'application/json' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -94,8 +105,16 @@ app.use(`/api/${API_VERSION}/users`, userRoutes);
 app.use(`/api/${API_VERSION}/services`, serviceRoutes);
 app.use(`/api/${API_VERSION}/providers`, providerRoutes);
 app.use(`/api/${API_VERSION}/bookings`, bookingRoutes);
+app.use(`/api/${API_VERSION}/booking-series`, bookingSeriesRoutes);
+app.use(`/api/${API_VERSION}/orders`, orderRoutes);
+app.use(`/api/${API_VERSION}/calendar`, calendarRoutes);
 app.use(`/api/${API_VERSION}/reviews`, reviewRoutes);
+app.use(`/api/${API_VERSION}/disputes`, disputeRoutes);
+app.use(`/api/${API_VERSION}/amc`, amcRoutes);
+app.use(`/api/${API_VERSION}/job-posts`, jobPostRoutes);
 app.use(`/api/${API_VERSION}/payments`, paymentRoutes);
+app.use(`/api/${API_VERSION}/settlements`, settlementRoutes);
+app.use(`/api/${API_VERSION}/wallet`, walletRoutes);
 app.use(`/api/${API_VERSION}/admin`, adminRoutes);
 app.use(`/api/${API_VERSION}/notifications`, notificationRoutes);
 
@@ -135,6 +154,9 @@ process.on('SIGINT', gracefulShutdown);
 function gracefulShutdown(signal: string) {
   logger.info(`Received ${signal}. Starting graceful shutdown...`);
   
+  // Stop background jobs
+  stopJobs();
+  
   httpServer.close(() => {
     logger.info('HTTP server closed');
     
@@ -175,6 +197,11 @@ async function startServer() {
       logger.warn('Redis connection failed, continuing without cache');
     }
     
+    // Start background jobs (not in tests, which drive them directly)
+    if (process.env.NODE_ENV !== 'test') {
+      startJobs();
+    }
+    
     // Start server
     httpServer.listen(PORT, () => {
       logger.info(`Server running in ${process.env.NODE_ENV} mode on port ${PORT}`);
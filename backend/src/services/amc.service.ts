@@ -0,0 +1,696 @@
+import { Types } from 'mongoose';
+import AmcContract from '@/models/AmcContract.model';
+import AmcPlan from '@/models/AmcPlan.model';
+import Booking from '@/models/Booking.model';
+import Service from '@/models/Service.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import {
+  IAddress,
+  IAmcContract,
+  IAmcInstalment,
+  IAmcPlan,
+  IAmcVisit,
+  IBooking,
+  IService,
+  IServiceProvider,
+  IUser
+} from '@/types';
+import availabilityService from './availability.service';
+import bookingAssignmentService from './bookingAssignment.service';
+import dispatchService from './dispatch.service';
+import ledgerService from './ledger.service';
+import notificationService from './notification.service';
+import paymentService, { PaymentOrderResponse } from './payment.service';
+import { GST_RATE } from './pricing.service';
+
+export interface AmcPurchaseRequest {
+  customer: IUser;
+  planId: string;
+  address: IAddress;
+  contactPhone: string;
+  preferredTime: string;
+  startDate?: Date;
+  instalments?: number;
+  providerId?: string; // picked by dispatch ranking when unset
+}
+
+export interface AmcEntitlement {
+  included: number;
+  completed: number;
+  booked: number;
+  missed: number;
+  remaining: number; // not yet booked or used
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Visits are never booked with less notice than this
+const MIN_NOTICE_HOURS = 24;
+
+class AmcService {
+  /**
+   * Sell a plan to a customer. The contract starts once the first instalment
+   * is paid.
+   */
+  async purchase(request: AmcPurchaseRequest): Promise<IAmcContract> {
+    const plan = await AmcPlan.findById(request.planId);
+    if (!plan || !plan.isActive) {
+      throw new AppError('Maintenance plan not found or no longer on sale', 404);
+    }
+
+    const service = await this.findService(plan);
+    const instalments = request.instalments || 1;
+    if (instalments > plan.maxInstalments) {
+      throw new AppError(`This plan can be paid in at most ${plan.maxInstalments} instalment(s)`, 400);
+    }
+
+    const startDate = this.startOfDay(request.startDate || new Date(Date.now() + DAY_MS));
+    if (startDate.getTime() < this.startOfDay(new Date()).getTime()) {
+      throw new AppError('Start date cannot be in the past', 400);
+    }
+
+    const provider = request.providerId
+      ? await this.findEligibleProvider(request.providerId, service, request.address)
+      : await this.pickProvider(service, request.address, this.atTime(startDate, request.preferredTime));
+
+    return AmcContract.create({
+      ...this.buildTerms(plan, startDate, instalments),
+      plan: plan._id,
+      customer: request.customer._id,
+      service: service._id,
+      provider: provider._id,
+      address: request.address,
+      contactPhone: request.contactPhone,
+      preferredTime: request.preferredTime
+    });
+  }
+
+  /**
+   * Start a new contract on the same plan, provider and address from the day
+   * the current one ends
+   */
+  async renew(contract: IAmcContract): Promise<IAmcContract> {
+    if (!['active', 'expired'].includes(contract.status)) {
+      throw new AppError(`Cannot renew a contract in ${contract.status} status`, 400);
+    }
+
+    if (contract.renewedBy) {
+      throw new AppError('This contract has already been renewed', 409);
+    }
+
+    const plan = await AmcPlan.findById(contract.plan);
+    if (!plan || !plan.isActive) {
+      throw new AppError('This maintenance plan is no longer on sale', 400);
+    }
+
+    const tomorrow = this.startOfDay(new Date(Date.now() + DAY_MS));
+    const startDate = contract.endDate > tomorrow ? this.startOfDay(contract.endDate) : tomorrow;
+    const instalments = Math.min(contract.instalments.length, plan.maxInstalments);
+
+    const renewal = await AmcContract.create({
+      ...this.buildTerms(plan, startDate, instalments),
+      plan: plan._id,
+      customer: contract.customer,
+      service: contract.service,
+      provider: contract.provider,
+      address: contract.address,
+      contactPhone: contract.contactPhone,
+      preferredTime: contract.preferredTime,
+      renewalOf: contract._id
+    });
+
+    contract.renewedBy = renewal._id;
+    await contract.save();
+
+    return renewal;
+  }
+
+  /**
+   * Cancel a contract that was never paid for
+   */
+  async cancel(contract: IAmcContract): Promise<IAmcContract> {
+    if (contract.status !== 'pending_payment') {
+      throw new AppError('Only contracts awaiting payment can be cancelled', 400);
+    }
+
+    contract.status = 'cancelled';
+    await contract.save();
+
+    return contract;
+  }
+
+  /**
+   * Create a gateway order for the next unpaid instalment
+   */
+  async createPaymentOrder(
+    contract: IAmcContract,
+    gateway?: string
+  ): Promise<{ paymentOrder: PaymentOrderResponse; instalment: IAmcInstalment }> {
+    if (!['pending_payment', 'active'].includes(contract.status)) {
+      throw new AppError(`Cannot pay for a contract in ${contract.status} status`, 400);
+    }
+
+    const instalment = this.getNextInstalment(contract);
+    if (!instalment) {
+      throw new AppError('Nothing is due on this contract', 400);
+    }
+
+    const paymentOrder = await paymentService.createPaymentOrder(
+      instalment.amount,
+      undefined,
+      `amc_${contract.contractNumber}_${instalment.index}`,
+      {
+        amc_contract_id: contract._id.toString(),
+        amc_contract_number: contract.contractNumber,
+        instalment_index: instalment.index.toString(),
+        customer_id: contract.customer.toString()
+      },
+      gateway
+    );
+
+    instalment.gateway = paymentOrder.gateway;
+    instalment.gatewayOrderId = paymentOrder.id;
+    await contract.save();
+
+    return { paymentOrder, instalment };
+  }
+
+  /**
+   * Mark an instalment as paid and activate the contract on its first payment.
+   * The same payment reported twice (verify + webhook) is applied once.
+   */
+  async recordPayment(contract: IAmcContract, instalmentIndex: number, transactionId: string): Promise<IAmcContract> {
+    const claimed = await AmcContract.findOneAndUpdate(
+      { _id: contract._id, instalments: { $elemMatch: { index: instalmentIndex, status: 'pending' } } },
+      {
+        $set: {
+          'instalments.$.status': 'paid',
+          'instalments.$.transactionId': transactionId,
+          'instalments.$.paidAt': new Date()
+        }
+      },
+      { new: true }
+    );
+
+    if (!claimed) {
+      return (await AmcContract.findById(contract._id))!;
+    }
+
+    logger.info(`AMC instalment ${instalmentIndex} paid: ${claimed.contractNumber}`);
+
+    const instalment = claimed.instalments.find(item => item.index === instalmentIndex)!;
+    await ledgerService.recordCapture({
+      paymentId: transactionId,
+      customer: claimed.customer._id as Types.ObjectId,
+      amount: instalment.amount,
+      reference: { model: 'AmcContract', id: claimed._id },
+      description: `Instalment ${instalmentIndex} of maintenance contract ${claimed.contractNumber}`
+    });
+
+    if (claimed.status === 'pending_payment') {
+      claimed.status = 'active';
+      await claimed.save();
+
+      // Book the first visit straight away if it is coming up
+      try {
+        await this.scheduleContractVisits(claimed);
+      } catch (error) {
+        logger.error(`Failed to schedule visits for contract ${claimed.contractNumber}:`, error);
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Let the customer book their next visit at a time of their choosing
+   */
+  async bookVisit(contract: IAmcContract, scheduledDate: Date): Promise<IBooking> {
+    if (contract.status !== 'active') {
+      throw new AppError(`Cannot book visits on a contract in ${contract.status} status`, 400);
+    }
+
+    if (this.hasOverdueInstalment(contract)) {
+      throw new AppError('Please pay the overdue instalment before booking a visit', 402);
+    }
+
+    if (scheduledDate <= new Date()) {
+      throw new AppError('Scheduled date must be in the future', 400);
+    }
+
+    if (scheduledDate.getTime() < Date.now() + MIN_NOTICE_HOURS * HOUR_MS) {
+      throw new AppError(`Visits must be booked at least ${MIN_NOTICE_HOURS} hours in advance`, 400);
+    }
+
+    if (scheduledDate > contract.endDate) {
+      throw new AppError('Visits must take place before the contract ends', 400);
+    }
+
+    await this.syncVisits(contract);
+
+    // The next visit nobody else has claimed meanwhile
+    for (const visit of contract.visits) {
+      if (visit.status === 'upcoming' && await this.claimVisit(contract, visit)) {
+        return this.createVisitBooking(contract, visit, scheduledDate);
+      }
+    }
+
+    throw new AppError('All visits under this contract have been used or booked', 400);
+  }
+
+  /**
+   * Book every visit falling due within the scheduling horizon on active,
+   * paid-up contracts
+   */
+  async scheduleDueVisits(): Promise<number> {
+    const horizon = new Date(Date.now() + config.booking.amcSchedulingHorizonDays * DAY_MS);
+    const contracts = await AmcContract.find({
+      status: 'active',
+      visits: { $elemMatch: { status: { $in: ['upcoming', 'booked'] }, dueDate: { $lte: horizon } } }
+    });
+
+    let booked = 0;
+
+    for (const contract of contracts) {
+      try {
+        booked += await this.scheduleContractVisits(contract, horizon);
+      } catch (error) {
+        logger.error(`Failed to schedule visits for contract ${contract.contractNumber}:`, error);
+      }
+    }
+
+    return booked;
+  }
+
+  /**
+   * Bring visit statuses in line with their bookings: completed visits are used
+   * up, and visits whose booking was cancelled (or the provider did not turn up)
+   * can be booked again
+   */
+  async syncVisits(contract: IAmcContract): Promise<void> {
+    const booked = contract.visits.filter(visit => visit.status === 'booked' && visit.booking);
+    if (booked.length === 0) {
+      return;
+    }
+
+    const bookings = await Booking.find({ _id: { $in: booked.map(visit => visit.booking) } })
+      .select('status noShow');
+    let changed = false;
+
+    for (const visit of booked) {
+      const booking = bookings.find(entry => entry._id.toString() === visit.booking!._id.toString());
+      if (!booking) {
+        continue;
+      }
+
+      if (booking.status === 'completed') {
+        visit.status = 'completed';
+      } else if (booking.status === 'cancelled' || (booking.status === 'no-show' && booking.noShow?.party === 'provider')) {
+        visit.status = 'upcoming';
+        visit.booking = undefined;
+      } else if (booking.status === 'no-show' && booking.noShow?.party === 'customer') {
+        visit.status = 'missed';
+      } else {
+        continue;
+      }
+
+      changed = true;
+    }
+
+    if (changed) {
+      await contract.save();
+    }
+  }
+
+  getEntitlement(contract: IAmcContract): AmcEntitlement {
+    const count = (status: IAmcVisit['status']) => contract.visits.filter(visit => visit.status === status).length;
+
+    return {
+      included: contract.visits.length,
+      completed: count('completed'),
+      booked: count('booked'),
+      missed: count('missed'),
+      remaining: count('upcoming')
+    };
+  }
+
+  /**
+   * Remind customers once that their contract is about to end
+   */
+  async sendRenewalReminders(): Promise<number> {
+    const cutoff = new Date(Date.now() + config.booking.amcRenewalReminderDays * DAY_MS);
+    const contracts = await AmcContract.find({
+      status: 'active',
+      endDate: { $lte: cutoff },
+      renewedBy: { $exists: false },
+      renewalReminderSentAt: { $exists: false }
+    }).populate('service', 'name');
+
+    let sent = 0;
+
+    for (const contract of contracts) {
+      // Only one instance wins, so nobody is reminded twice
+      const claimed = await AmcContract.findOneAndUpdate(
+        { _id: contract._id, renewalReminderSentAt: { $exists: false } },
+        { $set: { renewalReminderSentAt: new Date() } }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        await notificationService.sendNotification({
+          recipient: contract.customer.toString(),
+          type: 'system',
+          title: 'Your maintenance contract is ending soon',
+          message: `Your ${(contract.service as IService).name} contract ${contract.contractNumber} ends on ${contract.endDate.toLocaleDateString('en-IN')}. Renew it to keep your visits going.`,
+          data: { contractId: contract._id.toString(), contractNumber: contract.contractNumber },
+          channels: ['in_app', 'email']
+        });
+        sent++;
+      } catch (error) {
+        logger.error(`Failed to send renewal reminder for contract ${contract.contractNumber}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Close contracts whose term has ended. Visits never booked are forfeited.
+   */
+  async expireContracts(): Promise<number> {
+    const contracts = await AmcContract.find({ status: 'active', endDate: { $lte: new Date() } });
+
+    for (const contract of contracts) {
+      await this.syncVisits(contract);
+
+      for (const visit of contract.visits) {
+        if (visit.status === 'upcoming') {
+          visit.status = 'missed';
+        }
+      }
+
+      contract.status = 'expired';
+      await contract.save();
+    }
+
+    return contracts.length;
+  }
+
+  /**
+   * Hand future visits to another provider
+   */
+  async assignProvider(contract: IAmcContract, providerId: string): Promise<IAmcContract> {
+    if (['expired', 'cancelled'].includes(contract.status)) {
+      throw new AppError(`Cannot reassign a contract in ${contract.status} status`, 400);
+    }
+
+    const service = await Service.findById(contract.service);
+    if (!service) {
+      throw new AppError('Service not found', 404);
+    }
+
+    const provider = await this.findEligibleProvider(providerId, service, contract.address);
+    contract.provider = provider._id;
+    await contract.save();
+
+    return contract;
+  }
+
+  private async scheduleContractVisits(
+    contract: IAmcContract,
+    horizon: Date = new Date(Date.now() + config.booking.amcSchedulingHorizonDays * DAY_MS)
+  ): Promise<number> {
+    await this.syncVisits(contract);
+
+    if (this.hasOverdueInstalment(contract)) {
+      logger.warn(`Not scheduling visits for contract ${contract.contractNumber}: instalment overdue`);
+      return 0;
+    }
+
+    let booked = 0;
+
+    for (const visit of contract.visits) {
+      if (visit.status !== 'upcoming' || visit.dueDate > horizon) {
+        continue;
+      }
+
+      // Booked by the customer or another run meanwhile
+      if (!await this.claimVisit(contract, visit)) {
+        continue;
+      }
+
+      try {
+        await this.createVisitBooking(contract, visit, this.getVisitDate(contract, visit));
+        booked++;
+      } catch (error: any) {
+        // Nobody free at that time; the next run tries again
+        if (error.statusCode !== 409) {
+          throw error;
+        }
+        logger.warn(`No provider available for visit ${visit.index} of contract ${contract.contractNumber}`);
+      }
+    }
+
+    return booked;
+  }
+
+  /**
+   * Mark an upcoming visit as booked, only if it still is upcoming, so the cron
+   * job and the customer cannot both book the same visit
+   */
+  private async claimVisit(contract: IAmcContract, visit: IAmcVisit): Promise<boolean> {
+    const claimed = await AmcContract.findOneAndUpdate(
+      { _id: contract._id, visits: { $elemMatch: { index: visit.index, status: 'upcoming' } } },
+      { $set: { 'visits.$.status': 'booked' } }
+    );
+
+    return claimed !== null;
+  }
+
+  /**
+   * Book a claimed visit at no charge, with the contract's provider when they
+   * are free and otherwise with the best-ranked provider who is. The booking is
+   * linked to the visit as soon as it exists; if none can be made the claim is
+   * released.
+   */
+  private async createVisitBooking(contract: IAmcContract, visit: IAmcVisit, scheduledDate: Date): Promise<IBooking> {
+    let reserved: { booking: IBooking; provider: IServiceProvider };
+
+    try {
+      reserved = await this.reserveVisitBooking(contract, visit, scheduledDate);
+    } catch (error) {
+      await AmcContract.updateOne(
+        { _id: contract._id, visits: { $elemMatch: { index: visit.index, status: 'booked', booking: { $exists: false } } } },
+        { $set: { 'visits.$.status': 'upcoming' } }
+      );
+      throw error;
+    }
+
+    await AmcContract.updateOne(
+      { _id: contract._id, 'visits.index': visit.index },
+      { $set: { 'visits.$.booking': reserved.booking._id } }
+    );
+
+    visit.status = 'booked';
+    visit.booking = reserved.booking._id;
+
+    return bookingAssignmentService.openOffer(reserved.booking, reserved.provider);
+  }
+
+  private async reserveVisitBooking(
+    contract: IAmcContract,
+    visit: IAmcVisit,
+    scheduledDate: Date
+  ): Promise<{ booking: IBooking; provider: IServiceProvider }> {
+    const service = await Service.findById(contract.service);
+    if (!service) {
+      throw new AppError('Service not found', 404);
+    }
+
+    const assigned = await ServiceProvider.findById(contract.provider);
+    const ranked = await dispatchService.rankProviders(
+      service._id.toString(),
+      contract.address,
+      scheduledDate,
+      service.duration,
+      [contract.provider._id.toString()]
+    );
+    const candidates = [
+      ...(assigned && assigned.isAvailable && assigned.isVerified ? [assigned] : []),
+      ...ranked.map(entry => entry.provider)
+    ];
+
+    for (const provider of candidates) {
+      let booking: IBooking;
+
+      try {
+        booking = await availabilityService.reserveSlot(provider, scheduledDate, service.duration, () => Booking.create({
+          customer: contract.customer,
+          provider: provider._id,
+          service: service._id,
+          scheduledDate,
+          estimatedDuration: service.duration,
+          address: contract.address,
+          contactPhone: contract.contactPhone,
+          specialInstructions: `Visit ${visit.index} of ${contract.visits.length} under maintenance contract ${contract.contractNumber}`,
+          pricing: {
+            baseAmount: 0,
+            additionalCharges: [],
+            taxAmount: 0,
+            totalAmount: 0
+          },
+          payment: {
+            status: 'paid',
+            paidAmount: 0
+          },
+          amcContract: contract._id,
+          amcVisitIndex: visit.index
+        }), { address: contract.address });
+      } catch (error: any) {
+        if (error.statusCode === 409) {
+          continue;
+        }
+        throw error;
+      }
+
+      return { booking, provider };
+    }
+
+    throw new AppError('No provider is available for this visit at the selected time', 409);
+  }
+
+  /**
+   * Visits and instalments spread evenly over the term, with the first
+   * instalment due straight away
+   */
+  private buildTerms(plan: IAmcPlan, startDate: Date, instalmentCount: number) {
+    const amount = plan.price;
+    const taxAmount = Math.round(amount * GST_RATE);
+    const totalAmount = amount + taxAmount;
+
+    const share = Math.floor(totalAmount / instalmentCount);
+    const instalments = Array.from({ length: instalmentCount }, (_, i) => ({
+      index: i + 1,
+      // Rounding leftovers are paid with the first instalment
+      amount: i === 0 ? totalAmount - share * (instalmentCount - 1) : share,
+      dueDate: i === 0 ? new Date() : this.addMonths(startDate, Math.floor(i * plan.termMonths / instalmentCount)),
+      status: 'pending' as const
+    }));
+
+    const visits = Array.from({ length: plan.visits }, (_, i) => ({
+      index: i + 1,
+      dueDate: this.addMonths(startDate, Math.floor(i * plan.termMonths / plan.visits)),
+      status: 'upcoming' as const
+    }));
+
+    return {
+      startDate,
+      endDate: this.addMonths(startDate, plan.termMonths),
+      pricing: { amount, taxAmount, totalAmount },
+      instalments,
+      visits
+    };
+  }
+
+  private getNextInstalment(contract: IAmcContract): IAmcInstalment | undefined {
+    return contract.instalments
+      .filter(instalment => instalment.status === 'pending')
+      .sort((a, b) => a.index - b.index)[0];
+  }
+
+  private hasOverdueInstalment(contract: IAmcContract): boolean {
+    const now = new Date();
+    return contract.instalments.some(instalment => instalment.status === 'pending' && instalment.dueDate < now);
+  }
+
+  /**
+   * The visit's due date at the customer's preferred time, moved forward if it
+   * would not give enough notice
+   */
+  private getVisitDate(contract: IAmcContract, visit: IAmcVisit): Date {
+    const earliest = Date.now() + MIN_NOTICE_HOURS * HOUR_MS;
+    let date = this.atTime(visit.dueDate, contract.preferredTime);
+
+    while (date.getTime() < earliest) {
+      date = new Date(date.getTime() + DAY_MS);
+    }
+
+    return date;
+  }
+
+  private async findService(plan: IAmcPlan): Promise<IService> {
+    const service = await Service.findById(plan.service);
+    if (!service || !service.isActive) {
+      throw new AppError('The service for this plan is not available', 400);
+    }
+
+    return service;
+  }
+
+  /**
+   * The best-ranked provider free for the first visit
+   */
+  private async pickProvider(service: IService, address: IAddress, firstVisit: Date): Promise<IServiceProvider> {
+    const [best] = await dispatchService.rankProviders(service._id.toString(), address, firstVisit, service.duration);
+    if (!best) {
+      throw new AppError('No provider is available for this service in your area', 400);
+    }
+
+    return best.provider;
+  }
+
+  private async findEligibleProvider(providerId: string, service: IService, address: IAddress): Promise<IServiceProvider> {
+    const provider = await ServiceProvider.findById(providerId);
+    if (!provider) {
+      throw new AppError('Service provider not found', 404);
+    }
+
+    if (!provider.isAvailable || !provider.isVerified) {
+      throw new AppError('The selected provider is not taking bookings', 400);
+    }
+
+    if (!provider.services.some(id => id.toString() === service._id.toString())) {
+      throw new AppError('The selected provider does not offer this service', 400);
+    }
+
+    const city = address.city.toLowerCase();
+    if (!provider.serviceArea.cities.some(served => served.toLowerCase() === city)) {
+      throw new AppError('The selected provider does not serve this area', 400);
+    }
+
+    return provider;
+  }
+
+  private addMonths(date: Date, months: number): Date {
+    // Clamp to the last day of shorter months (e.g. 31st -> 30th)
+    const result = new Date(date);
+    result.setDate(1);
+    result.setMonth(date.getMonth() + months);
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(date.getDate(), lastDay));
+    return result;
+  }
+
+  private startOfDay(date: Date): Date {
+    const result = new Date(date);
+    result.setHours(0, 0, 0, 0);
+    return result;
+  }
+
+  private atTime(date: Date, time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const result = new Date(date);
+    result.setHours(hours!, minutes!, 0, 0);
+    return result;
+  }
+}
+
+// Create and export a singleton instance
+export const amcService = new AmcService();
+export default amcService;
@@ -0,0 +1,293 @@
+import mongoose from 'mongoose';
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IAvailability, IServiceProvider } from '@/types';
+import travelService, { Locatable } from './travel.service';
+
+interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface BookableSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface SlotCheckOptions {
+  excludeBookingId?: string; // the booking being moved, so it does not block itself
+  address?: Locatable; // where the new job is, for travel time to and from other jobs
+}
+
+// Index matches Date#getDay()
+const WEEKDAYS: (keyof IAvailability)[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+];
+
+// Booking statuses that hold a slot in the provider's calendar. Pending bookings
+// are included so that two customers cannot both request the same slot.
+export const SLOT_BLOCKING_STATUSES = ['pending', 'confirmed', 'in-progress'];
+
+const MINUTE_MS = 60 * 1000;
+
+class AvailabilityService {
+  /**
+   * Parse a YYYY-MM-DD string into a local midnight date
+   */
+  parseDate(date: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    if (!match) {
+      return null;
+    }
+
+    const parsed = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  /**
+   * Expand the provider's weekly schedule into concrete working windows for a day
+   */
+  getScheduleWindows(provider: IServiceProvider, date: Date): TimeInterval[] {
+    const weekday = WEEKDAYS[date.getDay()]!;
+    const timeSlots = provider.availability?.[weekday] || [];
+
+    return timeSlots
+      .filter(slot => slot.isAvailable)
+      .map(slot => ({
+        start: this.atTime(date, slot.start),
+        end: this.atTime(date, slot.end)
+      }))
+      .filter(window => window.end > window.start)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Get the provider's committed time between two dates, padded with the time
+   * needed to travel between each booking and a job at the given address (the
+   * flat travel buffer when either side is not geocoded). Crew bookings count
+   * for every member, not just the lead.
+   */
+  async getBusyIntervals(
+    providerId: string,
+    from: Date,
+    to: Date,
+    options: SlotCheckOptions = {}
+  ): Promise<TimeInterval[]> {
+    // A booking can last up to 24 hours, and travel padding is allowed up to as long again
+    const lookBehindMs = 2 * 24 * 60 * MINUTE_MS;
+    const lookAheadMs = 24 * 60 * MINUTE_MS;
+
+    const query: any = {
+      $or: [{ provider: providerId }, { 'crew.provider': providerId }],
+      status: { $in: SLOT_BLOCKING_STATUSES },
+      scheduledDate: {
+        $gte: new Date(from.getTime() - lookBehindMs),
+        $lt: new Date(to.getTime() + lookAheadMs)
+      }
+    };
+
+    if (options.excludeBookingId) {
+      query._id = { $ne: options.excludeBookingId };
+    }
+
+    const bookings = await Booking.find(query)
+      .select('scheduledDate estimatedDuration address')
+      .lean();
+
+    if (bookings.length === 0) {
+      return [];
+    }
+
+    const addresses = bookings.map(booking => booking.address);
+    const [toBookings, fromBookings] = await Promise.all([
+      travelService.getTravelMatrix([options.address], addresses),
+      travelService.getTravelMatrix(addresses, [options.address])
+    ]);
+
+    return bookings.map((booking, i) => ({
+      start: new Date(booking.scheduledDate.getTime() - toBookings[0]![i]!.minutes * MINUTE_MS),
+      end: new Date(
+        booking.scheduledDate.getTime() + (booking.estimatedDuration + fromBookings[i]![0]!.minutes) * MINUTE_MS
+      )
+    }));
+  }
+
+  /**
+   * Get bookable slots for a provider on a given day
+   */
+  async getAvailableSlots(
+    provider: IServiceProvider,
+    date: Date,
+    durationMinutes: number,
+    address?: Locatable
+  ): Promise<BookableSlot[]> {
+    const windows = this.getScheduleWindows(provider, date);
+    if (windows.length === 0) {
+      return [];
+    }
+
+    const dayStart = windows[0]!.start;
+    const dayEnd = windows[windows.length - 1]!.end;
+    const busy = await this.getBusyIntervals(provider._id.toString(), dayStart, dayEnd, { address });
+
+    const stepMs = config.booking.slotIntervalMinutes * MINUTE_MS;
+    const durationMs = durationMinutes * MINUTE_MS;
+    const now = Date.now();
+    const slots: BookableSlot[] = [];
+
+    for (const window of windows) {
+      for (
+        let start = window.start.getTime();
+        start + durationMs <= window.end.getTime();
+        start += stepMs
+      ) {
+        const slot = { start: new Date(start), end: new Date(start + durationMs) };
+
+        if (start > now && !this.overlapsAny(slot, busy)) {
+          slots.push(slot);
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * Check whether a provider can take a booking at the given time, leaving room
+   * to travel from and to their other jobs when the address is given
+   */
+  async isSlotAvailable(
+    provider: IServiceProvider,
+    start: Date,
+    durationMinutes: number,
+    options: SlotCheckOptions = {}
+  ): Promise<boolean> {
+    const slot = { start, end: new Date(start.getTime() + durationMinutes * MINUTE_MS) };
+
+    const fitsSchedule = this.getScheduleWindows(provider, start)
+      .some(window => slot.start >= window.start && slot.end <= window.end);
+
+    if (!fitsSchedule) {
+      return false;
+    }
+
+    const busy = await this.getBusyIntervals(provider._id.toString(), slot.start, slot.end, options);
+    return !this.overlapsAny(slot, busy);
+  }
+
+  /**
+   * Run a callback while holding an exclusive booking lock on the provider.
+   * The lock lives on the provider document so it works across API instances.
+   */
+  async withProviderLock<T>(providerId: string, fn: () => Promise<T>): Promise<T> {
+    const now = new Date();
+    const lockId = new mongoose.Types.ObjectId();
+
+    const locked = await ServiceProvider.findOneAndUpdate(
+      {
+        _id: providerId,
+        $or: [
+          { bookingLock: { $exists: false } },
+          { bookingLock: null },
+          { 'bookingLock.expiresAt': { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          bookingLock: {
+            lockId,
+            expiresAt: new Date(now.getTime() + config.booking.lockTimeoutMs)
+          }
+        }
+      }
+    );
+
+    if (!locked) {
+      throw new AppError('This provider is processing another booking. Please try again.', 409);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      try {
+        await ServiceProvider.updateOne(
+          { _id: providerId, 'bookingLock.lockId': lockId },
+          { $unset: { bookingLock: 1 } }
+        );
+      } catch (error) {
+        logger.error(`Failed to release booking lock for provider ${providerId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Atomically verify the slot is free and run the write that claims it
+   */
+  async reserveSlot<T>(
+    provider: IServiceProvider,
+    start: Date,
+    durationMinutes: number,
+    claim: () => Promise<T>,
+    options: SlotCheckOptions = {}
+  ): Promise<T> {
+    return this.withProviderLock(provider._id.toString(), async () => {
+      const available = await this.isSlotAvailable(provider, start, durationMinutes, options);
+
+      if (!available) {
+        throw new AppError('The provider is not available at the selected time', 409);
+      }
+
+      return claim();
+    });
+  }
+
+  /**
+   * Reserve the same slot for several providers at once, e.g. a crew. Locks are
+   * taken one after another and the claim runs only once every member is free.
+   */
+  async reserveSlots<T>(
+    providers: IServiceProvider[],
+    start: Date,
+    durationMinutes: number,
+    claim: () => Promise<T>,
+    options: SlotCheckOptions = {}
+  ): Promise<T> {
+    const [first, ...rest] = providers;
+
+    if (!first) {
+      return claim();
+    }
+
+    return this.reserveSlot(
+      first,
+      start,
+      durationMinutes,
+      () => this.reserveSlots(rest, start, durationMinutes, claim, options),
+      options
+    );
+  }
+
+  private atTime(date: Date, time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const result = new Date(date);
+    result.setHours(hours!, minutes!, 0, 0);
+    return result;
+  }
+
+  private overlapsAny(slot: TimeInterval, intervals: TimeInterval[]): boolean {
+    return intervals.some(interval => slot.start < interval.end && interval.start < slot.end);
+  }
+}
+
+// Create and export a singleton instance
+export const availabilityService = new AvailabilityService();
+export default availabilityService;
@@ -0,0 +1,599 @@
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import User from '@/models/User.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IAddress, IBooking, IBookingQuantity, IBookingUrgency, IProviderOffer, IService, IServiceProvider, IUser } from '@/types';
+import availabilityService from './availability.service';
+import dispatchService from './dispatch.service';
+import emailService from './email.service';
+import pricingRuleService from './pricingRule.service';
+
+export type DispatchMode = 'sequential' | 'broadcast';
+
+export interface DispatchRequest {
+  customer: IUser;
+  service: IService;
+  scheduledDate: Date;
+  address: IAddress;
+  contactPhone: string;
+  specialInstructions?: string;
+  bookingType?: IBooking['bookingType'];
+  quantity?: IBookingQuantity;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Bookings that can still be handed to another provider (work has not started)
+const TRANSFERABLE_STATUSES = ['pending', 'confirmed'];
+
+class BookingAssignmentService {
+  /**
+   * Offer a booking to a provider. Providers who opted in accept immediately;
+   * everyone else gets a response window before the booking moves on.
+   */
+  async openOffer(booking: IBooking, provider: IServiceProvider): Promise<IBooking> {
+    const now = new Date();
+
+    if (provider.autoAcceptBookings) {
+      booking.offerHistory.push({
+        provider: provider._id,
+        offeredAt: now,
+        outcome: 'auto_accepted',
+        respondedAt: now
+      });
+      booking.acceptance = { respondedAt: now, autoAccepted: true };
+      this.recordUrgentResponse(booking, now);
+
+      await booking.updateStatus('confirmed', this.getUserId(provider.user), 'Auto-accepted by provider');
+      await this.notifyCustomer(booking, 'confirmed');
+      return booking;
+    }
+
+    // Never leave the window open past the start of the service
+    const deadline = this.getDeadline(now, booking.scheduledDate, booking.urgency);
+
+    booking.offerHistory.push({
+      provider: provider._id,
+      offeredAt: now,
+      expiresAt: deadline,
+      outcome: 'pending'
+    });
+    booking.acceptance = { deadline, autoAccepted: false };
+
+    await booking.save();
+    return booking;
+  }
+
+  /**
+   * Create a booking without a chosen provider and offer it to the best-ranked
+   * providers, either one at a time or to several at once (first to accept wins)
+   */
+  async dispatchBooking(request: DispatchRequest, mode: DispatchMode): Promise<IBooking> {
+    const { service, scheduledDate, address } = request;
+    const quote = await pricingRuleService.quote(service, address, scheduledDate, request.quantity);
+    const ranked = await dispatchService.rankProviders(service._id.toString(), address, scheduledDate, quote.estimatedDuration);
+
+    if (ranked.length === 0) {
+      throw new AppError('No providers are available for this service at the selected time', 409);
+    }
+
+    const bookingData = {
+      customer: request.customer._id,
+      service: service._id,
+      scheduledDate,
+      estimatedDuration: quote.estimatedDuration,
+      address,
+      contactPhone: request.contactPhone,
+      specialInstructions: request.specialInstructions,
+      quantity: service.priceUnit === 'fixed' ? undefined : request.quantity,
+      pricing: quote.pricing,
+      ...this.buildUrgency(request.bookingType, scheduledDate),
+      payment: {
+        status: 'pending',
+        paidAmount: 0
+      },
+      dispatch: {
+        mode,
+        requestedAt: new Date(),
+        candidates: ranked.map(entry => entry.candidate),
+        assignments: []
+      }
+    };
+
+    if (mode === 'broadcast') {
+      return this.broadcast(bookingData, ranked.slice(0, config.booking.dispatchBroadcastSize).map(entry => entry.provider));
+    }
+
+    for (const { provider } of ranked) {
+      let booking: IBooking;
+
+      try {
+        booking = await availabilityService.reserveSlot(provider, scheduledDate, quote.estimatedDuration, () => Booking.create({
+          ...bookingData,
+          provider: provider._id
+        }), { address: bookingData.address });
+      } catch (error: any) {
+        // Taken since ranking; fall through to the next provider
+        if (error.statusCode === 409) {
+          continue;
+        }
+        throw error;
+      }
+
+      dispatchService.recordAssignment(booking, provider, 'Highest-ranked available provider');
+      await this.notifyProvider(booking, provider);
+
+      return this.openOffer(booking, provider);
+    }
+
+    throw new AppError('No providers are available for this service at the selected time', 409);
+  }
+
+  /**
+   * Provider accepts a booking offered to them. For broadcasts the first provider
+   * to claim the booking gets it and every other offer is withdrawn.
+   */
+  async acceptOffer(booking: IBooking, provider: IServiceProvider): Promise<IBooking> {
+    if (booking.status !== 'pending') {
+      throw new AppError('This booking is no longer awaiting acceptance', 400);
+    }
+
+    if (this.isOfferExpired(booking)) {
+      await this.expireOffer(booking);
+      throw new AppError('The acceptance window for this booking has expired', 409);
+    }
+
+    const providerId = provider._id.toString();
+    const userId = this.getUserId(provider.user);
+
+    if (booking.provider) {
+      if (booking.provider._id.toString() !== providerId) {
+        throw new AppError('This booking was not offered to you', 403);
+      }
+
+      this.recordAcceptance(booking);
+      await booking.updateStatus('confirmed', userId, 'Accepted by provider');
+      await this.notifyCustomer(booking, 'confirmed');
+      return booking;
+    }
+
+    if (!this.findPendingOffer(booking, providerId)) {
+      throw new AppError('This booking was not offered to you', 403);
+    }
+
+    // Only one provider can move the booking out of the unassigned state
+    const claimed = await availabilityService.reserveSlot(provider, booking.scheduledDate, booking.estimatedDuration, async () => {
+      const updated = await Booking.findOneAndUpdate(
+        { _id: booking._id, status: 'pending', provider: { $exists: false } },
+        { $set: { provider: provider._id } },
+        { new: true }
+      );
+
+      if (!updated) {
+        throw new AppError('This booking has already been accepted by another provider', 409);
+      }
+
+      return updated;
+    }, { address: booking.address });
+
+    const now = new Date();
+    for (const offer of claimed.offerHistory) {
+      if (offer.outcome !== 'pending') {
+        continue;
+      }
+
+      offer.outcome = offer.provider.toString() === providerId ? 'accepted' : 'withdrawn';
+      offer.respondedAt = now;
+    }
+
+    claimed.acceptance = {
+      deadline: claimed.acceptance?.deadline,
+      respondedAt: now,
+      autoAccepted: false
+    };
+    this.recordUrgentResponse(claimed, now);
+    dispatchService.recordAssignment(claimed, provider, 'First provider to accept the broadcast');
+
+    await claimed.updateStatus('confirmed', userId, 'Accepted by provider');
+    await this.notifyCustomer(claimed, 'confirmed');
+
+    return claimed;
+  }
+
+  /**
+   * Whether the provider has an open offer for this booking
+   */
+  hasPendingOffer(booking: IBooking, providerId: string): boolean {
+    return !!this.findPendingOffer(booking, providerId);
+  }
+
+  /**
+   * Whether the current provider's response window has run out
+   */
+  isOfferExpired(booking: IBooking): boolean {
+    const deadline = booking.acceptance?.deadline;
+    return booking.status === 'pending' && !booking.acceptance?.respondedAt && !!deadline && deadline <= new Date();
+  }
+
+  /**
+   * Mark the current offer as accepted. The caller saves the booking.
+   */
+  recordAcceptance(booking: IBooking): void {
+    const now = new Date();
+    const offer = this.getCurrentOffer(booking);
+
+    if (offer) {
+      offer.outcome = 'accepted';
+      offer.respondedAt = now;
+    }
+
+    booking.acceptance = {
+      deadline: booking.acceptance?.deadline,
+      respondedAt: now,
+      autoAccepted: false
+    };
+    this.recordUrgentResponse(booking, now);
+  }
+
+  /**
+   * Booking type fields for a new booking. Urgent bookings promise that a provider
+   * accepts within BOOKING_URGENT_RESPONSE_MINUTES, or the booking is cancelled.
+   */
+  buildUrgency(
+    bookingType: IBooking['bookingType'] = 'standard',
+    scheduledDate: Date
+  ): Pick<IBooking, 'bookingType' | 'urgency'> {
+    if (bookingType !== 'urgent') {
+      return { bookingType: 'standard' };
+    }
+
+    const now = Date.now();
+    return {
+      bookingType,
+      urgency: {
+        responseDeadline: new Date(Math.min(now + config.booking.urgentResponseMinutes * MINUTE_MS, scheduledDate.getTime()))
+      }
+    };
+  }
+
+  /**
+   * Provider turned the booking down; offer it to the next provider. A broadcast
+   * only moves on once every provider it went to has declined.
+   */
+  async declineOffer(booking: IBooking, providerId: string, reason?: string): Promise<IBooking> {
+    this.closeOffers(booking, 'declined', reason, providerId);
+
+    if (booking.offerHistory.some(offer => offer.outcome === 'pending')) {
+      await booking.save();
+      return booking;
+    }
+
+    return this.reassign(booking);
+  }
+
+  /**
+   * Provider did not answer in time; offer it to the next provider
+   */
+  async expireOffer(booking: IBooking): Promise<IBooking> {
+    this.closeOffers(booking, 'expired');
+    return this.reassign(booking);
+  }
+
+  /**
+   * Expire every pending booking whose response window has passed
+   */
+  async expireOverdueOffers(): Promise<number> {
+    const overdue = await Booking.find({
+      status: 'pending',
+      'acceptance.deadline': { $lte: new Date() },
+      'acceptance.respondedAt': { $exists: false }
+    });
+
+    let expired = 0;
+
+    for (const booking of overdue) {
+      try {
+        await this.expireOffer(booking);
+        expired++;
+      } catch (error) {
+        logger.error(`Failed to expire offer for booking ${booking.bookingNumber}:`, error);
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Hand a booking to another provider without cancelling it. The booking keeps its
+   * number, pricing and payment; only the provider changes, and the move is
+   * recorded in the status history.
+   */
+  async transferBooking(
+    booking: IBooking,
+    toProvider: IServiceProvider,
+    initiatedBy: IUser,
+    reason: string
+  ): Promise<IBooking> {
+    if (!TRANSFERABLE_STATUSES.includes(booking.status)) {
+      throw new AppError(`Cannot transfer booking in ${booking.status} status`, 400);
+    }
+
+    if (!booking.provider) {
+      throw new AppError('This booking has not been assigned to a provider yet', 400);
+    }
+
+    const fromProvider = booking.provider._id;
+    const fromProviderId = fromProvider.toString();
+    if (fromProviderId === toProvider._id.toString()) {
+      throw new AppError('The booking is already assigned to this provider', 400);
+    }
+
+    if (booking.crew.some(member => member.provider._id.toString() === toProvider._id.toString())) {
+      throw new AppError('The selected provider is already on this booking\'s crew', 400);
+    }
+
+    this.assertCanTakeBooking(booking, toProvider);
+
+    await availabilityService.reserveSlot(toProvider, booking.scheduledDate, booking.estimatedDuration, () => {
+      booking.provider = toProvider._id;
+      booking.statusHistory.push({
+        status: booking.status,
+        changedBy: initiatedBy._id,
+        changedAt: new Date(),
+        reason,
+        event: 'transfer',
+        fromProvider,
+        toProvider: toProvider._id
+      });
+      // Whoever was still being asked is no longer in the running
+      this.closeOffers(booking, 'withdrawn', 'Booking transferred to another provider');
+      dispatchService.recordAssignment(booking, toProvider, `Transferred: ${reason}`);
+      return booking.save();
+    }, { address: booking.address });
+
+    await ServiceProvider.updateOne(
+      { _id: fromProviderId, totalBookings: { $gt: 0 } },
+      { $inc: { totalBookings: -1 } }
+    );
+    await ServiceProvider.updateOne({ _id: toProvider._id }, { $inc: { totalBookings: 1 } });
+
+    logger.info(`Booking ${booking.bookingNumber} transferred from provider ${fromProviderId} to ${toProvider._id}`);
+
+    // A booking still awaiting acceptance gets a fresh window with the new provider
+    if (booking.status === 'pending') {
+      await this.openOffer(booking, toProvider);
+    }
+
+    await this.notifyCustomer(booking, 'provider-transferred');
+    await this.notifyPreviousProvider(booking, fromProviderId);
+    await this.notifyProvider(booking, toProvider);
+
+    return booking;
+  }
+
+  /**
+   * Move the booking to the best-rated matching provider that has not seen it yet
+   * and is free at the scheduled time. Cancels the booking if nobody is left.
+   */
+  private async reassign(booking: IBooking): Promise<IBooking> {
+    const offered = booking.offerHistory.map(offer => offer.provider.toString());
+    // Urgent bookings are not kept waiting past the promised response time
+    const responseTimeMissed = !!booking.urgency && booking.urgency.responseDeadline <= new Date();
+
+    // A broadcast already went to every provider worth asking at once
+    if (!responseTimeMissed && booking.dispatch?.mode !== 'broadcast' && offered.length < config.booking.maxProviderOffers) {
+      const candidates = await this.getReassignmentCandidates(booking, offered);
+
+      for (const candidate of candidates) {
+        if (offered.includes(candidate._id.toString())) {
+          continue;
+        }
+
+        try {
+          await availabilityService.reserveSlot(candidate, booking.scheduledDate, booking.estimatedDuration, () => {
+            booking.provider = candidate._id;
+            return booking.save();
+          }, { address: booking.address });
+        } catch (error: any) {
+          // Busy at that time (or mid-booking elsewhere); try the next one
+          if (error.statusCode === 409) {
+            continue;
+          }
+          throw error;
+        }
+
+        dispatchService.recordAssignment(booking, candidate, 'Next-ranked provider after the previous offer lapsed');
+        logger.info(`Booking ${booking.bookingNumber} reassigned to provider ${candidate._id}`);
+        await this.notifyCustomer(booking, 'provider-reassigned');
+        await this.notifyProvider(booking, candidate);
+
+        return this.openOffer(booking, candidate);
+      }
+    }
+
+    logger.info(`No provider accepted booking ${booking.bookingNumber}; cancelling`);
+
+    booking.cancelledBy = 'system';
+    booking.refundAmount = booking.payment.paidAmount || 0;
+    await booking.updateStatus(
+      'cancelled',
+      null,
+      responseTimeMissed ? 'No provider accepted the urgent booking in time' : 'No provider accepted the booking'
+    );
+    await this.notifyCustomer(booking, 'no-provider-available');
+
+    return booking;
+  }
+
+  /**
+   * Dispatched bookings walk their recorded ranking; bookings made with a chosen
+   * provider fall back to the best-rated providers covering the city
+   */
+  private async getReassignmentCandidates(booking: IBooking, offered: string[]): Promise<IServiceProvider[]> {
+    if (!booking.dispatch) {
+      return ServiceProvider.findByServiceAndLocation(booking.service._id.toString(), booking.address.city);
+    }
+
+    const remaining = booking.dispatch.candidates
+      .filter(candidate => !offered.includes(candidate.provider.toString()))
+      .sort((a, b) => a.rank - b.rank);
+
+    const providers: IServiceProvider[] = [];
+    for (const candidate of remaining) {
+      const provider = await ServiceProvider.findById(candidate.provider).populate('user', 'name email');
+      if (provider && provider.isAvailable) {
+        providers.push(provider);
+      }
+    }
+
+    return providers;
+  }
+
+  /**
+   * Open the booking to several providers at once with a shared deadline
+   */
+  private async broadcast(bookingData: Record<string, any>, providers: IServiceProvider[]): Promise<IBooking> {
+    const now = new Date();
+    // Everyone is asked at once, so an urgent broadcast stays open for the whole response time
+    const deadline = bookingData.urgency
+      ? bookingData.urgency.responseDeadline
+      : this.getDeadline(now, bookingData.scheduledDate);
+
+    const booking = await Booking.create({
+      ...bookingData,
+      offerHistory: providers.map(provider => ({
+        provider: provider._id,
+        offeredAt: now,
+        expiresAt: deadline,
+        outcome: 'pending'
+      })),
+      acceptance: { deadline, autoAccepted: false }
+    });
+
+    for (const provider of providers) {
+      await this.notifyProvider(booking, provider);
+    }
+
+    return booking;
+  }
+
+  private getDeadline(from: Date, scheduledDate: Date, urgency?: IBookingUrgency): Date {
+    if (urgency) {
+      return new Date(Math.min(
+        from.getTime() + config.booking.urgentOfferWindowMinutes * MINUTE_MS,
+        urgency.responseDeadline.getTime(),
+        scheduledDate.getTime()
+      ));
+    }
+
+    return new Date(Math.min(
+      from.getTime() + config.booking.acceptanceWindowMinutes * MINUTE_MS,
+      scheduledDate.getTime()
+    ));
+  }
+
+  /**
+   * Record whether an urgent booking was accepted within the promised time
+   */
+  private recordUrgentResponse(booking: IBooking, respondedAt: Date): void {
+    if (!booking.urgency || booking.urgency.respondedAt) {
+      return;
+    }
+
+    booking.urgency.respondedAt = respondedAt;
+    booking.urgency.slaMet = respondedAt <= booking.urgency.responseDeadline;
+  }
+
+  private getCurrentOffer(booking: IBooking): IProviderOffer | undefined {
+    const offer = booking.offerHistory[booking.offerHistory.length - 1];
+    return offer && offer.outcome === 'pending' ? offer : undefined;
+  }
+
+  private findPendingOffer(booking: IBooking, providerId: string): IProviderOffer | undefined {
+    return booking.offerHistory.find(offer => offer.outcome === 'pending' && offer.provider.toString() === providerId);
+  }
+
+  /**
+   * Close the pending offers (or just one provider's) with the given outcome
+   */
+  private closeOffers(
+    booking: IBooking,
+    outcome: 'declined' | 'expired' | 'withdrawn',
+    reason?: string,
+    providerId?: string
+  ): void {
+    const now = new Date();
+
+    for (const offer of booking.offerHistory) {
+      if (offer.outcome !== 'pending' || (providerId && offer.provider.toString() !== providerId)) {
+        continue;
+      }
+
+      offer.outcome = outcome;
+      offer.respondedAt = now;
+      offer.reason = reason;
+    }
+  }
+
+  /**
+   * The receiving provider must offer the service, cover the city and be taking work
+   */
+  private assertCanTakeBooking(booking: IBooking, provider: IServiceProvider): void {
+    if (!provider.isAvailable || !provider.isVerified) {
+      throw new AppError('The selected provider is not taking bookings', 400);
+    }
+
+    if (!provider.services.some(id => id.toString() === booking.service._id.toString())) {
+      throw new AppError('The selected provider does not offer this service', 400);
+    }
+
+    const city = booking.address.city.toLowerCase();
+    if (!provider.serviceArea.cities.some(served => served.toLowerCase() === city)) {
+      throw new AppError('The selected provider does not serve this area', 400);
+    }
+  }
+
+  private getUserId(user: IServiceProvider['user']): string {
+    return ((user as IUser)._id || user).toString();
+  }
+
+  private async notifyCustomer(booking: IBooking, update: string): Promise<void> {
+    try {
+      const customer = await User.findById(booking.customer._id || booking.customer);
+      if (customer) {
+        await emailService.sendBookingStatusUpdate(customer, booking, update);
+      }
+    } catch (error) {
+      logger.error(`Failed to notify customer about booking ${booking.bookingNumber}:`, error);
+    }
+  }
+
+  private async notifyPreviousProvider(booking: IBooking, providerId: string): Promise<void> {
+    try {
+      const provider = await ServiceProvider.findById(providerId).select('user');
+      const user = provider && await User.findById(provider.user);
+      if (user) {
+        await emailService.sendBookingStatusUpdate(user, booking, 'transferred-away');
+      }
+    } catch (error) {
+      logger.error(`Failed to notify previous provider about booking ${booking.bookingNumber}:`, error);
+    }
+  }
+
+  private async notifyProvider(booking: IBooking, provider: IServiceProvider): Promise<void> {
+    try {
+      const user = await User.findById(this.getUserId(provider.user));
+      if (user) {
+        await emailService.sendBookingConfirmation(user, booking);
+      }
+    } catch (error) {
+      logger.error(`Failed to notify provider about booking ${booking.bookingNumber}:`, error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const bookingAssignmentService = new BookingAssignmentService();
+export default bookingAssignmentService;
@@ -0,0 +1,294 @@
+import Booking from '@/models/Booking.model';
+import BookingSeries from '@/models/BookingSeries.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import Service from '@/models/Service.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IBooking, IBookingSeries, IService, IServiceProvider, IUser } from '@/types';
+import availabilityService from './availability.service';
+import pricingService from './pricing.service';
+import bookingAssignmentService from './bookingAssignment.service';
+
+// Occurrence statuses that can still be skipped, rescheduled or cancelled
+const MUTABLE_STATUSES = ['pending', 'confirmed'];
+
+class BookingSeriesService {
+  /**
+   * Latest date occurrences are created up to
+   */
+  getHorizon(): Date {
+    return new Date(Date.now() + config.booking.seriesHorizonDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Booking number for an occurrence, prefixed with the series number
+   */
+  getOccurrenceNumber(series: IBookingSeries, index: number): string {
+    return `${series.seriesNumber}-${String(index).padStart(3, '0')}`;
+  }
+
+  /**
+   * Create bookings for every occurrence that falls inside the horizon
+   */
+  async materializeSeries(series: IBookingSeries, horizon: Date = this.getHorizon()): Promise<IBooking[]> {
+    if (series.status !== 'active') {
+      return [];
+    }
+
+    const provider = await ServiceProvider.findById(series.provider);
+    const service = await Service.findById(series.service);
+
+    if (!provider || !provider.isAvailable || !service || !service.isActive) {
+      logger.warn(`Skipping materialization of series ${series.seriesNumber}: provider or service unavailable`);
+      return [];
+    }
+
+    const created: IBooking[] = [];
+    let index = series.nextOccurrenceIndex;
+
+    while (!series.hasEnded(index) && series.getOccurrenceDate(index) <= horizon) {
+      const exception = series.getException(index);
+
+      if (exception?.action !== 'skip') {
+        const scheduledDate = exception?.rescheduledTo || series.getOccurrenceDate(index);
+
+        if (scheduledDate > new Date()) {
+          const booking = await this.tryCreateOccurrence(series, provider, service, index, scheduledDate);
+          if (booking) {
+            created.push(booking);
+          }
+        }
+      }
+
+      index++;
+    }
+
+    series.nextOccurrenceIndex = index;
+    series.materializedUntil = horizon;
+
+    // Every occurrence now exists as a booking
+    if (series.hasEnded(index)) {
+      series.status = 'completed';
+    }
+
+    await series.save();
+
+    return created;
+  }
+
+  /**
+   * Materialize all active series that have not yet been extended to the horizon
+   */
+  async materializeDueSeries(): Promise<number> {
+    const horizon = this.getHorizon();
+    const seriesList = await BookingSeries.find({
+      status: 'active',
+      $or: [
+        { materializedUntil: { $exists: false } },
+        { materializedUntil: { $lt: horizon } }
+      ]
+    });
+
+    let createdCount = 0;
+
+    for (const series of seriesList) {
+      try {
+        const created = await this.materializeSeries(series, horizon);
+        createdCount += created.length;
+      } catch (error) {
+        logger.error(`Failed to materialize booking series ${series.seriesNumber}:`, error);
+      }
+    }
+
+    return createdCount;
+  }
+
+  /**
+   * Skip a single occurrence, cancelling its booking if it already exists
+   */
+  async skipOccurrence(series: IBookingSeries, index: number, user: IUser, reason?: string): Promise<IBooking | null> {
+    this.assertOccurrence(series, index);
+
+    const booking = await Booking.findOne({ series: series._id, occurrenceIndex: index });
+
+    if (booking) {
+      if (!MUTABLE_STATUSES.includes(booking.status)) {
+        throw new AppError(`Cannot skip an occurrence in ${booking.status} status`, 400);
+      }
+
+      await this.cancelOccurrence(booking, user, reason || 'Occurrence skipped');
+    }
+
+    this.setException(series, index, { action: 'skip', reason });
+    await series.save();
+
+    return booking;
+  }
+
+  /**
+   * Move a single occurrence to a new date and time
+   */
+  async rescheduleOccurrence(
+    series: IBookingSeries,
+    index: number,
+    scheduledDate: Date,
+    reason?: string
+  ): Promise<IBooking | null> {
+    this.assertOccurrence(series, index);
+
+    if (scheduledDate <= new Date()) {
+      throw new AppError('Scheduled date must be in the future', 400);
+    }
+
+    const provider = await ServiceProvider.findById(series.provider);
+    if (!provider) {
+      throw new AppError('Service provider not found', 404);
+    }
+
+    let booking: IBooking | null = await Booking.findOne({ series: series._id, occurrenceIndex: index });
+
+    if (booking) {
+      if (!MUTABLE_STATUSES.includes(booking.status)) {
+        throw new AppError(`Cannot reschedule an occurrence in ${booking.status} status`, 400);
+      }
+
+      const existing = booking;
+      booking = await availabilityService.reserveSlot(provider, scheduledDate, existing.estimatedDuration, () => {
+        existing.scheduledDate = scheduledDate;
+        return existing.save();
+      }, { excludeBookingId: existing._id.toString(), address: existing.address });
+    } else if (index < series.nextOccurrenceIndex) {
+      // Already past the materialization point (e.g. previously skipped), so book it now
+      const service = await Service.findById(series.service);
+      if (!service) {
+        throw new AppError('Service not found', 404);
+      }
+
+      booking = await this.createOccurrence(series, provider, service, index, scheduledDate);
+    } else if (!(await availabilityService.isSlotAvailable(provider, scheduledDate, series.estimatedDuration, { address: series.address }))) {
+      throw new AppError('The provider is not available at the selected time', 409);
+    }
+
+    this.setException(series, index, { action: 'reschedule', rescheduledTo: scheduledDate, reason });
+    await series.save();
+
+    return booking;
+  }
+
+  /**
+   * Cancel the whole series and every upcoming occurrence
+   */
+  async cancelSeries(series: IBookingSeries, user: IUser, reason?: string): Promise<number> {
+    if (series.status === 'cancelled') {
+      throw new AppError('Booking series is already cancelled', 400);
+    }
+
+    series.status = 'cancelled';
+    series.cancelledBy = user.role;
+    series.cancellationReason = reason;
+    series.cancellationDate = new Date();
+    await series.save();
+
+    const upcoming = await Booking.find({
+      series: series._id,
+      status: { $in: MUTABLE_STATUSES },
+      scheduledDate: { $gt: new Date() }
+    });
+
+    for (const booking of upcoming) {
+      await this.cancelOccurrence(booking, user, reason || 'Booking series cancelled');
+    }
+
+    return upcoming.length;
+  }
+
+  /**
+   * Create the booking for an occurrence while holding the provider's slot
+   */
+  async createOccurrence(
+    series: IBookingSeries,
+    provider: IServiceProvider,
+    service: IService,
+    index: number,
+    scheduledDate: Date
+  ): Promise<IBooking> {
+    const booking = await availabilityService.reserveSlot(provider, scheduledDate, series.estimatedDuration, () => Booking.create({
+      bookingNumber: this.getOccurrenceNumber(series, index),
+      customer: series.customer,
+      provider: series.provider,
+      service: series.service,
+      series: series._id,
+      occurrenceIndex: index,
+      scheduledDate,
+      estimatedDuration: series.estimatedDuration,
+      address: series.address,
+      contactPhone: series.contactPhone,
+      specialInstructions: series.specialInstructions,
+      pricing: pricingService.buildPricing(service.basePrice),
+      payment: {
+        status: 'pending',
+        paidAmount: 0
+      }
+    }), { address: series.address });
+
+    return bookingAssignmentService.openOffer(booking, provider);
+  }
+
+  private async tryCreateOccurrence(
+    series: IBookingSeries,
+    provider: IServiceProvider,
+    service: IService,
+    index: number,
+    scheduledDate: Date
+  ): Promise<IBooking | null> {
+    try {
+      return await this.createOccurrence(series, provider, service, index, scheduledDate);
+    } catch (error: any) {
+      // Another run already created this occurrence
+      if (error.code === 11000) {
+        return null;
+      }
+
+      if (error.statusCode === 409) {
+        logger.warn(`Occurrence ${this.getOccurrenceNumber(series, index)} conflicts with the provider's schedule`);
+        this.setException(series, index, { action: 'skip', reason: 'Provider unavailable at the scheduled time' });
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  private async cancelOccurrence(booking: IBooking, user: IUser, reason: string): Promise<void> {
+    const refundAmount = booking.calculateRefundAmount();
+
+    await booking.updateStatus('cancelled', user._id.toString(), reason);
+    booking.refundAmount = refundAmount;
+    booking.cancelledBy = user.role;
+    await booking.save();
+  }
+
+  private assertOccurrence(series: IBookingSeries, index: number): void {
+    if (series.status === 'cancelled') {
+      throw new AppError('Booking series is cancelled', 400);
+    }
+
+    if (!Number.isInteger(index) || index < 1 || series.hasEnded(index)) {
+      throw new AppError('Occurrence not found in this series', 404);
+    }
+  }
+
+  private setException(
+    series: IBookingSeries,
+    index: number,
+    exception: { action: 'skip' | 'reschedule'; rescheduledTo?: Date; reason?: string }
+  ): void {
+    series.exceptions = series.exceptions.filter(existing => existing.occurrenceIndex !== index);
+    series.exceptions.push({ occurrenceIndex: index, createdAt: new Date(), ...exception });
+  }
+}
+
+// Create and export a singleton instance
+export const bookingSeriesService = new BookingSeriesService();
+export default bookingSeriesService;
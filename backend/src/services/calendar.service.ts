@@ -0,0 +1,177 @@
+import { IAddress, IBooking, IService, IServiceProvider, IUser } from '@/types';
+
+export type CalendarAudience = 'customer' | 'provider';
+
+// Domain part of every event UID, so events stay unique across calendars
+const UID_DOMAIN = 'deshisahayak.com';
+
+// How often subscribed calendar apps are asked to refresh the feed
+const REFRESH_INTERVAL = 'PT15M';
+
+// RFC 5545 limits content lines to 75 octets
+const MAX_LINE_OCTETS = 75;
+
+const MINUTE_MS = 60 * 1000;
+
+const EVENT_STATUS: { [key: string]: string } = {
+  pending: 'TENTATIVE',
+  cancelled: 'CANCELLED'
+};
+
+class CalendarService {
+  /**
+   * Calendar file holding a single booking
+   */
+  buildBookingCalendar(booking: IBooking, audience: CalendarAudience): string {
+    return this.buildCalendar([booking], audience, `Booking ${booking.bookingNumber}`);
+  }
+
+  /**
+   * Subscription feed with all of a user's bookings. Cancelled and rescheduled
+   * bookings stay in the feed so calendar apps update the event instead of
+   * leaving a stale copy behind.
+   */
+  buildFeed(bookings: IBooking[], audience: CalendarAudience, name: string): string {
+    return this.buildCalendar(bookings, audience, name, [
+      `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+      `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`
+    ]);
+  }
+
+  private buildCalendar(bookings: IBooking[], audience: CalendarAudience, name: string, extra: string[] = []): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Deshi Sahayak//Bookings//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(name)}`,
+      ...extra,
+      ...bookings.flatMap(booking => this.buildEvent(booking, audience)),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  private buildEvent(booking: IBooking, audience: CalendarAudience): string[] {
+    const serviceName = (booking.service as IService)?.name || 'Service booking';
+    const end = new Date(booking.scheduledDate.getTime() + booking.estimatedDuration * MINUTE_MS);
+    const isCancelled = booking.status === 'cancelled';
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${booking._id.toString()}@${UID_DOMAIN}`,
+      `DTSTAMP:${this.formatDate(booking.updatedAt || new Date())}`,
+      `LAST-MODIFIED:${this.formatDate(booking.updatedAt || new Date())}`,
+      `SEQUENCE:${this.getSequence(booking)}`,
+      `DTSTART:${this.formatDate(booking.scheduledDate)}`,
+      `DTEND:${this.formatDate(end)}`,
+      `SUMMARY:${this.escapeText(`${isCancelled ? 'Cancelled: ' : ''}${serviceName} (${booking.bookingNumber})`)}`,
+      `LOCATION:${this.escapeText(this.formatAddress(booking.address))}`,
+      `DESCRIPTION:${this.escapeText(this.describe(booking, audience, serviceName))}`,
+      `STATUS:${EVENT_STATUS[booking.status] || 'CONFIRMED'}`
+    ];
+
+    const coordinates = booking.address?.coordinates;
+    if (coordinates?.latitude !== undefined && coordinates?.longitude !== undefined) {
+      lines.push(`GEO:${coordinates.latitude};${coordinates.longitude}`);
+    }
+
+    lines.push('END:VEVENT');
+
+    return lines;
+  }
+
+  /**
+   * Calendar apps only apply an update whose sequence is higher than the one they
+   * have. Seconds between creation and the last change always grows with each save,
+   * whichever path (status change, reschedule, series edit) touched the booking.
+   */
+  private getSequence(booking: IBooking): number {
+    if (!booking.createdAt || !booking.updatedAt) {
+      return 0;
+    }
+
+    return Math.max(0, Math.floor((booking.updatedAt.getTime() - booking.createdAt.getTime()) / 1000));
+  }
+
+  private describe(booking: IBooking, audience: CalendarAudience, serviceName: string): string {
+    const details = [
+      `Service: ${serviceName}`,
+      `Booking: ${booking.bookingNumber}`,
+      `Status: ${booking.status}`,
+      `Contact phone: ${booking.contactPhone}`
+    ];
+
+    // Each side sees who they are meeting
+    if (audience === 'provider') {
+      const customer = booking.customer as IUser;
+      if (customer?.name) {
+        details.push(`Customer: ${customer.name}`);
+      }
+    } else {
+      const providerUser = (booking.provider as IServiceProvider)?.user as IUser;
+      if (providerUser?.name) {
+        details.push(`Provider: ${providerUser.name}${providerUser.phone ? ` (${providerUser.phone})` : ''}`);
+      }
+    }
+
+    if (booking.specialInstructions) {
+      details.push(`Instructions: ${booking.specialInstructions}`);
+    }
+
+    return details.join('\n');
+  }
+
+  private formatAddress(address: IAddress): string {
+    return [address.street, address.city, address.state, address.pincode]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  /**
+   * UTC date-time in the basic format, e.g. 20240115T093000Z
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Split long lines, continuing each with a single space. Splits on characters,
+   * never inside a multi-byte one.
+   */
+  private foldLine(line: string): string {
+    if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+      return line;
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    let limit = MAX_LINE_OCTETS;
+
+    for (const char of line) {
+      if (Buffer.byteLength(current + char) > limit) {
+        parts.push(current);
+        current = '';
+        limit = MAX_LINE_OCTETS - 1; // the leading space counts
+      }
+      current += char;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+}
+
+// Create and export a singleton instance
+export const calendarService = new CalendarService();
+export default calendarService;
@@ -0,0 +1,215 @@
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import User from '@/models/User.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IAddress, IBooking, ICrewMember, IService, IServiceProvider, IUser } from '@/types';
+import emailService from './email.service';
+
+export interface CrewMemberRequest {
+  providerId: string;
+  sharePercent?: number;
+}
+
+export interface CrewPlan {
+  helpers: IServiceProvider[];
+  crew: ICrewMember[];
+}
+
+export type CrewRole = ICrewMember['role'];
+
+// Crew members can check in once the job is confirmed, until it is finished
+const CHECK_IN_STATUSES = ['confirmed', 'in-progress'];
+
+const MINUTE_MS = 60 * 1000;
+
+class CrewService {
+  /**
+   * Load the helpers for a team job and work out every member's share of the
+   * earnings. Helpers without an explicit share get an equal split; the lead
+   * keeps whatever is left.
+   */
+  async planCrew(
+    lead: IServiceProvider,
+    service: IService,
+    address: IAddress,
+    members: CrewMemberRequest[]
+  ): Promise<CrewPlan> {
+    if (members.length + 1 > config.booking.crewMaxSize) {
+      throw new AppError(`A crew can have at most ${config.booking.crewMaxSize} members including the lead`, 400);
+    }
+
+    const ids = members.map(member => member.providerId.toString());
+    if (ids.includes(lead._id.toString())) {
+      throw new AppError('The lead provider cannot also be a helper', 400);
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new AppError('Each helper can only be added once', 400);
+    }
+
+    const helpers: IServiceProvider[] = [];
+    for (const id of ids) {
+      const helper = await ServiceProvider.findById(id).populate('user', 'name email');
+      if (!helper) {
+        throw new AppError('Crew member not found', 404);
+      }
+
+      this.assertCanJoin(helper, service, address);
+      helpers.push(helper);
+    }
+
+    const defaultShare = Math.floor(100 / (members.length + 1));
+    const helperShares = members.map(member => member.sharePercent ?? defaultShare);
+    const leadShare = 100 - helperShares.reduce((sum, share) => sum + share, 0);
+
+    if (leadShare <= 0) {
+      throw new AppError('Helper shares must leave a share for the lead provider', 400);
+    }
+
+    return {
+      helpers,
+      crew: [
+        { provider: lead._id, role: 'lead', sharePercent: leadShare },
+        ...helpers.map((helper, index) => ({
+          provider: helper._id,
+          role: 'helper' as const,
+          sharePercent: helperShares[index]!
+        }))
+      ]
+    };
+  }
+
+  /**
+   * Record that a crew member has arrived at the job
+   */
+  async checkIn(booking: IBooking, provider: IServiceProvider): Promise<ICrewMember> {
+    const member = this.getMember(booking, provider._id.toString());
+    if (!member) {
+      throw new AppError('You are not part of this booking\'s crew', 403);
+    }
+
+    if (!CHECK_IN_STATUSES.includes(booking.status)) {
+      throw new AppError(`Cannot check in to a booking in ${booking.status} status`, 400);
+    }
+
+    const opensAt = new Date(booking.scheduledDate.getTime() - config.booking.crewCheckInWindowMinutes * MINUTE_MS);
+    if (new Date() < opensAt) {
+      throw new AppError(`Check-in opens ${config.booking.crewCheckInWindowMinutes} minutes before the scheduled time`, 400);
+    }
+
+    // Only the first check-in counts, even if two requests race
+    const checkedInAt = new Date();
+    const result = await Booking.updateOne(
+      {
+        _id: booking._id,
+        crew: { $elemMatch: { provider: provider._id, checkedInAt: { $exists: false } } }
+      },
+      { $set: { 'crew.$.checkedInAt': checkedInAt } }
+    );
+
+    if (result.modifiedCount === 0) {
+      throw new AppError('You have already checked in to this booking', 409);
+    }
+
+    member.checkedInAt = checkedInAt;
+    return member;
+  }
+
+  /**
+   * Split the job's earnings between the crew by share and credit each helper
+   * with the completed job. The lead's counter is updated with the booking.
+   */
+  async recordCompletion(booking: IBooking): Promise<void> {
+    if (booking.crew.length === 0) {
+      return;
+    }
+
+    const total = booking.pricing.totalAmount;
+    let allocated = 0;
+
+    for (const member of booking.crew) {
+      member.earnings = Math.floor(total * member.sharePercent) / 100;
+      allocated += member.earnings;
+    }
+
+    // Rounding leftovers go to the lead
+    const lead = booking.crew.find(member => member.role === 'lead') || booking.crew[0]!;
+    lead.earnings = Math.round((lead.earnings! + total - allocated) * 100) / 100;
+
+    await Booking.updateOne({ _id: booking._id }, { $set: { crew: booking.crew } });
+
+    const helperIds = booking.crew
+      .filter(member => member.role === 'helper')
+      .map(member => member.provider._id);
+
+    if (helperIds.length > 0) {
+      await ServiceProvider.updateMany({ _id: { $in: helperIds } }, { $inc: { completedBookings: 1 } });
+    }
+  }
+
+  /**
+   * Helper profiles on a booking, e.g. to reserve their slots again on reschedule
+   */
+  async getHelpers(booking: IBooking): Promise<IServiceProvider[]> {
+    const helperIds = (booking.crew || [])
+      .filter(member => member.role === 'helper')
+      .map(member => member.provider._id);
+
+    if (helperIds.length === 0) {
+      return [];
+    }
+
+    return ServiceProvider.find({ _id: { $in: helperIds } });
+  }
+
+  getMember(booking: IBooking, providerId: string): ICrewMember | undefined {
+    return booking.crew?.find(member => member.provider._id.toString() === providerId);
+  }
+
+  /**
+   * The provider's role on a booking: lead or helper for crew jobs, null otherwise
+   */
+  getCrewRole(booking: Pick<IBooking, 'crew'>, providerId: string): CrewRole | null {
+    const member = booking.crew?.find(crewMember => crewMember.provider._id.toString() === providerId);
+    return member ? member.role : null;
+  }
+
+  /**
+   * Let each helper know they have been added to a job
+   */
+  async notifyHelpers(booking: IBooking, helpers: IServiceProvider[]): Promise<void> {
+    for (const helper of helpers) {
+      try {
+        const user = await User.findById(((helper.user as IUser)._id || helper.user).toString());
+        if (user) {
+          await emailService.sendBookingStatusUpdate(user, booking, 'crew-added');
+        }
+      } catch (error) {
+        logger.error(`Failed to notify crew member about booking ${booking.bookingNumber}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Helpers must be taking work, offer the service and cover the job's city
+   */
+  private assertCanJoin(provider: IServiceProvider, service: IService, address: IAddress): void {
+    if (!provider.isAvailable || !provider.isVerified) {
+      throw new AppError('A selected crew member is not taking bookings', 400);
+    }
+
+    if (!provider.services.some(id => id.toString() === service._id.toString())) {
+      throw new AppError('A selected crew member does not offer this service', 400);
+    }
+
+    const city = address.city.toLowerCase();
+    if (!provider.serviceArea.cities.some(served => served.toLowerCase() === city)) {
+      throw new AppError('A selected crew member does not serve this area', 400);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const crewService = new CrewService();
+export default crewService;
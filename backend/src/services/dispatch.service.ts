@@ -0,0 +1,156 @@
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { IAddress, IBooking, IDispatchCandidate, IServiceProvider, IUser } from '@/types';
+import availabilityService, { SLOT_BLOCKING_STATUSES } from './availability.service';
+import { getStraightLineKm } from './travel.service';
+
+export interface RankedProvider {
+  provider: IServiceProvider;
+  candidate: IDispatchCandidate;
+}
+
+// How much each factor contributes to a provider's score (sums to 1)
+const SCORE_WEIGHTS = {
+  rating: 0.35,
+  completionRate: 0.25,
+  load: 0.2,
+  distance: 0.2
+};
+
+// Score given for distance when either side has no coordinates
+const UNKNOWN_DISTANCE_SCORE = 0.5;
+
+// Upper bound on how many providers are ranked for one booking
+const MAX_CANDIDATES = 20;
+
+class DispatchService {
+  /**
+   * Rank the providers who can take a booking: they must offer the service, cover
+   * the city (and distance, when coordinates are known) and be free at that time.
+   */
+  async rankProviders(
+    serviceId: string,
+    address: IAddress,
+    start: Date,
+    durationMinutes: number,
+    excludeProviderIds: string[] = []
+  ): Promise<RankedProvider[]> {
+    const providers = await ServiceProvider.find({
+      _id: { $nin: excludeProviderIds },
+      services: serviceId,
+      'serviceArea.cities': { $regex: new RegExp(`^${this.escapeRegex(address.city)}$`, 'i') },
+      isVerified: true,
+      isAvailable: true
+    }).populate('user', 'name email phone address');
+
+    const ranked: RankedProvider[] = [];
+
+    for (const provider of providers) {
+      const distanceKm = this.getDistanceKm(provider, address);
+      if (distanceKm !== undefined && distanceKm > provider.serviceArea.maxDistance) {
+        continue;
+      }
+
+      if (!(await availabilityService.isSlotAvailable(provider, start, durationMinutes, { address }))) {
+        continue;
+      }
+
+      const activeBookings = await this.countActiveBookings(provider, start);
+      const completionRate = provider.totalBookings > 0
+        ? Number(((provider.completedBookings / provider.totalBookings) * 100).toFixed(2))
+        : 0;
+
+      ranked.push({
+        provider,
+        candidate: {
+          provider: provider._id,
+          rank: 0,
+          score: this.score(provider, completionRate, activeBookings, distanceKm),
+          rating: provider.rating,
+          completionRate,
+          activeBookings,
+          distanceKm
+        }
+      });
+    }
+
+    ranked.sort((a, b) => b.candidate.score - a.candidate.score || b.candidate.rating - a.candidate.rating);
+
+    return ranked.slice(0, MAX_CANDIDATES).map((entry, i) => {
+      entry.candidate.rank = i + 1;
+      return entry;
+    });
+  }
+
+  /**
+   * Record who the booking was handed to and why. The caller saves the booking.
+   */
+  recordAssignment(booking: IBooking, provider: IServiceProvider, reason: string): void {
+    if (!booking.dispatch) {
+      return;
+    }
+
+    booking.dispatch.assignments.push({
+      provider: provider._id,
+      assignedAt: new Date(),
+      reason
+    });
+  }
+
+  private score(
+    provider: IServiceProvider,
+    completionRate: number,
+    activeBookings: number,
+    distanceKm?: number
+  ): number {
+    const distanceScore = distanceKm === undefined
+      ? UNKNOWN_DISTANCE_SCORE
+      : Math.max(0, 1 - distanceKm / provider.serviceArea.maxDistance);
+
+    const score = SCORE_WEIGHTS.rating * (provider.rating / 5) +
+      SCORE_WEIGHTS.completionRate * (completionRate / 100) +
+      SCORE_WEIGHTS.load * (1 / (1 + activeBookings)) +
+      SCORE_WEIGHTS.distance * distanceScore;
+
+    return Number(score.toFixed(4));
+  }
+
+  /**
+   * Bookings the provider already has on the day of the job
+   */
+  private countActiveBookings(provider: IServiceProvider, start: Date): Promise<number> {
+    const dayStart = new Date(start);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    return Booking.countDocuments({
+      provider: provider._id,
+      status: { $in: SLOT_BLOCKING_STATUSES },
+      scheduledDate: { $gte: dayStart, $lt: dayEnd }
+    });
+  }
+
+  /**
+   * Great-circle distance between the provider's address and the job, if both are geocoded
+   */
+  private getDistanceKm(provider: IServiceProvider, address: IAddress): number | undefined {
+    const from = (provider.user as IUser)?.address?.coordinates;
+    const to = address.coordinates;
+
+    if (from?.latitude === undefined || from?.longitude === undefined ||
+        to?.latitude === undefined || to?.longitude === undefined) {
+      return undefined;
+    }
+
+    return Number(getStraightLineKm(from, to).toFixed(2));
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Create and export a singleton instance
+export const dispatchService = new DispatchService();
+export default dispatchService;
@@ -0,0 +1,393 @@
+import Booking from '@/models/Booking.model';
+import Dispute from '@/models/Dispute.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import User from '@/models/User.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import {
+  DisputeCategory,
+  DisputeOutcome,
+  IBooking,
+  IDispute,
+  IDisputeEvidence,
+  IDisputeMessage,
+  IUser
+} from '@/types';
+import availabilityService from './availability.service';
+import emailService from './email.service';
+import paymentService, { BookingRefund } from './payment.service';
+import pricingService from './pricing.service';
+
+export interface DisputeRequest {
+  category: DisputeCategory;
+  description: string;
+  evidence?: Pick<IDisputeEvidence, 'url' | 'publicId'>[];
+}
+
+export interface DisputeResolutionRequest {
+  outcome: DisputeOutcome;
+  refundAmount?: number; // partial refunds, or compensation alongside a provider penalty
+  penaltyPoints?: number;
+  scheduledDate?: Date; // when the redo visit happens
+  notes?: string;
+}
+
+export interface DisputeSlaSweep {
+  escalated: number;
+  breached: number;
+}
+
+// Bookings a customer can still complain about once the job has happened (or failed to)
+const DISPUTABLE_STATUSES = ['in-progress', 'completed', 'no-show', 'cancelled'];
+
+// Disputes that are still being worked on
+export const ACTIVE_DISPUTE_STATUSES: IDispute['status'][] = ['open', 'under_review'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+class DisputeService {
+  /**
+   * Raise a dispute about a booking and start the SLA clocks. Only one dispute
+   * per booking can be active at a time.
+   */
+  async open(booking: IBooking, customer: IUser, request: DisputeRequest): Promise<IDispute> {
+    if (booking.customer.toString() !== customer._id.toString()) {
+      throw new AppError('You can only raise disputes about your own bookings', 403);
+    }
+
+    if (!DISPUTABLE_STATUSES.includes(booking.status)) {
+      throw new AppError(`Cannot raise a dispute about a booking in ${booking.status} status`, 400);
+    }
+
+    if (!booking.provider) {
+      throw new AppError('This booking was never assigned to a provider', 400);
+    }
+
+    const happenedAt = booking.workSummary?.workEndTime || booking.cancellationDate || booking.scheduledDate;
+    if (Date.now() - happenedAt.getTime() > config.booking.disputeWindowDays * DAY_MS) {
+      throw new AppError(`Disputes must be raised within ${config.booking.disputeWindowDays} days of the booking`, 400);
+    }
+
+    const active = await Dispute.exists({ booking: booking._id, status: { $in: ACTIVE_DISPUTE_STATUSES } });
+    if (active) {
+      throw new AppError('A dispute is already open for this booking', 409);
+    }
+
+    const now = Date.now();
+    const dispute = await Dispute.create({
+      booking: booking._id,
+      customer: customer._id,
+      provider: booking.provider._id,
+      category: request.category,
+      description: request.description,
+      evidence: (request.evidence || []).map(file => ({ ...file, uploadedBy: customer._id })),
+      messages: [],
+      sla: {
+        responseDueAt: new Date(now + config.booking.disputeResponseHours * HOUR_MS),
+        resolutionDueAt: new Date(now + config.booking.disputeResolutionHours * HOUR_MS)
+      }
+    });
+
+    await this.notifyParties(dispute, booking, 'dispute-opened', customer._id.toString());
+
+    return dispute;
+  }
+
+  /**
+   * Add a post to the dispute conversation. The provider's first reply stops the
+   * response clock.
+   */
+  async addMessage(
+    dispute: IDispute,
+    author: IUser,
+    body: string,
+    attachments: string[] = []
+  ): Promise<IDisputeMessage> {
+    this.assertActive(dispute);
+
+    const authorRole = author.role;
+    dispute.messages.push({
+      author: author._id,
+      authorRole,
+      body,
+      attachments,
+      createdAt: new Date()
+    } as IDisputeMessage);
+
+    if (authorRole === 'provider' && !dispute.sla.providerRespondedAt) {
+      dispute.sla.providerRespondedAt = new Date();
+    }
+
+    await dispute.save();
+
+    const booking = await Booking.findById(dispute.booking);
+    if (booking) {
+      await this.notifyParties(dispute, booking, 'dispute-message', author._id.toString());
+    }
+
+    return dispute.messages[dispute.messages.length - 1]!;
+  }
+
+  /**
+   * Hand the dispute to the support team, either on request or when the provider
+   * misses the response deadline
+   */
+  async escalate(dispute: IDispute, escalatedBy?: IUser): Promise<IDispute> {
+    if (dispute.status !== 'open') {
+      throw new AppError(`Cannot escalate a dispute in ${dispute.status} status`, 400);
+    }
+
+    dispute.status = 'under_review';
+    dispute.sla.escalatedAt = new Date();
+    await dispute.save();
+
+    const booking = await Booking.findById(dispute.booking);
+    if (booking) {
+      await this.notifyParties(dispute, booking, 'dispute-escalated', escalatedBy?._id.toString());
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Let the customer drop a dispute that was settled between the two parties
+   */
+  async withdraw(dispute: IDispute): Promise<IDispute> {
+    this.assertActive(dispute);
+
+    dispute.status = 'withdrawn';
+    await dispute.save();
+
+    return dispute;
+  }
+
+  /**
+   * Settle the dispute and apply the outcome to the booking: refunds go back
+   * through the gateway, a redo is booked free of charge with the same provider,
+   * and penalties come off the provider's reliability score.
+   */
+  async resolve(dispute: IDispute, admin: IUser, request: DisputeResolutionRequest): Promise<IDispute> {
+    this.assertActive(dispute);
+
+    const booking = await Booking.findById(dispute.booking);
+    if (!booking) {
+      throw new AppError('Booking not found', 404);
+    }
+
+    const refundable = Math.max(0, booking.payment.paidAmount - (booking.payment.refundAmount || 0));
+    let refundAmount = 0;
+    let penaltyPoints = 0;
+    let redoBooking: IBooking | undefined;
+
+    switch (request.outcome) {
+      case 'full_refund':
+        if (refundable <= 0) {
+          throw new AppError('Nothing paid for this booking is left to refund', 400);
+        }
+        refundAmount = refundable;
+        break;
+
+      case 'partial_refund':
+        if (!request.refundAmount || request.refundAmount <= 0) {
+          throw new AppError('Please specify the amount to refund', 400);
+        }
+        refundAmount = request.refundAmount;
+        break;
+
+      case 'provider_penalty':
+        penaltyPoints = request.penaltyPoints ?? config.booking.disputePenaltyPoints;
+        refundAmount = request.refundAmount || 0;
+        break;
+
+      case 'redo':
+        if (!request.scheduledDate) {
+          throw new AppError('Please choose a time for the redo visit', 400);
+        }
+        break;
+
+      default:
+        break;
+    }
+
+    if (refundAmount > refundable) {
+      throw new AppError(`Refund cannot exceed the ₹${refundable} still held for this booking`, 400);
+    }
+
+    // Claimed before anything is applied, so a second admin cannot resolve it too
+    const claimed = await Dispute.findOneAndUpdate(
+      { _id: dispute._id, status: { $in: ACTIVE_DISPUTE_STATUSES } },
+      { $set: { status: 'resolving' } }
+    );
+    if (!claimed) {
+      throw new AppError('This dispute is already being resolved', 409);
+    }
+
+    // If the redo cannot be booked or the refund is refused, the dispute goes back to where it was
+    try {
+      if (request.outcome === 'redo') {
+        redoBooking = await this.bookRedo(booking, request.scheduledDate!);
+      }
+
+      if (refundAmount > 0) {
+        refundAmount = await this.refund(booking, refundAmount, `Dispute ${dispute.disputeNumber} resolved`);
+      }
+    } catch (error) {
+      await Dispute.updateOne({ _id: dispute._id, status: 'resolving' }, { $set: { status: claimed.status } });
+      throw error;
+    }
+
+    if (penaltyPoints > 0) {
+      penaltyPoints = await this.penaliseProvider(booking, penaltyPoints);
+    }
+
+    dispute.status = 'resolved';
+    dispute.resolution = {
+      outcome: request.outcome,
+      refundAmount,
+      penaltyPoints,
+      redoBooking: redoBooking?._id,
+      notes: request.notes,
+      resolvedBy: admin._id,
+      resolvedAt: new Date()
+    };
+    await dispute.save();
+
+    await this.notifyParties(dispute, booking, 'dispute-resolved', admin._id.toString());
+
+    return dispute;
+  }
+
+  /**
+   * Escalate disputes the provider has not answered in time and flag those that
+   * have run past the resolution deadline
+   */
+  async enforceSlas(now: Date = new Date()): Promise<DisputeSlaSweep> {
+    const unanswered = await Dispute.find({
+      status: 'open',
+      'sla.responseDueAt': { $lte: now },
+      'sla.providerRespondedAt': { $exists: false }
+    });
+
+    let escalated = 0;
+    for (const dispute of unanswered) {
+      try {
+        await this.escalate(dispute);
+        escalated++;
+      } catch (error) {
+        logger.error(`Failed to escalate dispute ${dispute.disputeNumber}:`, error);
+      }
+    }
+
+    const overdue = await Dispute.updateMany(
+      {
+        status: { $in: ACTIVE_DISPUTE_STATUSES },
+        'sla.resolutionDueAt': { $lte: now },
+        'sla.resolutionBreachedAt': { $exists: false }
+      },
+      { $set: { 'sla.resolutionBreachedAt': now } }
+    );
+
+    return { escalated, breached: overdue.modifiedCount };
+  }
+
+  private assertActive(dispute: IDispute): void {
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new AppError(`This dispute has already been ${dispute.status}`, 400);
+    }
+  }
+
+  /**
+   * Book the same job again with the same provider at no charge
+   */
+  private async bookRedo(booking: IBooking, scheduledDate: Date): Promise<IBooking> {
+    if (scheduledDate <= new Date()) {
+      throw new AppError('Scheduled date must be in the future', 400);
+    }
+
+    const provider = await ServiceProvider.findById(booking.provider);
+    if (!provider) {
+      throw new AppError('Provider not found', 404);
+    }
+
+    return availabilityService.reserveSlot(provider, scheduledDate, booking.estimatedDuration, () => Booking.create({
+      customer: booking.customer,
+      provider: provider._id,
+      service: booking.service,
+      scheduledDate,
+      estimatedDuration: booking.estimatedDuration,
+      address: booking.address,
+      contactPhone: booking.contactPhone,
+      specialInstructions: `Free redo of booking ${booking.bookingNumber}`,
+      quantity: booking.quantity,
+      status: 'confirmed',
+      pricing: pricingService.buildPricing(0),
+      payment: {
+        status: 'paid',
+        paidAmount: 0
+      },
+      redoOf: booking._id
+    }), { address: booking.address });
+  }
+
+  private async penaliseProvider(booking: IBooking, points: number): Promise<number> {
+    const provider = await ServiceProvider.findById(booking.provider);
+    if (!provider) {
+      return 0;
+    }
+
+    const applied = Math.min(points, provider.reliabilityScore);
+    provider.reliabilityScore -= applied;
+    await provider.save();
+
+    return applied;
+  }
+
+  /**
+   * Refund what the gateway and wallet give back, which can be less than asked
+   */
+  private async refund(booking: IBooking, amount: number, reason: string): Promise<number> {
+    let refund: BookingRefund | null;
+
+    try {
+      refund = await paymentService.refundBooking(booking, amount, reason);
+    } catch (error) {
+      logger.error(`Failed to refund disputed booking ${booking.bookingNumber}:`, error);
+      throw new AppError('The refund could not be processed, so the dispute is still open. Please try again.', 502);
+    }
+
+    if (!refund) {
+      throw new AppError('Nothing paid online is left to refund for this booking, so the dispute is still open', 400);
+    }
+
+    booking.refundAmount = (booking.refundAmount || 0) + refund.amount;
+    await booking.save();
+
+    return refund.amount;
+  }
+
+  /**
+   * Email the customer and provider, leaving out whoever caused the update
+   */
+  private async notifyParties(dispute: IDispute, booking: IBooking, update: string, actorId?: string): Promise<void> {
+    try {
+      const provider = await ServiceProvider.findById(dispute.provider);
+      const recipients = [dispute.customer, provider?.user]
+        .filter(Boolean)
+        .map(id => id!._id.toString())
+        .filter(id => id !== actorId);
+
+      const users = await User.find({ _id: { $in: recipients } });
+      for (const user of users) {
+        await emailService.sendBookingStatusUpdate(user, booking, update);
+      }
+    } catch (error) {
+      logger.error(`Failed to send emails for dispute ${dispute.disputeNumber}:`, error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const disputeService = new DisputeService();
+export default disputeService;
@@ -252,7 +252,24 @@ class EmailService {
       'in-progress': 'Your service provider has started working on your booking.',
       completed: 'Your booking has been completed successfully.',
       cancelled: 'Your booking has been cancelled.',
-      'no-show': 'Your booking was marked as no-show.'
+      'no-show': 'Your booking was marked as no-show.',
+      'reschedule-requested': 'A new time has been proposed for your booking. Please accept or decline it.',
+      rescheduled: 'Your booking has been moved to a new time.',
+      'reschedule-declined': 'Your request to move this booking was declined. The original time still stands.',
+      'quote-submitted': 'Your service provider has sent a quote for additional work. Please review and approve or reject it.',
+      'quote-approved': 'The customer approved your quote. The booking total has been updated.',
+      'quote-rejected': 'The customer rejected your quote for additional work.',
+      'provider-reassigned': 'Your original provider could not take this booking, so it has been passed to another provider.',
+      'no-provider-available': 'We could not find a provider for this booking, so it has been cancelled. Any amount paid will be refunded.',
+      'provider-transferred': 'Your booking has been transferred to another provider. The time, price and any payment stay the same.',
+      'transferred-away': 'This booking has been transferred to another provider and is no longer on your schedule.',
+      'crew-added': 'You have been added as a helper on this job. It is now on your schedule; please check in when you arrive.',
+      'no-show-flagged': 'This job was not started on time and has been marked as a no-show. If the other party did not turn up, please report it from the booking.',
+      'no-show-reported': 'A no-show has been recorded for this booking. Any penalty and refund have been applied.',
+      'dispute-opened': 'A dispute has been raised about this booking. Please respond in the resolution center.',
+      'dispute-message': 'There is a new message on the dispute about this booking.',
+      'dispute-escalated': 'The dispute about this booking has been passed to our support team for review.',
+      'dispute-resolved': 'The dispute about this booking has been resolved. Any refund or redo booking has been applied.'
     };
 
     const statusColors = {
@@ -260,7 +277,24 @@ class EmailService {
       'in-progress': '#3b82f6',
       completed: '#059669',
       cancelled: '#ef4444',
-      'no-show': '#f59e0b'
+      'no-show': '#f59e0b',
+      'reschedule-requested': '#8b5cf6',
+      rescheduled: '#3b82f6',
+      'reschedule-declined': '#f59e0b',
+      'quote-submitted': '#8b5cf6',
+      'quote-approved': '#10b981',
+      'quote-rejected': '#ef4444',
+      'provider-reassigned': '#3b82f6',
+      'no-provider-available': '#ef4444',
+      'provider-transferred': '#3b82f6',
+      'transferred-away': '#6b7280',
+      'crew-added': '#3b82f6',
+      'no-show-flagged': '#f59e0b',
+      'no-show-reported': '#f59e0b',
+      'dispute-opened': '#ef4444',
+      'dispute-message': '#3b82f6',
+      'dispute-escalated': '#f59e0b',
+      'dispute-resolved': '#10b981'
     };
 
     const message = statusMessages[newStatus as keyof typeof statusMessages] || 'Your booking status has been updated.';
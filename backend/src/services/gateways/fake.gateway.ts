@@ -0,0 +1,409 @@
+import crypto from 'crypto';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import {
+  PaymentGateway,
+  GatewayOrderRequest,
+  GatewayOrder,
+  PaymentVerification,
+  GatewayPayment,
+  GatewayRefund,
+  GatewayPaymentLinkRequest,
+  GatewayPaymentLink,
+  GatewayWebhookEvent,
+  toMinorUnits,
+  fromMinorUnits
+} from './paymentGateway';
+import {
+  signRazorpay,
+  verifyRazorpaySignature,
+  toGatewayPayment,
+  toGatewayRefund,
+  parseRazorpayWebhook
+} from './razorpay.gateway';
+
+/**
+ * How the customer's attempt at the fake checkout goes:
+ * - captured: paid and captured straight away
+ * - authorized: paid but held until captured (delayed capture)
+ * - declined: the card is declined and the payment fails
+ */
+export type FakeCheckoutOutcome = 'captured' | 'authorized' | 'declined';
+
+export type FakeWebhookEvent = 'payment.authorized' | 'payment.captured' | 'payment.failed' | 'refund.created';
+
+// Gateway calls that can be made to fail once with failNext()
+export type FakeOperation = 'createOrder' | 'capturePayment' | 'refundPayment' | 'createPaymentLink';
+
+export interface FakeCheckoutResult {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature?: string; // unset when the payment was declined
+  status: 'authorized' | 'captured' | 'failed';
+  error?: string;
+}
+
+export interface FakeWebhookDelivery {
+  body: string;
+  headers: Record<string, string>;
+}
+
+// Records are kept in Razorpay's wire format (minor units, snake_case) so
+// webhooks look exactly like Razorpay's
+interface FakeOrder {
+  id: string;
+  entity: 'order';
+  amount: number;
+  amount_paid: number;
+  currency: string;
+  receipt: string;
+  status: 'created' | 'attempted' | 'paid';
+  notes: Record<string, string>;
+  created_at: number;
+}
+
+interface FakePayment {
+  id: string;
+  entity: 'payment';
+  order_id: string;
+  amount: number;
+  currency: string;
+  status: 'authorized' | 'captured' | 'failed' | 'refunded';
+  captured: boolean;
+  amount_refunded: number;
+  refund_status: 'partial' | 'full' | null;
+  method: string;
+  error_code: string | null;
+  error_description: string | null;
+  notes: Record<string, string>;
+  created_at: number;
+}
+
+interface FakeRefund {
+  id: string;
+  entity: 'refund';
+  payment_id: string;
+  amount: number;
+  currency: string;
+  status: 'processed';
+  notes: Record<string, string>;
+  created_at: number;
+}
+
+const newId = (prefix: string) => `${prefix}_fake${crypto.randomBytes(7).toString('hex')}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+/**
+ * An in-process stand-in for Razorpay. It keeps orders, payments and refunds
+ * in memory, signs checkouts and webhooks with the test secret exactly as
+ * Razorpay does, and can be scripted to decline cards, hold payments for
+ * capture or fail the next call.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'razorpay' as const;
+  readonly currencies = ['INR'];
+
+  private orders = new Map<string, FakeOrder>();
+  private payments = new Map<string, FakePayment>();
+  private refunds = new Map<string, FakeRefund>();
+  private failures = new Map<FakeOperation, string>();
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getCheckoutConfig() {
+    return { keyId: 'rzp_test_fake' };
+  }
+
+  getPaymentMethods(): string[] {
+    return ['card', 'upi'];
+  }
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    this.takeFailure('createOrder');
+
+    const order: FakeOrder = {
+      id: newId('order'),
+      entity: 'order',
+      amount: toMinorUnits(request.amount, request.currency),
+      amount_paid: 0,
+      currency: request.currency,
+      receipt: request.receipt,
+      status: 'created',
+      notes: request.notes,
+      created_at: now()
+    };
+    this.orders.set(order.id, order);
+
+    return {
+      id: order.id,
+      amount: request.amount,
+      currency: order.currency,
+      status: order.status
+    };
+  }
+
+  async verifyPayment(verification: PaymentVerification): Promise<boolean> {
+    const payment = this.payments.get(verification.paymentId);
+
+    if (!verification.signature || !payment || payment.order_id !== verification.orderId) {
+      return false;
+    }
+
+    return verifyRazorpaySignature(
+      `${verification.orderId}|${verification.paymentId}`,
+      verification.signature,
+      config.payments.fakeGatewaySecret
+    );
+  }
+
+  async getPayment(paymentId: string): Promise<GatewayPayment> {
+    return toGatewayPayment(this.findPayment(paymentId));
+  }
+
+  async capturePayment(paymentId: string, amount: number, currency: string): Promise<GatewayPayment> {
+    this.takeFailure('capturePayment');
+
+    const payment = this.findPayment(paymentId);
+
+    if (payment.status !== 'authorized') {
+      throw new Error(`Payment ${paymentId} is ${payment.status}, not authorized`);
+    }
+
+    if (toMinorUnits(amount, currency) !== payment.amount) {
+      throw new Error('Capture amount must equal the authorized amount');
+    }
+
+    payment.status = 'captured';
+    payment.captured = true;
+    this.markOrderPaid(payment);
+
+    return toGatewayPayment(payment);
+  }
+
+  async refundPayment(paymentId: string, amount?: number, notes: Record<string, string> = {}): Promise<GatewayRefund> {
+    this.takeFailure('refundPayment');
+
+    const payment = this.findPayment(paymentId);
+    const refundable = payment.amount - payment.amount_refunded;
+
+    if (!payment.captured || refundable <= 0) {
+      throw new Error(`Payment ${paymentId} has nothing left to refund`);
+    }
+
+    const refundAmount = amount ? toMinorUnits(amount, payment.currency) : refundable;
+    if (refundAmount > refundable) {
+      throw new Error('Refund amount exceeds the amount left on the payment');
+    }
+
+    const refund: FakeRefund = {
+      id: newId('rfnd'),
+      entity: 'refund',
+      payment_id: payment.id,
+      amount: refundAmount,
+      currency: payment.currency,
+      status: 'processed',
+      notes,
+      created_at: now()
+    };
+    this.refunds.set(refund.id, refund);
+
+    payment.amount_refunded += refundAmount;
+    payment.refund_status = payment.amount_refunded >= payment.amount ? 'full' : 'partial';
+    if (payment.refund_status === 'full') {
+      payment.status = 'refunded';
+    }
+
+    return toGatewayRefund(refund);
+  }
+
+  /**
+   * Links are backed by an order; pay them with checkout() on linkOrderId()
+   */
+  async createPaymentLink(request: GatewayPaymentLinkRequest): Promise<GatewayPaymentLink> {
+    this.takeFailure('createPaymentLink');
+
+    const order = await this.createOrder({
+      amount: request.amount,
+      currency: request.currency,
+      receipt: request.description,
+      notes: request.notes || {}
+    });
+    const id = order.id.replace(/^order_/, 'plink_');
+
+    return {
+      id,
+      url: `${config.frontendUrl}/payment/fake/${id}`,
+      amount: request.amount,
+      currency: request.currency
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): GatewayWebhookEvent {
+    return parseRazorpayWebhook(rawBody, headers, config.payments.fakeGatewaySecret);
+  }
+
+  /**
+   * The customer pays an order at the fake checkout. Returns what Razorpay's
+   * checkout hands back to the client, ready to post to a verify endpoint.
+   */
+  checkout(orderId: string, outcome: FakeCheckoutOutcome = 'captured', method: string = 'card'): FakeCheckoutResult {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    if (order.status === 'paid') {
+      throw new Error(`Order ${orderId} has already been paid`);
+    }
+
+    const declined = outcome === 'declined';
+    const payment: FakePayment = {
+      id: newId('pay'),
+      entity: 'payment',
+      order_id: order.id,
+      amount: order.amount - order.amount_paid,
+      currency: order.currency,
+      status: declined ? 'failed' : outcome,
+      captured: outcome === 'captured',
+      amount_refunded: 0,
+      refund_status: null,
+      method,
+      error_code: declined ? 'BAD_REQUEST_ERROR' : null,
+      error_description: declined ? 'Your card was declined by the issuing bank' : null,
+      notes: order.notes,
+      created_at: now()
+    };
+    this.payments.set(payment.id, payment);
+
+    order.status = 'attempted';
+    if (payment.captured) {
+      this.markOrderPaid(payment);
+    }
+
+    if (declined) {
+      return {
+        razorpay_order_id: order.id,
+        razorpay_payment_id: payment.id,
+        status: 'failed',
+        error: payment.error_description!
+      };
+    }
+
+    return {
+      razorpay_order_id: order.id,
+      razorpay_payment_id: payment.id,
+      razorpay_signature: signRazorpay(`${order.id}|${payment.id}`, config.payments.fakeGatewaySecret),
+      status: payment.status as 'authorized' | 'captured'
+    };
+  }
+
+  /**
+   * The gateway captures a payment held by an 'authorized' checkout, as
+   * Razorpay does when auto-capture kicks in after a delay
+   */
+  async settle(paymentId: string): Promise<GatewayPayment> {
+    const payment = this.findPayment(paymentId);
+    return this.capturePayment(paymentId, fromMinorUnits(payment.amount, payment.currency), payment.currency);
+  }
+
+  /**
+   * The order behind a payment link, for checkout()
+   */
+  linkOrderId(linkId: string): string {
+    return linkId.replace(/^plink_/, 'order_');
+  }
+
+  /**
+   * Make the next call to an operation throw, as when the gateway is down
+   */
+  failNext(operation: FakeOperation, message: string = 'Gateway unavailable'): void {
+    this.failures.set(operation, message);
+  }
+
+  /**
+   * A signed webhook delivery for a payment or refund, in Razorpay's format
+   */
+  buildWebhook(event: FakeWebhookEvent, id: string): FakeWebhookDelivery {
+    const payload: Record<string, unknown> = {};
+
+    if (event === 'refund.created') {
+      const refund = this.refunds.get(id);
+      if (!refund) {
+        throw new Error(`Refund ${id} not found`);
+      }
+      payload.refund = { entity: refund };
+      payload.payment = { entity: this.findPayment(refund.payment_id) };
+    } else {
+      payload.payment = { entity: this.findPayment(id) };
+    }
+
+    const body = JSON.stringify({
+      entity: 'event',
+      event,
+      contains: Object.keys(payload),
+      payload,
+      created_at: now()
+    });
+
+    return {
+      body,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Razorpay-Signature': signRazorpay(body, config.payments.fakeGatewaySecret)
+      }
+    };
+  }
+
+  /**
+   * Deliver a webhook over HTTP, by default to this server's Razorpay webhook.
+   * Returns the response status.
+   */
+  async emitWebhook(event: FakeWebhookEvent, id: string, url: string = config.payments.fakeGatewayWebhookUrl): Promise<number> {
+    const delivery = this.buildWebhook(event, id);
+    const response = await fetch(url, { method: 'POST', headers: delivery.headers, body: delivery.body });
+
+    logger.info(`Fake gateway delivered ${event} for ${id}: ${response.status}`);
+    return response.status;
+  }
+
+  /**
+   * Forget every order, payment, refund and scripted failure
+   */
+  reset(): void {
+    this.orders.clear();
+    this.payments.clear();
+    this.refunds.clear();
+    this.failures.clear();
+  }
+
+  private findPayment(paymentId: string): FakePayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    return payment;
+  }
+
+  private markOrderPaid(payment: FakePayment): void {
+    const order = this.orders.get(payment.order_id);
+    if (order) {
+      order.amount_paid += payment.amount;
+      order.status = order.amount_paid >= order.amount ? 'paid' : 'attempted';
+    }
+  }
+
+  private takeFailure(operation: FakeOperation): void {
+    const message = this.failures.get(operation);
+    if (message) {
+      this.failures.delete(operation);
+      throw new Error(message);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const fakePaymentGateway = new FakePaymentGateway();
+export default fakePaymentGateway;
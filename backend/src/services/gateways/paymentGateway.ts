@@ -0,0 +1,133 @@
+import { PaymentGatewayName } from '@/types';
+
+/**
+ * What every payment gateway adapter provides. Amounts are in major units
+ * (rupees, dollars); adapters convert to and from the gateway's minor units.
+ */
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+
+  /**
+   * Currencies the gateway can charge in, upper case
+   */
+  readonly currencies: string[];
+
+  isConfigured(): boolean;
+
+  /**
+   * Details the client needs to open the gateway's checkout
+   */
+  getCheckoutConfig(): Record<string, string | undefined>;
+
+  getPaymentMethods(): string[];
+
+  createOrder(request: GatewayOrderRequest): Promise<GatewayOrder>;
+
+  /**
+   * Whether the client's report of a completed payment is genuine
+   */
+  verifyPayment(verification: PaymentVerification): Promise<boolean>;
+
+  getPayment(paymentId: string): Promise<GatewayPayment>;
+
+  capturePayment(paymentId: string, amount: number, currency: string): Promise<GatewayPayment>;
+
+  /**
+   * Refund the whole payment when no amount is given
+   */
+  refundPayment(paymentId: string, amount?: number, notes?: Record<string, string>): Promise<GatewayRefund>;
+
+  createPaymentLink(request: GatewayPaymentLinkRequest): Promise<GatewayPaymentLink>;
+
+  /**
+   * Check the signature on a webhook delivery and translate the event. Throws
+   * when the signature does not match.
+   */
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): GatewayWebhookEvent;
+}
+
+export interface GatewayOrderRequest {
+  amount: number;
+  currency: string;
+  receipt: string;
+  notes: Record<string, string>;
+}
+
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  clientSecret?: string; // Stripe confirms the payment in the browser with this
+}
+
+export interface PaymentVerification {
+  orderId: string;
+  paymentId: string;
+  signature?: string; // Razorpay only
+}
+
+export interface GatewayPayment {
+  id: string;
+  orderId?: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'authorized' | 'captured' | 'failed' | 'refunded';
+  notes: Record<string, string>;
+}
+
+export interface GatewayRefund {
+  id: string;
+  paymentId: string;
+  amount: number;
+  status: string;
+}
+
+export interface GatewayPaymentLinkRequest {
+  amount: number;
+  currency: string;
+  description: string;
+  customer: {
+    name: string;
+    email: string;
+    contact: string;
+  };
+  callbackUrl: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayPaymentLink {
+  id: string;
+  url: string;
+  amount: number;
+  currency: string;
+}
+
+export interface GatewayWebhookEvent {
+  type: 'payment.captured' | 'payment.failed' | 'refund.created' | 'ignored';
+  gatewayEvent: string; // the event name as the gateway sent it
+  payment?: GatewayPayment;
+  refund?: GatewayRefund;
+}
+
+// Currencies without a minor unit, charged in whole units by both gateways
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND', 'CLP', 'PYG', 'UGX', 'XAF', 'XOF'];
+
+export const toMinorUnits = (amount: number, currency: string): number =>
+  ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? Math.round(amount) : Math.round(amount * 100);
+
+export const fromMinorUnits = (amount: number, currency: string): number =>
+  ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? amount : amount / 100;
+
+// Gateways return metadata values as strings, numbers or null; notes are kept as strings
+export const toNotes = (metadata: unknown): Record<string, string> => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(metadata as Record<string, unknown>)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  );
+};
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import {
+  PaymentGateway,
+  GatewayOrderRequest,
+  GatewayOrder,
+  PaymentVerification,
+  GatewayPayment,
+  GatewayRefund,
+  GatewayPaymentLinkRequest,
+  GatewayPaymentLink,
+  GatewayWebhookEvent,
+  toMinorUnits,
+  fromMinorUnits,
+  toNotes
+} from './paymentGateway';
+
+const PAYMENT_STATUSES: Record<string, GatewayPayment['status']> = {
+  created: 'pending',
+  authorized: 'authorized',
+  captured: 'captured',
+  refunded: 'refunded',
+  failed: 'failed'
+};
+
+const WEBHOOK_EVENTS: Record<string, GatewayWebhookEvent['type']> = {
+  'payment.captured': 'payment.captured',
+  'payment.failed': 'payment.failed',
+  'refund.created': 'refund.created'
+};
+
+// Constant-time comparison of two hex signatures
+const signaturesMatch = (expected: string, received: string): boolean =>
+  expected.length === received.length &&
+  crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+
+/**
+ * Razorpay's signature: HMAC SHA256 in hex. Checkout signs "orderId|paymentId"
+ * with the key secret; webhooks sign the raw body with the webhook secret.
+ */
+export const signRazorpay = (payload: string | Buffer, secret: string): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+export const verifyRazorpaySignature = (payload: string | Buffer, signature: string, secret: string): boolean =>
+  signaturesMatch(signRazorpay(payload, secret), signature);
+
+export const toGatewayPayment = (payment: any): GatewayPayment => ({
+  id: payment.id,
+  orderId: payment.order_id || undefined,
+  amount: fromMinorUnits(Number(payment.amount), payment.currency || 'INR'),
+  currency: payment.currency || 'INR',
+  status: PAYMENT_STATUSES[payment.status] || 'pending',
+  notes: toNotes(payment.notes)
+});
+
+export const toGatewayRefund = (refund: any): GatewayRefund => ({
+  id: refund.id,
+  paymentId: refund.payment_id,
+  amount: fromMinorUnits(Number(refund.amount), refund.currency || 'INR'),
+  status: refund.status
+});
+
+/**
+ * Check a Razorpay webhook delivery and translate the event
+ */
+export const parseRazorpayWebhook = (
+  rawBody: Buffer,
+  headers: Record<string, string | string[] | undefined>,
+  secret?: string
+): GatewayWebhookEvent => {
+  const signature = headers['x-razorpay-signature'];
+  if (typeof signature !== 'string' || !secret) {
+    throw new Error('Missing webhook signature or secret');
+  }
+
+  if (!verifyRazorpaySignature(rawBody, signature, secret)) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  const event = JSON.parse(rawBody.toString('utf8'));
+
+  return {
+    type: WEBHOOK_EVENTS[event.event] || 'ignored',
+    gatewayEvent: event.event,
+    payment: event.payload?.payment?.entity ? toGatewayPayment(event.payload.payment.entity) : undefined,
+    refund: event.payload?.refund?.entity ? toGatewayRefund(event.payload.refund.entity) : undefined
+  };
+};
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = 'razorpay' as const;
+  readonly currencies = ['INR'];
+
+  private razorpay: Razorpay | null = null;
+
+  constructor() {
+    if (!config.razorpay.keyId || !config.razorpay.keySecret) {
+      logger.warn('Razorpay credentials not found. Razorpay payments are disabled.');
+      return;
+    }
+
+    this.razorpay = new Razorpay({
+      key_id: config.razorpay.keyId,
+      key_secret: config.razorpay.keySecret
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.razorpay;
+  }
+
+  getCheckoutConfig() {
+    return { keyId: config.razorpay.keyId };
+  }
+
+  getPaymentMethods(): string[] {
+    return ['card', 'netbanking', 'wallet', 'upi', 'emi'];
+  }
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    const order = await this.client().orders.create({
+      amount: toMinorUnits(request.amount, request.currency),
+      currency: request.currency,
+      receipt: request.receipt,
+      notes: request.notes
+    });
+
+    return {
+      id: order.id,
+      amount: fromMinorUnits(Number(order.amount), order.currency),
+      currency: order.currency,
+      status: order.status
+    };
+  }
+
+  async verifyPayment(verification: PaymentVerification): Promise<boolean> {
+    if (!verification.signature || !config.razorpay.keySecret) {
+      return false;
+    }
+
+    return verifyRazorpaySignature(
+      `${verification.orderId}|${verification.paymentId}`,
+      verification.signature,
+      config.razorpay.keySecret
+    );
+  }
+
+  async getPayment(paymentId: string): Promise<GatewayPayment> {
+    return toGatewayPayment(await this.client().payments.fetch(paymentId));
+  }
+
+  async capturePayment(paymentId: string, amount: number, currency: string): Promise<GatewayPayment> {
+    const payment = await this.client().payments.capture(paymentId, toMinorUnits(amount, currency), currency);
+    return toGatewayPayment(payment);
+  }
+
+  async refundPayment(paymentId: string, amount?: number, notes: Record<string, string> = {}): Promise<GatewayRefund> {
+    const refundData: any = { notes };
+
+    if (amount) {
+      // Razorpay only settles in INR
+      refundData.amount = toMinorUnits(amount, 'INR');
+    }
+
+    const refund = await this.client().payments.refund(paymentId, refundData);
+    return toGatewayRefund(refund);
+  }
+
+  async createPaymentLink(request: GatewayPaymentLinkRequest): Promise<GatewayPaymentLink> {
+    const paymentLink = await this.client().paymentLink.create({
+      amount: toMinorUnits(request.amount, request.currency),
+      currency: request.currency,
+      description: request.description,
+      customer: request.customer,
+      notify: {
+        sms: true,
+        email: true
+      },
+      reminder_enable: true,
+      notes: request.notes,
+      callback_url: request.callbackUrl,
+      callback_method: 'get'
+    });
+
+    return {
+      id: paymentLink.id,
+      url: paymentLink.short_url,
+      amount: request.amount,
+      currency: request.currency
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): GatewayWebhookEvent {
+    return parseRazorpayWebhook(rawBody, headers, config.razorpay.webhookSecret);
+  }
+
+  /**
+   * Single-use UPI QR code for a fixed amount
+   */
+  async createQRPayment(amount: number, description: string, notes: Record<string, string> = {}): Promise<any> {
+    return this.client().qrCode.create({
+      type: 'upi_qr',
+      name: 'Deshi Sahayak Hub',
+      usage: 'single_use',
+      fixed_amount: true,
+      payment_amount: toMinorUnits(amount, 'INR'),
+      description,
+      notes
+    });
+  }
+
+  private client(): Razorpay {
+    if (!this.razorpay) {
+      throw new Error('Razorpay not initialized');
+    }
+
+    return this.razorpay;
+  }
+}
@@ -0,0 +1,206 @@
+import Stripe from 'stripe';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import {
+  PaymentGateway,
+  GatewayOrderRequest,
+  GatewayOrder,
+  PaymentVerification,
+  GatewayPayment,
+  GatewayRefund,
+  GatewayPaymentLinkRequest,
+  GatewayPaymentLink,
+  GatewayWebhookEvent,
+  toMinorUnits,
+  fromMinorUnits,
+  toNotes
+} from './paymentGateway';
+
+/**
+ * Stripe through PaymentIntents. The intent stands in for both the order and
+ * the payment, so its id is what gets stored as the transaction id.
+ */
+export class StripeGateway implements PaymentGateway {
+  readonly name = 'stripe' as const;
+  readonly currencies = ['USD', 'EUR', 'GBP', 'AUD', 'CAD', 'SGD', 'AED', 'INR'];
+
+  private stripe: Stripe | null = null;
+
+  constructor() {
+    if (!config.stripe.secretKey) {
+      logger.warn('Stripe credentials not found. Stripe payments are disabled.');
+      return;
+    }
+
+    this.stripe = new Stripe(config.stripe.secretKey, { apiVersion: '2023-10-16' });
+  }
+
+  isConfigured(): boolean {
+    return !!this.stripe;
+  }
+
+  getCheckoutConfig() {
+    return { publishableKey: config.stripe.publishableKey };
+  }
+
+  getPaymentMethods(): string[] {
+    return ['card', 'wallet'];
+  }
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    const intent = await this.client().paymentIntents.create({
+      amount: toMinorUnits(request.amount, request.currency),
+      currency: request.currency.toLowerCase(),
+      description: request.receipt,
+      metadata: { ...request.notes, receipt: request.receipt },
+      automatic_payment_methods: { enabled: true }
+    });
+
+    return {
+      id: intent.id,
+      amount: fromMinorUnits(intent.amount, intent.currency),
+      currency: intent.currency.toUpperCase(),
+      status: intent.status,
+      clientSecret: intent.client_secret || undefined
+    };
+  }
+
+  /**
+   * Stripe has no client-side signature; the intent is fetched and must have
+   * gone through
+   */
+  async verifyPayment(verification: PaymentVerification): Promise<boolean> {
+    if (verification.orderId !== verification.paymentId) {
+      return false;
+    }
+
+    const intent = await this.client().paymentIntents.retrieve(verification.paymentId);
+    return ['succeeded', 'requires_capture'].includes(intent.status);
+  }
+
+  async getPayment(paymentId: string): Promise<GatewayPayment> {
+    return this.toPayment(await this.client().paymentIntents.retrieve(paymentId));
+  }
+
+  async capturePayment(paymentId: string, amount: number, currency: string): Promise<GatewayPayment> {
+    const intent = await this.client().paymentIntents.capture(paymentId, {
+      amount_to_capture: toMinorUnits(amount, currency)
+    });
+
+    return this.toPayment(intent);
+  }
+
+  async refundPayment(paymentId: string, amount?: number, notes: Record<string, string> = {}): Promise<GatewayRefund> {
+    const params: Stripe.RefundCreateParams = {
+      payment_intent: paymentId,
+      metadata: notes
+    };
+
+    if (amount) {
+      const intent = await this.client().paymentIntents.retrieve(paymentId);
+      params.amount = toMinorUnits(amount, intent.currency);
+    }
+
+    return this.toRefund(await this.client().refunds.create(params));
+  }
+
+  /**
+   * A hosted Checkout Session; the link stays valid for 24 hours
+   */
+  async createPaymentLink(request: GatewayPaymentLinkRequest): Promise<GatewayPaymentLink> {
+    const session = await this.client().checkout.sessions.create({
+      mode: 'payment',
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: request.currency.toLowerCase(),
+          unit_amount: toMinorUnits(request.amount, request.currency),
+          product_data: { name: request.description }
+        }
+      }],
+      customer_email: request.customer.email,
+      metadata: request.notes,
+      payment_intent_data: { metadata: request.notes },
+      success_url: request.callbackUrl,
+      cancel_url: request.callbackUrl
+    });
+
+    return {
+      id: session.id,
+      url: session.url!,
+      amount: request.amount,
+      currency: request.currency
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): GatewayWebhookEvent {
+    const signature = headers['stripe-signature'];
+    if (typeof signature !== 'string' || !config.stripe.webhookSecret) {
+      throw new Error('Missing webhook signature or secret');
+    }
+
+    // Throws when the signature does not match
+    const event = this.client().webhooks.constructEvent(rawBody, signature, config.stripe.webhookSecret);
+
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        return { type: 'payment.captured', gatewayEvent: event.type, payment: this.toPayment(event.data.object) };
+      case 'payment_intent.payment_failed':
+        return { type: 'payment.failed', gatewayEvent: event.type, payment: this.toPayment(event.data.object) };
+      case 'charge.refunded': {
+        const charge = event.data.object;
+        const latest = charge.refunds?.data[0];
+        return {
+          type: 'refund.created',
+          gatewayEvent: event.type,
+          refund: latest
+            ? this.toRefund(latest)
+            : {
+              id: charge.id,
+              paymentId: charge.payment_intent as string,
+              amount: fromMinorUnits(charge.amount_refunded, charge.currency),
+              status: 'succeeded'
+            }
+        };
+      }
+      default:
+        return { type: 'ignored', gatewayEvent: event.type };
+    }
+  }
+
+  private client(): Stripe {
+    if (!this.stripe) {
+      throw new Error('Stripe not initialized');
+    }
+
+    return this.stripe;
+  }
+
+  private toPayment(intent: Stripe.PaymentIntent): GatewayPayment {
+    const statuses: Record<string, GatewayPayment['status']> = {
+      succeeded: 'captured',
+      requires_capture: 'authorized',
+      canceled: 'failed'
+    };
+    // A declined attempt sends the intent back to waiting for a payment method
+    const declined = intent.status === 'requires_payment_method' && !!intent.last_payment_error;
+
+    return {
+      id: intent.id,
+      orderId: intent.id,
+      amount: fromMinorUnits(intent.amount_received || intent.amount, intent.currency),
+      currency: intent.currency.toUpperCase(),
+      status: declined ? 'failed' : statuses[intent.status] || 'pending',
+      notes: toNotes(intent.metadata)
+    };
+  }
+
+  private toRefund(refund: Stripe.Refund): GatewayRefund {
+    return {
+      id: refund.id,
+      paymentId: typeof refund.payment_intent === 'string' ? refund.payment_intent : refund.payment_intent?.id || '',
+      amount: fromMinorUnits(refund.amount, refund.currency),
+      status: refund.status || 'pending'
+    };
+  }
+}
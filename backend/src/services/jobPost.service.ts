@@ -0,0 +1,291 @@
+import Booking from '@/models/Booking.model';
+import JobBid from '@/models/JobBid.model';
+import JobPost from '@/models/JobPost.model';
+import Service from '@/models/Service.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IAddress, IBooking, IJobBid, IJobPost, IJobPostBudget, IServiceProvider, IUser } from '@/types';
+import availabilityService from './availability.service';
+import notificationService from './notification.service';
+import pricingService from './pricing.service';
+
+export interface JobPostRequest {
+  serviceId: string;
+  title: string;
+  description: string;
+  images: string[];
+  budget: IJobPostBudget;
+  preferredDates: Date[];
+  address: IAddress;
+  contactPhone: string;
+}
+
+export interface JobBidRequest {
+  amount: number;
+  proposedDate: Date;
+  estimatedDuration: number; // in minutes
+  message?: string;
+}
+
+export interface JobBidAcceptance {
+  jobPost: IJobPost;
+  bid: IJobBid;
+  booking: IBooking;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class JobPostService {
+  /**
+   * Put a job out to bid. Posts stay open for bids for
+   * BOOKING_JOB_POST_EXPIRY_DAYS or until the last preferred date, whichever
+   * comes first.
+   */
+  async create(customer: IUser, request: JobPostRequest): Promise<IJobPost> {
+    const service = await Service.findById(request.serviceId);
+    if (!service || !service.isActive) {
+      throw new AppError('Service not found or not available', 404);
+    }
+
+    const now = Date.now();
+    if (request.preferredDates.some(date => date.getTime() <= now)) {
+      throw new AppError('Preferred dates must be in the future', 400);
+    }
+
+    const lastPreferred = Math.max(...request.preferredDates.map(date => date.getTime()));
+    const expiresAt = new Date(Math.min(now + config.booking.jobPostExpiryDays * DAY_MS, lastPreferred));
+
+    return JobPost.create({
+      customer: customer._id,
+      service: service._id,
+      title: request.title,
+      description: request.description,
+      images: request.images,
+      budget: request.budget,
+      preferredDates: request.preferredDates.sort((a, b) => a.getTime() - b.getTime()),
+      address: request.address,
+      contactPhone: request.contactPhone,
+      expiresAt
+    });
+  }
+
+  /**
+   * Query for the open posts a provider can bid on: their services, in the
+   * cities they cover
+   */
+  getOpenPostsQuery(provider: IServiceProvider): Record<string, any> {
+    return {
+      status: 'open',
+      expiresAt: { $gt: new Date() },
+      service: { $in: provider.services },
+      'address.city': { $in: provider.serviceArea.cities.map(city => new RegExp(`^${this.escapeRegex(city)}$`, 'i')) }
+    };
+  }
+
+  /**
+   * Whether a provider may see and bid on a post
+   */
+  canBid(provider: IServiceProvider, jobPost: IJobPost): boolean {
+    const city = jobPost.address.city.toLowerCase();
+
+    return provider.isVerified &&
+      provider.services.some(id => id.toString() === jobPost.service._id.toString()) &&
+      provider.serviceArea.cities.some(served => served.toLowerCase() === city);
+  }
+
+  /**
+   * Submit a bid. A provider has at most one live bid per post; to change it
+   * they withdraw and bid again.
+   */
+  async submitBid(jobPost: IJobPost, provider: IServiceProvider, request: JobBidRequest): Promise<IJobBid> {
+    this.assertOpen(jobPost);
+
+    if (!provider.isVerified) {
+      throw new AppError('Only verified providers can bid on jobs', 403);
+    }
+
+    if (!this.canBid(provider, jobPost)) {
+      throw new AppError('This job is outside your services or service area', 403);
+    }
+
+    if (request.proposedDate <= new Date()) {
+      throw new AppError('Proposed start date must be in the future', 400);
+    }
+
+    const existing = await JobBid.exists({ jobPost: jobPost._id, provider: provider._id, status: 'pending' });
+    if (existing) {
+      throw new AppError('You have already bid on this job', 409);
+    }
+
+    const bid = await JobBid.create({
+      jobPost: jobPost._id,
+      provider: provider._id,
+      amount: request.amount,
+      proposedDate: request.proposedDate,
+      estimatedDuration: request.estimatedDuration,
+      message: request.message
+    });
+
+    await JobPost.updateOne({ _id: jobPost._id }, { $inc: { bidCount: 1 } });
+
+    await notificationService.sendNotification({
+      recipient: jobPost.customer.toString(),
+      type: 'system',
+      title: 'New bid on your job',
+      message: `A provider bid ₹${request.amount} for "${jobPost.title}".`,
+      data: { jobPostId: jobPost._id.toString(), bidId: bid._id.toString() },
+      channels: ['in_app', 'email']
+    });
+
+    return bid;
+  }
+
+  /**
+   * Withdraw a pending bid
+   */
+  async withdrawBid(jobPost: IJobPost, bid: IJobBid, provider: IServiceProvider): Promise<IJobBid> {
+    if (bid.provider.toString() !== provider._id.toString()) {
+      throw new AppError('You can only withdraw your own bids', 403);
+    }
+
+    if (bid.status !== 'pending') {
+      throw new AppError(`Cannot withdraw a bid in ${bid.status} status`, 400);
+    }
+
+    bid.status = 'withdrawn';
+    await bid.save();
+
+    await JobPost.updateOne({ _id: jobPost._id, bidCount: { $gt: 0 } }, { $inc: { bidCount: -1 } });
+
+    return bid;
+  }
+
+  /**
+   * Accept a bid, turning it into a confirmed booking priced at the bid amount
+   * plus GST. The provider committed to the price and time when bidding, so the
+   * booking skips the usual acceptance step; every other bid is declined.
+   */
+  async acceptBid(jobPost: IJobPost, bid: IJobBid, customer: IUser): Promise<JobBidAcceptance> {
+    if (jobPost.customer.toString() !== customer._id.toString()) {
+      throw new AppError('You can only accept bids on your own jobs', 403);
+    }
+
+    this.assertOpen(jobPost);
+
+    if (bid.jobPost.toString() !== jobPost._id.toString()) {
+      throw new AppError('Bid does not belong to this job', 400);
+    }
+
+    if (bid.status !== 'pending') {
+      throw new AppError(`Cannot accept a bid in ${bid.status} status`, 400);
+    }
+
+    if (bid.proposedDate <= new Date()) {
+      throw new AppError('The proposed start date has passed; ask the provider to bid again', 400);
+    }
+
+    const provider = await ServiceProvider.findById(bid.provider);
+    if (!provider || !provider.isVerified || !provider.isAvailable) {
+      throw new AppError('This provider is no longer taking bookings', 400);
+    }
+
+    // Only one acceptance wins
+    const claimed = await JobPost.findOneAndUpdate(
+      { _id: jobPost._id, status: 'open' },
+      { $set: { status: 'awarded', acceptedBid: bid._id } },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new AppError('A bid has already been accepted for this job', 409);
+    }
+
+    let booking: IBooking;
+
+    try {
+      booking = await availabilityService.reserveSlot(provider, bid.proposedDate, bid.estimatedDuration, () => Booking.create({
+        customer: jobPost.customer,
+        provider: provider._id,
+        service: jobPost.service,
+        scheduledDate: bid.proposedDate,
+        estimatedDuration: bid.estimatedDuration,
+        address: jobPost.address,
+        contactPhone: jobPost.contactPhone,
+        specialInstructions: `${jobPost.title}: ${jobPost.description}`.slice(0, 1000),
+        status: 'confirmed',
+        pricing: pricingService.buildPricing(bid.amount),
+        payment: {
+          status: 'pending',
+          paidAmount: 0
+        },
+        jobPost: jobPost._id
+      }), { address: jobPost.address });
+    } catch (error) {
+      await JobPost.updateOne({ _id: jobPost._id }, { $set: { status: 'open' }, $unset: { acceptedBid: 1 } });
+      throw error;
+    }
+
+    claimed.booking = booking._id;
+    await claimed.save();
+
+    bid.status = 'accepted';
+    await bid.save();
+
+    await JobBid.updateMany(
+      { jobPost: jobPost._id, _id: { $ne: bid._id }, status: 'pending' },
+      { $set: { status: 'rejected' } }
+    );
+
+    logger.info(`Job post ${jobPost.postNumber} awarded to provider ${provider._id}: booking ${booking.bookingNumber}`);
+
+    await notificationService.sendNotification({
+      recipient: provider.user.toString(),
+      type: 'system',
+      title: 'Your bid was accepted',
+      message: `Your bid for "${jobPost.title}" was accepted. Booking ${booking.bookingNumber} is confirmed.`,
+      data: { jobPostId: jobPost._id.toString(), bookingId: booking._id.toString() },
+      channels: ['in_app', 'email']
+    });
+
+    return { jobPost: claimed, bid, booking };
+  }
+
+  /**
+   * Take a post down before a bid is accepted. Pending bids are declined.
+   */
+  async cancel(jobPost: IJobPost, customer: IUser): Promise<IJobPost> {
+    if (jobPost.customer.toString() !== customer._id.toString()) {
+      throw new AppError('You can only cancel your own jobs', 403);
+    }
+
+    if (jobPost.status !== 'open') {
+      throw new AppError(`Cannot cancel a job in ${jobPost.status} status`, 400);
+    }
+
+    jobPost.status = 'cancelled';
+    await jobPost.save();
+
+    await JobBid.updateMany({ jobPost: jobPost._id, status: 'pending' }, { $set: { status: 'rejected' } });
+
+    return jobPost;
+  }
+
+  private assertOpen(jobPost: IJobPost): void {
+    if (jobPost.status !== 'open') {
+      throw new AppError(`This job is ${jobPost.status} and no longer taking bids`, 400);
+    }
+
+    if (jobPost.expiresAt <= new Date()) {
+      throw new AppError('This job is no longer taking bids', 400);
+    }
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Create and export a singleton instance
+export const jobPostService = new JobPostService();
+export default jobPostService;
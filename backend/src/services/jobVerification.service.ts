@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import Booking, { generateJobCode } from '@/models/Booking.model';
+import { config } from '@/config/env';
+import { AppError } from '@/utils/AppError';
+import { IBooking, IJobCode } from '@/types';
+
+export type JobStage = 'start' | 'end';
+
+// Fields that hold the codes themselves, which are not selected by default
+export const JOB_CODE_FIELDS = '+jobCodes.start.code +jobCodes.end.code';
+
+const MINUTE_MS = 60 * 1000;
+
+const STAGES = {
+  start: {
+    from: 'confirmed',
+    to: 'in-progress',
+    action: 'start',
+    reason: 'Start code verified',
+    event: 'start_verified' as const
+  },
+  end: {
+    from: 'in-progress',
+    to: 'completed',
+    action: 'complete',
+    reason: 'Completion code verified',
+    event: 'completion_verified' as const
+  }
+};
+
+class JobVerificationService {
+  /**
+   * Load a booking together with its job codes
+   */
+  async findWithCodes(bookingId: string): Promise<IBooking | null> {
+    return Booking.findById(bookingId).select(JOB_CODE_FIELDS);
+  }
+
+  /**
+   * Codes the customer can currently see: the start code until the provider has
+   * used it, then the completion code until the job is closed
+   */
+  async getCustomerCodes(booking: IBooking): Promise<{ startCode?: string; endCode?: string }> {
+    // Bookings created before the handshake existed get their codes on first view
+    if (!booking.jobCodes?.start?.code) {
+      booking.jobCodes = {
+        start: { code: generateJobCode(), attempts: 0 },
+        end: { code: generateJobCode(), attempts: 0 }
+      };
+      await booking.save();
+    }
+
+    const { start, end } = booking.jobCodes!;
+
+    if (!start.verifiedAt) {
+      return { startCode: start.code };
+    }
+
+    if (!end.verifiedAt) {
+      return { endCode: end.code };
+    }
+
+    return {};
+  }
+
+  /**
+   * Check the code the provider entered and, if it matches, move the booking on.
+   * Wrong codes count towards a limit, after which the code is locked for a while.
+   */
+  async verify(booking: IBooking, stage: JobStage, code: string, changedBy: string): Promise<IBooking> {
+    const rules = STAGES[stage];
+
+    if (booking.status !== rules.from) {
+      throw new AppError(`Cannot ${rules.action} booking in ${booking.status} status`, 400);
+    }
+
+    const jobCode = booking.jobCodes?.[stage];
+    if (!jobCode?.code) {
+      throw new AppError('Ask the customer to open the booking to get the verification code', 400);
+    }
+
+    const now = new Date();
+
+    if (jobCode.lockedUntil && jobCode.lockedUntil > now) {
+      const minutes = Math.ceil((jobCode.lockedUntil.getTime() - now.getTime()) / MINUTE_MS);
+      throw new AppError(`Too many incorrect codes. Try again in ${minutes} minute(s)`, 429);
+    }
+
+    if (!this.matches(jobCode, code)) {
+      return this.recordFailedAttempt(booking, jobCode);
+    }
+
+    jobCode.verifiedAt = now;
+    jobCode.attempts = 0;
+    jobCode.lockedUntil = undefined;
+
+    if (!booking.workSummary) {
+      booking.workSummary = {};
+    }
+
+    if (stage === 'start') {
+      booking.workSummary.workStartTime = now;
+    } else {
+      booking.workSummary.workEndTime = now;
+    }
+
+    return booking.updateStatus(rules.to, changedBy, rules.reason, undefined, rules.event);
+  }
+
+  private matches(jobCode: IJobCode, code: string): boolean {
+    const expected = Buffer.from(jobCode.code);
+    const received = Buffer.from(String(code));
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  private async recordFailedAttempt(booking: IBooking, jobCode: IJobCode): Promise<never> {
+    jobCode.attempts += 1;
+
+    const remaining = config.booking.jobCodeMaxAttempts - jobCode.attempts;
+
+    if (remaining <= 0) {
+      jobCode.attempts = 0;
+      jobCode.lockedUntil = new Date(Date.now() + config.booking.jobCodeLockMinutes * MINUTE_MS);
+      await booking.save();
+      throw new AppError(`Too many incorrect codes. Try again in ${config.booking.jobCodeLockMinutes} minute(s)`, 429);
+    }
+
+    await booking.save();
+    throw new AppError(`Invalid code. ${remaining} attempt(s) remaining`, 400);
+  }
+}
+
+// Create and export a singleton instance
+export const jobVerificationService = new JobVerificationService();
+export default jobVerificationService;
@@ -0,0 +1,281 @@
+import { Types } from 'mongoose';
+import JournalEntry, { LEDGER_ACCOUNTS } from '@/models/JournalEntry.model';
+import Settlement from '@/models/Settlement.model';
+import logger from '@/config/logger';
+import { IBooking, IJournalEntry, IPayout, ISettlement, IWalletTransaction, JournalEntryType, LedgerAccount } from '@/types';
+
+export interface JournalPosting {
+  key: string;
+  type: JournalEntryType;
+  description: string;
+  reference: IJournalEntry['reference'];
+  lines: JournalPostingLine[];
+}
+
+export interface JournalPostingLine {
+  account: LedgerAccount;
+  party?: Types.ObjectId;
+  debit?: number;
+  credit?: number;
+}
+
+export interface CapturePosting {
+  paymentId: string;
+  customer: Types.ObjectId;
+  amount: number;
+  reference: IJournalEntry['reference'];
+  description: string;
+  fromWallet?: boolean; // paid out of the customer's wallet rather than through a gateway
+}
+
+export interface RefundPosting {
+  refundId: string;
+  customer: Types.ObjectId;
+  amount: number;
+  booking: Types.ObjectId;
+  description: string;
+  toWallet?: boolean; // credited to the customer's wallet rather than refunded through a gateway
+}
+
+export interface TrialBalanceLine {
+  account: LedgerAccount;
+  normalBalance: 'debit' | 'credit';
+  debit: number;
+  credit: number;
+  balance: number; // on the account's normal side
+}
+
+export interface TrialBalance {
+  asOf: Date;
+  accounts: TrialBalanceLine[];
+  totals: {
+    debit: number;
+    credit: number;
+  };
+  balanced: boolean;
+}
+
+// Assets and expenses; every other account normally carries a credit balance
+const DEBIT_ACCOUNTS: LedgerAccount[] = ['cash', 'refunds', 'promotions'];
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * The double-entry ledger behind every money movement. Accounts:
+ * - cash: money held at the gateway or in the bank
+ * - customer: paid by customers for jobs not yet settled, including maintenance
+ *   contract visits, which are settled one visit at a time
+ * - wallet: credit customers hold in their wallets
+ * - provider: owed to providers until paid out
+ * - platform_revenue: commission earned
+ * - gst_payable: GST to remit, on services and on commission
+ * - tds_payable: TDS withheld from providers
+ * - refunds: refunds the platform bore because the job had already been settled
+ * - promotions: promotional wallet credit granted, less what expired unspent
+ */
+class LedgerService {
+  /**
+   * Post a balanced journal entry. Each money movement has a key, so the same
+   * movement reported twice (verify + webhook) is posted once; the repeat
+   * returns null.
+   */
+  async post(posting: JournalPosting): Promise<IJournalEntry | null> {
+    const lines = posting.lines
+      .map(line => ({
+        account: line.account,
+        party: line.party,
+        debit: roundAmount(line.debit || 0),
+        credit: roundAmount(line.credit || 0)
+      }))
+      .filter(line => line.debit > 0 || line.credit > 0);
+
+    try {
+      return await JournalEntry.create({
+        key: posting.key,
+        type: posting.type,
+        description: posting.description,
+        reference: posting.reference,
+        lines
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * A customer's payment reaches the gateway, or is taken from their wallet:
+   * held for them until the job is settled
+   */
+  async recordCapture(capture: CapturePosting): Promise<void> {
+    await this.record({
+      key: `capture:${capture.paymentId}`,
+      type: 'capture',
+      description: capture.description,
+      reference: capture.reference,
+      lines: [
+        capture.fromWallet
+          ? { account: 'wallet', party: capture.customer, debit: capture.amount }
+          : { account: 'cash', debit: capture.amount },
+        { account: 'customer', party: capture.customer, credit: capture.amount }
+      ]
+    });
+  }
+
+  /**
+   * Money goes back to the customer, through the gateway or into their wallet.
+   * Once the job has been settled with the provider, the platform bears the refund.
+   */
+  async recordRefund(refund: RefundPosting): Promise<void> {
+    const settled = await Settlement.exists({ booking: refund.booking, status: { $in: ['in_payout', 'paid'] } });
+
+    await this.record({
+      key: `refund:${refund.refundId}`,
+      type: 'refund',
+      description: refund.description,
+      reference: { model: 'Booking', id: refund.booking },
+      lines: [
+        settled
+          ? { account: 'refunds', debit: refund.amount }
+          : { account: 'customer', party: refund.customer, debit: refund.amount },
+        refund.toWallet
+          ? { account: 'wallet', party: refund.customer, credit: refund.amount }
+          : { account: 'cash', credit: refund.amount }
+      ]
+    });
+  }
+
+  /**
+   * Promotional credit is granted to a customer's wallet at the platform's cost
+   */
+  async recordPromotion(credit: IWalletTransaction): Promise<void> {
+    await this.record({
+      key: `promotion:${credit._id}`,
+      type: 'promotion',
+      description: credit.description,
+      reference: { model: 'WalletTransaction', id: credit._id },
+      lines: [
+        { account: 'promotions', debit: credit.amount },
+        { account: 'wallet', party: credit.user._id as Types.ObjectId, credit: credit.amount }
+      ]
+    });
+  }
+
+  /**
+   * Unspent promotional credit lapses, reversing that much of its cost
+   */
+  async recordExpiry(expiry: IWalletTransaction): Promise<void> {
+    await this.record({
+      key: `expiry:${expiry._id}`,
+      type: 'expiry',
+      description: expiry.description,
+      reference: { model: 'WalletTransaction', id: expiry._id },
+      lines: [
+        { account: 'wallet', party: expiry.user._id as Types.ObjectId, debit: expiry.amount },
+        { account: 'promotions', credit: expiry.amount }
+      ]
+    });
+  }
+
+  /**
+   * A provider's share is settled: what the customer paid for it is split into
+   * GST, the platform's commission, TDS and what the provider is owed
+   */
+  async recordCommission(settlement: ISettlement, booking: IBooking): Promise<void> {
+    const { collected, gst, commission, commissionGst, tds } = settlement.amounts;
+
+    await this.record({
+      key: `commission:${settlement._id}`,
+      type: 'commission',
+      description: `Settlement of booking ${booking.bookingNumber}`,
+      reference: { model: 'Settlement', id: settlement._id },
+      lines: [
+        { account: 'customer', party: booking.customer._id as Types.ObjectId, debit: collected },
+        { account: 'gst_payable', credit: gst + commissionGst },
+        { account: 'platform_revenue', credit: commission },
+        { account: 'tds_payable', credit: tds },
+        {
+          account: 'provider',
+          party: settlement.provider._id as Types.ObjectId,
+          credit: collected - gst - commission - commissionGst - tds
+        }
+      ]
+    });
+  }
+
+  /**
+   * A payout reaches the provider
+   */
+  async recordPayout(payout: IPayout): Promise<void> {
+    await this.record({
+      key: `payout:${payout._id}`,
+      type: 'payout',
+      description: `Payout ${payout.payoutNumber}`,
+      reference: { model: 'Payout', id: payout._id },
+      lines: [
+        { account: 'provider', party: payout.provider._id as Types.ObjectId, debit: payout.amount },
+        { account: 'cash', credit: payout.amount }
+      ]
+    });
+  }
+
+  /**
+   * Debit and credit totals of every account as of a date. Debits and credits
+   * always agree unless an entry was written around the ledger.
+   */
+  async getTrialBalance(asOf: Date = new Date()): Promise<TrialBalance> {
+    const totals = await JournalEntry.aggregate([
+      { $match: { postedAt: { $lte: asOf } } },
+      { $unwind: '$lines' },
+      {
+        $group: {
+          _id: '$lines.account',
+          debit: { $sum: '$lines.debit' },
+          credit: { $sum: '$lines.credit' }
+        }
+      }
+    ]);
+    const byAccount = new Map(totals.map(total => [total._id, total]));
+
+    const accounts = (LEDGER_ACCOUNTS as LedgerAccount[]).map(account => {
+      const debit = roundAmount(byAccount.get(account)?.debit || 0);
+      const credit = roundAmount(byAccount.get(account)?.credit || 0);
+      const normalBalance: 'debit' | 'credit' = DEBIT_ACCOUNTS.includes(account) ? 'debit' : 'credit';
+
+      return {
+        account,
+        normalBalance,
+        debit,
+        credit,
+        balance: roundAmount(normalBalance === 'debit' ? debit - credit : credit - debit)
+      };
+    });
+
+    const debit = roundAmount(accounts.reduce((sum, account) => sum + account.debit, 0));
+    const credit = roundAmount(accounts.reduce((sum, account) => sum + account.credit, 0));
+
+    return {
+      asOf,
+      accounts,
+      totals: { debit, credit },
+      balanced: Math.round(debit * 100) === Math.round(credit * 100)
+    };
+  }
+
+  // The money has already moved by the time it is posted, so a failed posting
+  // is logged for reconciliation rather than failing the request
+  private async record(posting: JournalPosting): Promise<void> {
+    try {
+      await this.post(posting);
+    } catch (error) {
+      logger.error(`Failed to post ${posting.key} to the ledger:`, error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const ledgerService = new LedgerService();
+export default ledgerService;
@@ -0,0 +1,164 @@
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import User from '@/models/User.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IBooking, INoShow, IUser } from '@/types';
+import emailService from './email.service';
+import paymentService from './payment.service';
+
+export interface NoShowReport {
+  reporter: IUser;
+  reporterRole: 'customer' | 'provider' | 'admin';
+  party?: 'customer' | 'provider'; // admins say who failed to turn up
+  evidence?: string[];
+  notes?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+class NoShowService {
+  /**
+   * Flag confirmed bookings that were never started within the grace period.
+   * Nobody is penalised until one side reports the other.
+   */
+  async flagOverdueBookings(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.booking.noShowGraceMinutes * MINUTE_MS);
+
+    const overdue = await Booking.find({
+      status: 'confirmed',
+      scheduledDate: { $lte: cutoff },
+      'workSummary.workStartTime': { $exists: false }
+    });
+
+    let flagged = 0;
+
+    for (const booking of overdue) {
+      try {
+        booking.noShow = {
+          party: 'undetermined',
+          detectedAt: new Date(),
+          detectedBy: 'system',
+          evidence: [],
+          customerFee: 0,
+          providerPenaltyPoints: 0
+        };
+
+        await booking.updateStatus('no-show', null, 'Job was not started within the grace period');
+        await this.notifyParties(booking, 'no-show-flagged');
+        flagged++;
+      } catch (error) {
+        logger.error(`Failed to flag no-show for booking ${booking.bookingNumber}:`, error);
+      }
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Record that one side did not turn up, apply the penalty and refund the customer
+   * whatever they are owed
+   */
+  async report(booking: IBooking, report: NoShowReport): Promise<IBooking> {
+    const { reporter, reporterRole } = report;
+
+    if (booking.status === 'no-show' && booking.noShow && booking.noShow.party !== 'undetermined') {
+      throw new AppError('A no-show has already been recorded for this booking', 409);
+    }
+
+    if (!['confirmed', 'no-show'].includes(booking.status)) {
+      throw new AppError(`Cannot report a no-show for a booking in ${booking.status} status`, 400);
+    }
+
+    // Customers wait out the grace period; providers can report once they are at the door
+    const graceMs = reporterRole === 'customer' ? config.booking.noShowGraceMinutes * MINUTE_MS : 0;
+    if (booking.scheduledDate.getTime() + graceMs > Date.now()) {
+      throw new AppError('It is too early to report a no-show for this booking', 400);
+    }
+
+    const party = reporterRole === 'admin' ? report.party : reporterRole === 'customer' ? 'provider' : 'customer';
+    if (!party) {
+      throw new AppError('Please specify which party did not show up', 400);
+    }
+
+    const now = new Date();
+    const noShow: INoShow = {
+      party,
+      detectedAt: booking.noShow?.detectedAt || now,
+      detectedBy: booking.noShow?.detectedBy || reporterRole,
+      reportedBy: reporter._id,
+      reportedAt: now,
+      evidence: report.evidence || [],
+      notes: report.notes,
+      customerFee: 0,
+      providerPenaltyPoints: 0
+    };
+
+    const paidAmount = booking.payment.paidAmount || 0;
+
+    if (party === 'provider') {
+      noShow.providerPenaltyPoints = await this.penaliseProvider(booking);
+      booking.refundAmount = paidAmount;
+    } else {
+      noShow.customerFee = Math.round(booking.pricing.totalAmount * config.booking.noShowCustomerFeePercent / 100);
+      booking.refundAmount = Math.max(0, paidAmount - noShow.customerFee);
+    }
+
+    booking.noShow = noShow;
+
+    const reason = party === 'provider' ? 'Provider did not show up' : 'Customer did not show up';
+    if (booking.status === 'no-show') {
+      await booking.save();
+    } else {
+      await booking.updateStatus('no-show', reporter._id.toString(), reason);
+    }
+
+    await this.refund(booking, reason);
+    await this.notifyParties(booking, 'no-show-reported');
+
+    return booking;
+  }
+
+  private async penaliseProvider(booking: IBooking): Promise<number> {
+    const provider = await ServiceProvider.findById(booking.provider);
+    if (!provider) {
+      return 0;
+    }
+
+    const points = Math.min(config.booking.noShowProviderPenaltyPoints, provider.reliabilityScore);
+    provider.noShowCount += 1;
+    provider.reliabilityScore -= points;
+    await provider.save();
+
+    return points;
+  }
+
+  private async refund(booking: IBooking, reason: string): Promise<void> {
+    try {
+      if (await paymentService.refundBooking(booking, booking.refundAmount || 0, reason)) {
+        await booking.save();
+      }
+    } catch (error) {
+      // The refund amount stays on the booking so it can be processed manually
+      logger.error(`Failed to refund no-show booking ${booking.bookingNumber}:`, error);
+    }
+  }
+
+  private async notifyParties(booking: IBooking, update: string): Promise<void> {
+    try {
+      const provider = await ServiceProvider.findById(booking.provider);
+      const users = await User.find({ _id: { $in: [booking.customer, provider?.user].filter(Boolean) } });
+
+      for (const user of users) {
+        await emailService.sendBookingStatusUpdate(user, booking, update);
+      }
+    } catch (error) {
+      logger.error(`Failed to send no-show emails for booking ${booking.bookingNumber}:`, error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const noShowService = new NoShowService();
+export default noShowService;
@@ -5,6 +5,7 @@ import { emailService } from './email.service';
 import smsService from './sms.service';
 import { AppError } from '@/utils/AppError';
 import { Types } from 'mongoose';
+import { INotification } from '@/types';
 
 interface NotificationData {
   recipient: string;
@@ -62,33 +63,7 @@ class NotificationService {
         return;
       }
 
-      // Get recipient details
-      const user = await User.findById(data.recipient).select('email phone name preferences');
-      if (!user) {
-        throw new AppError('Recipient not found', 404);
-      }
-
-      // Send through requested channels
-      const channels = data.channels || ['in_app'];
-      
-      await Promise.allSettled([
-        // Email notification
-        channels.includes('email') && user.preferences?.emailNotifications ? 
-          this.sendEmailNotification(user.email, user.name, data) : Promise.resolve(),
-
-        // SMS notification
-        channels.includes('sms') && user.preferences?.smsNotifications ? 
-          this.sendSMSNotification(user.phone, data) : Promise.resolve(),
-
-        // Push notification
-        channels.includes('push') && user.preferences?.pushNotifications ? 
-          this.sendPushNotification(user._id.toString(), data) : Promise.resolve()
-      ]);
-
-      // Mark as delivered
-      notification.deliveredAt = new Date();
-      notification.status = 'delivered';
-      await notification.save();
+      await this.deliver(notification, data);
 
     } catch (error) {
       console.error('Notification sending error:', error);
@@ -96,6 +71,38 @@ class NotificationService {
     }
   }
 
+  // Send an existing notification through its channels and mark it delivered
+  private async deliver(notification: INotification, data: NotificationData): Promise<void> {
+    // Get recipient details
+    const user = await User.findById(data.recipient).select('email phone name preferences');
+    if (!user) {
+      throw new AppError('Recipient not found', 404);
+    }
+
+    // Send through requested channels
+    const channels = data.channels || ['in_app'];
+    
+    await Promise.allSettled([
+      // Email notification
+      channels.includes('email') && user.preferences?.emailNotifications ? 
+        this.sendEmailNotification(user.email, user.name, data) : Promise.resolve(),
+
+      // SMS notification
+      channels.includes('sms') && user.preferences?.smsNotifications ? 
+        this.sendSMSNotification(user.phone, data) : Promise.resolve(),
+
+      // Push notification
+      channels.includes('push') && user.preferences?.pushNotifications ? 
+        this.sendPushNotification(user._id.toString(), data) : Promise.resolve()
+    ]);
+
+    // Mark as delivered
+    notification.sentAt = notification.sentAt || new Date();
+    notification.deliveredAt = new Date();
+    notification.status = 'delivered';
+    await notification.save();
+  }
+
   // Send bulk notifications
   async sendBulkNotification(data: BulkNotificationData): Promise<{
     successful: number;
@@ -398,6 +405,46 @@ class NotificationService {
     });
   }
 
+  async sendReminderNotification(
+    recipientId: string,
+    type: 'day_before' | 'hour_before' | 'provider_nudge' | 'review_request',
+    data: any
+  ): Promise<void> {
+    const templates = {
+      day_before: {
+        type: 'booking' as const,
+        title: 'Booking Tomorrow',
+        message: `Reminder: your ${data.serviceName} booking ${data.bookingNumber} is scheduled for ${data.scheduledTime}.`
+      },
+      hour_before: {
+        type: 'booking' as const,
+        title: 'Booking Starts Soon',
+        message: `Your ${data.serviceName} booking ${data.bookingNumber} starts in about an hour, at ${data.scheduledTime}.`
+      },
+      provider_nudge: {
+        type: 'provider' as const,
+        title: 'Booking Awaiting Your Response',
+        message: `Booking ${data.bookingNumber} for ${data.serviceName} is still waiting for you to accept or decline.`
+      },
+      review_request: {
+        type: 'review' as const,
+        title: 'How Did It Go?',
+        message: `Your ${data.serviceName} service is complete. Please take a moment to review your provider.`
+      }
+    };
+
+    const template = templates[type];
+    await this.sendNotification({
+      recipient: recipientId,
+      type: template.type,
+      title: template.title,
+      message: template.message,
+      data: { ...data, reminder: type },
+      priority: type === 'hour_before' ? 'high' : 'normal',
+      channels: ['in_app', 'email', 'sms']
+    });
+  }
+
   // Process scheduled notifications
   async processScheduledNotifications(): Promise<void> {
     const now = new Date();
@@ -408,7 +455,8 @@ class NotificationService {
 
     for (const notification of scheduledNotifications) {
       try {
-        await this.sendNotification({
+        // Deliver the stored notification rather than creating a second copy
+        await this.deliver(notification, {
           recipient: notification.recipient.toString(),
           type: notification.type,
           title: notification.title,
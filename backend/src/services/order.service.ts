@@ -0,0 +1,448 @@
+import mongoose, { Types } from 'mongoose';
+import Booking from '@/models/Booking.model';
+import Coupon from '@/models/Coupon.model';
+import Order from '@/models/Order.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import Service from '@/models/Service.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IAddress, IBooking, ICoupon, IOrder, IPricing, IService, IServiceProvider, IUser } from '@/types';
+import availabilityService from './availability.service';
+import bookingAssignmentService from './bookingAssignment.service';
+import ledgerService from './ledger.service';
+import paymentService, { PaymentOrderResponse } from './payment.service';
+import pricingService from './pricing.service';
+import pricingRuleService from './pricingRule.service';
+
+export interface OrderLineRequest {
+  providerId: string;
+  serviceId: string;
+  scheduledDate: Date;
+  specialInstructions?: string;
+}
+
+export interface CheckoutRequest {
+  customer: IUser;
+  lines: OrderLineRequest[];
+  address: IAddress;
+  contactPhone: string;
+  couponCode?: string;
+}
+
+interface ResolvedLine {
+  provider: IServiceProvider;
+  service: IService;
+  scheduledDate: Date;
+  specialInstructions?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+class OrderService {
+  /**
+   * Check every line's slot, apply the coupon across the cart and create one
+   * booking per line. Either every booking is created or none is.
+   */
+  async checkout(request: CheckoutRequest): Promise<{ order: IOrder; bookings: IBooking[] }> {
+    const { customer } = request;
+
+    if (request.lines.length === 0 || request.lines.length > config.booking.orderMaxLines) {
+      throw new AppError(`An order must have between 1 and ${config.booking.orderMaxLines} services`, 400);
+    }
+
+    const lines = await this.resolveLines(request.lines);
+    this.assertNoOverlaps(lines);
+
+    for (const [i, line] of lines.entries()) {
+      if (!(await availabilityService.isSlotAvailable(line.provider, line.scheduledDate, line.service.duration, { address: request.address }))) {
+        throw new AppError(`The provider for item ${i + 1} is not available at the selected time`, 409);
+      }
+    }
+
+    // Priced before the coupon is shared out, so it is shared by what each line really costs
+    const pricings: IPricing[] = [];
+    for (const line of lines) {
+      pricings.push(await pricingRuleService.priceBooking(line.service, request.address, line.scheduledDate));
+    }
+
+    const coupon = request.couponCode ? await this.findUsableCoupon(request.couponCode, customer) : null;
+    const discounts = coupon ? this.splitDiscount(coupon, lines, pricings) : lines.map(() => 0);
+
+    if (coupon) {
+      const claimed = await Coupon.findOneAndUpdate(
+        { _id: coupon._id, $expr: { $lt: ['$usedCount', '$usageLimit'] } },
+        { $inc: { usedCount: 1 } }
+      );
+
+      if (!claimed) {
+        throw new AppError('This coupon has reached its usage limit', 409);
+      }
+    }
+
+    const orderId = new mongoose.Types.ObjectId();
+    const bookings: IBooking[] = [];
+
+    try {
+      for (const [i, line] of lines.entries()) {
+        bookings.push(await this.createLineBooking(orderId, request, line, pricings[i]!, discounts[i]!));
+      }
+
+      const order = await Order.create({
+        _id: orderId,
+        customer: customer._id,
+        lines: bookings.map(booking => ({
+          booking: booking._id,
+          service: booking.service,
+          provider: booking.provider,
+          scheduledDate: booking.scheduledDate,
+          subtotal: pricingService.getSubtotal(booking.pricing),
+          discount: booking.pricing.discount || 0,
+          totalAmount: booking.pricing.totalAmount
+        })),
+        coupon: coupon ? { coupon: coupon._id, code: coupon.code, type: coupon.type, value: coupon.value } : undefined,
+        pricing: {
+          subtotal: this.sum(bookings, booking => pricingService.getSubtotal(booking.pricing)),
+          discount: this.sum(bookings, booking => booking.pricing.discount || 0),
+          taxAmount: this.sum(bookings, booking => booking.pricing.taxAmount),
+          totalAmount: this.sum(bookings, booking => booking.pricing.totalAmount)
+        }
+      });
+
+      // Start each provider's acceptance window only once the whole order exists
+      for (const [i, booking] of bookings.entries()) {
+        bookings[i] = await bookingAssignmentService.openOffer(booking, lines[i]!.provider);
+      }
+
+      return { order, bookings };
+    } catch (error) {
+      await this.rollback(orderId, bookings, coupon);
+      throw error;
+    }
+  }
+
+  /**
+   * Create one gateway order for whatever is still owed across the order's bookings
+   */
+  async createPaymentOrder(order: IOrder, gateway?: string): Promise<PaymentOrderResponse> {
+    if (order.status !== 'pending') {
+      throw new AppError(`Cannot pay for an order in ${order.status} status`, 400);
+    }
+
+    const bookings = await this.findPayableBookings(order);
+    const amount = this.sum(bookings, booking => pricingService.getAmountDue(booking));
+
+    if (amount === 0) {
+      throw new AppError('Nothing is due on this order', 400);
+    }
+
+    const paymentOrder = await paymentService.createPaymentOrder(amount, undefined, `order_${order.orderNumber}`, {
+      order_id: order._id.toString(),
+      order_number: order.orderNumber,
+      customer_id: order.customer.toString()
+    }, gateway);
+
+    order.payment.gateway = paymentOrder.gateway;
+    order.payment.gatewayOrderId = paymentOrder.id;
+    await order.save();
+
+    return paymentOrder;
+  }
+
+  /**
+   * Record a captured payment against the order and split it across the child
+   * bookings. The same payment reported twice (verify + webhook) is applied once.
+   */
+  async recordPayment(order: IOrder, transactionId: string, amount: number, method: string = 'razorpay'): Promise<IOrder> {
+    const claimed = await Order.findOneAndUpdate(
+      { _id: order._id, 'payment.transactionId': { $ne: transactionId } },
+      {
+        $set: {
+          status: 'paid',
+          'payment.status': 'paid',
+          'payment.transactionId': transactionId,
+          'payment.method': method,
+          'payment.paidAt': new Date()
+        },
+        $inc: { 'payment.paidAmount': amount }
+      },
+      { new: true }
+    );
+
+    if (!claimed) {
+      return (await Order.findById(order._id))!;
+    }
+
+    await ledgerService.recordCapture({
+      paymentId: transactionId,
+      customer: claimed.customer._id as Types.ObjectId,
+      amount,
+      reference: { model: 'Order', id: claimed._id },
+      description: `Payment for order ${claimed.orderNumber}`
+    });
+
+    const bookings = await this.findPayableBookings(claimed);
+    const shares = this.splitPayment(amount, bookings);
+
+    for (const [i, booking] of bookings.entries()) {
+      if (shares[i]! > 0) {
+        await booking.updatePaymentStatus('paid', transactionId, method, shares[i]);
+      }
+    }
+
+    logger.info(`Order payment recorded: ${claimed.orderNumber} (${bookings.length} bookings)`);
+
+    return claimed;
+  }
+
+  private async resolveLines(requests: OrderLineRequest[]): Promise<ResolvedLine[]> {
+    const lines: ResolvedLine[] = [];
+
+    for (const [i, request] of requests.entries()) {
+      const provider = await ServiceProvider.findById(request.providerId);
+      if (!provider || !provider.isAvailable) {
+        throw new AppError(`Service provider for item ${i + 1} not found or unavailable`, 404);
+      }
+
+      const service = await Service.findById(request.serviceId);
+      if (!service || !service.isActive) {
+        throw new AppError(`Service for item ${i + 1} not found or unavailable`, 404);
+      }
+
+      if (!provider.services.some(id => id.toString() === request.serviceId)) {
+        throw new AppError(`The provider for item ${i + 1} does not offer the selected service`, 400);
+      }
+
+      const scheduledDate = new Date(request.scheduledDate);
+      if (scheduledDate <= new Date()) {
+        throw new AppError(`Scheduled date for item ${i + 1} must be in the future`, 400);
+      }
+
+      lines.push({ provider, service, scheduledDate, specialInstructions: request.specialInstructions });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Lines booked with the same provider must leave room for travel between them
+   */
+  private assertNoOverlaps(lines: ResolvedLine[]): void {
+    const bufferMs = config.booking.travelBufferMinutes * MINUTE_MS;
+
+    for (let i = 0; i < lines.length; i++) {
+      for (let j = i + 1; j < lines.length; j++) {
+        const a = lines[i]!;
+        const b = lines[j]!;
+
+        if (!a.provider._id.equals(b.provider._id)) {
+          continue;
+        }
+
+        const aStart = a.scheduledDate.getTime();
+        const bStart = b.scheduledDate.getTime();
+        const aEnd = aStart + a.service.duration * MINUTE_MS + bufferMs;
+        const bEnd = bStart + b.service.duration * MINUTE_MS + bufferMs;
+
+        if (aStart < bEnd && bStart < aEnd) {
+          throw new AppError(`Items ${i + 1} and ${j + 1} overlap for the same provider`, 409);
+        }
+      }
+    }
+  }
+
+  private async findUsableCoupon(code: string, customer: IUser): Promise<ICoupon> {
+    const coupon = await Coupon.findOne({ code: code.trim().toUpperCase() });
+    if (!coupon || !coupon.isActive) {
+      throw new AppError('Coupon not found or inactive', 404);
+    }
+
+    const now = new Date();
+    if (now < coupon.validFrom || now > coupon.validUntil) {
+      throw new AppError('This coupon is not valid at this time', 400);
+    }
+
+    if (coupon.usedCount >= coupon.usageLimit) {
+      throw new AppError('This coupon has reached its usage limit', 400);
+    }
+
+    const restrictions = coupon.userRestrictions;
+
+    if (restrictions?.newUsersOnly && await Booking.exists({ customer: customer._id })) {
+      throw new AppError('This coupon is only available to new customers', 400);
+    }
+
+    if (restrictions?.maxUsagePerUser) {
+      const used = await Order.countDocuments({
+        customer: customer._id,
+        'coupon.coupon': coupon._id,
+        status: { $ne: 'cancelled' }
+      });
+
+      if (used >= restrictions.maxUsagePerUser) {
+        throw new AppError('You have already used this coupon the maximum number of times', 400);
+      }
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Work out the coupon discount on the eligible lines and share it between them
+   * in proportion to their price, never taking a line below zero
+   */
+  private splitDiscount(coupon: ICoupon, lines: ResolvedLine[], pricings: IPricing[]): number[] {
+    const services = (coupon.applicableServices || []).map(id => id.toString());
+    const categories = coupon.applicableCategories || [];
+    const unrestricted = services.length === 0 && categories.length === 0;
+
+    const eligible = lines.map(({ service }) =>
+      unrestricted || services.includes(service._id.toString()) || categories.includes(service.category)
+    );
+    const subtotals = pricings.map((pricing, i) => eligible[i] ? pricingService.getSubtotal(pricing) : 0);
+    const eligibleSubtotal = this.sum(subtotals, subtotal => subtotal);
+
+    if (eligibleSubtotal === 0) {
+      throw new AppError('This coupon does not apply to any service in your order', 400);
+    }
+
+    if (coupon.minimumOrderAmount && eligibleSubtotal < coupon.minimumOrderAmount) {
+      throw new AppError(`This coupon needs a minimum order of ₹${coupon.minimumOrderAmount}`, 400);
+    }
+
+    let discount = coupon.type === 'percentage'
+      ? Math.round(eligibleSubtotal * coupon.value / 100)
+      : Math.min(coupon.value, eligibleSubtotal);
+
+    if (coupon.maximumDiscountAmount) {
+      discount = Math.min(discount, coupon.maximumDiscountAmount);
+    }
+
+    return this.shareOut(
+      discount,
+      pricings.map((pricing, i) => eligible[i] ? pricing.totalAmount : 0),
+      subtotals
+    );
+  }
+
+  /**
+   * Share a payment between the bookings in proportion to their price, giving
+   * none more than it still owes
+   */
+  private splitPayment(amount: number, bookings: IBooking[]): number[] {
+    const shares = this.shareOut(
+      amount,
+      bookings.map(booking => booking.pricing.totalAmount),
+      bookings.map(booking => pricingService.getAmountDue(booking))
+    );
+
+    const unallocated = roundAmount(amount - this.sum(shares, share => share));
+    if (unallocated > 0) {
+      logger.warn(`Order payment exceeded the amount due by ${unallocated}`);
+    }
+
+    return shares;
+  }
+
+  /**
+   * Split an amount in proportion to the weights without giving any line more
+   * than its cap. Rounding leftovers go to the lines with the most room left.
+   */
+  private shareOut(amount: number, weights: number[], caps: number[]): number[] {
+    const totalWeight = this.sum(weights, weight => weight);
+    const shares = weights.map((weight, i) =>
+      totalWeight > 0 ? Math.min(caps[i]!, Math.floor(amount * weight / totalWeight * 100) / 100) : 0
+    );
+
+    let left = roundAmount(amount - this.sum(shares, share => share));
+    const byRoom = shares
+      .map((share, i) => ({ i, room: roundAmount(caps[i]! - share) }))
+      .sort((a, b) => b.room - a.room);
+
+    for (const { i, room } of byRoom) {
+      if (left <= 0) {
+        break;
+      }
+
+      const extra = Math.min(left, room);
+      shares[i] = roundAmount(shares[i]! + extra);
+      left = roundAmount(left - extra);
+    }
+
+    return shares;
+  }
+
+  private async createLineBooking(
+    orderId: mongoose.Types.ObjectId,
+    request: CheckoutRequest,
+    line: ResolvedLine,
+    pricing: IPricing,
+    discount: number
+  ): Promise<IBooking> {
+    const { provider, service, scheduledDate } = line;
+
+    if (discount > 0) {
+      pricing.discount = discount;
+      pricing.discountType = 'fixed';
+      pricingService.recalculate(pricing);
+    }
+
+    return availabilityService.reserveSlot(provider, scheduledDate, service.duration, () => Booking.create({
+      customer: request.customer._id,
+      provider: provider._id,
+      service: service._id,
+      order: orderId,
+      scheduledDate,
+      estimatedDuration: service.duration,
+      address: request.address,
+      contactPhone: request.contactPhone,
+      specialInstructions: line.specialInstructions,
+      pricing,
+      payment: {
+        status: 'pending',
+        paidAmount: 0
+      }
+    }), { address: request.address });
+  }
+
+  /**
+   * Undo a checkout that failed part way: free the slots already taken and give
+   * the coupon use back
+   */
+  private async rollback(
+    orderId: mongoose.Types.ObjectId,
+    bookings: IBooking[],
+    coupon: ICoupon | null
+  ): Promise<void> {
+    try {
+      await Order.deleteOne({ _id: orderId });
+
+      if (bookings.length > 0) {
+        await Booking.deleteMany({ _id: { $in: bookings.map(booking => booking._id) } });
+      }
+
+      if (coupon) {
+        await Coupon.updateOne({ _id: coupon._id, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+      }
+    } catch (error) {
+      logger.error('Failed to roll back checkout:', error);
+    }
+  }
+
+  private findPayableBookings(order: IOrder): Promise<IBooking[]> {
+    return Booking.find({
+      _id: { $in: order.lines.map(line => line.booking) },
+      status: { $ne: 'cancelled' }
+    }).sort({ scheduledDate: 1 });
+  }
+
+  private sum<T>(items: T[], amount: (item: T) => number): number {
+    return items.reduce((total, item) => total + amount(item), 0);
+  }
+}
+
+// Create and export a singleton instance
+export const orderService = new OrderService();
+export default orderService;
@@ -1,64 +1,163 @@
-import Razorpay from 'razorpay';
+import { Types } from 'mongoose';
 import { config } from '@/config/env';
 import logger from '@/config/logger';
-import { IBooking } from '@/types';
-
-interface PaymentOrderResponse {
+import { AppError } from '@/utils/AppError';
+import { IBooking, IWalletTransaction, PaymentGatewayName } from '@/types';
+import ledgerService from './ledger.service';
+import pricingService from './pricing.service';
+import walletService from './wallet.service';
+import {
+  PaymentGateway,
+  GatewayPayment,
+  GatewayRefund,
+  GatewayPaymentLink,
+  GatewayWebhookEvent,
+  PaymentVerification
+} from './gateways/paymentGateway';
+import { RazorpayGateway } from './gateways/razorpay.gateway';
+import { StripeGateway } from './gateways/stripe.gateway';
+import { fakePaymentGateway } from './gateways/fake.gateway';
+
+export interface PaymentOrderResponse {
   id: string;
   amount: number;
   currency: string;
   status: string;
+  gateway: PaymentGatewayName;
+  clientSecret?: string;
+  checkout: Record<string, string | undefined>; // public keys for the gateway's checkout
 }
 
-interface PaymentVerificationData {
-  razorpay_order_id: string;
-  razorpay_payment_id: string;
-  razorpay_signature: string;
+export interface BookingRefund {
+  amount: number;
+  gatewayRefund?: GatewayRefund;
+  walletCredit?: IWalletTransaction; // the part that was paid from the wallet
+}
+
+export interface AvailableGateway {
+  name: PaymentGatewayName;
+  currencies: string[];
+  methods: string[];
+  checkout: Record<string, string | undefined>;
 }
 
 class PaymentService {
-  private razorpay: Razorpay | null = null;
+  private gateways = new Map<PaymentGatewayName, PaymentGateway>();
+  private currencyGateways: Record<string, string>;
 
   constructor() {
-    if (!config.razorpay.keyId || !config.razorpay.keySecret) {
-      logger.warn('Razorpay credentials not found. Payment features will be limited.');
-      return;
+    if (config.payments.fakeGateway) {
+      logger.warn('Using the fake payment gateway in place of Razorpay');
+      this.registerGateway(fakePaymentGateway);
+    } else {
+      this.registerGateway(new RazorpayGateway());
     }
+    this.registerGateway(new StripeGateway());
+
+    // "USD:stripe,EUR:stripe" -> { USD: 'stripe', EUR: 'stripe' }
+    this.currencyGateways = Object.fromEntries(
+      config.payments.currencyGateways
+        .split(',')
+        .map(entry => entry.split(':').map(part => part.trim()))
+        .filter(([currency, gateway]) => currency && gateway)
+        .map(([currency, gateway]) => [currency!.toUpperCase(), gateway!])
+    );
+  }
 
-    this.razorpay = new Razorpay({
-      key_id: config.razorpay.keyId,
-      key_secret: config.razorpay.keySecret,
-    });
+  /**
+   * Add or replace a gateway adapter
+   */
+  registerGateway(gateway: PaymentGateway): void {
+    this.gateways.set(gateway.name, gateway);
+  }
+
+  /**
+   * A configured gateway by name
+   */
+  getGateway(name: string): PaymentGateway {
+    const gateway = this.gateways.get(name as PaymentGatewayName);
+
+    if (!gateway) {
+      throw new AppError(`Unknown payment gateway: ${name}`, 400);
+    }
+
+    if (!gateway.isConfigured()) {
+      throw new AppError(`Payments through ${name} are not available`, 503);
+    }
+
+    return gateway;
+  }
+
+  /**
+   * Pick the gateway for a payment: the customer's choice when given, else the
+   * gateway configured for the currency, else the default, else any configured
+   * gateway that takes the currency
+   */
+  selectGateway(currency: string = config.payments.currency, requested?: string): PaymentGateway {
+    const code = currency.toUpperCase();
+
+    if (requested) {
+      const gateway = this.getGateway(requested);
+      if (!gateway.currencies.includes(code)) {
+        throw new AppError(`Payments in ${code} cannot be made through ${requested}`, 400);
+      }
+      return gateway;
+    }
+
+    const candidates = [this.currencyGateways[code], config.payments.defaultGateway, ...this.gateways.keys()];
+
+    for (const name of candidates) {
+      const gateway = name ? this.gateways.get(name as PaymentGatewayName) : undefined;
+      if (gateway?.isConfigured() && gateway.currencies.includes(code)) {
+        return gateway;
+      }
+    }
+
+    throw new AppError(`No payment gateway is available for ${code} payments`, 503);
+  }
+
+  /**
+   * Configured gateways that take the currency, for the customer to choose from
+   */
+  getAvailableGateways(currency: string = config.payments.currency): AvailableGateway[] {
+    const code = currency.toUpperCase();
+
+    return [...this.gateways.values()]
+      .filter(gateway => gateway.isConfigured() && gateway.currencies.includes(code))
+      .map(gateway => ({
+        name: gateway.name,
+        currencies: gateway.currencies,
+        methods: gateway.getPaymentMethods(),
+        checkout: gateway.getCheckoutConfig()
+      }));
   }
 
   /**
-   * Create a payment order with Razorpay
+   * Create a payment order with the selected gateway
    */
   async createPaymentOrder(
     amount: number,
-    currency: string = 'INR',
+    currency: string = config.payments.currency,
     receipt?: string,
-    notes?: any
+    notes?: Record<string, string>,
+    gatewayName?: string
   ): Promise<PaymentOrderResponse> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
+    const gateway = this.selectGateway(currency, gatewayName);
 
-      const order = await this.razorpay.orders.create({
-        amount: amount * 100, // Razorpay expects amount in paise
-        currency,
+    try {
+      const order = await gateway.createOrder({
+        amount,
+        currency: currency.toUpperCase(),
         receipt: receipt || `receipt_${Date.now()}`,
         notes: notes || {}
       });
 
-      logger.info(`Payment order created: ${order.id}`);
+      logger.info(`Payment order created with ${gateway.name}: ${order.id}`);
 
       return {
-        id: order.id,
-        amount: order.amount / 100, // Convert back to rupees
-        currency: order.currency,
-        status: order.status
+        ...order,
+        gateway: gateway.name,
+        checkout: gateway.getCheckoutConfig()
       };
     } catch (error) {
       logger.error('Failed to create payment order:', error);
@@ -69,56 +168,68 @@ class PaymentService {
   /**
    * Create booking payment order
    */
-  async createBookingPaymentOrder(booking: IBooking): Promise<PaymentOrderResponse> {
-    const amount = booking.pricing.totalAmount;
-    const receipt = `booking_${booking.bookingNumber}`;
+  async createBookingPaymentOrder(booking: IBooking, gatewayName?: string): Promise<PaymentOrderResponse> {
+    // Charge whatever is still owed on the approved pricing version
+    const amount = pricingService.getAmountDue(booking);
+    const version = booking.pricing.version || 1;
+    const receipt = `booking_${booking.bookingNumber}_v${version}`;
     const notes = {
       booking_id: booking._id.toString(),
       booking_number: booking.bookingNumber,
+      pricing_version: version.toString(),
       customer_id: booking.customer.toString(),
-      provider_id: booking.provider.toString(),
+      provider_id: booking.provider ? booking.provider.toString() : 'unassigned',
       service_id: booking.service.toString()
     };
 
-    return this.createPaymentOrder(amount, 'INR', receipt, notes);
+    const paymentOrder = await this.createPaymentOrder(amount, config.payments.currency, receipt, notes, gatewayName);
+
+    // Remembered so the payment is verified and refunded through the same gateway
+    booking.payment.gateway = paymentOrder.gateway;
+    booking.payment.gatewayOrderId = paymentOrder.id;
+    await booking.save();
+
+    return paymentOrder;
   }
 
   /**
-   * Verify payment signature
+   * Verify the client's report of a completed payment with the gateway that
+   * took it
    */
-  verifyPaymentSignature(data: PaymentVerificationData): boolean {
+  async verifyPayment(gatewayName: string, data: PaymentVerification): Promise<boolean> {
     try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
-
-      const crypto = require('crypto');
-      const expectedSignature = crypto
-        .createHmac('sha256', config.razorpay.keySecret)
-        .update(`${data.razorpay_order_id}|${data.razorpay_payment_id}`)
-        .digest('hex');
-
-      return expectedSignature === data.razorpay_signature;
+      return await this.getGateway(gatewayName).verifyPayment(data);
     } catch (error) {
-      logger.error('Failed to verify payment signature:', error);
+      logger.error('Failed to verify payment:', error);
       return false;
     }
   }
 
   /**
-   * Capture payment
+   * Read the verification fields from a request body. Razorpay's checkout
+   * posts razorpay_* fields; other gateways post orderId and paymentId.
    */
-  async capturePayment(paymentId: string, amount: number): Promise<any> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
+  getVerificationFields(body: Record<string, any>): PaymentVerification {
+    return {
+      orderId: body.orderId || body.razorpay_order_id,
+      paymentId: body.paymentId || body.razorpay_payment_id,
+      signature: body.signature || body.razorpay_signature
+    };
+  }
 
-      const payment = await this.razorpay.payments.capture(
-        paymentId,
-        amount * 100, // Convert to paise
-        'INR'
-      );
+  /**
+   * Capture an authorized payment
+   */
+  async capturePayment(
+    paymentId: string,
+    amount: number,
+    currency: string = config.payments.currency,
+    gatewayName: string = 'razorpay'
+  ): Promise<GatewayPayment> {
+    const gateway = this.getGateway(gatewayName);
+
+    try {
+      const payment = await gateway.capturePayment(paymentId, amount, currency);
 
       logger.info(`Payment captured: ${paymentId}`);
       return payment;
@@ -134,22 +245,13 @@ class PaymentService {
   async refundPayment(
     paymentId: string,
     amount?: number,
-    notes?: any
-  ): Promise<any> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
-
-      const refundData: any = {
-        notes: notes || {}
-      };
+    notes?: Record<string, string>,
+    gatewayName: string = 'razorpay'
+  ): Promise<GatewayRefund> {
+    const gateway = this.getGateway(gatewayName);
 
-      if (amount) {
-        refundData.amount = amount * 100; // Convert to paise
-      }
-
-      const refund = await this.razorpay.payments.refund(paymentId, refundData);
+    try {
+      const refund = await gateway.refundPayment(paymentId, amount, notes || {});
 
       logger.info(`Payment refunded: ${paymentId}, Refund ID: ${refund.id}`);
       return refund;
@@ -162,14 +264,11 @@ class PaymentService {
   /**
    * Get payment details
    */
-  async getPaymentDetails(paymentId: string): Promise<any> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
+  async getPaymentDetails(paymentId: string, gatewayName: string = 'razorpay'): Promise<GatewayPayment> {
+    const gateway = this.getGateway(gatewayName);
 
-      const payment = await this.razorpay.payments.fetch(paymentId);
-      return payment;
+    try {
+      return await gateway.getPayment(paymentId);
     } catch (error) {
       logger.error('Failed to get payment details:', error);
       throw new Error('Failed to get payment details');
@@ -177,37 +276,105 @@ class PaymentService {
   }
 
   /**
-   * Get order details
+   * The gateway a booking was paid through. Bookings paid before gateways were
+   * recorded went through Razorpay.
    */
-  async getOrderDetails(orderId: string): Promise<any> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
+  getBookingGateway(booking: IBooking): PaymentGatewayName {
+    return booking.payment.gateway || (booking.payment.method === 'stripe' ? 'stripe' : 'razorpay');
+  }
 
-      const order = await this.razorpay.orders.fetch(orderId);
-      return order;
-    } catch (error) {
-      logger.error('Failed to get order details:', error);
-      throw new Error('Failed to get order details');
+  /**
+   * Refund part or all of what was paid for a booking where it came from: the
+   * gateway's part through the gateway, then the wallet's part to the wallet.
+   * What the wallet paid is refunded even when the gateway was never paid.
+   * Returns null when nothing was paid online. The caller saves the booking.
+   */
+  async refundBooking(booking: IBooking, amount: number, reason: string): Promise<BookingRefund | null> {
+    const { payment } = booking;
+
+    if (amount <= 0) {
+      return null;
+    }
+
+    const refundable = payment.paidAmount - (payment.refundAmount || 0);
+    const gatewayRefundable = (payment.paidAmount - (payment.walletAmount || 0)) -
+      ((payment.refundAmount || 0) - (payment.walletRefundAmount || 0));
+    const gatewayPaid = !!payment.transactionId && ['paid', 'partially_refunded'].includes(payment.status);
+    const gatewayAmount = gatewayPaid ? Math.max(0, Math.min(amount, refundable, gatewayRefundable)) : 0;
+    const walletAmount = Math.max(0, Math.min(
+      amount - gatewayAmount,
+      refundable - gatewayAmount,
+      (payment.walletAmount || 0) - (payment.walletRefundAmount || 0)
+    ));
+
+    const gatewayRefund = gatewayAmount > 0
+      ? await this.refundGatewayPayment(booking, gatewayAmount, reason)
+      : undefined;
+    const walletCredit = walletAmount > 0
+      ? await walletService.refundBooking(booking, walletAmount, reason) || undefined
+      : undefined;
+
+    if (!gatewayRefund && !walletCredit) {
+      return null;
     }
+
+    return {
+      amount: (gatewayRefund?.amount || 0) + (walletCredit?.amount || 0),
+      gatewayRefund,
+      walletCredit
+    };
   }
 
   /**
-   * Get refund details
+   * Refund through the gateway the booking was paid with
    */
-  async getRefundDetails(refundId: string): Promise<any> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
+  private async refundGatewayPayment(booking: IBooking, amount: number, reason: string): Promise<GatewayRefund> {
+    const { payment } = booking;
 
-      const refund = await this.razorpay.refunds.fetch(refundId);
-      return refund;
-    } catch (error) {
-      logger.error('Failed to get refund details:', error);
-      throw new Error('Failed to get refund details');
-    }
+    const refund = await this.refundPayment(payment.transactionId!, amount, {
+      booking_id: booking._id.toString(),
+      booking_number: booking.bookingNumber,
+      reason
+    }, this.getBookingGateway(booking));
+
+    payment.refundTransactionId = refund.id;
+    payment.refundTransactionIds = [...(payment.refundTransactionIds || []), refund.id];
+    payment.refundAmount = (payment.refundAmount || 0) + refund.amount;
+    payment.refundedAt = new Date();
+    payment.status = payment.refundAmount >= payment.paidAmount ? 'refunded' : 'partially_refunded';
+
+    await ledgerService.recordRefund({
+      refundId: refund.id,
+      customer: booking.customer._id as Types.ObjectId,
+      amount: refund.amount,
+      booking: booking._id,
+      description: `Refund for booking ${booking.bookingNumber}: ${reason}`
+    });
+
+    return refund;
+  }
+
+  /**
+   * Mark a booking paid with a captured gateway payment and post the payment
+   * to the ledger. The same payment reported twice is applied once.
+   */
+  async recordBookingPayment(
+    booking: IBooking,
+    paymentId: string,
+    gatewayName: PaymentGatewayName,
+    amount: number
+  ): Promise<IBooking> {
+    await booking.updatePaymentStatus('paid', paymentId, gatewayName, amount);
+
+    await ledgerService.recordCapture({
+      paymentId,
+      customer: booking.customer._id as Types.ObjectId,
+      amount,
+      reference: { model: 'Booking', id: booking._id },
+      description: `Payment for booking ${booking.bookingNumber}`
+    });
+
+    return booking;
   }
 
   /**
@@ -221,29 +388,28 @@ class PaymentService {
       email: string;
       contact: string;
     },
-    callbackUrl?: string
-  ): Promise<any> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
+    options: {
+      gateway?: string;
+      currency?: string;
+      callbackUrl?: string;
+      notes?: Record<string, string>;
+    } = {}
+  ): Promise<GatewayPaymentLink & { gateway: PaymentGatewayName }> {
+    const currency = options.currency || config.payments.currency;
+    const gateway = this.selectGateway(currency, options.gateway);
 
-      const paymentLink = await this.razorpay.paymentLink.create({
-        amount: amount * 100, // Convert to paise
-        currency: 'INR',
+    try {
+      const paymentLink = await gateway.createPaymentLink({
+        amount,
+        currency: currency.toUpperCase(),
         description,
         customer: customerDetails,
-        notify: {
-          sms: true,
-          email: true
-        },
-        reminder_enable: true,
-        callback_url: callbackUrl || `${config.frontendUrl}/payment/callback`,
-        callback_method: 'get'
+        callbackUrl: options.callbackUrl || `${config.frontendUrl}/payment/callback`,
+        notes: options.notes
       });
 
-      logger.info(`Payment link created: ${paymentLink.id}`);
-      return paymentLink;
+      logger.info(`Payment link created with ${gateway.name}: ${paymentLink.id}`);
+      return { ...paymentLink, gateway: gateway.name };
     } catch (error) {
       logger.error('Failed to create payment link:', error);
       throw new Error('Failed to create payment link');
@@ -251,76 +417,36 @@ class PaymentService {
   }
 
   /**
-   * Create QR code payment
+   * Check a webhook delivery's signature and translate it. Throws when the
+   * signature does not match.
    */
-  async createQRPayment(
-    amount: number,
-    description: string,
-    notes?: any
-  ): Promise<any> {
-    try {
-      if (!this.razorpay) {
-        throw new Error('Razorpay not initialized');
-      }
-
-      const qrCode = await this.razorpay.qrCode.create({
-        type: 'upi_qr',
-        name: 'Deshi Sahayak Hub',
-        usage: 'single_use',
-        fixed_amount: true,
-        payment_amount: amount * 100, // Convert to paise
-        description,
-        notes: notes || {}
-      });
-
-      logger.info(`QR code created: ${qrCode.id}`);
-      return qrCode;
-    } catch (error) {
-      logger.error('Failed to create QR payment:', error);
-      throw new Error('Failed to create QR payment');
-    }
-  }
-
-  /**
-   * Validate webhook signature
-   */
-  validateWebhookSignature(body: string, signature: string, secret: string): boolean {
-    try {
-      const crypto = require('crypto');
-      const expectedSignature = crypto
-        .createHmac('sha256', secret)
-        .update(body)
-        .digest('hex');
-
-      return expectedSignature === signature;
-    } catch (error) {
-      logger.error('Failed to validate webhook signature:', error);
-      return false;
-    }
+  parseWebhook(
+    gatewayName: string,
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): GatewayWebhookEvent {
+    return this.getGateway(gatewayName).parseWebhook(rawBody, headers);
   }
 
   /**
    * Process webhook event
    */
-  async processWebhookEvent(event: any): Promise<void> {
+  async processWebhookEvent(gatewayName: PaymentGatewayName, event: GatewayWebhookEvent): Promise<void> {
     try {
-      logger.info(`Processing webhook event: ${event.event}`);
+      logger.info(`Processing ${gatewayName} webhook event: ${event.gatewayEvent}`);
 
-      switch (event.event) {
+      switch (event.type) {
         case 'payment.captured':
-          await this.handlePaymentCaptured(event.payload.payment.entity);
+          await this.handlePaymentCaptured(gatewayName, event.payment!);
           break;
         case 'payment.failed':
-          await this.handlePaymentFailed(event.payload.payment.entity);
+          await this.handlePaymentFailed(gatewayName, event.payment!);
           break;
         case 'refund.created':
-          await this.handleRefundCreated(event.payload.refund.entity);
-          break;
-        case 'order.paid':
-          await this.handleOrderPaid(event.payload.order.entity);
+          await this.handleRefundCreated(gatewayName, event.refund!);
           break;
         default:
-          logger.info(`Unhandled webhook event: ${event.event}`);
+          logger.info(`Unhandled webhook event: ${event.gatewayEvent}`);
       }
     } catch (error) {
       logger.error('Failed to process webhook event:', error);
@@ -331,83 +457,118 @@ class PaymentService {
   /**
    * Handle payment captured event
    */
-  private async handlePaymentCaptured(payment: any): Promise<void> {
+  private async handlePaymentCaptured(gatewayName: PaymentGatewayName, payment: GatewayPayment): Promise<void> {
     logger.info(`Payment captured: ${payment.id}`);
     
     // Import Booking model dynamically to avoid circular dependency
     const Booking = (await import('@/models/Booking.model')).default;
     
     // Find booking by order ID from payment notes
-    if (payment.notes && payment.notes.booking_id) {
+    if (payment.notes.booking_id) {
       const booking = await Booking.findById(payment.notes.booking_id);
       if (booking) {
-        await booking.updatePaymentStatus(
-          'paid',
-          payment.id,
-          'razorpay',
-          payment.amount / 100 // Convert from paise
-        );
+        await this.recordBookingPayment(booking, payment.id, gatewayName, payment.amount);
         logger.info(`Booking payment updated: ${booking.bookingNumber}`);
       }
+    } else if (payment.notes.order_id) {
+      // Checkout orders split the payment across their bookings
+      const Order = (await import('@/models/Order.model')).default;
+      const orderService = (await import('./order.service')).default;
+
+      const order = await Order.findById(payment.notes.order_id);
+      if (order) {
+        await orderService.recordPayment(order, payment.id, payment.amount, gatewayName);
+      }
+    } else if (payment.notes.amc_contract_id) {
+      // Maintenance contract instalments
+      const AmcContract = (await import('@/models/AmcContract.model')).default;
+      const amcService = (await import('./amc.service')).default;
+
+      const contract = await AmcContract.findById(payment.notes.amc_contract_id);
+      if (contract) {
+        await amcService.recordPayment(contract, parseInt(payment.notes.instalment_index!, 10), payment.id);
+      }
     }
   }
 
   /**
    * Handle payment failed event
    */
-  private async handlePaymentFailed(payment: any): Promise<void> {
+  private async handlePaymentFailed(gatewayName: PaymentGatewayName, payment: GatewayPayment): Promise<void> {
     logger.info(`Payment failed: ${payment.id}`);
     
     // Import Booking model dynamically to avoid circular dependency
     const Booking = (await import('@/models/Booking.model')).default;
     
     // Find booking by order ID from payment notes
-    if (payment.notes && payment.notes.booking_id) {
+    if (payment.notes.booking_id) {
       const booking = await Booking.findById(payment.notes.booking_id);
-      if (booking) {
-        await booking.updatePaymentStatus('failed', payment.id, 'razorpay');
+      // A failed retry leaves money already taken, from the gateway or the wallet, and
+      // the order the booking is now waiting on alone
+      if (booking && (booking.payment.paidAmount > 0 || payment.orderId !== booking.payment.gatewayOrderId)) {
+        logger.info(`Ignoring failed payment ${payment.id} for booking ${booking.bookingNumber}`);
+      } else if (booking) {
+        await booking.updatePaymentStatus('failed', payment.id, gatewayName);
         logger.info(`Booking payment failed: ${booking.bookingNumber}`);
       }
+    } else if (payment.notes.order_id) {
+      const Order = (await import('@/models/Order.model')).default;
+
+      await Order.updateOne(
+        { _id: payment.notes.order_id, 'payment.status': 'pending' },
+        { $set: { 'payment.status': 'failed' } }
+      );
+      logger.info(`Order payment failed: ${payment.notes.order_number}`);
     }
   }
 
   /**
    * Handle refund created event
    */
-  private async handleRefundCreated(refund: any): Promise<void> {
+  private async handleRefundCreated(gatewayName: PaymentGatewayName, refund: GatewayRefund): Promise<void> {
     logger.info(`Refund created: ${refund.id}`);
     
     // Import Booking model dynamically to avoid circular dependency
     const Booking = (await import('@/models/Booking.model')).default;
     
     // Update booking refund status
-    const payment = await this.getPaymentDetails(refund.payment_id);
-    if (payment.notes && payment.notes.booking_id) {
-      const booking = await Booking.findById(payment.notes.booking_id);
+    const payment = await this.getPaymentDetails(refund.paymentId, gatewayName);
+    if (payment.notes.booking_id) {
+      // Counted once: refunds made through refundBooking, or delivered before, are already recorded
+      const booking = await Booking.findOneAndUpdate(
+        { _id: payment.notes.booking_id, 'payment.refundTransactionIds': { $ne: refund.id } },
+        {
+          $set: { 'payment.refundTransactionId': refund.id, 'payment.refundedAt': new Date() },
+          $push: { 'payment.refundTransactionIds': refund.id },
+          $inc: { 'payment.refundAmount': refund.amount }
+        },
+        { new: true }
+      );
+
       if (booking) {
-        booking.payment.refundTransactionId = refund.id;
-        booking.payment.refundAmount = refund.amount / 100; // Convert from paise
-        booking.payment.refundedAt = new Date();
-        booking.payment.status = refund.amount === payment.amount ? 'refunded' : 'partially_refunded';
+        // refundAmount includes what went back to the wallet
+        booking.payment.status = (booking.payment.refundAmount || 0) >= booking.payment.paidAmount
+          ? 'refunded'
+          : 'partially_refunded';
         await booking.save();
+
+        await ledgerService.recordRefund({
+          refundId: refund.id,
+          customer: booking.customer._id as Types.ObjectId,
+          amount: refund.amount,
+          booking: booking._id,
+          description: `Refund for booking ${booking.bookingNumber}`
+        });
         logger.info(`Booking refund processed: ${booking.bookingNumber}`);
       }
     }
   }
 
   /**
-   * Handle order paid event
-   */
-  private async handleOrderPaid(order: any): Promise<void> {
-    logger.info(`Order paid: ${order.id}`);
-    // Additional order paid handling if needed
-  }
-
-  /**
-   * Calculate platform fee
+   * Calculate platform fee (the commission taken from provider settlements)
    */
   calculatePlatformFee(amount: number): { fee: number; netAmount: number } {
-    const feePercentage = 0.05; // 5% platform fee
+    const feePercentage = config.settlement.commissionPercent / 100;
     const fee = Math.round(amount * feePercentage);
     const netAmount = amount - fee;
 
@@ -428,20 +589,15 @@ class PaymentService {
    * Check if payment service is available
    */
   isAvailable(): boolean {
-    return !!this.razorpay;
+    return [...this.gateways.values()].some(gateway => gateway.isConfigured());
   }
 
   /**
    * Get supported payment methods
    */
   getSupportedPaymentMethods(): string[] {
-    return [
-      'card',
-      'netbanking',
-      'wallet',
-      'upi',
-      'emi'
-    ];
+    const methods = this.getAvailableGateways().flatMap(gateway => gateway.methods);
+    return [...new Set(methods)];
   }
 }
 
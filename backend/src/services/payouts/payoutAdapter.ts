@@ -0,0 +1,34 @@
+/**
+ * What every payout adapter provides: moving a provider's settled earnings to
+ * their account. Amounts are in major units (rupees).
+ */
+export interface PayoutAdapter {
+  readonly name: string;
+
+  isConfigured(): boolean;
+
+  /**
+   * Start a transfer. The payout number is passed as the reference so a
+   * retried transfer can be recognised by the provider of the adapter.
+   */
+  transfer(request: PayoutTransferRequest): Promise<PayoutTransfer>;
+
+  /**
+   * The current state of a transfer that was still processing
+   */
+  getTransfer(reference: string): Promise<PayoutTransfer>;
+}
+
+export interface PayoutTransferRequest {
+  payoutNumber: string;
+  providerId: string;
+  amount: number;
+  currency: string;
+  narration: string;
+}
+
+export interface PayoutTransfer {
+  reference: string;
+  status: 'processing' | 'paid' | 'failed';
+  failureReason?: string;
+}
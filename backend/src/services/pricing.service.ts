@@ -0,0 +1,216 @@
+import { Types } from 'mongoose';
+import { AppError } from '@/utils/AppError';
+import { IAdditionalCharge, IBooking, IBookingQuantity, IPricing, IService } from '@/types';
+
+// Goods and Services Tax applied to all bookings
+export const GST_RATE = 0.18;
+
+export interface PriceLine {
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface BaseAmountCalculation {
+  unit: IService['priceUnit'];
+  quantity: number; // units billed, after the minimum quantity
+  lines: PriceLine[];
+  minimumChargeApplied: boolean;
+  baseAmount: number;
+}
+
+// Which quantity input each price unit is billed on
+const QUANTITY_FIELDS: { [unit: string]: { field: keyof IBookingQuantity; label: string } } = {
+  square_foot: { field: 'squareFeet', label: 'sq ft' },
+  per_item: { field: 'items', label: 'items' },
+  hourly: { field: 'hours', label: 'hours' }
+};
+
+class PricingService {
+  /**
+   * Work out a service's base amount for the quantity the customer asked for.
+   * Non-fixed units bill at least the service's minimum quantity, band by band
+   * through its price tiers, and never below its minimum charge.
+   */
+  calculateBaseAmount(service: IService, quantity: IBookingQuantity = {}): BaseAmountCalculation {
+    const unitField = QUANTITY_FIELDS[service.priceUnit];
+
+    if (!unitField) {
+      return {
+        unit: service.priceUnit,
+        quantity: 1,
+        lines: [{ description: service.name, quantity: 1, rate: service.basePrice, amount: service.basePrice }],
+        minimumChargeApplied: false,
+        baseAmount: service.basePrice
+      };
+    }
+
+    const requested = this.getRequestedQuantity(service, quantity);
+    const billed = Math.max(requested, service.minimumQuantity || 0);
+    const tiers = service.priceTiers?.length ? service.priceTiers : [{ rate: service.basePrice }];
+
+    const lines: PriceLine[] = [];
+    let remaining = billed;
+    let billedSoFar = 0;
+
+    tiers.forEach((tier, i) => {
+      // Anything past the last band is billed at the last band's rate
+      const isLast = i === tiers.length - 1;
+      const band = isLast || tier.upTo === undefined ? remaining : Math.min(remaining, tier.upTo - billedSoFar);
+
+      if (band <= 0) {
+        return;
+      }
+
+      lines.push({
+        description: `${service.name} (${this.formatQuantity(billedSoFar)}-${this.formatQuantity(billedSoFar + band)} ${unitField.label})`,
+        quantity: band,
+        rate: tier.rate,
+        amount: Math.round(band * tier.rate)
+      });
+
+      remaining -= band;
+      billedSoFar += band;
+    });
+
+    const unitsTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    const minimumChargeApplied = !!service.minimumCharge && unitsTotal < service.minimumCharge;
+
+    return {
+      unit: service.priceUnit,
+      quantity: billed,
+      lines,
+      minimumChargeApplied,
+      baseAmount: minimumChargeApplied ? service.minimumCharge! : unitsTotal
+    };
+  }
+
+  /**
+   * Booking length: hourly services take as long as the hours booked
+   */
+  estimateDuration(service: IService, quantity: IBookingQuantity = {}): number {
+    if (service.priceUnit === 'hourly' && quantity.hours) {
+      return Math.round(quantity.hours * 60);
+    }
+
+    return service.duration;
+  }
+
+  /**
+   * Build the initial pricing for a new booking
+   */
+  buildPricing(baseAmount: number, additionalCharges: IAdditionalCharge[] = []): IPricing {
+    return this.recalculate({
+      baseAmount,
+      additionalCharges,
+      discount: 0,
+      taxAmount: 0,
+      totalAmount: 0,
+      version: 1
+    });
+  }
+
+  /**
+   * Recompute tax and total from the base amount, charges and discount
+   */
+  recalculate(pricing: IPricing): IPricing {
+    const subtotal = this.getSubtotal(pricing);
+    const discountAmount = this.getDiscountAmount(pricing, subtotal);
+    const taxableAmount = Math.max(0, subtotal - discountAmount);
+
+    pricing.taxAmount = Math.round(taxableAmount * GST_RATE);
+    pricing.totalAmount = taxableAmount + pricing.taxAmount;
+
+    return pricing;
+  }
+
+  /**
+   * Add charges to a booking, recording the previous pricing as a new version
+   */
+  addCharges(
+    booking: IBooking,
+    charges: IAdditionalCharge[],
+    changedBy: Types.ObjectId,
+    reason: string,
+    quoteId?: Types.ObjectId
+  ): IPricing {
+    const { pricing } = booking;
+
+    booking.pricingHistory.push({
+      version: pricing.version || 1,
+      baseAmount: pricing.baseAmount,
+      additionalCharges: pricing.additionalCharges.map(({ name, amount, description }) => ({ name, amount, description })),
+      discount: pricing.discount,
+      discountType: pricing.discountType,
+      taxAmount: pricing.taxAmount,
+      totalAmount: pricing.totalAmount,
+      supersededAt: new Date(),
+      supersededBy: changedBy,
+      reason,
+      quote: quoteId
+    });
+
+    pricing.additionalCharges.push(...charges);
+    pricing.version = (pricing.version || 1) + 1;
+
+    return this.recalculate(pricing);
+  }
+
+  /**
+   * Base amount plus additional charges, before discount and tax
+   */
+  getSubtotal(pricing: IPricing): number {
+    return pricing.baseAmount + pricing.additionalCharges.reduce((sum, charge) => sum + charge.amount, 0);
+  }
+
+  /**
+   * Amount the customer still has to pay on the current pricing version
+   */
+  getAmountDue(booking: IBooking): number {
+    return Math.max(0, booking.pricing.totalAmount - (booking.payment.paidAmount || 0));
+  }
+
+  /**
+   * Quantity input for the service's unit. Without one, hourly services assume their
+   * standard duration and everything else a single unit.
+   */
+  private getRequestedQuantity(service: IService, quantity: IBookingQuantity): number {
+    const { field, label } = QUANTITY_FIELDS[service.priceUnit]!;
+    const value = quantity[field];
+
+    if (value === undefined || value === null) {
+      return service.priceUnit === 'hourly' ? service.duration / 60 : 1;
+    }
+
+    if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+      throw new AppError(`Please enter a valid number of ${label}`, 400);
+    }
+
+    if (field === 'items' && !Number.isInteger(value)) {
+      throw new AppError('Item count must be a whole number', 400);
+    }
+
+    return value;
+  }
+
+  private formatQuantity(value: number): string {
+    return Number(value.toFixed(2)).toString();
+  }
+
+  private getDiscountAmount(pricing: IPricing, subtotal: number): number {
+    if (!pricing.discount) {
+      return 0;
+    }
+
+    if (pricing.discountType === 'percentage') {
+      return Math.round(subtotal * pricing.discount / 100);
+    }
+
+    return Math.min(pricing.discount, subtotal);
+  }
+}
+
+// Create and export a singleton instance
+export const pricingService = new PricingService();
+export default pricingService;
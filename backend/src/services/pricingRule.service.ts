@@ -0,0 +1,189 @@
+import Booking from '@/models/Booking.model';
+import PricingRule from '@/models/PricingRule.model';
+import Service from '@/models/Service.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import { config } from '@/config/env';
+import { IAdditionalCharge, IAddress, IBookingQuantity, IPricing, IPricingRule, IService } from '@/types';
+import { SLOT_BLOCKING_STATUSES } from './availability.service';
+import pricingService, { BaseAmountCalculation } from './pricing.service';
+
+export interface BookingQuote extends BaseAmountCalculation {
+  estimatedDuration: number; // in minutes
+  pricing: IPricing;
+}
+
+// Order in which surcharges are listed, and trimmed last-first when they hit the cap
+const KIND_ORDER: IPricingRule['kind'][] = ['same_day', 'time_of_day', 'demand'];
+
+const MINUTE_MS = 60 * 1000;
+
+class PricingRuleService {
+  /**
+   * Full price of a booking before it is made: the base amount for the quantity,
+   * one surcharge line for every surge rule that applies, and GST
+   */
+  async quote(
+    service: IService,
+    address: IAddress,
+    scheduledDate: Date,
+    quantity?: IBookingQuantity
+  ): Promise<BookingQuote> {
+    const calculation = pricingService.calculateBaseAmount(service, quantity);
+    const charges = await this.getSurgeCharges(service, address, scheduledDate, calculation.baseAmount);
+
+    return {
+      ...calculation,
+      estimatedDuration: pricingService.estimateDuration(service, quantity),
+      pricing: pricingService.buildPricing(calculation.baseAmount, charges)
+    };
+  }
+
+  /**
+   * Pricing for a new booking
+   */
+  async priceBooking(
+    service: IService,
+    address: IAddress,
+    scheduledDate: Date,
+    quantity?: IBookingQuantity
+  ): Promise<IPricing> {
+    return (await this.quote(service, address, scheduledDate, quantity)).pricing;
+  }
+
+  /**
+   * Surcharges for the active rules matching the city, category and time. Only the
+   * steepest rule of each kind applies, and together they never take the price
+   * past BOOKING_SURGE_MAX_MULTIPLIER times the base amount.
+   */
+  async getSurgeCharges(
+    service: IService,
+    address: IAddress,
+    scheduledDate: Date,
+    baseAmount: number,
+    now: Date = new Date()
+  ): Promise<IAdditionalCharge[]> {
+    const rules = await PricingRule.find({
+      isActive: true,
+      city: { $in: [null, address.city.trim().toLowerCase()] },
+      category: { $in: [null, service.category] }
+    }).sort({ multiplier: -1 });
+
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const applied = new Map<IPricingRule['kind'], IPricingRule>();
+    let demandRatio: number | undefined;
+
+    for (const rule of rules) {
+      if (applied.has(rule.kind)) {
+        continue;
+      }
+
+      if (rule.kind === 'demand') {
+        // Only count bookings and providers once, and only if a demand rule is in play
+        demandRatio ??= await this.getDemandRatio(service, address, scheduledDate);
+        if (demandRatio < rule.minDemandRatio!) {
+          continue;
+        }
+      } else if (!this.matchesTime(rule, scheduledDate, now)) {
+        continue;
+      }
+
+      applied.set(rule.kind, rule);
+    }
+
+    let headroom = config.booking.surgeMaxMultiplier - 1;
+    const charges: IAdditionalCharge[] = [];
+
+    for (const kind of KIND_ORDER) {
+      const rule = applied.get(kind);
+      if (!rule) {
+        continue;
+      }
+
+      const uplift = Math.min(rule.multiplier - 1, headroom);
+      const amount = Math.round(baseAmount * uplift);
+      if (amount <= 0) {
+        continue;
+      }
+
+      headroom -= uplift;
+      charges.push({
+        name: rule.name,
+        amount,
+        description: `${Number((1 + uplift).toFixed(2))}x ${this.describe(rule, address)}`
+      });
+    }
+
+    return charges;
+  }
+
+  /**
+   * Open bookings per available provider for the category around the given time
+   */
+  async getDemandRatio(service: IService, address: IAddress, scheduledDate: Date): Promise<number> {
+    const windowMs = config.booking.surgeDemandWindowMinutes * MINUTE_MS;
+    const city = new RegExp(`^${this.escapeRegex(address.city.trim())}$`, 'i');
+    const serviceIds = await Service.find({ category: service.category }).distinct('_id');
+
+    const [demand, supply] = await Promise.all([
+      Booking.countDocuments({
+        service: { $in: serviceIds },
+        'address.city': city,
+        status: { $in: SLOT_BLOCKING_STATUSES },
+        scheduledDate: {
+          $gte: new Date(scheduledDate.getTime() - windowMs),
+          $lte: new Date(scheduledDate.getTime() + windowMs)
+        }
+      }),
+      ServiceProvider.countDocuments({
+        services: { $in: serviceIds },
+        'serviceArea.cities': city,
+        isVerified: true,
+        isAvailable: true
+      })
+    ]);
+
+    return demand / Math.max(supply, 1);
+  }
+
+  private matchesTime(rule: IPricingRule, scheduledDate: Date, now: Date): boolean {
+    if (rule.kind === 'same_day') {
+      return scheduledDate.toDateString() === now.toDateString();
+    }
+
+    const minutes = scheduledDate.getHours() * 60 + scheduledDate.getMinutes();
+    const start = this.toMinutes(rule.startTime!);
+    const end = this.toMinutes(rule.endTime!);
+
+    // Windows such as 21:00-06:00 run past midnight
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  private describe(rule: IPricingRule, address: IAddress): string {
+    switch (rule.kind) {
+      case 'same_day':
+        return 'same-day booking';
+      case 'time_of_day':
+        return `booking between ${rule.startTime} and ${rule.endTime}`;
+      default:
+        return `high demand in ${address.city}`;
+    }
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours! * 60 + minutes!;
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Create and export a singleton instance
+export const pricingRuleService = new PricingRuleService();
+export default pricingRuleService;
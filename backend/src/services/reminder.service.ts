@@ -0,0 +1,171 @@
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import Review from '@/models/Review.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { IBooking, IBookingReminders, IService } from '@/types';
+import notificationService from './notification.service';
+
+type ReminderField = keyof IBookingReminders;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Completed bookings older than this never get a review request (e.g. on first deploy)
+const REVIEW_REQUEST_LOOKBACK_DAYS = 7;
+
+class ReminderService {
+  /**
+   * Send the day-before and hour-before reminders that have come due
+   */
+  async sendDueReminders(): Promise<number> {
+    const now = Date.now();
+    const inAnHour = new Date(now + HOUR_MS);
+    const inADay = new Date(now + 24 * HOUR_MS);
+
+    const dayBefore = await this.findDue('dayBeforeSentAt', {
+      status: 'confirmed',
+      scheduledDate: { $gt: inAnHour, $lte: inADay }
+    });
+    const hourBefore = await this.findDue('hourBeforeSentAt', {
+      status: 'confirmed',
+      scheduledDate: { $gt: new Date(now), $lte: inAnHour }
+    });
+
+    let sent = 0;
+
+    for (const booking of dayBefore) {
+      sent += await this.remindBothParties(booking, 'dayBeforeSentAt', 'day_before');
+    }
+
+    for (const booking of hourBefore) {
+      sent += await this.remindBothParties(booking, 'hourBeforeSentAt', 'hour_before');
+    }
+
+    return sent;
+  }
+
+  /**
+   * Remind providers once about bookings still waiting for their answer
+   */
+  async nudgeProviders(): Promise<number> {
+    const bookings = await this.findDue('providerNudgedAt', {
+      status: 'pending',
+      'acceptance.respondedAt': { $exists: false },
+      createdAt: { $lte: new Date(Date.now() - config.booking.providerNudgeMinutes * MINUTE_MS) },
+      scheduledDate: { $gt: new Date() }
+    });
+
+    let nudged = 0;
+
+    for (const booking of bookings) {
+      if (!(await this.claim(booking, 'providerNudgedAt'))) {
+        continue;
+      }
+
+      // Broadcast bookings have no provider yet; nudge everyone still holding an offer
+      const providerIds = booking.provider
+        ? [booking.provider._id]
+        : booking.offerHistory.filter(offer => offer.outcome === 'pending').map(offer => offer.provider);
+      const providers = await ServiceProvider.find({ _id: { $in: providerIds } }).select('user');
+
+      for (const provider of providers) {
+        await this.notify(provider.user.toString(), 'provider_nudge', booking);
+      }
+
+      nudged++;
+    }
+
+    return nudged;
+  }
+
+  /**
+   * Ask customers to review bookings completed a little while ago
+   */
+  async requestReviews(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.booking.reviewRequestDelayHours * HOUR_MS);
+    const lookback = new Date(cutoff.getTime() - REVIEW_REQUEST_LOOKBACK_DAYS * 24 * HOUR_MS);
+
+    const bookings = await this.findDue('reviewRequestedAt', {
+      status: 'completed',
+      'workSummary.workEndTime': { $gt: lookback, $lte: cutoff }
+    });
+
+    let requested = 0;
+
+    for (const booking of bookings) {
+      if (await Review.exists({ booking: booking._id })) {
+        continue;
+      }
+
+      if (!(await this.claim(booking, 'reviewRequestedAt'))) {
+        continue;
+      }
+
+      await this.notify(booking.customer.toString(), 'review_request', booking);
+      requested++;
+    }
+
+    return requested;
+  }
+
+  private findDue(field: ReminderField, query: Record<string, any>): Promise<IBooking[]> {
+    return Booking.find({ ...query, [`reminders.${field}`]: { $exists: false } })
+      .populate('service', 'name')
+      .populate('provider', 'user');
+  }
+
+  /**
+   * Mark a reminder as sent. Only one instance wins, so nobody is reminded twice.
+   */
+  private async claim(booking: IBooking, field: ReminderField): Promise<boolean> {
+    const claimed = await Booking.findOneAndUpdate(
+      { _id: booking._id, [`reminders.${field}`]: { $exists: false } },
+      { $set: { [`reminders.${field}`]: new Date() } }
+    );
+
+    return !!claimed;
+  }
+
+  private async remindBothParties(
+    booking: IBooking,
+    field: ReminderField,
+    type: 'day_before' | 'hour_before'
+  ): Promise<number> {
+    if (!(await this.claim(booking, field))) {
+      return 0;
+    }
+
+    const recipients = [booking.customer.toString()];
+    if (booking.provider && 'user' in booking.provider) {
+      recipients.push(booking.provider.user.toString());
+    }
+
+    for (const recipient of recipients) {
+      await this.notify(recipient, type, booking);
+    }
+
+    return 1;
+  }
+
+  private async notify(
+    recipientId: string,
+    type: 'day_before' | 'hour_before' | 'provider_nudge' | 'review_request',
+    booking: IBooking
+  ): Promise<void> {
+    try {
+      await notificationService.sendReminderNotification(recipientId, type, {
+        bookingId: booking._id.toString(),
+        bookingNumber: booking.bookingNumber,
+        serviceName: (booking.service as IService).name,
+        scheduledTime: booking.scheduledDate.toLocaleString('en-IN')
+      });
+    } catch (error) {
+      logger.error(`Failed to send ${type} notification for booking ${booking.bookingNumber}:`, error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const reminderService = new ReminderService();
+export default reminderService;
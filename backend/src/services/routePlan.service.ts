@@ -0,0 +1,197 @@
+import { Types } from 'mongoose';
+import Booking from '@/models/Booking.model';
+import { IAddress, IBooking, IServiceProvider, IUser } from '@/types';
+import { SLOT_BLOCKING_STATUSES } from './availability.service';
+import travelService, { TravelLeg } from './travel.service';
+
+export interface RouteStop {
+  booking: IBooking;
+  start: Date;
+  end: Date;
+  travel: TravelLeg; // from the previous stop, or from home for the first
+  gapMinutes?: number; // between the end of the previous job and the start of this one
+  slackMinutes?: number; // gap left after travelling; negative when the provider cannot make it
+}
+
+export interface RouteWarning {
+  bookingId: Types.ObjectId;
+  bookingNumber: string;
+  previousBookingNumber: string;
+  shortByMinutes: number;
+  message: string;
+}
+
+export interface RouteSequence {
+  bookingIds: Types.ObjectId[];
+  travelMinutes: number;
+  distanceKm: number; // geocoded legs only
+}
+
+export interface DayPlan {
+  date: Date;
+  stops: RouteStop[];
+  travelMinutes: number;
+  distanceKm: number;
+  warnings: RouteWarning[];
+  // The visiting order with the least travel, when it beats the booked order.
+  // Times are fixed, so following it means moving bookings with the customers.
+  suggestedSequence?: RouteSequence;
+}
+
+// Up to this many jobs every visiting order is tried; beyond it, nearest neighbour
+const MAX_EXACT_STOPS = 7;
+
+const MINUTE_MS = 60 * 1000;
+
+class RoutePlanService {
+  /**
+   * Lay out a provider's day in booked order, from their home address, with
+   * the travel between consecutive jobs and a warning wherever the gap is too
+   * short to get there
+   */
+  async planDay(provider: IServiceProvider, date: Date): Promise<DayPlan> {
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    const bookings = await Booking.find({
+      $or: [{ provider: provider._id }, { 'crew.provider': provider._id }],
+      status: { $in: SLOT_BLOCKING_STATUSES },
+      scheduledDate: { $gte: dayStart, $lt: dayEnd }
+    })
+      .populate('customer', 'name phone')
+      .populate('service', 'name category')
+      .sort({ scheduledDate: 1 });
+
+    const home = (provider.user as IUser | undefined)?.address as IAddress | undefined;
+    // Index 0 is home, job i is index i + 1
+    const places = [home, ...bookings.map(booking => booking.address)];
+    const matrix = await travelService.getTravelMatrix(places, places);
+
+    const stops: RouteStop[] = [];
+    const warnings: RouteWarning[] = [];
+
+    bookings.forEach((booking, i) => {
+      const start = booking.scheduledDate;
+      const end = new Date(start.getTime() + booking.estimatedDuration * MINUTE_MS);
+      const travel = matrix[i]![i + 1]!;
+      const previous = stops[i - 1];
+
+      const stop: RouteStop = { booking, start, end, travel };
+
+      if (previous) {
+        stop.gapMinutes = Math.round((start.getTime() - previous.end.getTime()) / MINUTE_MS);
+        stop.slackMinutes = stop.gapMinutes - travel.minutes;
+
+        if (stop.slackMinutes < 0) {
+          warnings.push({
+            bookingId: booking._id,
+            bookingNumber: booking.bookingNumber,
+            previousBookingNumber: previous.booking.bookingNumber,
+            shortByMinutes: -stop.slackMinutes,
+            message: stop.gapMinutes < 0
+              ? `Booking ${booking.bookingNumber} starts before ${previous.booking.bookingNumber} finishes`
+              : `Only ${stop.gapMinutes} minutes to travel from ${previous.booking.bookingNumber} to ${booking.bookingNumber}; about ${travel.minutes} needed`
+          });
+        }
+      }
+
+      stops.push(stop);
+    });
+
+    const booked = this.measure(bookings.map((_, i) => i + 1), matrix);
+    const best = this.findShortestSequence(bookings.length, matrix);
+
+    const plan: DayPlan = {
+      date: dayStart,
+      stops,
+      travelMinutes: booked.travelMinutes,
+      distanceKm: booked.distanceKm,
+      warnings
+    };
+
+    if (best.travelMinutes < booked.travelMinutes) {
+      plan.suggestedSequence = {
+        bookingIds: best.order.map(index => bookings[index - 1]!._id),
+        travelMinutes: best.travelMinutes,
+        distanceKm: best.distanceKm
+      };
+    }
+
+    return plan;
+  }
+
+  /**
+   * Order of jobs (matrix indexes, home excluded) that needs the least travel
+   * from home
+   */
+  private findShortestSequence(jobCount: number, matrix: TravelLeg[][]) {
+    const jobs = Array.from({ length: jobCount }, (_, i) => i + 1);
+
+    if (jobCount <= MAX_EXACT_STOPS) {
+      let best = { order: jobs, ...this.measure(jobs, matrix) };
+
+      for (const order of this.permutations(jobs)) {
+        const measured = this.measure(order, matrix);
+        if (measured.travelMinutes < best.travelMinutes) {
+          best = { order, ...measured };
+        }
+      }
+
+      return best;
+    }
+
+    // Nearest neighbour from home
+    const order: number[] = [];
+    const remaining = new Set(jobs);
+    let current = 0;
+
+    while (remaining.size > 0) {
+      let next = -1;
+      for (const candidate of remaining) {
+        if (next === -1 || matrix[current]![candidate]!.minutes < matrix[current]![next]!.minutes) {
+          next = candidate;
+        }
+      }
+      order.push(next);
+      remaining.delete(next);
+      current = next;
+    }
+
+    return { order, ...this.measure(order, matrix) };
+  }
+
+  private measure(order: number[], matrix: TravelLeg[][]): { travelMinutes: number; distanceKm: number } {
+    let travelMinutes = 0;
+    let distanceKm = 0;
+    let current = 0;
+
+    for (const next of order) {
+      const leg = matrix[current]![next]!;
+      travelMinutes += leg.minutes;
+      distanceKm += leg.distanceKm || 0;
+      current = next;
+    }
+
+    return { travelMinutes, distanceKm: Number(distanceKm.toFixed(2)) };
+  }
+
+  private *permutations(items: number[]): Generator<number[]> {
+    if (items.length <= 1) {
+      yield items;
+      return;
+    }
+
+    for (let i = 0; i < items.length; i++) {
+      const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+      for (const tail of this.permutations(rest)) {
+        yield [items[i]!, ...tail];
+      }
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const routePlanService = new RoutePlanService();
+export default routePlanService;
@@ -0,0 +1,619 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import AmcContract from '@/models/AmcContract.model';
+import Booking from '@/models/Booking.model';
+import Dispute from '@/models/Dispute.model';
+import Payout from '@/models/Payout.model';
+import PayoutRun from '@/models/PayoutRun.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import Settlement from '@/models/Settlement.model';
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IBooking, IPayout, IPayoutRun, IPricing, ISettlement, ISettlementAmounts, PayoutStatus } from '@/types';
+import ledgerService from './ledger.service';
+import notificationService from './notification.service';
+import paymentService from './payment.service';
+import { PayoutAdapter } from './payouts/payoutAdapter';
+import localPayoutAdapter from './payouts/local.payout';
+
+export interface SettlementBalance {
+  pending: number; // waiting for the next payout run
+  held: number; // held back for an open dispute or an unprocessed refund
+  inPayout: number;
+  paid: number;
+}
+
+export interface PayoutStatement {
+  payout: IPayout;
+  settlements: ISettlement[];
+}
+
+export interface SettlementEarnings {
+  overview: {
+    totalEarnings: number;
+    totalBookings: number;
+    averageBookingValue: number;
+  };
+  monthlyEarnings: {
+    _id: { year: number; month: number };
+    earnings: number;
+    bookings: number;
+  }[];
+  balance: SettlementBalance;
+}
+
+interface SettlementShare {
+  provider: Types.ObjectId;
+  role: ISettlement['role'];
+  sharePercent: number;
+}
+
+// What the customer paid for a whole job, less refunds, and the price it was paid against
+interface SettlementBasis {
+  collected: number;
+  pricing: Pick<IPricing, 'taxAmount' | 'totalAmount'>;
+  awaitingInstalments?: boolean; // a contract visit whose share of the price is not all paid yet
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a caller may work on a payout run before another may take it over
+const RUN_LEASE_MS = 60 * 60 * 1000;
+
+const OPEN_DISPUTE_STATUSES = ['open', 'under_review', 'resolving'];
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const emptyAmounts = (): ISettlementAmounts => ({
+  collected: 0,
+  gst: 0,
+  taxable: 0,
+  commission: 0,
+  commissionGst: 0,
+  tds: 0,
+  net: 0
+});
+
+const addAmounts = (total: ISettlementAmounts, amounts: ISettlementAmounts): void => {
+  (Object.keys(total) as (keyof ISettlementAmounts)[]).forEach(key => {
+    total[key] = roundAmount(total[key] + amounts[key]);
+  });
+};
+
+class SettlementService {
+  private adapters = new Map<string, PayoutAdapter>();
+
+  constructor() {
+    this.registerPayoutAdapter(localPayoutAdapter);
+  }
+
+  /**
+   * Add or replace a payout adapter. The one named by PAYOUT_ADAPTER is used.
+   */
+  registerPayoutAdapter(adapter: PayoutAdapter): void {
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  /**
+   * Split what the customer paid for a share of a booking: GST on the service
+   * goes to the government through the platform, and the platform's commission,
+   * GST on that commission and TDS are taken from the rest.
+   */
+  calculateShare(collected: number, pricing: Pick<IPricing, 'taxAmount' | 'totalAmount'>): ISettlementAmounts {
+    const { taxAmount, totalAmount } = pricing;
+    const gst = totalAmount > 0 ? roundAmount(collected * taxAmount / totalAmount) : 0;
+    const taxable = roundAmount(collected - gst);
+    const commission = paymentService.calculatePlatformFee(taxable).fee;
+    const commissionGst = paymentService.calculateGST(commission).gst;
+    const tds = roundAmount(taxable * config.settlement.tdsPercent / 100);
+
+    return {
+      collected,
+      gst,
+      taxable,
+      commission,
+      commissionGst,
+      tds,
+      net: Math.max(0, roundAmount(taxable - commission - commissionGst - tds))
+    };
+  }
+
+  /**
+   * Move the shares of completed, paid bookings into settlements. Cash jobs are
+   * collected by the provider and never pass through a payout.
+   */
+  async syncSettlements(providerId?: string): Promise<number> {
+    const query: any = {
+      status: 'completed',
+      'payment.status': { $in: ['paid', 'partially_refunded'] },
+      'payment.method': { $ne: 'cash' },
+      settledAt: { $exists: false }
+    };
+
+    if (providerId) {
+      query.$or = [{ provider: providerId }, { 'crew.provider': providerId }];
+    }
+
+    const bookings = await Booking.find(query);
+    let created = 0;
+
+    for (const booking of bookings) {
+      const completedAt = this.getCompletedAt(booking);
+      const basis = await this.getBasis(booking);
+
+      for (const share of this.getShares(booking)) {
+        // A settlement already made for the share is left alone
+        try {
+          const result = await Settlement.updateOne(
+            { booking: booking._id, provider: share.provider },
+            {
+              $setOnInsert: {
+                role: share.role,
+                sharePercent: share.sharePercent,
+                completedAt,
+                amounts: this.getShareAmounts(basis, share.sharePercent),
+                status: 'pending'
+              }
+            },
+            { upsert: true }
+          );
+          created += result.upsertedCount;
+        } catch (error: any) {
+          // Another sync inserted it first
+          if (error.code !== 11000) {
+            throw error;
+          }
+        }
+      }
+
+      await Booking.updateOne({ _id: booking._id }, { $set: { settledAt: new Date() } });
+    }
+
+    return created;
+  }
+
+  /**
+   * Make this week's payout run: settle jobs completed before the week began,
+   * hold back shares of bookings with an open dispute, an unprocessed refund or
+   * unpaid contract instalments, and pay each provider the rest in one transfer
+   * with a statement. Held shares are looked at again in the next run. A run
+   * that stopped part-way is finished by running it again; one still being
+   * worked on is left alone.
+   */
+  async runPayouts(startedBy?: string, now: Date = new Date()): Promise<IPayoutRun> {
+    const adapter = this.getPayoutAdapter();
+    const periodEnd = this.getWeekStart(now);
+    const periodStart = new Date(periodEnd.getTime() - 7 * DAY_MS);
+    const runNumber = `PR${periodEnd.getFullYear()}${pad(periodEnd.getMonth() + 1)}${pad(periodEnd.getDate())}`;
+    const lockedBy = crypto.randomUUID();
+    const alreadyRunning = new AppError(`Payouts for the week to ${periodEnd.toDateString()} are already being run`, 409);
+
+    let run = await PayoutRun.findOne({ runNumber });
+    if (run && run.status === 'completed') {
+      throw new AppError(`Payouts for the week to ${periodEnd.toDateString()} have already been run`, 409);
+    }
+
+    if (run) {
+      // Taken over only once whoever was running it has let go or stopped renewing
+      run = await PayoutRun.findOneAndUpdate(
+        { _id: run._id, status: 'processing', lockedUntil: { $not: { $gt: new Date() } } },
+        { $set: { lockedBy, lockedUntil: new Date(Date.now() + RUN_LEASE_MS) } },
+        { new: true }
+      );
+      if (!run) {
+        throw alreadyRunning;
+      }
+
+      logger.warn(`Resuming payout run ${run.runNumber}`);
+    } else {
+      try {
+        run = await PayoutRun.create({
+          runNumber,
+          periodStart,
+          periodEnd,
+          startedBy,
+          lockedBy,
+          lockedUntil: new Date(Date.now() + RUN_LEASE_MS)
+        });
+      } catch (error: any) {
+        if (error.code === 11000) {
+          throw alreadyRunning;
+        }
+
+        throw error;
+      }
+    }
+
+    try {
+      return await this.processRun(run, adapter);
+    } catch (error) {
+      // Let the run be resumed straight away rather than when the lease runs out
+      await PayoutRun.updateOne({ _id: run._id, lockedBy }, { $unset: { lockedBy: 1, lockedUntil: 1 } });
+      throw error;
+    }
+  }
+
+  /**
+   * Try a failed payout again
+   */
+  async retryPayout(payout: IPayout): Promise<IPayout> {
+    if (payout.status !== 'failed') {
+      throw new AppError('Only failed payouts can be retried', 400);
+    }
+
+    return this.sendPayout(payout);
+  }
+
+  /**
+   * Ask the adapter about transfers still processing. Returns how many finished.
+   */
+  async refreshProcessingPayouts(): Promise<number> {
+    const payouts = await Payout.find({ status: 'processing' });
+    let finished = 0;
+
+    for (const payout of payouts) {
+      try {
+        const transfer = await this.getPayoutAdapter(payout.adapter).getTransfer(payout.reference!);
+        if (transfer.status !== 'processing') {
+          await this.applyTransfer(payout, transfer.status, transfer.failureReason);
+          finished++;
+        }
+      } catch (error) {
+        logger.error(`Failed to check payout ${payout.payoutNumber}:`, error);
+      }
+    }
+
+    return finished;
+  }
+
+  /**
+   * What a provider has earned after deductions, by where it is in settlement
+   */
+  async getBalance(providerId: string): Promise<SettlementBalance> {
+    await this.syncSettlements(providerId);
+
+    const totals = await Settlement.aggregate([
+      { $match: { provider: new Types.ObjectId(providerId) } },
+      { $group: { _id: '$status', net: { $sum: '$amounts.net' } } }
+    ]);
+    const byStatus = new Map<string, number>(totals.map(total => [total._id, roundAmount(total.net)]));
+
+    return {
+      pending: byStatus.get('pending') || 0,
+      held: byStatus.get('held') || 0,
+      inPayout: byStatus.get('in_payout') || 0,
+      paid: byStatus.get('paid') || 0
+    };
+  }
+
+  /**
+   * What a provider has earned after deductions, in total and month by month
+   * of completion. Cash jobs are collected by the provider and not included.
+   */
+  async getEarnings(providerId: string): Promise<SettlementEarnings> {
+    const balance = await this.getBalance(providerId);
+    const earned = { provider: new Types.ObjectId(providerId), status: { $ne: 'reversed' } };
+
+    const [overview] = await Settlement.aggregate([
+      { $match: earned },
+      {
+        $group: {
+          _id: null,
+          totalEarnings: { $sum: '$amounts.net' },
+          totalBookings: { $sum: 1 },
+          averageBookingValue: { $avg: '$amounts.net' }
+        }
+      },
+      { $project: { _id: 0 } }
+    ]);
+
+    const monthlyEarnings = await Settlement.aggregate([
+      { $match: earned },
+      {
+        $group: {
+          _id: {
+            year: { $year: '$completedAt' },
+            month: { $month: '$completedAt' }
+          },
+          earnings: { $sum: '$amounts.net' },
+          bookings: { $sum: 1 }
+        }
+      },
+      { $sort: { '_id.year': -1, '_id.month': -1 } },
+      { $limit: 12 }
+    ]);
+
+    return {
+      overview: overview || { totalEarnings: 0, totalBookings: 0, averageBookingValue: 0 },
+      monthlyEarnings,
+      balance
+    };
+  }
+
+  /**
+   * A payout with the jobs it pays for, line by line
+   */
+  async getStatement(payout: IPayout): Promise<PayoutStatement> {
+    const settlements = await Settlement.find({ payout: payout._id })
+      .populate('booking', 'bookingNumber scheduledDate service')
+      .sort({ completedAt: 1 });
+
+    return { payout, settlements };
+  }
+
+  private getPayoutAdapter(name: string = config.settlement.payoutAdapter): PayoutAdapter {
+    const adapter = this.adapters.get(name);
+
+    if (!adapter || !adapter.isConfigured()) {
+      throw new AppError(`Payout adapter ${name} is not available`, 503);
+    }
+
+    return adapter;
+  }
+
+  /**
+   * Pay out a run the caller holds the lease on, finishing first any payouts
+   * made before it stopped
+   */
+  private async processRun(run: IPayoutRun, adapter: PayoutAdapter): Promise<IPayoutRun> {
+    const unsent = await Payout.find({ run: run._id, status: 'pending' });
+    for (const payout of unsent) {
+      await this.completePayout(payout);
+    }
+
+    await this.syncSettlements();
+
+    const settlements = await Settlement.find({
+      status: { $in: ['pending', 'held'] },
+      completedAt: { $lt: run.periodEnd }
+    });
+    const bookingIds = settlements.map(settlement => settlement.booking);
+    const bookings = new Map(
+      (await Booking.find({ _id: { $in: bookingIds } })).map(booking => [booking._id.toString(), booking])
+    );
+    const disputed = new Set(
+      (await Dispute.find({ booking: { $in: bookingIds }, status: { $in: OPEN_DISPUTE_STATUSES } }).distinct('booking'))
+        .map(id => id.toString())
+    );
+
+    const payable = new Map<string, ISettlement[]>();
+    let heldAmount = 0;
+
+    for (const settlement of settlements) {
+      const booking = bookings.get(settlement.booking.toString());
+      if (!booking) {
+        continue;
+      }
+
+      await this.refreshSettlement(settlement, booking, disputed);
+
+      if (settlement.status === 'held') {
+        heldAmount += settlement.amounts.net;
+      } else if (settlement.status === 'pending') {
+        const providerId = settlement.provider.toString();
+        payable.set(providerId, [...(payable.get(providerId) || []), settlement]);
+      }
+    }
+
+    for (const [providerId, providerSettlements] of payable) {
+      const statement = emptyAmounts();
+      providerSettlements.forEach(settlement => addAmounts(statement, settlement.amounts));
+
+      const payout = await Payout.create({
+        run: run._id,
+        provider: providerId,
+        settlements: providerSettlements.map(settlement => settlement._id),
+        statement,
+        amount: statement.net,
+        adapter: adapter.name
+      });
+
+      await this.completePayout(payout);
+    }
+
+    // Counted from the payouts, so those made before a resumed run stopped are included
+    const payouts = await Payout.find({ run: run._id });
+    const totals = emptyAmounts();
+    payouts.forEach(payout => addAmounts(totals, payout.statement));
+
+    run.totals = totals;
+    run.payoutCount = payouts.length;
+    run.heldAmount = roundAmount(heldAmount);
+    run.status = 'completed';
+    run.completedAt = new Date();
+    run.lockedBy = undefined;
+    run.lockedUntil = undefined;
+    await run.save();
+
+    logger.info(`Payout run ${run.runNumber}: ₹${totals.net} to ${payouts.length} provider(s), ₹${run.heldAmount} held`);
+    return run;
+  }
+
+  /**
+   * Take a payout's settlements out of the pool, post them to the ledger and
+   * send the transfer. Every step can be repeated without effect, so a payout
+   * left unsent when a run stopped is completed by running this again. Only
+   * the settlements that ended up in this payout are paid for by it; one left
+   * with none is dropped without being sent.
+   */
+  private async completePayout(payout: IPayout): Promise<void> {
+    await Settlement.updateMany(
+      { _id: { $in: payout.settlements }, status: { $in: ['pending', 'held'] } },
+      { $set: { status: 'in_payout', payout: payout._id } }
+    );
+
+    const settlements = await Settlement.find({ _id: { $in: payout.settlements }, payout: payout._id });
+
+    if (settlements.length === 0) {
+      logger.warn(`Payout ${payout.payoutNumber} dropped: its settlements were already taken by another payout`);
+      await Payout.deleteOne({ _id: payout._id });
+      return;
+    }
+
+    if (settlements.length < payout.settlements.length) {
+      const statement = emptyAmounts();
+      settlements.forEach(settlement => addAmounts(statement, settlement.amounts));
+
+      payout.settlements = settlements.map(settlement => settlement._id);
+      payout.statement = statement;
+      payout.amount = statement.net;
+      await payout.save();
+    }
+
+    const bookings = new Map(
+      (await Booking.find({ _id: { $in: settlements.map(settlement => settlement.booking) } }).select('bookingNumber customer'))
+        .map(booking => [booking._id.toString(), booking])
+    );
+
+    for (const settlement of settlements) {
+      await ledgerService.recordCommission(settlement, bookings.get(settlement.booking.toString())!);
+    }
+
+    await this.sendPayout(payout);
+  }
+
+  private async sendPayout(payout: IPayout): Promise<IPayout> {
+    const adapter = this.getPayoutAdapter(payout.adapter);
+    payout.attempts += 1;
+
+    try {
+      const transfer = await adapter.transfer({
+        payoutNumber: payout.payoutNumber,
+        providerId: payout.provider.toString(),
+        amount: payout.amount,
+        currency: config.payments.currency,
+        narration: `Payout ${payout.payoutNumber}`
+      });
+
+      payout.reference = transfer.reference;
+      await this.applyTransfer(payout, transfer.status, transfer.failureReason);
+    } catch (error: any) {
+      logger.error(`Payout ${payout.payoutNumber} failed:`, error);
+      await this.applyTransfer(payout, 'failed', error.message);
+    }
+
+    return payout;
+  }
+
+  private async applyTransfer(payout: IPayout, status: PayoutStatus, failureReason?: string): Promise<void> {
+    payout.status = status;
+    payout.failureReason = status === 'failed' ? failureReason || 'Transfer failed' : undefined;
+
+    if (status === 'paid') {
+      payout.paidAt = new Date();
+      await Settlement.updateMany({ payout: payout._id }, { $set: { status: 'paid' } });
+    }
+
+    await payout.save();
+
+    if (status === 'paid') {
+      await ledgerService.recordPayout(payout);
+
+      const provider = await ServiceProvider.findById(payout.provider).select('user');
+      if (provider) {
+        await notificationService.sendNotification({
+          recipient: provider.user.toString(),
+          type: 'payment',
+          title: 'Payout sent',
+          message: `₹${payout.amount} for ${payout.settlements.length} job(s) is on its way to your account.`,
+          data: { payoutId: payout._id.toString() },
+          channels: ['in_app', 'email']
+        });
+      }
+    }
+  }
+
+  /**
+   * Recalculate a share for refunds made since it was settled, and hold it
+   * while the booking has an open dispute or a refund still to process, or
+   * while the contract instalments paying for a visit are due
+   */
+  private async refreshSettlement(settlement: ISettlement, booking: IBooking, disputed: Set<string>): Promise<void> {
+    const basis = await this.getBasis(booking);
+    settlement.amounts = this.getShareAmounts(basis, settlement.sharePercent);
+    settlement.holdReason = undefined;
+
+    if (settlement.amounts.net <= 0) {
+      settlement.status = 'reversed';
+    } else if (disputed.has(booking._id.toString())) {
+      settlement.status = 'held';
+      settlement.holdReason = 'dispute';
+    } else if ((booking.refundAmount || 0) > (booking.payment.refundAmount || 0)) {
+      settlement.status = 'held';
+      settlement.holdReason = 'refund';
+    } else if (basis.awaitingInstalments) {
+      settlement.status = 'held';
+      settlement.holdReason = 'instalment';
+    } else {
+      settlement.status = 'pending';
+    }
+
+    await settlement.save();
+  }
+
+  private getShares(booking: IBooking): SettlementShare[] {
+    if (booking.crew.length === 0) {
+      return [{ provider: booking.provider._id as Types.ObjectId, role: 'provider', sharePercent: 100 }];
+    }
+
+    return booking.crew.map(member => ({
+      provider: member.provider._id as Types.ObjectId,
+      role: member.role,
+      sharePercent: member.sharePercent
+    }));
+  }
+
+  /**
+   * Visits under a maintenance contract are booked at no charge: the customer
+   * pays for them with the contract's instalments, so each is settled at its
+   * share of the contract's price once the instalments paid cover it
+   */
+  private async getBasis(booking: IBooking): Promise<SettlementBasis> {
+    if (booking.amcContract) {
+      const contract = await AmcContract.findById(booking.amcContract).select('pricing visits instalments');
+
+      if (contract && contract.visits.length > 0) {
+        const pricing = {
+          taxAmount: roundAmount(contract.pricing.taxAmount / contract.visits.length),
+          totalAmount: roundAmount(contract.pricing.totalAmount / contract.visits.length)
+        };
+        const paid = contract.instalments
+          .filter(instalment => instalment.status === 'paid')
+          .reduce((sum, instalment) => sum + instalment.amount, 0);
+        const visitIndex = booking.amcVisitIndex || contract.visits.length;
+        const due = roundAmount(contract.pricing.totalAmount * visitIndex / contract.visits.length);
+
+        return { collected: pricing.totalAmount, pricing, awaitingInstalments: roundAmount(paid) < due };
+      }
+    }
+
+    return {
+      collected: Math.max(0, booking.payment.paidAmount - (booking.payment.refundAmount || 0)),
+      pricing: booking.pricing
+    };
+  }
+
+  private getShareAmounts(basis: SettlementBasis, sharePercent: number): ISettlementAmounts {
+    return this.calculateShare(roundAmount(basis.collected * sharePercent / 100), basis.pricing);
+  }
+
+  private getCompletedAt(booking: IBooking): Date {
+    const completion = [...booking.statusHistory].reverse().find(change => change.status === 'completed');
+    return booking.workSummary?.workEndTime || completion?.changedAt || booking.updatedAt;
+  }
+
+  // Payout weeks start on Monday
+  private getWeekStart(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    return start;
+  }
+}
+
+// Create and export a singleton instance
+export const settlementService = new SettlementService();
+export default settlementService;
@@ -0,0 +1,133 @@
+import { config } from '@/config/env';
+import logger from '@/config/logger';
+import { IAddress } from '@/types';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Anything with optional coordinates, e.g. an address
+export type Locatable = Pick<IAddress, 'coordinates'>;
+
+export interface TravelLeg {
+  minutes: number;
+  distanceKm?: number; // unset when either end has no coordinates
+  estimated: boolean; // false when the flat travel buffer was used instead
+}
+
+/**
+ * Source of travel times between points. The default works from straight-line
+ * distance; a road-network service (e.g. a maps distance matrix API) can be
+ * plugged in with travelService.useDistanceMatrix().
+ */
+export interface DistanceMatrix {
+  /**
+   * Driving distance and time from every origin to every destination, indexed
+   * [origin][destination]. Entries the source cannot estimate are left undefined.
+   */
+  getMatrix(
+    origins: GeoPoint[],
+    destinations: GeoPoint[]
+  ): Promise<({ distanceKm: number; minutes: number } | undefined)[][]>;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance stretched by a road factor and driven at an average
+ * town speed
+ */
+export class StraightLineDistanceMatrix implements DistanceMatrix {
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[]) {
+    return origins.map(from => destinations.map(to => {
+      const distanceKm = getStraightLineKm(from, to) * config.booking.travelRoadFactor;
+      return {
+        distanceKm: Number(distanceKm.toFixed(2)),
+        minutes: Math.ceil(distanceKm / config.booking.travelSpeedKmh * 60)
+      };
+    }));
+  }
+}
+
+export const getStraightLineKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+class TravelService {
+  private matrix: DistanceMatrix = new StraightLineDistanceMatrix();
+
+  /**
+   * Swap the source of travel times, e.g. for a road-network service
+   */
+  useDistanceMatrix(matrix: DistanceMatrix): void {
+    this.matrix = matrix;
+  }
+
+  /**
+   * Time to allow between a job at one address and a job at another. Falls back
+   * to BOOKING_TRAVEL_BUFFER_MINUTES when either address is not geocoded, and
+   * never allows less than BOOKING_TRAVEL_MIN_MINUTES to pack up and park.
+   */
+  async getTravel(from?: Locatable, to?: Locatable): Promise<TravelLeg> {
+    const matrix = await this.getTravelMatrix([from], [to]);
+    return matrix[0]![0]!;
+  }
+
+  /**
+   * Travel between every pair of addresses in one request to the distance matrix
+   */
+  async getTravelMatrix(origins: (Locatable | undefined)[], destinations: (Locatable | undefined)[]): Promise<TravelLeg[][]> {
+    const fallback: TravelLeg = { minutes: config.booking.travelBufferMinutes, estimated: false };
+
+    const originPoints = origins.map(address => this.toPoint(address));
+    const destinationPoints = destinations.map(address => this.toPoint(address));
+    const knownOrigins = originPoints.filter((point): point is GeoPoint => !!point);
+    const knownDestinations = destinationPoints.filter((point): point is GeoPoint => !!point);
+
+    let estimates: ({ distanceKm: number; minutes: number } | undefined)[][] = [];
+    if (knownOrigins.length > 0 && knownDestinations.length > 0) {
+      try {
+        estimates = await this.matrix.getMatrix(knownOrigins, knownDestinations);
+      } catch (error) {
+        logger.error('Distance matrix lookup failed, using the flat travel buffer:', error);
+      }
+    }
+
+    return originPoints.map(from => destinationPoints.map(to => {
+      if (!from || !to) {
+        return fallback;
+      }
+
+      const estimate = estimates[knownOrigins.indexOf(from)]?.[knownDestinations.indexOf(to)];
+      if (!estimate) {
+        return fallback;
+      }
+
+      return {
+        minutes: Math.max(estimate.minutes, config.booking.travelMinMinutes),
+        distanceKm: estimate.distanceKm,
+        estimated: true
+      };
+    }));
+  }
+
+  private toPoint(address?: Locatable): GeoPoint | undefined {
+    const coordinates = address?.coordinates;
+    if (coordinates?.latitude === undefined || coordinates?.longitude === undefined) {
+      return undefined;
+    }
+
+    return { latitude: coordinates.latitude, longitude: coordinates.longitude };
+  }
+}
+
+// Create and export a singleton instance
+export const travelService = new TravelService();
+export default travelService;
@@ -0,0 +1,439 @@
+import { Types } from 'mongoose';
+import Booking from '@/models/Booking.model';
+import Wallet from '@/models/Wallet.model';
+import WalletTransaction from '@/models/WalletTransaction.model';
+import { config } from '@/config/env';
+import { AppError } from '@/utils/AppError';
+import { IBooking, IWallet, IWalletTransaction } from '@/types';
+import ledgerService from './ledger.service';
+import pricingService from './pricing.service';
+
+export interface WalletCredit {
+  amount: number;
+  expiresAt: Date;
+}
+
+export interface WalletSummary {
+  balance: number;
+  promotional: number; // part of the balance that expires
+  promotionalCredits: WalletCredit[]; // unspent promotional credits, soonest to expire first
+}
+
+export interface PromotionGrant {
+  userId: string;
+  amount: number;
+  description: string;
+  expiresAt?: Date;
+  grantedBy?: Types.ObjectId;
+}
+
+interface SpentCredit {
+  credit: Types.ObjectId;
+  amount: number;
+}
+
+interface CreditRequest {
+  type: 'refund' | 'promotion';
+  amount: number;
+  description: string;
+  booking?: Types.ObjectId;
+  expiresAt?: Date;
+  grantedBy?: Types.ObjectId;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Matches an amount as stored; amounts never set are missing rather than zero on older documents
+const storedAmount = (amount?: number) => amount || { $in: [null, 0] };
+
+/**
+ * Customer wallets. Refunds and promotional credits are added as credits that
+ * are spent on bookings; promotional credits are spent first, soonest to expire
+ * first, and whatever is left of them lapses at their expiry.
+ */
+class WalletService {
+  /**
+   * The customer's wallet, opened the first time it is needed
+   */
+  async getWallet(userId: Types.ObjectId | string): Promise<IWallet> {
+    return (await Wallet.findOneAndUpdate(
+      { user: userId },
+      { $setOnInsert: { user: userId, balance: 0 } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ))!;
+  }
+
+  /**
+   * Balance with its promotional part and when that expires
+   */
+  async getSummary(userId: Types.ObjectId | string): Promise<WalletSummary> {
+    const wallet = await this.getCurrentWallet(userId);
+
+    const credits = await WalletTransaction.find({
+      wallet: wallet._id,
+      type: 'promotion',
+      remaining: { $gt: 0 },
+      expiresAt: { $gt: new Date() }
+    }).sort({ expiresAt: 1 });
+
+    const promotionalCredits = credits.map(credit => ({ amount: credit.remaining!, expiresAt: credit.expiresAt! }));
+
+    return {
+      balance: roundAmount(wallet.balance),
+      promotional: roundAmount(promotionalCredits.reduce((sum, credit) => sum + credit.amount, 0)),
+      promotionalCredits
+    };
+  }
+
+  /**
+   * Grant promotional credit, which lapses at its expiry if unspent
+   */
+  async grantPromotion(grant: PromotionGrant): Promise<IWalletTransaction> {
+    const expiresAt = grant.expiresAt ||
+      new Date(Date.now() + config.wallet.promotionalCreditDays * 24 * 60 * 60 * 1000);
+
+    if (expiresAt <= new Date()) {
+      throw new AppError('Promotional credit must expire in the future', 400);
+    }
+
+    const credit = await this.credit(grant.userId, {
+      type: 'promotion',
+      amount: grant.amount,
+      description: grant.description,
+      expiresAt,
+      grantedBy: grant.grantedBy
+    });
+
+    await ledgerService.recordPromotion(credit);
+
+    return credit;
+  }
+
+  /**
+   * Refund part or all of what was paid for a booking straight into the
+   * customer's wallet. Until the booking is paid in full only what the wallet
+   * paid can be refunded. Returns null when nothing is left to refund. The
+   * caller saves the booking.
+   */
+  async refundBooking(booking: IBooking, amount: number, reason: string): Promise<IWalletTransaction | null> {
+    const { payment } = booking;
+    const refundable = ['paid', 'partially_refunded'].includes(payment.status)
+      ? roundAmount(payment.paidAmount - (payment.refundAmount || 0))
+      : roundAmount((payment.walletAmount || 0) - (payment.walletRefundAmount || 0));
+    const refunded = roundAmount(Math.min(amount, refundable));
+
+    if (refunded <= 0) {
+      return null;
+    }
+
+    const walletRefundAmount = roundAmount((payment.walletRefundAmount || 0) + refunded);
+
+    // Recorded on the booking before the wallet is credited, so the same refund is never credited twice
+    const claimed = await Booking.updateOne(
+      { _id: booking._id, 'payment.walletRefundAmount': storedAmount(payment.walletRefundAmount) },
+      { $inc: { 'payment.refundAmount': refunded }, $set: { 'payment.walletRefundAmount': walletRefundAmount } }
+    );
+    if (claimed.modifiedCount === 0) {
+      throw new AppError('A refund for this booking is already being processed', 409);
+    }
+
+    let credit: IWalletTransaction;
+    try {
+      credit = await this.credit(booking.customer._id as Types.ObjectId, {
+        type: 'refund',
+        amount: refunded,
+        description: `Refund for booking ${booking.bookingNumber}`,
+        booking: booking._id
+      });
+    } catch (error) {
+      await Booking.updateOne(
+        { _id: booking._id, 'payment.walletRefundAmount': walletRefundAmount },
+        {
+          $inc: { 'payment.refundAmount': -refunded },
+          $set: { 'payment.walletRefundAmount': roundAmount(walletRefundAmount - refunded) }
+        }
+      );
+      throw error;
+    }
+
+    payment.refundAmount = roundAmount((payment.refundAmount || 0) + refunded);
+    payment.walletRefundAmount = walletRefundAmount;
+    payment.refundedAt = new Date();
+    payment.status = payment.refundAmount >= payment.paidAmount ? 'refunded' : 'partially_refunded';
+
+    await ledgerService.recordRefund({
+      refundId: credit.transactionNumber,
+      customer: booking.customer._id as Types.ObjectId,
+      amount: refunded,
+      booking: booking._id,
+      description: `Refund to wallet for booking ${booking.bookingNumber}: ${reason}`,
+      toWallet: true
+    });
+
+    return credit;
+  }
+
+  /**
+   * Pay for a booking from the customer's wallet: up to the amount asked for,
+   * the balance and what is still owed. The gateway charges whatever is left.
+   */
+  async payBooking(booking: IBooking, amount?: number): Promise<IWalletTransaction> {
+    const wallet = await this.getCurrentWallet(booking.customer._id);
+    const due = pricingService.getAmountDue(booking);
+    const paid = roundAmount(Math.min(amount ?? due, due, roundAmount(wallet.balance)));
+
+    if (paid <= 0) {
+      throw new AppError('There is no wallet balance to pay with', 400);
+    }
+
+    const { payment } = booking;
+    const previous = { status: payment.status, method: payment.method };
+    const paidAmount = roundAmount((payment.paidAmount || 0) + paid);
+    const walletAmount = roundAmount((payment.walletAmount || 0) + paid);
+    const paidInFull = paidAmount >= booking.pricing.totalAmount;
+    const method = payment.method || 'wallet';
+
+    // Recorded only if nothing was paid on the booking since it was read, so two
+    // payments at once cannot both pay what is due. The wallet is debited after.
+    const recorded = await Booking.updateOne(
+      { _id: booking._id, 'payment.paidAmount': storedAmount(payment.paidAmount) },
+      {
+        $set: {
+          'payment.paidAmount': paidAmount,
+          'payment.walletAmount': walletAmount,
+          'payment.paidAt': new Date(),
+          ...(paidInFull && { 'payment.status': 'paid', 'payment.method': method })
+        }
+      }
+    );
+    if (recorded.modifiedCount === 0) {
+      throw new AppError('A payment was made on this booking meanwhile. Please check what is still due and try again.', 409);
+    }
+
+    let debit: IWalletTransaction;
+    try {
+      debit = await this.debit(wallet, paid, `Payment for booking ${booking.bookingNumber}`, booking._id);
+    } catch (error) {
+      await Booking.updateOne(
+        { _id: booking._id, 'payment.paidAmount': paidAmount },
+        {
+          $set: {
+            'payment.paidAmount': roundAmount(paidAmount - paid),
+            'payment.walletAmount': roundAmount(walletAmount - paid),
+            'payment.status': previous.status
+          },
+          ...(paidInFull && !previous.method && { $unset: { 'payment.method': 1 } })
+        }
+      );
+      throw error;
+    }
+
+    payment.paidAmount = paidAmount;
+    payment.walletAmount = walletAmount;
+    payment.paidAt = new Date();
+
+    if (paidInFull) {
+      payment.status = 'paid';
+      payment.method = method;
+    }
+
+    await ledgerService.recordCapture({
+      paymentId: debit.transactionNumber,
+      customer: booking.customer._id as Types.ObjectId,
+      amount: paid,
+      reference: { model: 'Booking', id: booking._id },
+      description: `Wallet payment for booking ${booking.bookingNumber}`,
+      fromWallet: true
+    });
+
+    return debit;
+  }
+
+  /**
+   * Remove what is left of promotional credits past their expiry, in every
+   * wallet or just one. Returns how many credits lapsed.
+   */
+  async expireCredits(now: Date = new Date(), walletId?: Types.ObjectId): Promise<number> {
+    const credits = await WalletTransaction.find({
+      ...(walletId && { wallet: walletId }),
+      type: 'promotion',
+      expiresAt: { $lte: now },
+      remaining: { $gt: 0 }
+    });
+
+    let expired = 0;
+
+    for (const credit of credits) {
+      // Claimed at its current remainder, so a payment spending it meanwhile is not expired again
+      const claimed = await WalletTransaction.findOneAndUpdate(
+        { _id: credit._id, remaining: credit.remaining },
+        { $set: { remaining: 0 } }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      // Capped at the balance, which never goes below zero
+      const wallet = await Wallet.findByIdAndUpdate(
+        credit.wallet,
+        [{ $set: { balance: { $max: [0, { $subtract: ['$balance', credit.remaining!] }] } } }],
+        { new: true }
+      );
+
+      const expiry = await WalletTransaction.create({
+        wallet: credit.wallet,
+        user: credit.user,
+        type: 'expiry',
+        direction: 'debit',
+        amount: credit.remaining,
+        balanceAfter: roundAmount(wallet!.balance),
+        description: `Promotional credit expired: ${credit.description}`,
+        expiredCredit: credit._id
+      });
+
+      await ledgerService.recordExpiry(expiry);
+      expired++;
+    }
+
+    return expired;
+  }
+
+  /**
+   * The wallet with credits that expired since the last expiry run taken out of
+   * its balance
+   */
+  private async getCurrentWallet(userId: Types.ObjectId | string): Promise<IWallet> {
+    const wallet = await this.getWallet(userId);
+
+    if (await this.expireCredits(new Date(), wallet._id) > 0) {
+      return this.getWallet(userId);
+    }
+
+    return wallet;
+  }
+
+  private async credit(userId: Types.ObjectId | string, request: CreditRequest): Promise<IWalletTransaction> {
+    const amount = roundAmount(request.amount);
+
+    if (amount <= 0) {
+      throw new AppError('Wallet credit must be positive', 400);
+    }
+
+    const wallet = await Wallet.findOneAndUpdate(
+      { user: userId },
+      { $inc: { balance: amount } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    return WalletTransaction.create({
+      wallet: wallet!._id,
+      user: userId,
+      type: request.type,
+      direction: 'credit',
+      amount,
+      balanceAfter: roundAmount(wallet!.balance),
+      description: request.description,
+      booking: request.booking,
+      remaining: amount,
+      expiresAt: request.expiresAt,
+      grantedBy: request.grantedBy
+    });
+  }
+
+  private async debit(
+    wallet: IWallet,
+    amount: number,
+    description: string,
+    booking: Types.ObjectId
+  ): Promise<IWalletTransaction> {
+    // Spent from the credits first, so what has lapsed or been spent meanwhile is never spent again
+    const spent = await this.spendCredits(wallet._id, amount);
+
+    // Taken only while the balance covers it, so concurrent payments cannot overdraw.
+    // Half a paisa of slack absorbs floating point drift in the stored balance.
+    const updated = await Wallet.findOneAndUpdate(
+      { _id: wallet._id, balance: { $gte: amount - 0.005 } },
+      { $inc: { balance: -amount } },
+      { new: true }
+    );
+
+    if (!updated) {
+      await this.restoreCredits(spent);
+      throw new AppError('Insufficient wallet balance', 400);
+    }
+
+    return WalletTransaction.create({
+      wallet: wallet._id,
+      user: wallet.user,
+      type: 'payment',
+      direction: 'debit',
+      amount,
+      balanceAfter: roundAmount(updated.balance),
+      description,
+      booking
+    });
+  }
+
+  /**
+   * Promotional credits go first, soonest to expire first, then refunds oldest
+   * first. Fails without spending anything when the credits do not cover the
+   * amount.
+   */
+  private async spendCredits(walletId: Types.ObjectId, amount: number): Promise<SpentCredit[]> {
+    const spent: SpentCredit[] = [];
+    let left = amount;
+
+    while (left > 0) {
+      const credit = await this.getNextCredit(walletId);
+      if (!credit) {
+        break;
+      }
+
+      const taken = roundAmount(Math.min(left, credit.remaining!));
+      // Only from the remainder read; if an expiry or payment got there first, the credit is read again
+      const result = await WalletTransaction.updateOne(
+        { _id: credit._id, remaining: credit.remaining },
+        { $set: { remaining: roundAmount(credit.remaining! - taken) } }
+      );
+
+      if (result.modifiedCount > 0) {
+        spent.push({ credit: credit._id, amount: taken });
+        left = roundAmount(left - taken);
+      }
+    }
+
+    if (left > 0) {
+      await this.restoreCredits(spent);
+      throw new AppError('Insufficient wallet balance', 400);
+    }
+
+    return spent;
+  }
+
+  private async getNextCredit(walletId: Types.ObjectId): Promise<IWalletTransaction | null> {
+    // Credits past their expiry are never spent, even before the expiry run gets to them
+    const credits = await WalletTransaction.find({
+      wallet: walletId,
+      remaining: { $gt: 0 },
+      expiresAt: { $not: { $lte: new Date() } }
+    }).sort({ createdAt: 1 });
+
+    credits.sort((a, b) => {
+      const aExpiry = a.expiresAt ? a.expiresAt.getTime() : Infinity;
+      const bExpiry = b.expiresAt ? b.expiresAt.getTime() : Infinity;
+      return aExpiry - bExpiry;
+    });
+
+    return credits[0] || null;
+  }
+
+  private async restoreCredits(spent: SpentCredit[]): Promise<void> {
+    for (const entry of spent) {
+      await WalletTransaction.updateOne({ _id: entry.credit }, { $inc: { remaining: entry.amount } });
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const walletService = new WalletService();
+export default walletService;
@@ -0,0 +1,210 @@
+import { Types } from 'mongoose';
+import Booking from '@/models/Booking.model';
+import Service from '@/models/Service.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import logger from '@/config/logger';
+import { AppError } from '@/utils/AppError';
+import { IBooking, IServiceProvider, IUser } from '@/types';
+import availabilityService from './availability.service';
+import bookingAssignmentService from './bookingAssignment.service';
+import pricingService from './pricing.service';
+
+export interface WarrantyClaimRequest {
+  issue: string;
+  scheduledDate: Date;
+}
+
+export interface WarrantyClaimRate {
+  id: Types.ObjectId;
+  name?: string;
+  coveredBookings: number; // completed with a warranty in the period
+  claims: number;
+  claimRate: number; // claims per covered booking, as a percentage
+}
+
+export interface WarrantyClaimRates {
+  byProvider: WarrantyClaimRate[];
+  byService: WarrantyClaimRate[];
+}
+
+// A re-visit that is still going ahead blocks another claim on the same job
+const OPEN_REVISIT_STATUSES = ['pending', 'confirmed', 'in-progress'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class WarrantyService {
+  /**
+   * Start the warranty clock when a job is completed. Re-visits do not extend
+   * the original warranty.
+   */
+  async recordCompletion(booking: IBooking): Promise<void> {
+    if (booking.warrantyClaim) {
+      return;
+    }
+
+    const service = await Service.findById(booking.service).select('warrantyDays');
+    if (!service?.warrantyDays) {
+      return;
+    }
+
+    const completedAt = booking.workSummary?.workEndTime || new Date();
+    booking.warrantyExpiresAt = new Date(completedAt.getTime() + service.warrantyDays * DAY_MS);
+
+    await Booking.updateOne({ _id: booking._id }, { $set: { warrantyExpiresAt: booking.warrantyExpiresAt } });
+  }
+
+  /**
+   * Book a free re-visit for a job still under warranty. The original provider
+   * is offered it first; if they are no longer taking work or are busy at that
+   * time, the next provider covering the area takes it, and a declined offer is
+   * passed on like any other booking.
+   */
+  async claim(booking: IBooking, customer: IUser, request: WarrantyClaimRequest): Promise<IBooking> {
+    if (booking.customer.toString() !== customer._id.toString()) {
+      throw new AppError('You can only claim warranty on your own bookings', 403);
+    }
+
+    if (booking.status !== 'completed') {
+      throw new AppError('Warranty can only be claimed on completed bookings', 400);
+    }
+
+    if (!booking.warrantyExpiresAt) {
+      throw new AppError('This booking is not covered by a warranty', 400);
+    }
+
+    if (booking.warrantyExpiresAt < new Date()) {
+      throw new AppError('The warranty for this booking has expired', 400);
+    }
+
+    if (request.scheduledDate <= new Date()) {
+      throw new AppError('Scheduled date must be in the future', 400);
+    }
+
+    const openRevisit = await Booking.exists({
+      'warrantyClaim.claimOf': booking._id,
+      status: { $in: OPEN_REVISIT_STATUSES }
+    });
+    if (openRevisit) {
+      throw new AppError('A warranty re-visit is already booked for this job', 409);
+    }
+
+    const candidates = await this.getCandidates(booking);
+
+    for (const provider of candidates) {
+      let revisit: IBooking;
+
+      try {
+        revisit = await availabilityService.reserveSlot(provider, request.scheduledDate, booking.estimatedDuration, () => Booking.create({
+          customer: booking.customer,
+          provider: provider._id,
+          service: booking.service,
+          scheduledDate: request.scheduledDate,
+          estimatedDuration: booking.estimatedDuration,
+          address: booking.address,
+          contactPhone: booking.contactPhone,
+          specialInstructions: `Warranty re-visit for booking ${booking.bookingNumber}: ${request.issue}`,
+          quantity: booking.quantity,
+          pricing: pricingService.buildPricing(0),
+          payment: {
+            status: 'paid',
+            paidAmount: 0
+          },
+          warrantyClaim: {
+            claimOf: booking._id,
+            originalProvider: booking.provider._id,
+            issue: request.issue,
+            claimedAt: new Date()
+          }
+        }), { address: booking.address });
+      } catch (error: any) {
+        // Busy at that time; try the next provider
+        if (error.statusCode === 409) {
+          continue;
+        }
+        throw error;
+      }
+
+      if (provider._id.toString() !== booking.provider._id.toString()) {
+        logger.info(`Warranty re-visit for booking ${booking.bookingNumber} assigned to provider ${provider._id}`);
+      }
+
+      return bookingAssignmentService.openOffer(revisit, provider);
+    }
+
+    throw new AppError('No provider is available for a re-visit at the selected time', 409);
+  }
+
+  /**
+   * Share of warranty-covered jobs that came back as claims, per provider and
+   * per service. Claims count against the provider who did the original job.
+   */
+  async getClaimRates(since: Date): Promise<WarrantyClaimRates> {
+    const covered = { status: 'completed', warrantyExpiresAt: { $exists: true }, createdAt: { $gte: since } };
+    const claimed = { 'warrantyClaim.claimOf': { $exists: true }, createdAt: { $gte: since } };
+
+    const [coveredByProvider, claimsByProvider, coveredByService, claimsByService] = await Promise.all([
+      Booking.aggregate([{ $match: covered }, { $group: { _id: '$provider', count: { $sum: 1 } } }]),
+      Booking.aggregate([{ $match: claimed }, { $group: { _id: '$warrantyClaim.originalProvider', count: { $sum: 1 } } }]),
+      Booking.aggregate([{ $match: covered }, { $group: { _id: '$service', count: { $sum: 1 } } }]),
+      Booking.aggregate([{ $match: claimed }, { $group: { _id: '$service', count: { $sum: 1 } } }])
+    ]);
+
+    const byProvider = this.toRates(coveredByProvider, claimsByProvider);
+    const byService = this.toRates(coveredByService, claimsByService);
+
+    const [providers, services] = await Promise.all([
+      ServiceProvider.find({ _id: { $in: byProvider.map(rate => rate.id) } }).populate('user', 'name'),
+      Service.find({ _id: { $in: byService.map(rate => rate.id) } }).select('name')
+    ]);
+
+    for (const rate of byProvider) {
+      const provider = providers.find(p => p._id.toString() === rate.id.toString());
+      rate.name = (provider?.user as IUser | undefined)?.name;
+    }
+
+    for (const rate of byService) {
+      rate.name = services.find(s => s._id.toString() === rate.id.toString())?.name;
+    }
+
+    return { byProvider, byService };
+  }
+
+  /**
+   * The original provider if they are still taking work, then everyone else
+   * covering the job's city
+   */
+  private async getCandidates(booking: IBooking): Promise<IServiceProvider[]> {
+    const original = await ServiceProvider.findById(booking.provider);
+    const others = await ServiceProvider.findByServiceAndLocation(
+      booking.service._id.toString(),
+      booking.address.city
+    );
+
+    const candidates = original && original.isAvailable && original.isVerified ? [original] : [];
+    return [
+      ...candidates,
+      ...others.filter(provider => provider._id.toString() !== booking.provider._id.toString())
+    ];
+  }
+
+  private toRates(
+    covered: { _id: Types.ObjectId; count: number }[],
+    claims: { _id: Types.ObjectId; count: number }[]
+  ): WarrantyClaimRate[] {
+    return covered
+      .map(group => {
+        const claimCount = claims.find(claim => claim._id?.toString() === group._id?.toString())?.count || 0;
+        return {
+          id: group._id,
+          coveredBookings: group.count,
+          claims: claimCount,
+          claimRate: Math.round(claimCount / group.count * 10000) / 100
+        };
+      })
+      .sort((a, b) => b.claimRate - a.claimRate);
+  }
+}
+
+// Create and export a singleton instance
+export const warrantyService = new WarrantyService();
+export default warrantyService;
@@ -18,6 +18,7 @@ jest.mock('@/config/redis', () => ({
     del: jest.fn(),
     exists: jest.fn(),
     expire: jest.fn(),
+    acquireLock: jest.fn(() => Promise.resolve(true)),
     incr: jest.fn(),
     hset: jest.fn(),
     hget: jest.fn(),
@@ -28,6 +28,8 @@ export interface IUser extends Document {
   phoneVerificationExpires?: Date;
   passwordResetToken?: string;
   passwordResetExpires?: Date;
+  calendarFeedToken?: string;
+  calendarFeedCreatedAt?: Date;
   lastLogin?: Date;
   loginAttempts: number;
   loginCount?: number;
@@ -45,6 +47,7 @@ export interface IUser extends Document {
   generatePasswordResetToken(): string;
   generateEmailVerificationToken(): string;
   generatePhoneVerificationToken(): string;
+  generateCalendarFeedToken(): string;
 }
 
 // Address Interface
@@ -85,6 +88,13 @@ export interface IServiceProvider extends Document {
   joinedDate: Date;
   lastActiveDate: Date;
   isAvailable: boolean;
+  autoAcceptBookings: boolean;
+  noShowCount: number;
+  reliabilityScore: number; // starts at 100, reduced by no-show penalties
+  bookingLock?: {
+    lockId: Types.ObjectId;
+    expiresAt: Date;
+  };
   createdAt: Date;
   updatedAt: Date;
   
@@ -143,6 +153,10 @@ export interface IService extends Document {
   longDescription?: string;
   basePrice: number;
   priceUnit: 'fixed' | 'hourly' | 'square_foot' | 'per_item';
+  minimumCharge?: number; // lowest base amount, whatever the quantity
+  minimumQuantity?: number; // fewest units billed
+  priceTiers?: IPriceTier[]; // graduated per-unit rates; basePrice per unit when empty
+  warrantyDays: number; // free re-visit period after completion; 0 for no warranty
   duration: number; // in minutes
   tags: string[];
   requirements: string[];
@@ -160,12 +174,17 @@ export interface IService extends Document {
   updateRating(newRating: number): Promise<any>;
 }
 
+export interface IPriceTier {
+  upTo?: number; // last unit billed at this rate; open-ended when unset
+  rate: number;
+}
+
 // Booking Types
 export interface IBooking extends Document {
   _id: Types.ObjectId;
   bookingNumber: string;
   customer: Types.ObjectId | IUser;
-  provider: Types.ObjectId | IServiceProvider;
+  provider: Types.ObjectId | IServiceProvider; // unset while a broadcast dispatch is open
   service: Types.ObjectId | IService;
   scheduledDate: Date;
   estimatedDuration: number; // in minutes
@@ -173,31 +192,171 @@ export interface IBooking extends Document {
   address: IAddress;
   contactPhone: string;
   specialInstructions?: string;
+  quantity?: IBookingQuantity; // what the customer asked for on non-fixed services
   status: 'pending' | 'confirmed' | 'in-progress' | 'completed' | 'cancelled' | 'no-show';
   statusHistory: IStatusChange[];
+  rescheduleRequests: IRescheduleRequest[];
   pricing: IPricing;
+  pricingHistory: IPricingRevision[];
+  quotes: IQuote[];
   payment: IPaymentInfo;
   workSummary?: IWorkSummary;
-  cancelledBy?: 'customer' | 'provider' | 'admin';
+  jobCodes?: IJobCodes;
+  noShow?: INoShow;
+  reminders?: IBookingReminders;
+  cancelledBy?: 'customer' | 'provider' | 'admin' | 'system';
   cancellationReason?: string;
   cancellationDate?: Date;
   refundAmount?: number;
+  acceptance?: IBookingAcceptance;
+  offerHistory: IProviderOffer[];
+  dispatch?: IBookingDispatch;
+  series?: Types.ObjectId | IBookingSeries;
+  occurrenceIndex?: number;
+  order?: Types.ObjectId | IOrder;
+  crew: ICrewMember[]; // empty for single-provider bookings
+  bookingType: 'standard' | 'urgent';
+  urgency?: IBookingUrgency; // set on urgent bookings
+  redoOf?: Types.ObjectId | IBooking; // set on free redo bookings granted by a dispute
+  warrantyExpiresAt?: Date; // set on completion when the service carries a warranty
+  warrantyClaim?: IWarrantyClaim; // set on free warranty re-visits
+  amcContract?: Types.ObjectId | IAmcContract; // set on visits under a maintenance contract
+  amcVisitIndex?: number;
+  jobPost?: Types.ObjectId | IJobPost; // set on bookings made by accepting a bid
+  settledAt?: Date; // set once the provider's share is moved into settlements
   createdAt: Date;
   updatedAt: Date;
   
   // Instance methods
-  updateStatus(newStatus: string, changedBy: string, reason?: string, comments?: string): Promise<IBooking>;
+  updateStatus(
+    newStatus: string,
+    changedBy: string | null,
+    reason?: string,
+    comments?: string,
+    event?: IStatusChange['event']
+  ): Promise<IBooking>;
   calculateRefundAmount(): number;
+  calculateRescheduleFee(): number;
   addWorkSummary(workSummary: Partial<IWorkSummary>): Promise<IBooking>;
   updatePaymentStatus(status: string, transactionId?: string, method?: string, amount?: number): Promise<IBooking>;
 }
 
+export interface IBookingQuantity {
+  squareFeet?: number;
+  items?: number;
+  hours?: number;
+}
+
 export interface IStatusChange {
   status: string;
-  changedBy: Types.ObjectId;
+  changedBy?: Types.ObjectId; // unset for automated changes
   changedAt: Date;
   reason?: string;
   comments?: string;
+  event?: 'reschedule' | 'start_verified' | 'completion_verified' | 'transfer';
+  fromProvider?: Types.ObjectId; // set on transfers
+  toProvider?: Types.ObjectId;
+}
+
+// When each time-based notification went out, so none is sent twice
+export interface IBookingReminders {
+  dayBeforeSentAt?: Date;
+  hourBeforeSentAt?: Date;
+  providerNudgedAt?: Date;
+  reviewRequestedAt?: Date;
+}
+
+export interface INoShow {
+  party: 'customer' | 'provider' | 'undetermined'; // who failed to turn up
+  detectedAt: Date;
+  detectedBy: 'system' | 'customer' | 'provider' | 'admin';
+  reportedBy?: Types.ObjectId;
+  reportedAt?: Date;
+  evidence: string[];
+  notes?: string;
+  customerFee: number;
+  providerPenaltyPoints: number;
+}
+
+// Codes the customer reads out to the provider at the door and at handover
+export interface IJobCodes {
+  start: IJobCode;
+  end: IJobCode;
+}
+
+export interface IJobCode {
+  code: string;
+  attempts: number;
+  lockedUntil?: Date;
+  verifiedAt?: Date;
+}
+
+export interface IBookingAcceptance {
+  deadline?: Date;
+  respondedAt?: Date;
+  autoAccepted: boolean;
+}
+
+export interface IBookingUrgency {
+  responseDeadline: Date; // a provider must accept by then or the booking is cancelled
+  respondedAt?: Date;
+  slaMet?: boolean;
+}
+
+export interface IProviderOffer {
+  provider: Types.ObjectId;
+  offeredAt: Date;
+  expiresAt?: Date;
+  outcome: 'pending' | 'accepted' | 'auto_accepted' | 'declined' | 'expired' | 'withdrawn';
+  respondedAt?: Date;
+  reason?: string;
+}
+
+export interface ICrewMember {
+  provider: Types.ObjectId | IServiceProvider;
+  role: 'lead' | 'helper';
+  sharePercent: number; // share of the job's earnings
+  checkedInAt?: Date;
+  earnings?: number; // set when the job completes
+}
+
+export interface IBookingDispatch {
+  mode: 'sequential' | 'broadcast';
+  requestedAt: Date;
+  candidates: IDispatchCandidate[];
+  assignments: IDispatchAssignment[];
+}
+
+export interface IDispatchCandidate {
+  provider: Types.ObjectId;
+  rank: number;
+  score: number;
+  rating: number;
+  completionRate: number;
+  activeBookings: number;
+  distanceKm?: number;
+}
+
+export interface IDispatchAssignment {
+  provider: Types.ObjectId;
+  assignedAt: Date;
+  reason: string;
+}
+
+export interface IRescheduleRequest {
+  _id: Types.ObjectId;
+  proposedBy: Types.ObjectId;
+  proposedByRole: 'customer' | 'provider' | 'admin';
+  previousDate: Date;
+  proposedDate: Date;
+  reason?: string;
+  fee: number;
+  status: 'pending' | 'accepted' | 'declined';
+  respondedBy?: Types.ObjectId;
+  respondedAt?: Date;
+  responseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface IPricing {
@@ -207,6 +366,45 @@ export interface IPricing {
   discountType?: 'percentage' | 'fixed';
   taxAmount: number;
   totalAmount: number;
+  version?: number;
+}
+
+export interface IPricingRevision {
+  version: number;
+  baseAmount: number;
+  additionalCharges: IAdditionalCharge[];
+  discount?: number;
+  discountType?: 'percentage' | 'fixed';
+  taxAmount: number;
+  totalAmount: number;
+  supersededAt: Date;
+  supersededBy: Types.ObjectId;
+  reason?: string;
+  quote?: Types.ObjectId;
+}
+
+export interface IQuote {
+  _id: Types.ObjectId;
+  lineItems: IQuoteLineItem[];
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  notes?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'superseded';
+  submittedBy: Types.ObjectId;
+  respondedBy?: Types.ObjectId;
+  respondedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IQuoteLineItem {
+  type: 'labour' | 'materials' | 'other';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
 }
 
 export interface IAdditionalCharge {
@@ -215,15 +413,22 @@ export interface IAdditionalCharge {
   description?: string;
 }
 
+export type PaymentGatewayName = 'razorpay' | 'stripe';
+
 export interface IPaymentInfo {
   status: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
-  method?: 'razorpay' | 'stripe' | 'cash' | 'upi';
+  method?: 'razorpay' | 'stripe' | 'cash' | 'upi' | 'wallet';
+  gateway?: PaymentGatewayName; // set when a gateway order is opened
+  gatewayOrderId?: string;
   transactionId?: string;
   paidAmount: number;
   paidAt?: Date;
   refundTransactionId?: string;
+  refundTransactionIds?: string[]; // every gateway refund counted in refundAmount
   refundAmount?: number;
   refundedAt?: Date;
+  walletAmount?: number; // part of paidAmount taken from the customer's wallet
+  walletRefundAmount?: number; // part of refundAmount credited to the customer's wallet
 }
 
 export interface IWorkSummary {
@@ -236,6 +441,104 @@ export interface IWorkSummary {
   additionalNotes?: string;
 }
 
+export interface IWarrantyClaim {
+  claimOf: Types.ObjectId | IBooking; // the completed booking under warranty
+  originalProvider: Types.ObjectId | IServiceProvider;
+  issue: string;
+  claimedAt: Date;
+}
+
+// Booking Series Types
+export interface IBookingSeries extends Document {
+  _id: Types.ObjectId;
+  seriesNumber: string;
+  customer: Types.ObjectId | IUser;
+  provider: Types.ObjectId | IServiceProvider;
+  service: Types.ObjectId | IService;
+  recurrence: IRecurrenceRule;
+  estimatedDuration: number; // in minutes
+  address: IAddress;
+  contactPhone: string;
+  specialInstructions?: string;
+  status: 'active' | 'completed' | 'cancelled';
+  exceptions: ISeriesException[];
+  nextOccurrenceIndex: number;
+  materializedUntil?: Date;
+  cancelledBy?: 'customer' | 'provider' | 'admin';
+  cancellationReason?: string;
+  cancellationDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  getOccurrenceDate(index: number): Date;
+  hasEnded(index: number): boolean;
+  getException(index: number): ISeriesException | undefined;
+}
+
+export interface IRecurrenceRule {
+  frequency: 'weekly' | 'biweekly' | 'monthly';
+  startDate: Date;
+  until?: Date;
+  count?: number;
+}
+
+export interface ISeriesException {
+  occurrenceIndex: number;
+  action: 'skip' | 'reschedule';
+  rescheduledTo?: Date;
+  reason?: string;
+  createdAt: Date;
+}
+
+// Order Types (several bookings checked out and paid together)
+export interface IOrder extends Document {
+  _id: Types.ObjectId;
+  orderNumber: string;
+  customer: Types.ObjectId | IUser;
+  lines: IOrderLine[];
+  coupon?: IOrderCoupon;
+  pricing: IOrderPricing;
+  payment: IOrderPayment;
+  status: 'pending' | 'paid' | 'cancelled';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IOrderLine {
+  booking: Types.ObjectId | IBooking;
+  service: Types.ObjectId | IService;
+  provider: Types.ObjectId | IServiceProvider;
+  scheduledDate: Date;
+  subtotal: number; // before the order discount and tax
+  discount: number; // this line's share of the order discount
+  totalAmount: number;
+}
+
+export interface IOrderCoupon {
+  coupon: Types.ObjectId | ICoupon;
+  code: string;
+  type: 'percentage' | 'fixed';
+  value: number;
+}
+
+export interface IOrderPricing {
+  subtotal: number;
+  discount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+export interface IOrderPayment {
+  status: 'pending' | 'paid' | 'failed';
+  gateway?: PaymentGatewayName;
+  gatewayOrderId?: string;
+  transactionId?: string;
+  method?: string;
+  paidAmount: number;
+  paidAt?: Date;
+}
+
 // Review Types
 export interface IReview extends Document {
   _id: Types.ObjectId;
@@ -276,14 +579,14 @@ export interface IReview extends Document {
 export interface INotification extends Document {
   _id: Types.ObjectId;
   recipient: Types.ObjectId;
-  type: 'booking' | 'payment' | 'review' | 'system' | 'promotion';
+  type: 'booking' | 'payment' | 'review' | 'system' | 'promotion' | 'provider';
   title: string;
   message: string;
   data?: any;
-  channels: ('push' | 'email' | 'sms')[];
-  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+  channels: ('in_app' | 'push' | 'email' | 'sms')[];
+  status: 'pending' | 'scheduled' | 'sent' | 'delivered' | 'read' | 'failed';
   priority: 'low' | 'normal' | 'high' | 'urgent';
-  scheduledAt?: Date;
+  scheduledFor?: Date;
   sentAt?: Date;
   deliveredAt?: Date;
   readAt?: Date;
@@ -292,6 +595,285 @@ export interface INotification extends Document {
   updatedAt: Date;
 }
 
+// AMC Types (annual maintenance contracts)
+export interface IAmcPlan extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  service: Types.ObjectId | IService;
+  visits: number; // included over the term
+  termMonths: number;
+  price: number; // before GST
+  maxInstalments: number; // 1 for upfront payment only
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IAmcContract extends Document {
+  _id: Types.ObjectId;
+  contractNumber: string;
+  plan: Types.ObjectId | IAmcPlan;
+  customer: Types.ObjectId | IUser;
+  service: Types.ObjectId | IService;
+  provider: Types.ObjectId | IServiceProvider; // assigned to every visit when free
+  address: IAddress;
+  contactPhone: string;
+  preferredTime: string; // HH:MM, the time visits are booked for
+  startDate: Date;
+  endDate: Date;
+  visits: IAmcVisit[];
+  pricing: IAmcPricing;
+  instalments: IAmcInstalment[];
+  status: 'pending_payment' | 'active' | 'expired' | 'cancelled';
+  renewalOf?: Types.ObjectId | IAmcContract;
+  renewedBy?: Types.ObjectId | IAmcContract;
+  renewalReminderSentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IAmcVisit {
+  index: number; // 1-based
+  dueDate: Date;
+  status: 'upcoming' | 'booked' | 'completed' | 'missed';
+  booking?: Types.ObjectId | IBooking;
+}
+
+export interface IAmcPricing {
+  amount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+export interface IAmcInstalment {
+  index: number; // 1-based
+  amount: number;
+  dueDate: Date;
+  status: 'pending' | 'paid';
+  gateway?: PaymentGatewayName;
+  gatewayOrderId?: string;
+  transactionId?: string;
+  paidAt?: Date;
+}
+
+// Job Post Types (custom work customers put out to bid)
+export interface IJobPost extends Document {
+  _id: Types.ObjectId;
+  postNumber: string;
+  customer: Types.ObjectId | IUser;
+  service: Types.ObjectId | IService; // the kind of work; decides which providers can bid
+  title: string;
+  description: string;
+  images: string[];
+  budget: IJobPostBudget;
+  preferredDates: Date[];
+  address: IAddress;
+  contactPhone: string;
+  status: 'open' | 'awarded' | 'cancelled';
+  expiresAt: Date; // no bids are taken or accepted after this
+  bidCount: number; // pending and accepted bids
+  acceptedBid?: Types.ObjectId | IJobBid;
+  booking?: Types.ObjectId | IBooking;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IJobPostBudget {
+  min?: number;
+  max: number;
+}
+
+export interface IJobBid extends Document {
+  _id: Types.ObjectId;
+  jobPost: Types.ObjectId | IJobPost;
+  provider: Types.ObjectId | IServiceProvider;
+  amount: number; // before GST, becomes the booking's base amount
+  proposedDate: Date; // when the provider can start
+  estimatedDuration: number; // in minutes
+  message?: string;
+  status: 'pending' | 'accepted' | 'rejected' | 'withdrawn';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Dispute Types
+export type DisputeCategory = 'quality' | 'damage' | 'overcharge' | 'no_show';
+export type DisputeOutcome = 'full_refund' | 'partial_refund' | 'redo' | 'provider_penalty' | 'rejected';
+
+export interface IDispute extends Document {
+  _id: Types.ObjectId;
+  disputeNumber: string;
+  booking: Types.ObjectId | IBooking;
+  customer: Types.ObjectId | IUser;
+  provider: Types.ObjectId | IServiceProvider;
+  category: DisputeCategory;
+  description: string;
+  evidence: IDisputeEvidence[];
+  messages: IDisputeMessage[];
+  status: 'open' | 'under_review' | 'resolving' | 'resolved' | 'withdrawn';
+  sla: IDisputeSla;
+  resolution?: IDisputeResolution;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IDisputeEvidence {
+  url: string;
+  publicId?: string; // Cloudinary public ID, for uploaded files
+  uploadedBy: Types.ObjectId;
+  uploadedAt: Date;
+}
+
+export interface IDisputeMessage {
+  _id: Types.ObjectId;
+  author: Types.ObjectId;
+  authorRole: 'customer' | 'provider' | 'admin';
+  body: string;
+  attachments: string[];
+  createdAt: Date;
+}
+
+export interface IDisputeSla {
+  responseDueAt: Date; // the provider's first reply
+  resolutionDueAt: Date;
+  providerRespondedAt?: Date;
+  escalatedAt?: Date;
+  resolutionBreachedAt?: Date;
+}
+
+export interface IDisputeResolution {
+  outcome: DisputeOutcome;
+  refundAmount: number;
+  penaltyPoints: number;
+  redoBooking?: Types.ObjectId | IBooking;
+  notes?: string;
+  resolvedBy: Types.ObjectId;
+  resolvedAt: Date;
+}
+
+// Settlement Types (provider payouts)
+export type SettlementStatus = 'pending' | 'held' | 'in_payout' | 'paid' | 'reversed';
+export type PayoutStatus = 'pending' | 'processing' | 'paid' | 'failed';
+
+export interface ISettlement extends Document {
+  _id: Types.ObjectId;
+  booking: Types.ObjectId | IBooking;
+  provider: Types.ObjectId | IServiceProvider;
+  role: 'provider' | 'lead' | 'helper';
+  sharePercent: number; // of the booking, 100 unless the job was done by a crew
+  completedAt: Date;
+  amounts: ISettlementAmounts;
+  status: SettlementStatus;
+  holdReason?: 'dispute' | 'refund' | 'instalment';
+  payout?: Types.ObjectId | IPayout;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ISettlementAmounts {
+  collected: number; // what the customer paid for this share, less refunds
+  gst: number; // GST on the service, remitted by the platform
+  taxable: number;
+  commission: number;
+  commissionGst: number;
+  tds: number;
+  net: number; // what the provider is paid
+}
+
+export interface IPayoutRun extends Document {
+  _id: Types.ObjectId;
+  runNumber: string;
+  periodStart: Date;
+  periodEnd: Date; // jobs completed before this are settled in the run
+  status: 'processing' | 'completed';
+  totals: ISettlementAmounts;
+  payoutCount: number;
+  heldAmount: number;
+  startedBy?: Types.ObjectId | IUser; // unset for the scheduled run
+  lockedBy?: string; // the caller working on the run, until lockedUntil
+  lockedUntil?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPayout extends Document {
+  _id: Types.ObjectId;
+  payoutNumber: string;
+  run: Types.ObjectId | IPayoutRun;
+  provider: Types.ObjectId | IServiceProvider;
+  settlements: Types.ObjectId[];
+  statement: ISettlementAmounts;
+  amount: number;
+  status: PayoutStatus;
+  adapter: string;
+  reference?: string; // the adapter's transfer ID
+  attempts: number;
+  failureReason?: string;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Ledger Types (double-entry journal of every money movement)
+export type LedgerAccount =
+  'cash' | 'customer' | 'wallet' | 'provider' | 'platform_revenue' | 'gst_payable' | 'tds_payable' | 'refunds' | 'promotions';
+export type JournalEntryType = 'capture' | 'refund' | 'commission' | 'payout' | 'promotion' | 'expiry';
+
+export interface IJournalEntry extends Document {
+  _id: Types.ObjectId;
+  entryNumber: string;
+  key: string; // one entry per money movement, e.g. capture:<payment ID>
+  type: JournalEntryType;
+  description: string;
+  reference: {
+    model: 'Booking' | 'Order' | 'AmcContract' | 'Settlement' | 'Payout' | 'WalletTransaction';
+    id: Types.ObjectId;
+  };
+  lines: IJournalLine[];
+  postedAt: Date;
+  createdAt: Date;
+}
+
+export interface IJournalLine {
+  account: LedgerAccount;
+  party?: Types.ObjectId; // the customer (user) or provider the line belongs to
+  debit: number;
+  credit: number;
+}
+
+// Wallet Types (customer credit from refunds and promotions)
+export type WalletTransactionType = 'refund' | 'promotion' | 'payment' | 'expiry';
+
+export interface IWallet extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId | IUser;
+  balance: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IWalletTransaction extends Document {
+  _id: Types.ObjectId;
+  transactionNumber: string;
+  wallet: Types.ObjectId | IWallet;
+  user: Types.ObjectId | IUser;
+  type: WalletTransactionType;
+  direction: 'credit' | 'debit';
+  amount: number;
+  balanceAfter: number;
+  description: string;
+  booking?: Types.ObjectId | IBooking;
+  remaining?: number; // credits only: the part not yet spent or expired
+  expiresAt?: Date; // promotional credits only
+  expiredCredit?: Types.ObjectId | IWalletTransaction; // the credit an expiry removed
+  grantedBy?: Types.ObjectId | IUser;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Chat Types
 export interface IChat extends Document {
   _id: Types.ObjectId;
@@ -351,6 +933,22 @@ export interface ICoupon extends Document {
   updatedAt: Date;
 }
 
+export interface IPricingRule extends Document {
+  _id: Types.ObjectId;
+  name: string; // shown to customers as the charge name
+  kind: 'time_of_day' | 'same_day' | 'demand';
+  multiplier: number;
+  city?: string; // every city when unset
+  category?: string; // every category when unset
+  startTime?: string; // HH:MM, time_of_day rules only
+  endTime?: string;
+  minDemandRatio?: number; // open bookings per available provider, demand rules only
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Analytics Types
 export interface IAnalytics {
   totalUsers: number;
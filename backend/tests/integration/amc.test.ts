@@ -0,0 +1,213 @@
+import app from '@/server';
+import AmcContract from '@/models/AmcContract.model';
+import AmcPlan from '@/models/AmcPlan.model';
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import amcService from '@/services/amc.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Maintenance contracts', () => {
+  let customerAuth: any;
+  let adminAuth: any;
+  let provider: any;
+  let service: any;
+  let plan: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const address = {
+    street: '123 Test Street',
+    city: 'Test City',
+    state: 'Test State',
+    pincode: '123456'
+  };
+
+  const purchase = (overrides: any = {}) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/amc/contracts')
+    .send({
+      planId: plan._id.toString(),
+      address,
+      contactPhone: '9876543210',
+      preferredTime: '10:00',
+      ...overrides
+    });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    service = await DatabaseHelpers.createService(provider._id, { duration: 60, basePrice: 1000 } as any);
+
+    await ServiceProvider.findByIdAndUpdate(provider._id, {
+      services: [service._id],
+      isVerified: true,
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      },
+      serviceArea: { cities: ['Test City'], maxDistance: 25 }
+    });
+
+    plan = await AmcPlan.create({
+      name: 'AC Care Annual',
+      service: service._id,
+      visits: 4,
+      termMonths: 12,
+      price: 4000,
+      maxInstalments: 4,
+      createdBy: adminAuth.user._id
+    });
+  });
+
+  describe('POST /api/v1/amc/plans', () => {
+    it('should let an admin create a plan', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .post('/api/v1/amc/plans')
+        .send({ serviceId: service._id.toString(), name: 'Quarterly Clean', visits: 4, price: 3000 })
+        .expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      expect(response.body.data.plan.termMonths).toBe(12);
+    });
+
+    it('should not let customers create plans', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/amc/plans')
+        .send({ serviceId: service._id.toString(), name: 'Quarterly Clean', visits: 4, price: 3000 })
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/v1/amc/contracts', () => {
+    it('should spread visits and instalments over the term', async () => {
+      const response = await purchase({ instalments: 4 }).expect(201);
+
+      const { contract } = response.body.data;
+      expect(contract.status).toBe('pending_payment');
+      expect(contract.visits).toHaveLength(4);
+      expect(contract.instalments).toHaveLength(4);
+      expect(contract.pricing.totalAmount).toBe(4720);
+
+      const total = contract.instalments.reduce((sum: number, instalment: any) => sum + instalment.amount, 0);
+      expect(total).toBe(4720);
+      expect(contract.provider).toBe(provider._id.toString());
+    });
+
+    it('should reject more instalments than the plan allows', async () => {
+      await purchase({ instalments: 6 }).expect(400);
+    });
+  });
+
+  describe('recordPayment', () => {
+    it('should activate the contract and book the first visit', async () => {
+      const response = await purchase().expect(201);
+      const contract = await AmcContract.findById(response.body.data.contract.id);
+
+      const updated = await amcService.recordPayment(contract!, 1, 'pay_test_1');
+
+      expect(updated.status).toBe('active');
+      expect(updated.visits[0]!.status).toBe('booked');
+
+      const booking = await Booking.findById(updated.visits[0]!.booking);
+      expect(booking!.pricing.totalAmount).toBe(0);
+      expect(booking!.amcVisitIndex).toBe(1);
+    });
+
+    it('should apply the same payment only once', async () => {
+      const response = await purchase().expect(201);
+      const contract = await AmcContract.findById(response.body.data.contract.id);
+
+      await amcService.recordPayment(contract!, 1, 'pay_test_1');
+      await amcService.recordPayment(contract!, 1, 'pay_test_1');
+
+      expect(await Booking.countDocuments({ amcContract: contract!._id })).toBe(1);
+    });
+  });
+
+  describe('GET /api/v1/amc/contracts/:id', () => {
+    it('should return a visit to the entitlement when its booking is cancelled', async () => {
+      const response = await purchase().expect(201);
+      const contract = await AmcContract.findById(response.body.data.contract.id);
+      const active = await amcService.recordPayment(contract!, 1, 'pay_test_1');
+
+      await Booking.updateOne({ _id: active.visits[0]!.booking }, { status: 'cancelled' });
+
+      const detail = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get(`/api/v1/amc/contracts/${contract!._id}`)
+        .expect(200);
+
+      expect(detail.body.data.entitlement).toEqual({ included: 4, completed: 0, booked: 0, missed: 0, remaining: 4 });
+    });
+
+    it('should not show a contract to other customers', async () => {
+      const response = await purchase().expect(201);
+      const other = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+
+      await ApiHelpers.authenticatedRequest(app, other.token)
+        .get(`/api/v1/amc/contracts/${response.body.data.contract.id}`)
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/v1/amc/contracts/:id/visits', () => {
+    const bookVisit = (contractId: string, scheduledDate: Date) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+      .post(`/api/v1/amc/contracts/${contractId}/visits`)
+      .send({ scheduledDate: scheduledDate.toISOString() });
+
+    it('should reject visits in the past or without enough notice', async () => {
+      const response = await purchase().expect(201);
+      const contract = await AmcContract.findById(response.body.data.contract.id);
+      await amcService.recordPayment(contract!, 1, 'pay_test_1');
+
+      await bookVisit(contract!._id.toString(), new Date(Date.now() - 60 * 60 * 1000)).expect(400);
+      await bookVisit(contract!._id.toString(), new Date(Date.now() + 2 * 60 * 60 * 1000)).expect(400);
+
+      expect(await Booking.countDocuments({ amcContract: contract!._id })).toBe(1);
+    });
+
+    it('should not book a visit someone else has already booked', async () => {
+      const response = await purchase().expect(201);
+      const contract = await AmcContract.findById(response.body.data.contract.id);
+      await amcService.recordPayment(contract!, 1, 'pay_test_1');
+
+      // Both read the contract before either booked
+      const first = (await AmcContract.findById(contract!._id))!;
+      const second = (await AmcContract.findById(contract!._id))!;
+
+      await amcService.bookVisit(first, new Date(Date.now() + 3 * 24 * 60 * 60 * 1000));
+      await amcService.bookVisit(second, new Date(Date.now() + 4 * 24 * 60 * 60 * 1000));
+
+      const bookings = await Booking.find({ amcContract: contract!._id }).sort({ amcVisitIndex: 1 });
+      expect(bookings.map(booking => booking.amcVisitIndex)).toEqual([1, 2, 3]);
+
+      const updated = await AmcContract.findById(contract!._id);
+      expect(updated!.visits.map(visit => visit.booking?.toString()))
+        .toEqual([...bookings.map(booking => booking._id.toString()), undefined]);
+    });
+  });
+
+  describe('POST /api/v1/amc/contracts/:id/renew', () => {
+    it('should start the renewal when the current contract ends, only once', async () => {
+      const response = await purchase().expect(201);
+      const contract = await AmcContract.findById(response.body.data.contract.id);
+      await amcService.recordPayment(contract!, 1, 'pay_test_1');
+
+      const renewal = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/amc/contracts/${contract!._id}/renew`)
+        .expect(201);
+
+      expect(new Date(renewal.body.data.contract.startDate).getTime())
+        .toBe(new Date(response.body.data.contract.endDate).getTime());
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/amc/contracts/${contract!._id}/renew`)
+        .expect(409);
+    });
+  });
+});
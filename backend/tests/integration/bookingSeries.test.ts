@@ -0,0 +1,170 @@
+import request from 'supertest';
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import bookingSeriesService from '@/services/bookingSeries.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Booking Series API', () => {
+  let customerAuth: any;
+  let providerAuth: any;
+  let testProvider: any;
+  let testService: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const inDays = (days: number) => {
+    const date = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    date.setHours(10, 0, 0, 0);
+    return date;
+  };
+
+  const seriesData = (overrides: any = {}) => ({
+    providerId: testProvider._id.toString(),
+    serviceId: testService._id.toString(),
+    startDate: inDays(1).toISOString(),
+    frequency: 'weekly',
+    count: 6,
+    address: {
+      street: '123 Test Street',
+      city: 'Test City',
+      state: 'Test State',
+      pincode: '123456'
+    },
+    contactPhone: '9876543210',
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    providerAuth = await AuthHelpers.createAuthenticatedProvider();
+    testProvider = providerAuth.provider;
+    testService = await DatabaseHelpers.createService(testProvider._id, { duration: 60 });
+
+    await ServiceProvider.findByIdAndUpdate(testProvider._id, {
+      services: [testService._id],
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      }
+    });
+  });
+
+  describe('POST /api/v1/booking-series', () => {
+    it('should create a series and materialize occurrences inside the horizon', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/booking-series')
+        .send(seriesData())
+        .expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      const { series, occurrences } = response.body.data;
+      expect(series.status).toBe('active');
+      expect(occurrences.length).toBeGreaterThan(0);
+      occurrences.forEach((occurrence: any, i: number) => {
+        expect(occurrence.bookingNumber).toBe(`${series.seriesNumber}-${String(i + 1).padStart(3, '0')}`);
+      });
+    });
+
+    it('should require either an end date or a count', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/booking-series')
+        .send(seriesData({ count: undefined }))
+        .expect(400);
+    });
+
+    it('should fail without authentication', async () => {
+      await request(app)
+        .post('/api/v1/booking-series')
+        .send(seriesData())
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/v1/booking-series/:id/occurrences/:index/skip', () => {
+    it('should cancel the occurrence booking and keep the rest', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/booking-series')
+        .send(seriesData())
+        .expect(201);
+      const seriesId = created.body.data.series.id;
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/booking-series/${seriesId}/occurrences/2/skip`)
+        .send({ reason: 'Out of town' })
+        .expect(200);
+
+      expect(response.body.data.booking.status).toBe('cancelled');
+      const remaining = await Booking.countDocuments({ series: seriesId, status: 'pending' });
+      expect(remaining).toBe(created.body.data.occurrences.length - 1);
+    });
+  });
+
+  describe('PUT /api/v1/booking-series/:id/occurrences/:index/reschedule', () => {
+    it('should move a single occurrence', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/booking-series')
+        .send(seriesData())
+        .expect(201);
+      const seriesId = created.body.data.series.id;
+      const newDate = inDays(2);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .put(`/api/v1/booking-series/${seriesId}/occurrences/1/reschedule`)
+        .send({ scheduledDate: newDate.toISOString() })
+        .expect(200);
+
+      expect(new Date(response.body.data.booking.scheduledDate).getTime()).toBe(newDate.getTime());
+    });
+  });
+
+  describe('DELETE /api/v1/booking-series/:id', () => {
+    it('should cancel the series and all upcoming occurrences', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/booking-series')
+        .send(seriesData())
+        .expect(201);
+      const seriesId = created.body.data.series.id;
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .delete(`/api/v1/booking-series/${seriesId}`)
+        .expect(200);
+
+      expect(response.body.data.series.status).toBe('cancelled');
+      expect(response.body.data.cancelledOccurrences).toBe(created.body.data.occurrences.length);
+    });
+
+    it('should not allow other customers to cancel the series', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/booking-series')
+        .send(seriesData())
+        .expect(201);
+      const otherCustomer = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+
+      await ApiHelpers.authenticatedRequest(app, otherCustomer.token)
+        .delete(`/api/v1/booking-series/${created.body.data.series.id}`)
+        .expect(403);
+    });
+  });
+
+  describe('Materialization job', () => {
+    it('should not duplicate occurrences when run repeatedly', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/booking-series')
+        .send(seriesData({ count: 2 }))
+        .expect(201);
+
+      await bookingSeriesService.materializeDueSeries();
+      await bookingSeriesService.materializeDueSeries();
+
+      const occurrences = await Booking.countDocuments({ series: created.body.data.series.id });
+      expect(occurrences).toBe(2);
+    });
+  });
+});
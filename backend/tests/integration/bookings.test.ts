@@ -1,6 +1,9 @@
 import request from 'supertest';
 import app from '@/server';
 import { Booking } from '@/models/Booking';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import noShowService from '@/services/noShow.service';
+import crewService from '@/services/crew.service';
 import { 
   TestDataFactory, 
   DatabaseHelpers, 
@@ -127,6 +130,40 @@ describe('Bookings API', () => {
 
       expect(response.body.data.totalAmount).toBe(testService.price * 2);
     });
+
+    it('should reject a booking that overlaps an existing one', async () => {
+      const bookingData = TestDataFactory.createBookingData({
+        serviceId: testService._id,
+        providerId: testProvider._id
+      });
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData)
+        .expect(201);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData)
+        .expect(409);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should accept only one of two concurrent requests for the same slot', async () => {
+      const bookingData = TestDataFactory.createBookingData({
+        serviceId: testService._id,
+        providerId: testProvider._id
+      });
+
+      const responses = await Promise.all([
+        ApiHelpers.authenticatedRequest(app, customerAuth.token).post('/api/v1/bookings').send(bookingData),
+        ApiHelpers.authenticatedRequest(app, customerAuth.token).post('/api/v1/bookings').send(bookingData)
+      ]);
+
+      const statuses = responses.map(response => response.status).sort();
+      expect(statuses).toEqual([201, 409]);
+    });
   });
 
   describe('GET /api/v1/bookings', () => {
@@ -311,21 +348,81 @@ describe('Bookings API', () => {
       expect(response.body.data.status).toBe('cancelled');
     });
 
-    it('should complete booking as provider', async () => {
+    it('should complete booking as provider with the customer\'s codes', async () => {
       // First confirm the booking
       await ApiHelpers.authenticatedRequest(app, providerAuth.token)
         .put(`/api/v1/bookings/${testBooking._id}/status`)
         .send({ status: 'confirmed' })
         .expect(200);
 
+      const startCodes = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get(`/api/v1/bookings/${testBooking._id}/job-codes`)
+        .expect(200);
+      expect(startCodes.body.data.endCode).toBeUndefined();
+
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/start`)
+        .send({ code: startCodes.body.data.startCode })
+        .expect(200);
+
+      const endCodes = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get(`/api/v1/bookings/${testBooking._id}/job-codes`)
+        .expect(200);
+
       // Then mark as completed
       const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/complete`)
+        .send({ code: endCodes.body.data.endCode })
+        .expect(200);
+
+      expect(response.body.data.booking.status).toBe('completed');
+      expect(response.body.data.booking.workEndTime).toBeDefined();
+
+      const booking = await Booking.findById(testBooking._id);
+      const events = booking!.statusHistory.map(entry => entry.event).filter(Boolean);
+      expect(events).toEqual(['start_verified', 'completion_verified']);
+    });
+
+    it('should not let the provider start a job without a code', async () => {
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/status`)
+        .send({ status: 'confirmed' })
+        .expect(200);
+
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/status`)
+        .send({ status: 'in-progress' })
+        .expect(400);
+    });
+
+    it('should lock the start code after too many wrong attempts', async () => {
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
         .put(`/api/v1/bookings/${testBooking._id}/status`)
-        .send({ status: 'completed' })
+        .send({ status: 'confirmed' })
         .expect(200);
 
-      expect(response.body.data.status).toBe('completed');
-      expect(response.body.data.completedAt).toBeDefined();
+      const codes = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get(`/api/v1/bookings/${testBooking._id}/job-codes`)
+        .expect(200);
+      const wrongCode = codes.body.data.startCode === '000000' ? '111111' : '000000';
+
+      for (let attempt = 1; attempt < 5; attempt++) {
+        await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+          .post(`/api/v1/bookings/${testBooking._id}/start`)
+          .send({ code: wrongCode })
+          .expect(400);
+      }
+
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/start`)
+        .send({ code: wrongCode })
+        .expect(429);
+
+      // Even the right code is refused while locked
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/start`)
+        .send({ code: codes.body.data.startCode })
+        .expect(429);
     });
 
     it('should fail with invalid status transition', async () => {
@@ -460,6 +557,609 @@ describe('Bookings API', () => {
     });
   });
 
+  describe('POST /api/v1/bookings/:id/reschedule-requests', () => {
+    let testBooking: any;
+    const proposedDate = () => new Date(Date.now() + 3 * 86400000);
+
+    beforeEach(async () => {
+      testBooking = await DatabaseHelpers.createBooking({
+        customer: customerAuth.user._id,
+        service: testService._id,
+        provider: testProvider._id,
+        ...testBookings.confirmed
+      });
+    });
+
+    it('should let the customer propose and the provider accept a new time', async () => {
+      const newDate = proposedDate();
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/reschedule-requests`)
+        .send({ scheduledDate: newDate, reason: 'Guests visiting' })
+        .expect(201);
+
+      expect(created.body.data.rescheduleRequest.status).toBe('pending');
+
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/reschedule-requests/${created.body.data.rescheduleRequest._id}/accept`)
+        .expect(200);
+
+      ApiHelpers.expectSuccessResponse(response);
+      expect(response.body.data.booking.scheduledDate).toBe(newDate.toISOString());
+
+      const updated = await Booking.findById(testBooking._id);
+      const entry = updated!.statusHistory[updated!.statusHistory.length - 1];
+      expect(entry.event).toBe('reschedule');
+    });
+
+    it('should not let the proposer accept their own request', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/reschedule-requests`)
+        .send({ scheduledDate: proposedDate() })
+        .expect(201);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/reschedule-requests/${created.body.data.rescheduleRequest._id}/accept`)
+        .expect(403);
+    });
+
+    it('should keep the original time when declined', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/reschedule-requests`)
+        .send({ scheduledDate: proposedDate() })
+        .expect(201);
+
+      expect(created.body.data.rescheduleRequest.fee).toBe(0);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/reschedule-requests/${created.body.data.rescheduleRequest._id}/decline`)
+        .send({ reason: 'That day does not work' })
+        .expect(200);
+
+      const updated = await Booking.findById(testBooking._id);
+      expect(updated!.scheduledDate.getTime()).toBe(new Date(testBooking.scheduledDate).getTime());
+    });
+
+    it('should charge a late reschedule fee to the customer', async () => {
+      await Booking.findByIdAndUpdate(testBooking._id, { scheduledDate: new Date(Date.now() + 6 * 3600000) });
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/reschedule-requests`)
+        .send({ scheduledDate: proposedDate() })
+        .expect(201);
+
+      // Between 2 and 12 hours before service: 25% of the total
+      expect(response.body.data.rescheduleRequest.fee).toBe(Math.round(testBooking.pricing.totalAmount * 0.25));
+    });
+
+    it('should fail with past date', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/reschedule-requests`)
+        .send({ scheduledDate: new Date(Date.now() - 86400000) })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/v1/bookings/:id/quotes', () => {
+    let testBooking: any;
+    const lineItems = [
+      { type: 'labour', description: 'Rewire kitchen circuit', unitPrice: 800 },
+      { type: 'materials', description: '2.5mm copper wire', quantity: 2, unitPrice: 350 }
+    ];
+
+    beforeEach(async () => {
+      testBooking = await DatabaseHelpers.createBooking({
+        customer: customerAuth.user._id,
+        service: testService._id,
+        provider: testProvider._id,
+        ...testBookings.confirmed
+      });
+    });
+
+    it('should submit a quote as the provider', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/quotes`)
+        .send({ lineItems })
+        .expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      expect(response.body.data.quote.subtotal).toBe(1500);
+      expect(response.body.data.quote.taxAmount).toBe(270);
+      expect(response.body.data.quote.status).toBe('pending');
+    });
+
+    it('should not let the customer submit a quote', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/quotes`)
+        .send({ lineItems })
+        .expect(403);
+    });
+
+    it('should recompute and version pricing when the customer approves', async () => {
+      const submitted = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/quotes`)
+        .send({ lineItems })
+        .expect(201);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/quotes/${submitted.body.data.quote._id}/approve`)
+        .expect(200);
+
+      const { pricing } = response.body.data;
+      const taxable = testBooking.pricing.baseAmount + 1500;
+      expect(pricing.version).toBe(2);
+      expect(pricing.taxAmount).toBe(Math.round(taxable * 0.18));
+      expect(pricing.totalAmount).toBe(taxable + pricing.taxAmount);
+
+      const updated = await Booking.findById(testBooking._id);
+      expect(updated!.pricingHistory).toHaveLength(1);
+      expect(updated!.workSummary!.materialsUsed).toContain('2.5mm copper wire');
+    });
+
+    it('should leave pricing untouched when the customer rejects', async () => {
+      const submitted = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/quotes`)
+        .send({ lineItems })
+        .expect(201);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/quotes/${submitted.body.data.quote._id}/reject`)
+        .send({ reason: 'Too expensive' })
+        .expect(200);
+
+      const updated = await Booking.findById(testBooking._id);
+      expect(updated!.pricing.totalAmount).toBe(testBooking.pricing.totalAmount);
+      expect(updated!.pricingHistory).toHaveLength(0);
+    });
+  });
+
+  describe('Provider acceptance', () => {
+    const bookingData = () => TestDataFactory.createBookingData({
+      serviceId: testService._id,
+      providerId: testProvider._id,
+      customerId: customerAuth.user._id
+    });
+
+    it('should open an acceptance window for new bookings', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData())
+        .expect(201);
+
+      const booking = await Booking.findById(response.body.data.booking.id);
+      expect(booking!.status).toBe('pending');
+      expect(booking!.acceptance!.deadline).toBeDefined();
+      expect(booking!.offerHistory[0].outcome).toBe('pending');
+    });
+
+    it('should confirm immediately when the provider auto-accepts', async () => {
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put('/api/v1/providers/settings')
+        .send({ autoAcceptBookings: true })
+        .expect(200);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData())
+        .expect(201);
+
+      const booking = await Booking.findById(response.body.data.booking.id);
+      expect(booking!.status).toBe('confirmed');
+      expect(booking!.acceptance!.autoAccepted).toBe(true);
+    });
+
+    it('should cancel the booking when the provider declines and nobody else is available', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData())
+        .expect(201);
+
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put(`/api/v1/bookings/${created.body.data.booking.id}/decline`)
+        .send({ reason: 'Fully booked' })
+        .expect(200);
+
+      expect(response.body.data.booking.status).toBe('cancelled');
+      expect(response.body.data.booking.reassigned).toBe(false);
+
+      const booking = await Booking.findById(created.body.data.booking.id);
+      expect(booking!.cancelledBy).toBe('system');
+      expect(booking!.offerHistory[0].outcome).toBe('declined');
+    });
+
+    it('should reject a late acceptance', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData())
+        .expect(201);
+      await Booking.findByIdAndUpdate(created.body.data.booking.id, {
+        'acceptance.deadline': new Date(Date.now() - 60000)
+      });
+
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put(`/api/v1/bookings/${created.body.data.booking.id}/status`)
+        .send({ status: 'confirmed' })
+        .expect(409);
+
+      const booking = await Booking.findById(created.body.data.booking.id);
+      expect(booking!.offerHistory[0].outcome).toBe('expired');
+    });
+  });
+
+  describe('POST /api/v1/bookings/:id/no-show', () => {
+    let testBooking: any;
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600000);
+
+    beforeEach(async () => {
+      testBooking = await DatabaseHelpers.createBooking({
+        customer: customerAuth.user._id,
+        service: testService._id,
+        provider: testProvider._id,
+        ...testBookings.confirmed
+      });
+      await Booking.updateOne({ _id: testBooking._id }, { scheduledDate: hoursAgo(2) });
+    });
+
+    it('should penalise the provider and refund the customer in full', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/no-show`)
+        .send({ evidence: ['https://example.com/call-log.png'], notes: 'Nobody came' })
+        .expect(200);
+
+      expect(response.body.data.booking.status).toBe('no-show');
+      expect(response.body.data.booking.noShow.party).toBe('provider');
+
+      const provider = await ServiceProvider.findById(testProvider._id);
+      expect(provider!.noShowCount).toBe(1);
+      expect(provider!.reliabilityScore).toBe(90);
+    });
+
+    it('should charge the customer a fee when the provider reports them', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/no-show`)
+        .send({ notes: 'Door locked, phone off' })
+        .expect(200);
+
+      const { noShow } = response.body.data.booking;
+      expect(noShow.party).toBe('customer');
+      expect(noShow.customerFee).toBe(Math.round(testBooking.pricing.totalAmount * 0.25));
+    });
+
+    it('should not accept a second report', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/no-show`)
+        .expect(200);
+
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/no-show`)
+        .expect(409);
+    });
+
+    it('should not let the customer report before the grace period ends', async () => {
+      await Booking.updateOne({ _id: testBooking._id }, { scheduledDate: new Date(Date.now() - 5 * 60000) });
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/bookings/${testBooking._id}/no-show`)
+        .expect(400);
+    });
+
+    it('should flag overdue bookings from the sweeper without penalties', async () => {
+      const flagged = await noShowService.flagOverdueBookings();
+      expect(flagged).toBe(1);
+
+      const booking = await Booking.findById(testBooking._id);
+      expect(booking!.status).toBe('no-show');
+      expect(booking!.noShow!.party).toBe('undetermined');
+      expect(booking!.noShow!.detectedBy).toBe('system');
+    });
+  });
+
+  describe('Automatic dispatch', () => {
+    let otherProviderAuth: any;
+    const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+    const schedule = {
+      monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+      friday: [allDay], saturday: [allDay], sunday: [allDay]
+    };
+
+    const dispatchData = (overrides: any = {}) => {
+      const data: any = TestDataFactory.createBookingData({
+        serviceId: testService._id,
+        customerId: customerAuth.user._id
+      });
+      delete data.providerId;
+      return { ...data, ...overrides };
+    };
+
+    beforeEach(async () => {
+      otherProviderAuth = await AuthHelpers.createAuthenticatedProvider();
+      const eligible = {
+        services: [testService._id],
+        isVerified: true,
+        isAvailable: true,
+        availability: schedule,
+        serviceArea: { cities: ['Test City'], maxDistance: 25 }
+      };
+
+      await ServiceProvider.findByIdAndUpdate(testProvider._id, { ...eligible, rating: 4.9 });
+      await ServiceProvider.findByIdAndUpdate(otherProviderAuth.provider._id, { ...eligible, rating: 3.5 });
+    });
+
+    it('should offer the booking to the best-ranked provider first', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(dispatchData())
+        .expect(201);
+
+      const booking = await Booking.findById(response.body.data.booking.id);
+      expect(booking!.provider.toString()).toBe(testProvider._id.toString());
+      expect(booking!.dispatch!.mode).toBe('sequential');
+      expect(booking!.dispatch!.candidates).toHaveLength(2);
+      expect(booking!.dispatch!.assignments[0].reason).toBe('Highest-ranked available provider');
+    });
+
+    it('should give a broadcast booking to the first provider who accepts', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(dispatchData({ dispatchMode: 'broadcast' }))
+        .expect(201);
+      const bookingId = created.body.data.booking.id;
+
+      const offers = await ApiHelpers.authenticatedRequest(app, otherProviderAuth.token)
+        .get('/api/v1/bookings/offers')
+        .expect(200);
+      expect(offers.body.data.bookings).toHaveLength(1);
+
+      await ApiHelpers.authenticatedRequest(app, otherProviderAuth.token)
+        .put(`/api/v1/bookings/${bookingId}/accept`)
+        .expect(200);
+
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put(`/api/v1/bookings/${bookingId}/accept`)
+        .expect(400);
+
+      const booking = await Booking.findById(bookingId);
+      expect(booking!.status).toBe('confirmed');
+      expect(booking!.provider.toString()).toBe(otherProviderAuth.provider._id.toString());
+      expect(booking!.offerHistory.map(offer => offer.outcome).sort()).toEqual(['accepted', 'withdrawn']);
+    });
+
+    it('should fail when no provider covers the city', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(dispatchData({ address: { ...testBookings.pending.address, city: 'Elsewhere' } }))
+        .expect(409);
+    });
+  });
+
+  describe('PUT /api/v1/bookings/:id/transfer', () => {
+    let otherProviderAuth: any;
+    let testBooking: any;
+    const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+
+    beforeEach(async () => {
+      otherProviderAuth = await AuthHelpers.createAuthenticatedProvider();
+      await ServiceProvider.findByIdAndUpdate(otherProviderAuth.provider._id, {
+        services: [testService._id],
+        isVerified: true,
+        isAvailable: true,
+        totalBookings: 0,
+        availability: {
+          monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+          friday: [allDay], saturday: [allDay], sunday: [allDay]
+        },
+        serviceArea: { cities: ['Test City'], maxDistance: 25 }
+      });
+      await ServiceProvider.findByIdAndUpdate(testProvider._id, { totalBookings: 3 });
+
+      testBooking = await DatabaseHelpers.createBooking({
+        customer: customerAuth.user._id,
+        service: testService._id,
+        provider: testProvider._id,
+        ...testBookings.confirmed
+      });
+      await Booking.updateOne({ _id: testBooking._id }, { 'payment.status': 'paid', 'payment.paidAmount': 1180 });
+    });
+
+    it('should move the booking and keep its number, pricing and payment', async () => {
+      await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/transfer`)
+        .send({ providerId: otherProviderAuth.provider._id, reason: 'Provider is unwell' })
+        .expect(200);
+
+      const booking = await Booking.findById(testBooking._id);
+      expect(booking!.provider.toString()).toBe(otherProviderAuth.provider._id.toString());
+      expect(booking!.bookingNumber).toBe(testBooking.bookingNumber);
+      expect(booking!.status).toBe('confirmed');
+      expect(booking!.payment.paidAmount).toBe(1180);
+      expect(booking!.pricing.totalAmount).toBe(testBooking.pricing.totalAmount);
+
+      const transfer = booking!.statusHistory[booking!.statusHistory.length - 1]!;
+      expect(transfer.event).toBe('transfer');
+      expect(transfer.fromProvider!.toString()).toBe(testProvider._id.toString());
+      expect(transfer.toProvider!.toString()).toBe(otherProviderAuth.provider._id.toString());
+
+      expect((await ServiceProvider.findById(testProvider._id))!.totalBookings).toBe(2);
+      expect((await ServiceProvider.findById(otherProviderAuth.provider._id))!.totalBookings).toBe(1);
+    });
+
+    it('should let the assigned provider hand the booking over', async () => {
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/transfer`)
+        .send({ providerId: otherProviderAuth.provider._id, reason: 'Family emergency' })
+        .expect(200);
+    });
+
+    it('should not let another provider take the booking', async () => {
+      await ApiHelpers.authenticatedRequest(app, otherProviderAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/transfer`)
+        .send({ providerId: otherProviderAuth.provider._id, reason: 'I am free' })
+        .expect(403);
+    });
+
+    it('should reject a provider who does not offer the service', async () => {
+      await ServiceProvider.findByIdAndUpdate(otherProviderAuth.provider._id, { services: [] });
+
+      await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .put(`/api/v1/bookings/${testBooking._id}/transfer`)
+        .send({ providerId: otherProviderAuth.provider._id, reason: 'Provider is unwell' })
+        .expect(400);
+    });
+  });
+
+  describe('Crew bookings', () => {
+    let helperAuth: any;
+    const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+    const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    const makeBookable = (providerId: any) => ServiceProvider.findByIdAndUpdate(providerId, {
+      services: [testService._id],
+      isVerified: true,
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      },
+      serviceArea: { cities: ['Test City'], maxDistance: 25 }
+    });
+
+    const crewBookingData = (overrides: any = {}) => ({
+      providerId: testProvider._id.toString(),
+      serviceId: testService._id.toString(),
+      scheduledDate: inHours(48).toISOString(),
+      address: {
+        street: '123 Test Street',
+        city: 'Test City',
+        state: 'Test State',
+        pincode: '123456'
+      },
+      contactPhone: '9876543210',
+      crew: [{ providerId: helperAuth.provider._id.toString(), sharePercent: 30 }],
+      ...overrides
+    });
+
+    const createCrewBooking = (overrides: any = {}) => Booking.create({
+      customer: customerAuth.user._id,
+      provider: testProvider._id,
+      service: testService._id,
+      scheduledDate: inHours(48),
+      estimatedDuration: 120,
+      status: 'confirmed',
+      address: crewBookingData().address,
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'paid', paidAmount: 1180 },
+      crew: [
+        { provider: testProvider._id, role: 'lead', sharePercent: 70 },
+        { provider: helperAuth.provider._id, role: 'helper', sharePercent: 30 }
+      ],
+      ...overrides
+    });
+
+    beforeEach(async () => {
+      helperAuth = await AuthHelpers.createAuthenticatedProvider();
+      await makeBookable(testProvider._id);
+      await makeBookable(helperAuth.provider._id);
+    });
+
+    it('should create a booking with the lead and helpers on the crew', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(crewBookingData())
+        .expect(201);
+
+      const { crew } = response.body.data.booking;
+      expect(crew).toHaveLength(2);
+      expect(crew[0].role).toBe('lead');
+      expect(crew[0].sharePercent).toBe(70);
+      expect(crew[1].role).toBe('helper');
+      expect(crew[1].sharePercent).toBe(30);
+    });
+
+    it('should reject the crew when a helper is already booked at that time', async () => {
+      await Booking.create({
+        customer: customerAuth.user._id,
+        provider: helperAuth.provider._id,
+        service: testService._id,
+        scheduledDate: inHours(48),
+        estimatedDuration: 120,
+        address: crewBookingData().address,
+        contactPhone: '9876543210',
+        pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+        payment: { status: 'pending', paidAmount: 0 }
+      });
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(crewBookingData())
+        .expect(409);
+
+      expect(await Booking.countDocuments({ provider: testProvider._id })).toBe(0);
+    });
+
+    it('should block the helper\'s slot for other bookings', async () => {
+      await createCrewBooking();
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(crewBookingData({ providerId: helperAuth.provider._id.toString(), crew: undefined }))
+        .expect(409);
+    });
+
+    it('should let each member check in once', async () => {
+      const booking = await createCrewBooking({ scheduledDate: inHours(0.5) });
+
+      await ApiHelpers.authenticatedRequest(app, helperAuth.token)
+        .post(`/api/v1/bookings/${booking._id}/crew/check-in`)
+        .expect(200);
+
+      await ApiHelpers.authenticatedRequest(app, helperAuth.token)
+        .post(`/api/v1/bookings/${booking._id}/crew/check-in`)
+        .expect(409);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.crew[1]!.checkedInAt).toBeDefined();
+      expect(updated!.crew[0]!.checkedInAt).toBeUndefined();
+    });
+
+    it('should not open check-in long before the start', async () => {
+      const booking = await createCrewBooking();
+
+      await ApiHelpers.authenticatedRequest(app, helperAuth.token)
+        .post(`/api/v1/bookings/${booking._id}/crew/check-in`)
+        .expect(400);
+    });
+
+    it('should split the earnings by share on completion', async () => {
+      const booking = await createCrewBooking({ status: 'completed' });
+
+      await crewService.recordCompletion(booking);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.crew[0]!.earnings).toBe(826);
+      expect(updated!.crew[1]!.earnings).toBe(354);
+      expect((await ServiceProvider.findById(helperAuth.provider._id))!.completedBookings).toBe(1);
+    });
+
+    it('should show the job in the helper\'s schedule with their role', async () => {
+      await createCrewBooking();
+
+      const response = await ApiHelpers.authenticatedRequest(app, helperAuth.token)
+        .get('/api/v1/providers/dashboard/bookings')
+        .expect(200);
+
+      expect(response.body.data.bookings).toHaveLength(1);
+      expect(response.body.data.bookings[0].crewRole).toBe('helper');
+    });
+
+    it('should let a helper view the booking', async () => {
+      const booking = await createCrewBooking();
+
+      await ApiHelpers.authenticatedRequest(app, helperAuth.token)
+        .get(`/api/v1/bookings/${booking._id}`)
+        .expect(200);
+    });
+  });
+
   describe('GET /api/v1/bookings/statistics', () => {
     beforeEach(async () => {
       // Create bookings with different statuses
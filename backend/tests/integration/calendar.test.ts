@@ -0,0 +1,111 @@
+import request from 'supertest';
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+import { testBookings } from '../fixtures/testData';
+
+describe('Calendar API', () => {
+  let customerAuth: any;
+  let providerAuth: any;
+  let testService: any;
+  let testBooking: any;
+
+  const feedPath = (url: string) => new URL(url).pathname;
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    providerAuth = await AuthHelpers.createAuthenticatedProvider();
+    testService = await DatabaseHelpers.createService(providerAuth.provider._id, { duration: 60 });
+    testBooking = await DatabaseHelpers.createBooking({
+      customer: customerAuth.user._id,
+      service: testService._id,
+      provider: providerAuth.provider._id,
+      ...testBookings.confirmed
+    });
+  });
+
+  describe('GET /api/v1/bookings/:id/calendar.ics', () => {
+    it('should download the booking as an event', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get(`/api/v1/bookings/${testBooking._id}/calendar.ics`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/text\/calendar/);
+      expect(response.text).toContain('BEGIN:VEVENT');
+      expect(response.text).toContain(`UID:${testBooking._id}@`);
+      expect(response.text).toContain('STATUS:CONFIRMED');
+    });
+
+    it('should not let other customers download the booking', async () => {
+      const otherCustomer = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+
+      await ApiHelpers.authenticatedRequest(app, otherCustomer.token)
+        .get(`/api/v1/bookings/${testBooking._id}/calendar.ics`)
+        .expect(403);
+    });
+  });
+
+  describe('Calendar feed', () => {
+    it('should serve the feed without logging in', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/calendar/feed')
+        .expect(201);
+
+      const response = await request(app)
+        .get(feedPath(created.body.data.url))
+        .expect(200);
+
+      expect(response.text).toContain('BEGIN:VCALENDAR');
+      expect(response.text).toContain(testBooking.bookingNumber);
+    });
+
+    it('should keep cancelled bookings as cancelled events', async () => {
+      await Booking.updateOne({ _id: testBooking._id }, { status: 'cancelled' });
+
+      const created = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/calendar/feed')
+        .expect(201);
+
+      const response = await request(app)
+        .get(feedPath(created.body.data.url))
+        .expect(200);
+
+      expect(response.text).toContain(`UID:${testBooking._id}@`);
+      expect(response.text).toContain('STATUS:CANCELLED');
+    });
+
+    it('should stop serving the feed once revoked', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .post('/api/v1/calendar/feed')
+        .expect(201);
+
+      await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .delete('/api/v1/calendar/feed')
+        .expect(200);
+
+      await request(app)
+        .get(feedPath(created.body.data.url))
+        .expect(404);
+    });
+
+    it('should invalidate the old URL when a new one is created', async () => {
+      const first = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/calendar/feed')
+        .expect(201);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/calendar/feed')
+        .expect(201);
+
+      await request(app)
+        .get(feedPath(first.body.data.url))
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import Dispute from '@/models/Dispute.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import disputeService from '@/services/dispute.service';
+import paymentService from '@/services/payment.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Disputes', () => {
+  let customerAuth: any;
+  let otherCustomerAuth: any;
+  let adminAuth: any;
+  let providerAuth: any;
+  let provider: any;
+  let service: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+  const address = {
+    street: '123 Test Street',
+    city: 'Test City',
+    state: 'Test State',
+    pincode: '123456'
+  };
+
+  // Bookings are created in the future and then moved to the state under test
+  const createBooking = async (overrides: any = {}) => {
+    const booking = await Booking.create({
+      customer: customerAuth.user._id,
+      provider: provider._id,
+      service: service._id,
+      scheduledDate: inHours(1),
+      estimatedDuration: 60,
+      address,
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'paid', paidAmount: 1180 }
+    });
+
+    await Booking.updateOne({ _id: booking._id }, {
+      status: 'completed',
+      'workSummary.workEndTime': new Date(),
+      ...overrides
+    });
+
+    return booking;
+  };
+
+  const raise = (booking: any, overrides: any = {}) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/disputes')
+    .send({
+      bookingId: booking._id.toString(),
+      category: 'quality',
+      description: 'The tap is still leaking after the repair',
+      ...overrides
+    });
+
+  const resolve = (dispute: any, resolution: any) => ApiHelpers.authenticatedRequest(app, adminAuth.token)
+    .post(`/api/v1/disputes/${dispute.id}/resolve`)
+    .send(resolution);
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    otherCustomerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    providerAuth = await AuthHelpers.createAuthenticatedProvider();
+    provider = providerAuth.provider;
+    service = await DatabaseHelpers.createService(provider._id, { duration: 60, basePrice: 1000 } as any);
+
+    await ServiceProvider.findByIdAndUpdate(provider._id, {
+      services: [service._id],
+      isVerified: true,
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      },
+      serviceArea: { cities: ['Test City'], maxDistance: 25 }
+    });
+  });
+
+  describe('POST /api/v1/disputes', () => {
+    it('should raise a dispute with SLA deadlines', async () => {
+      const booking = await createBooking();
+
+      const response = await raise(booking).expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      const { dispute } = response.body.data;
+      expect(dispute.disputeNumber).toMatch(/^DP/);
+      expect(dispute.status).toBe('open');
+      expect(new Date(dispute.sla.responseDueAt).getTime()).toBeGreaterThan(Date.now());
+      expect(new Date(dispute.sla.resolutionDueAt).getTime()).toBeGreaterThan(new Date(dispute.sla.responseDueAt).getTime());
+    });
+
+    it('should only allow one active dispute per booking', async () => {
+      const booking = await createBooking();
+
+      await raise(booking).expect(201);
+      await raise(booking, { category: 'damage' }).expect(409);
+    });
+
+    it('should reject disputes about bookings that have not happened', async () => {
+      const booking = await createBooking({ status: 'pending' });
+
+      await raise(booking).expect(400);
+    });
+
+    it('should reject disputes about other customers\' bookings', async () => {
+      const booking = await createBooking();
+
+      await ApiHelpers.authenticatedRequest(app, otherCustomerAuth.token)
+        .post('/api/v1/disputes')
+        .send({ bookingId: booking._id.toString(), category: 'quality', description: 'Not my booking at all' })
+        .expect(403);
+    });
+  });
+
+  describe('Conversation', () => {
+    it('should keep the thread and hide it from outsiders', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/disputes/${dispute.id}/messages`)
+        .send({ body: 'Photos of the leak are attached' })
+        .expect(201);
+
+      await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .post(`/api/v1/disputes/${dispute.id}/messages`)
+        .send({ body: 'We are looking into this' })
+        .expect(201);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get(`/api/v1/disputes/${dispute.id}`)
+        .expect(200);
+
+      expect(response.body.data.dispute.messages).toHaveLength(2);
+
+      await ApiHelpers.authenticatedRequest(app, otherCustomerAuth.token)
+        .get(`/api/v1/disputes/${dispute.id}`)
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/v1/disputes/:id/resolve', () => {
+    it('should refund part of the payment', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+      const refundBooking = jest.spyOn(paymentService, 'refundBooking').mockResolvedValueOnce({ amount: 500 });
+
+      const response = await resolve(dispute, { outcome: 'partial_refund', refundAmount: 500 }).expect(200);
+
+      expect(response.body.data.dispute.status).toBe('resolved');
+      expect(response.body.data.dispute.resolution.refundAmount).toBe(500);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.refundAmount).toBe(500);
+
+      refundBooking.mockRestore();
+    });
+
+    it('should record only what was actually refunded', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+      const refundBooking = jest.spyOn(paymentService, 'refundBooking').mockResolvedValueOnce({ amount: 300 });
+
+      const response = await resolve(dispute, { outcome: 'partial_refund', refundAmount: 500 }).expect(200);
+
+      expect(response.body.data.dispute.resolution.refundAmount).toBe(300);
+      expect((await Booking.findById(booking._id))!.refundAmount).toBe(300);
+
+      refundBooking.mockRestore();
+    });
+
+    it('should leave the dispute open when nothing was paid online', async () => {
+      const booking = await createBooking({ 'payment.method': 'cash' });
+      const { dispute } = (await raise(booking)).body.data;
+
+      await resolve(dispute, { outcome: 'partial_refund', refundAmount: 500 }).expect(400);
+
+      expect((await Dispute.findById(dispute.id))!.status).toBe('open');
+      expect((await Booking.findById(booking._id))!.refundAmount || 0).toBe(0);
+    });
+
+    it('should not let two admins resolve the same dispute', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+      const refundBooking = jest.spyOn(paymentService, 'refundBooking').mockResolvedValue({ amount: 500 });
+
+      // Both read the dispute before either resolved it
+      const first = (await Dispute.findById(dispute.id))!;
+      const second = (await Dispute.findById(dispute.id))!;
+
+      await disputeService.resolve(first, adminAuth.user, { outcome: 'partial_refund', refundAmount: 500 });
+      await expect(disputeService.resolve(second, adminAuth.user, { outcome: 'partial_refund', refundAmount: 500 }))
+        .rejects.toThrow('already being resolved');
+
+      expect(refundBooking).toHaveBeenCalledTimes(1);
+      expect((await Booking.findById(booking._id))!.refundAmount).toBe(500);
+
+      refundBooking.mockRestore();
+    });
+
+    it('should not refund more than was paid', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+
+      await resolve(dispute, { outcome: 'partial_refund', refundAmount: 5000 }).expect(400);
+    });
+
+    it('should book a free redo with the same provider', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+
+      const response = await resolve(dispute, { outcome: 'redo', scheduledDate: inHours(48).toISOString() }).expect(200);
+
+      const redo = await Booking.findById(response.body.data.dispute.resolution.redoBooking);
+      expect(redo!.redoOf!.toString()).toBe(booking._id.toString());
+      expect(redo!.provider.toString()).toBe(provider._id.toString());
+      expect(redo!.status).toBe('confirmed');
+      expect(redo!.pricing.totalAmount).toBe(0);
+    });
+
+    it('should not book a redo in the past', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+
+      await resolve(dispute, { outcome: 'redo', scheduledDate: inHours(-2).toISOString() }).expect(400);
+    });
+
+    it('should leave the dispute open when the refund fails', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+      const refundBooking = jest.spyOn(paymentService, 'refundBooking')
+        .mockRejectedValueOnce(new Error('Gateway unavailable'));
+
+      await resolve(dispute, { outcome: 'partial_refund', refundAmount: 500 }).expect(502);
+
+      expect((await Dispute.findById(dispute.id))!.status).toBe('open');
+      expect((await Booking.findById(booking._id))!.refundAmount || 0).toBe(0);
+
+      refundBooking.mockRestore();
+    });
+
+    it('should take reliability points from the provider', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking, { category: 'damage' })).body.data;
+
+      await resolve(dispute, { outcome: 'provider_penalty', penaltyPoints: 15 }).expect(200);
+
+      const updated = await ServiceProvider.findById(provider._id);
+      expect(updated!.reliabilityScore).toBe(85);
+    });
+
+    it('should only let admins resolve disputes', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/disputes/${dispute.id}/resolve`)
+        .send({ outcome: 'full_refund' })
+        .expect(403);
+    });
+  });
+
+  describe('enforceSlas', () => {
+    it('should escalate disputes the provider has not answered', async () => {
+      const booking = await createBooking();
+      const { dispute } = (await raise(booking)).body.data;
+
+      await Dispute.updateOne({ _id: dispute.id }, { 'sla.responseDueAt': inHours(-1) });
+
+      const sweep = await disputeService.enforceSlas();
+
+      expect(sweep.escalated).toBe(1);
+      const updated = await Dispute.findById(dispute.id);
+      expect(updated!.status).toBe('under_review');
+      expect(updated!.sla.escalatedAt).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import JobBid from '@/models/JobBid.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Job posts and bids', () => {
+  let customerAuth: any;
+  let service: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+  const address = {
+    street: '123 Test Street',
+    city: 'Test City',
+    state: 'Test State',
+    pincode: '123456'
+  };
+
+  // A provider who signs in as a provider user, offering the service in the given city
+  const createBidder = async (city = 'Test City') => {
+    const auth = await AuthHelpers.createAuthenticatedUser({ role: 'provider' });
+    const { provider } = await AuthHelpers.createAuthenticatedProvider();
+
+    await ServiceProvider.findByIdAndUpdate(provider._id, {
+      user: auth.user._id,
+      services: [service._id],
+      isVerified: true,
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      },
+      serviceArea: { cities: [city], maxDistance: 25 }
+    });
+
+    return { token: auth.token, provider };
+  };
+
+  const postJob = (overrides: any = {}) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/job-posts')
+    .send({
+      serviceId: service._id.toString(),
+      title: 'Build a wardrobe',
+      description: 'A three-door sliding wardrobe in the master bedroom, about 7ft tall',
+      budget: { min: 20000, max: 35000 },
+      preferredDates: [inHours(72).toISOString(), inHours(96).toISOString()],
+      address,
+      contactPhone: '9876543210',
+      ...overrides
+    });
+
+  const bid = (token: string, postId: string, overrides: any = {}) => ApiHelpers.authenticatedRequest(app, token)
+    .post(`/api/v1/job-posts/${postId}/bids`)
+    .send({
+      amount: 30000,
+      proposedDate: inHours(72).toISOString(),
+      estimatedDuration: 480,
+      message: 'Plywood with laminate finish, two days of work',
+      ...overrides
+    });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    const { provider } = await AuthHelpers.createAuthenticatedProvider();
+    service = await DatabaseHelpers.createService(provider._id, { duration: 60, basePrice: 0 } as any);
+  });
+
+  describe('POST /api/v1/job-posts', () => {
+    it('should open a post for bids', async () => {
+      const response = await postJob().expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      expect(response.body.data.jobPost.status).toBe('open');
+      expect(response.body.data.jobPost.budget).toEqual({ min: 20000, max: 35000 });
+    });
+
+    it('should reject a budget range that is the wrong way round', async () => {
+      await postJob({ budget: { min: 40000, max: 35000 } }).expect(400);
+    });
+  });
+
+  describe('GET /api/v1/job-posts', () => {
+    it('should only show providers the posts in their services and area', async () => {
+      await postJob().expect(201);
+      const local = await createBidder();
+      const distant = await createBidder('Other City');
+
+      const localList = await ApiHelpers.authenticatedRequest(app, local.token).get('/api/v1/job-posts').expect(200);
+      const distantList = await ApiHelpers.authenticatedRequest(app, distant.token).get('/api/v1/job-posts').expect(200);
+
+      expect(localList.body.data.jobPosts).toHaveLength(1);
+      expect(distantList.body.data.jobPosts).toHaveLength(0);
+    });
+  });
+
+  describe('POST /api/v1/job-posts/:id/bids', () => {
+    it('should take one live bid per provider', async () => {
+      const post = (await postJob().expect(201)).body.data.jobPost;
+      const bidder = await createBidder();
+
+      await bid(bidder.token, post.id).expect(201);
+      await bid(bidder.token, post.id, { amount: 28000 }).expect(409);
+    });
+
+    it('should not take bids from providers outside the area', async () => {
+      const post = (await postJob().expect(201)).body.data.jobPost;
+      const distant = await createBidder('Other City');
+
+      await bid(distant.token, post.id).expect(403);
+    });
+
+    it('should not take bids from unverified providers', async () => {
+      const post = (await postJob().expect(201)).body.data.jobPost;
+      const bidder = await createBidder();
+      await ServiceProvider.findByIdAndUpdate(bidder.provider._id, { isVerified: false });
+
+      await bid(bidder.token, post.id).expect(403);
+    });
+  });
+
+  describe('POST /api/v1/job-posts/:id/bids/:bidId/accept', () => {
+    it('should book the provider at the bid price and decline the other bids', async () => {
+      const post = (await postJob().expect(201)).body.data.jobPost;
+      const winner = await createBidder();
+      const other = await createBidder();
+
+      const winningBid = (await bid(winner.token, post.id).expect(201)).body.data.bid;
+      const otherBid = (await bid(other.token, post.id, { amount: 33000 }).expect(201)).body.data.bid;
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/job-posts/${post.id}/bids/${winningBid.id}/accept`)
+        .expect(201);
+
+      const booking = await Booking.findById(response.body.data.booking.id);
+      expect(booking!.status).toBe('confirmed');
+      expect(booking!.provider.toString()).toBe(winner.provider._id.toString());
+      expect(booking!.pricing.baseAmount).toBe(30000);
+      expect(booking!.pricing.totalAmount).toBe(35400);
+      expect(booking!.payment.status).toBe('pending');
+      expect(booking!.estimatedDuration).toBe(480);
+      expect(booking!.jobPost!.toString()).toBe(post.id);
+
+      expect(response.body.data.jobPost.status).toBe('awarded');
+      expect((await JobBid.findById(otherBid.id))!.status).toBe('rejected');
+    });
+
+    it('should not let the customer accept a second bid', async () => {
+      const post = (await postJob().expect(201)).body.data.jobPost;
+      const first = await createBidder();
+      const second = await createBidder();
+
+      const firstBid = (await bid(first.token, post.id).expect(201)).body.data.bid;
+      const secondBid = (await bid(second.token, post.id).expect(201)).body.data.bid;
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/job-posts/${post.id}/bids/${firstBid.id}/accept`)
+        .expect(201);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post(`/api/v1/job-posts/${post.id}/bids/${secondBid.id}/accept`)
+        .expect(400);
+    });
+  });
+});
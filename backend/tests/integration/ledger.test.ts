@@ -0,0 +1,265 @@
+import request from 'supertest';
+import { Types } from 'mongoose';
+import app from '@/server';
+import AmcContract from '@/models/AmcContract.model';
+import Booking from '@/models/Booking.model';
+import JournalEntry from '@/models/JournalEntry.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import amcService from '@/services/amc.service';
+import ledgerService from '@/services/ledger.service';
+import paymentService from '@/services/payment.service';
+import settlementService from '@/services/settlement.service';
+import fakePaymentGateway from '@/services/gateways/fake.gateway';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Ledger', () => {
+  let customerAuth: any;
+  let adminAuth: any;
+  let provider: any;
+  let service: any;
+  let booking: any;
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  // Pays for the booking through the fake gateway's checkout, as the customer would
+  const payForBooking = async () => {
+    const order = (await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+      .post('/api/v1/payments/create-order')
+      .send({ bookingId: booking._id.toString(), amount: 1180 })
+      .expect(200)).body.data;
+
+    const result = (await request(app)
+      .post(`/api/v1/payments/fake/orders/${order.orderId}/checkout`)
+      .send({})
+      .expect(200)).body.data;
+
+    await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+      .post('/api/v1/payments/verify')
+      .send({ bookingId: booking._id.toString(), ...result })
+      .expect(200);
+
+    return result.razorpay_payment_id as string;
+  };
+
+  const completeLastWeek = () => Booking.updateOne({ _id: booking._id }, {
+    status: 'completed',
+    'workSummary.workEndTime': daysAgo(10)
+  });
+
+  const balanceOf = async (account: string) => {
+    const trialBalance = await ledgerService.getTrialBalance();
+    return trialBalance.accounts.find(line => line.account === account)!.balance;
+  };
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+    fakePaymentGateway.reset();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    const providerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'provider' });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    service = await DatabaseHelpers.createService(provider._id);
+
+    await ServiceProvider.findByIdAndUpdate(provider._id, { user: providerAuth.user._id });
+
+    booking = await Booking.create({
+      customer: customerAuth.user._id,
+      provider: provider._id,
+      service: service._id,
+      scheduledDate: new Date(Date.now() + 48 * 60 * 60 * 1000),
+      estimatedDuration: 60,
+      status: 'pending',
+      address: {
+        street: '123 Test Street',
+        city: 'Test City',
+        state: 'Test State',
+        pincode: '123456'
+      },
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'pending', paidAmount: 0 }
+    });
+  });
+
+  describe('captures', () => {
+    it('should post a payment reported by both verify and webhook once', async () => {
+      const paymentId = await payForBooking();
+
+      const delivery = fakePaymentGateway.buildWebhook('payment.captured', paymentId);
+      await request(app)
+        .post('/api/v1/payments/webhook/razorpay')
+        .set(delivery.headers)
+        .send(delivery.body)
+        .expect(200);
+
+      const entries = await JournalEntry.find({ type: 'capture' });
+      expect(entries).toHaveLength(1);
+      expect(entries[0]!.key).toBe(`capture:${paymentId}`);
+      expect(entries[0]!.lines).toEqual([
+        expect.objectContaining({ account: 'cash', debit: 1180, credit: 0 }),
+        expect.objectContaining({ account: 'customer', debit: 0, credit: 1180 })
+      ]);
+      expect(entries[0]!.lines[1]!.party!.toString()).toBe(customerAuth.user._id.toString());
+    });
+  });
+
+  describe('refunds', () => {
+    it('should take a refund before settlement back from the customer\'s account', async () => {
+      await payForBooking();
+      const paid = (await Booking.findById(booking._id))!;
+
+      await paymentService.refundBooking(paid, 400, 'Part of the job was not done');
+      await paid.save();
+
+      expect(await balanceOf('customer')).toBe(780);
+      expect(await balanceOf('cash')).toBe(780);
+      expect(await balanceOf('refunds')).toBe(0);
+    });
+
+    it('should charge a refund after the payout to the platform', async () => {
+      await payForBooking();
+      await completeLastWeek();
+      await settlementService.runPayouts();
+
+      const paid = (await Booking.findById(booking._id))!;
+      await paymentService.refundBooking(paid, 200, 'Goodwill');
+      await paid.save();
+
+      expect(await balanceOf('refunds')).toBe(200);
+      expect(await balanceOf('customer')).toBe(0);
+    });
+  });
+
+  describe('settlement and payout', () => {
+    it('should split the payment between GST, commission, TDS and the provider, then pay the provider', async () => {
+      await payForBooking();
+      await completeLastWeek();
+      await settlementService.runPayouts();
+
+      const commission = await JournalEntry.findOne({ type: 'commission' });
+      expect(commission!.lines).toEqual([
+        expect.objectContaining({ account: 'customer', debit: 1180 }),
+        expect.objectContaining({ account: 'gst_payable', credit: 189 }),
+        expect.objectContaining({ account: 'platform_revenue', credit: 50 }),
+        expect.objectContaining({ account: 'tds_payable', credit: 10 }),
+        expect.objectContaining({ account: 'provider', credit: 931 })
+      ]);
+      expect(await JournalEntry.countDocuments({ type: 'payout' })).toBe(1);
+
+      const trialBalance = await ledgerService.getTrialBalance();
+      const balances = Object.fromEntries(trialBalance.accounts.map(line => [line.account, line.balance]));
+
+      expect(trialBalance.balanced).toBe(true);
+      expect(balances).toEqual({
+        cash: 249,
+        customer: 0,
+        wallet: 0,
+        provider: 0,
+        platform_revenue: 50,
+        gst_payable: 189,
+        tds_payable: 10,
+        refunds: 0,
+        promotions: 0
+      });
+    });
+  });
+
+  describe('maintenance contracts', () => {
+    it('should take each visit out of the customer\'s account as it is settled', async () => {
+      const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      const contract = await AmcContract.create({
+        plan: new Types.ObjectId(),
+        customer: customerAuth.user._id,
+        service: service._id,
+        provider: provider._id,
+        address: booking.address,
+        contactPhone: '9876543210',
+        preferredTime: '10:00',
+        startDate: daysAgo(30),
+        endDate: daysFromNow(335),
+        // Due later, so paying for the contract books nothing yet
+        visits: [1, 2, 3, 4].map(index => ({ index, dueDate: daysFromNow(100 * index), status: 'upcoming' })),
+        pricing: { amount: 4000, taxAmount: 720, totalAmount: 4720 },
+        instalments: [{ index: 1, amount: 4720, dueDate: daysAgo(30), status: 'pending' }]
+      });
+      await amcService.recordPayment(contract, 1, 'pay_amc_1');
+
+      await Booking.updateOne({ _id: booking._id }, {
+        amcContract: contract._id,
+        amcVisitIndex: 1,
+        pricing: { baseAmount: 0, additionalCharges: [], taxAmount: 0, totalAmount: 0 },
+        payment: { status: 'paid', paidAmount: 0 }
+      });
+      await completeLastWeek();
+      await settlementService.runPayouts();
+
+      const commission = await JournalEntry.findOne({ type: 'commission' });
+      expect(commission!.lines[0]).toEqual(expect.objectContaining({ account: 'customer', debit: 1180 }));
+
+      // Three visits are still to be settled
+      expect(await balanceOf('customer')).toBe(3540);
+      expect(await balanceOf('platform_revenue')).toBe(50);
+      expect((await ledgerService.getTrialBalance()).balanced).toBe(true);
+    });
+  });
+
+  describe('journal entries', () => {
+    it('should refuse an unbalanced entry', async () => {
+      await expect(ledgerService.post({
+        key: 'manual:1',
+        type: 'capture',
+        description: 'Unbalanced',
+        reference: { model: 'Booking', id: booking._id },
+        lines: [
+          { account: 'cash', debit: 100 },
+          { account: 'customer', party: customerAuth.user._id, credit: 90 }
+        ]
+      })).rejects.toThrow('Debits and credits must balance');
+    });
+
+    it('should not let a posted entry be changed or removed', async () => {
+      await payForBooking();
+      const entry = (await JournalEntry.findOne({ type: 'capture' }))!;
+
+      entry.description = 'Edited';
+      await expect(entry.save()).rejects.toThrow('cannot be changed');
+      await expect(JournalEntry.updateOne({ _id: entry._id }, { description: 'Edited' })).rejects.toThrow('cannot be changed');
+      await expect(JournalEntry.deleteOne({ _id: entry._id })).rejects.toThrow('cannot be changed');
+    });
+  });
+
+  describe('GET /api/v1/admin/finance/trial-balance', () => {
+    it('should report balanced totals to admins', async () => {
+      await payForBooking();
+
+      const response = await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .get('/api/v1/admin/finance/trial-balance')
+        .expect(200);
+
+      expect(response.body.data.trialBalance.balanced).toBe(true);
+      expect(response.body.data.trialBalance.totals).toEqual({ debit: 1180, credit: 1180 });
+    });
+
+    it('should leave out entries posted after the as-of date', async () => {
+      await payForBooking();
+
+      const response = await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .get('/api/v1/admin/finance/trial-balance')
+        .query({ asOf: daysAgo(1).toISOString() })
+        .expect(200);
+
+      expect(response.body.data.trialBalance.totals).toEqual({ debit: 0, credit: 0 });
+    });
+
+    it('should be for admins only', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get('/api/v1/admin/finance/trial-balance')
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import Coupon from '@/models/Coupon.model';
+import Order from '@/models/Order.model';
+import PricingRule from '@/models/PricingRule.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import orderService from '@/services/order.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Orders API', () => {
+  let customerAuth: any;
+  let adminAuth: any;
+  let plumber: any;
+  let electrician: any;
+  let plumbing: any;
+  let wiring: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const inDays = (days: number, hour: number = 10) => {
+    const date = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    date.setHours(hour, 0, 0, 0);
+    return date;
+  };
+
+  const makeAvailable = (providerId: any, serviceId: any) => ServiceProvider.findByIdAndUpdate(providerId, {
+    services: [serviceId],
+    isAvailable: true,
+    availability: {
+      monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+      friday: [allDay], saturday: [allDay], sunday: [allDay]
+    }
+  });
+
+  const orderData = (overrides: any = {}) => ({
+    items: [
+      { providerId: plumber._id.toString(), serviceId: plumbing._id.toString(), scheduledDate: inDays(1, 10).toISOString() },
+      { providerId: electrician._id.toString(), serviceId: wiring._id.toString(), scheduledDate: inDays(1, 14).toISOString() }
+    ],
+    address: {
+      street: '123 Test Street',
+      city: 'Test City',
+      state: 'Test State',
+      pincode: '123456'
+    },
+    contactPhone: '9876543210',
+    ...overrides
+  });
+
+  const createCoupon = (overrides: any = {}) => Coupon.create({
+    code: 'SAVE10',
+    title: '10% off',
+    type: 'percentage',
+    value: 10,
+    usageLimit: 5,
+    validFrom: inDays(-1),
+    validUntil: inDays(30),
+    createdBy: adminAuth.user._id,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    plumber = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    electrician = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    plumbing = await DatabaseHelpers.createService(plumber._id, { duration: 60, basePrice: 1000 } as any);
+    wiring = await DatabaseHelpers.createService(electrician._id, { duration: 60, basePrice: 3000 } as any);
+
+    await makeAvailable(plumber._id, plumbing._id);
+    await makeAvailable(electrician._id, wiring._id);
+  });
+
+  describe('POST /api/v1/orders', () => {
+    it('should create one booking per item under a single order', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/orders')
+        .send(orderData())
+        .expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      const { order, bookings } = response.body.data;
+      expect(order.lines).toHaveLength(2);
+      expect(bookings).toHaveLength(2);
+
+      const total = bookings.reduce((sum: number, booking: any) => sum + booking.pricing.totalAmount, 0);
+      expect(order.pricing.totalAmount).toBe(total);
+      expect(await Booking.countDocuments({ order: order.id })).toBe(2);
+    });
+
+    it('should split a coupon across items in proportion to their price', async () => {
+      await createCoupon();
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/orders')
+        .send(orderData({ couponCode: 'save10' }))
+        .expect(201);
+
+      const { order } = response.body.data;
+      expect(order.pricing.discount).toBe(400);
+      expect(order.lines.map((line: any) => line.discount).sort()).toEqual([100, 300]);
+      expect((await Coupon.findOne({ code: 'SAVE10' }))!.usedCount).toBe(1);
+    });
+
+    it('should split a coupon by what each item costs once surcharges apply', async () => {
+      await createCoupon();
+      await PricingRule.create({
+        name: 'Morning surcharge',
+        kind: 'time_of_day',
+        multiplier: 1.5,
+        startTime: '09:00',
+        endTime: '11:00',
+        createdBy: adminAuth.user._id
+      });
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/orders')
+        .send(orderData({ couponCode: 'SAVE10' }))
+        .expect(201);
+
+      const { order } = response.body.data;
+      expect(order.pricing.discount).toBe(450);
+      expect(order.lines.map((line: any) => line.discount).sort()).toEqual([150, 300]);
+    });
+
+    it('should reject items that overlap for the same provider', async () => {
+      const data = orderData();
+      data.items[1] = { ...data.items[0], scheduledDate: inDays(1, 10).toISOString() };
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/orders')
+        .send(data)
+        .expect(409);
+
+      expect(await Booking.countDocuments()).toBe(0);
+    });
+
+    it('should create nothing when one slot is already taken', async () => {
+      await Booking.create({
+        customer: customerAuth.user._id,
+        provider: electrician._id,
+        service: wiring._id,
+        scheduledDate: inDays(1, 14),
+        estimatedDuration: 60,
+        address: orderData().address,
+        contactPhone: '9876543210',
+        pricing: { baseAmount: 3000, additionalCharges: [], taxAmount: 540, totalAmount: 3540 },
+        payment: { status: 'pending', paidAmount: 0 }
+      });
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/orders')
+        .send(orderData())
+        .expect(409);
+
+      expect(await Order.countDocuments()).toBe(0);
+      expect(await Booking.countDocuments({ provider: plumber._id })).toBe(0);
+    });
+
+    it('should reject an expired coupon', async () => {
+      await createCoupon({ validFrom: inDays(-10), validUntil: inDays(-1) });
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/orders')
+        .send(orderData({ couponCode: 'SAVE10' }))
+        .expect(400);
+    });
+  });
+
+  describe('recordPayment', () => {
+    it('should split the captured amount across the bookings once', async () => {
+      const { order } = await orderService.checkout({
+        customer: customerAuth.user,
+        lines: orderData().items,
+        address: orderData().address,
+        contactPhone: '9876543210'
+      });
+
+      await orderService.recordPayment(order, 'pay_123', order.pricing.totalAmount);
+      await orderService.recordPayment(order, 'pay_123', order.pricing.totalAmount);
+
+      const bookings = await Booking.find({ order: order._id });
+      bookings.forEach(booking => {
+        expect(booking.payment.status).toBe('paid');
+        expect(booking.payment.paidAmount).toBe(booking.pricing.totalAmount);
+      });
+
+      const paid = await Order.findById(order._id);
+      expect(paid!.status).toBe('paid');
+      expect(paid!.payment.paidAmount).toBe(order.pricing.totalAmount);
+    });
+  });
+
+  describe('GET /api/v1/orders/:id', () => {
+    it('should not show another customer\'s order', async () => {
+      const { order } = await orderService.checkout({
+        customer: customerAuth.user,
+        lines: orderData().items,
+        address: orderData().address,
+        contactPhone: '9876543210'
+      });
+      const otherCustomer = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+
+      await ApiHelpers.authenticatedRequest(app, otherCustomer.token)
+        .get(`/api/v1/orders/${order._id}`)
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import request from 'supertest';
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import paymentService from '@/services/payment.service';
+import { PaymentGateway } from '@/services/gateways/paymentGateway';
+import { PaymentGatewayName } from '@/types';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Payment gateways', () => {
+  let customerAuth: any;
+  let booking: any;
+
+  // A gateway double that approves everything and reports the amount due
+  const stubGateway = (name: PaymentGatewayName, currencies: string[]): jest.Mocked<PaymentGateway> => ({
+    name,
+    currencies,
+    isConfigured: jest.fn().mockReturnValue(true),
+    getCheckoutConfig: jest.fn().mockReturnValue({ key: `${name}_public_key` }),
+    getPaymentMethods: jest.fn().mockReturnValue(['card']),
+    createOrder: jest.fn().mockImplementation(async order => ({
+      id: `${name}_order_1`,
+      amount: order.amount,
+      currency: order.currency,
+      status: 'created',
+      clientSecret: name === 'stripe' ? 'pi_secret' : undefined
+    })),
+    verifyPayment: jest.fn().mockResolvedValue(true),
+    getPayment: jest.fn().mockImplementation(async paymentId => ({
+      id: paymentId,
+      amount: 1180,
+      currency: 'INR',
+      status: 'captured',
+      notes: {}
+    })),
+    capturePayment: jest.fn(),
+    refundPayment: jest.fn(),
+    createPaymentLink: jest.fn(),
+    parseWebhook: jest.fn()
+  });
+
+  let razorpay: jest.Mocked<PaymentGateway>;
+  let stripe: jest.Mocked<PaymentGateway>;
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    razorpay = stubGateway('razorpay', ['INR']);
+    stripe = stubGateway('stripe', ['USD', 'INR']);
+    paymentService.registerGateway(razorpay);
+    paymentService.registerGateway(stripe);
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    const { provider } = await AuthHelpers.createAuthenticatedProvider();
+    const service = await DatabaseHelpers.createService(provider._id);
+
+    booking = await Booking.create({
+      customer: customerAuth.user._id,
+      provider: provider._id,
+      service: service._id,
+      scheduledDate: new Date(Date.now() + 48 * 60 * 60 * 1000),
+      estimatedDuration: 60,
+      status: 'confirmed',
+      address: {
+        street: '123 Test Street',
+        city: 'Test City',
+        state: 'Test State',
+        pincode: '123456'
+      },
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'pending', paidAmount: 0 }
+    });
+  });
+
+  const createOrder = (gateway?: string) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/payments/create-order')
+    .send({ bookingId: booking._id.toString(), amount: 1180, ...(gateway ? { gateway } : {}) });
+
+  describe('paymentService.selectGateway', () => {
+    it('should use the default gateway unless the customer chooses', () => {
+      expect(paymentService.selectGateway('INR').name).toBe('razorpay');
+      expect(paymentService.selectGateway('INR', 'stripe').name).toBe('stripe');
+    });
+
+    it('should fall back to a gateway that takes the currency', () => {
+      expect(paymentService.selectGateway('USD').name).toBe('stripe');
+    });
+
+    it('should refuse a chosen gateway that does not take the currency', () => {
+      expect(() => paymentService.selectGateway('USD', 'razorpay')).toThrow('cannot be made through razorpay');
+    });
+  });
+
+  describe('POST /api/v1/payments/create-order', () => {
+    it('should open the order with the chosen gateway and remember it on the booking', async () => {
+      const response = await createOrder('stripe').expect(200);
+
+      ApiHelpers.expectSuccessResponse(response);
+      expect(response.body.data.gateway).toBe('stripe');
+      expect(response.body.data.clientSecret).toBe('pi_secret');
+      expect(stripe.createOrder).toHaveBeenCalledWith(expect.objectContaining({
+        amount: 1180,
+        currency: 'INR',
+        notes: expect.objectContaining({ booking_id: booking._id.toString() })
+      }));
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.gateway).toBe('stripe');
+      expect(updated!.payment.gatewayOrderId).toBe('stripe_order_1');
+    });
+
+    it('should reject an unconfigured gateway', async () => {
+      stripe.isConfigured.mockReturnValue(false);
+
+      await createOrder('stripe').expect(503);
+    });
+  });
+
+  describe('POST /api/v1/payments/verify', () => {
+    it('should verify with the gateway that opened the order', async () => {
+      await createOrder('stripe').expect(200);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/payments/verify')
+        .send({ bookingId: booking._id.toString(), orderId: 'stripe_order_1', paymentId: 'stripe_order_1' })
+        .expect(200);
+
+      expect(response.body.data.gateway).toBe('stripe');
+      expect(stripe.verifyPayment).toHaveBeenCalled();
+      expect(razorpay.verifyPayment).not.toHaveBeenCalled();
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('paid');
+      expect(updated!.payment.method).toBe('stripe');
+      expect(updated!.payment.paidAmount).toBe(1180);
+    });
+
+    it('should still take Razorpay checkout fields', async () => {
+      await createOrder().expect(200);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/payments/verify')
+        .send({
+          bookingId: booking._id.toString(),
+          razorpay_order_id: 'razorpay_order_1',
+          razorpay_payment_id: 'pay_1',
+          razorpay_signature: 'signature'
+        })
+        .expect(200);
+
+      expect(razorpay.verifyPayment).toHaveBeenCalledWith({
+        orderId: 'razorpay_order_1',
+        paymentId: 'pay_1',
+        signature: 'signature'
+      });
+    });
+
+    it('should reject a payment for another order', async () => {
+      await createOrder('stripe').expect(200);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/payments/verify')
+        .send({ bookingId: booking._id.toString(), orderId: 'pi_other', paymentId: 'pi_other' })
+        .expect(400);
+    });
+
+    it('should reject a payment for a booking that never opened an order', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/payments/verify')
+        .send({ bookingId: booking._id.toString(), orderId: 'stripe_order_1', paymentId: 'stripe_order_1' })
+        .expect(400);
+
+      expect(stripe.verifyPayment).not.toHaveBeenCalled();
+      expect((await Booking.findById(booking._id))!.payment.status).toBe('pending');
+    });
+  });
+
+  describe('POST /api/v1/payments/webhook/:gateway', () => {
+    it('should record a captured payment reported by the gateway', async () => {
+      stripe.parseWebhook.mockReturnValue({
+        type: 'payment.captured',
+        gatewayEvent: 'payment_intent.succeeded',
+        payment: {
+          id: 'pi_123',
+          amount: 1180,
+          currency: 'INR',
+          status: 'captured',
+          notes: { booking_id: booking._id.toString() }
+        }
+      });
+
+      await request(app)
+        .post('/api/v1/payments/webhook/stripe')
+        .set('Stripe-Signature', 't=1,v1=signature')
+        .send({ type: 'payment_intent.succeeded' })
+        .expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('paid');
+      expect(updated!.payment.transactionId).toBe('pi_123');
+    });
+
+    it('should reject a delivery whose signature does not match', async () => {
+      razorpay.parseWebhook.mockImplementation(() => {
+        throw new Error('Invalid webhook signature');
+      });
+
+      await request(app)
+        .post('/api/v1/payments/webhook/razorpay')
+        .set('X-Razorpay-Signature', 'forged')
+        .send({ event: 'payment.captured' })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import request from 'supertest';
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import paymentService from '@/services/payment.service';
+import fakePaymentGateway from '@/services/gateways/fake.gateway';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+// Order, checkout, verify and webhook round-trips against the fake gateway,
+// which stands in for Razorpay whenever PAYMENT_FAKE_GATEWAY is set (see tests/setup.ts)
+describe('Payment round-trips through the fake gateway', () => {
+  let customerAuth: any;
+  let booking: any;
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+    fakePaymentGateway.reset();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    const { provider } = await AuthHelpers.createAuthenticatedProvider();
+    const service = await DatabaseHelpers.createService(provider._id);
+
+    booking = await Booking.create({
+      customer: customerAuth.user._id,
+      provider: provider._id,
+      service: service._id,
+      scheduledDate: new Date(Date.now() + 48 * 60 * 60 * 1000),
+      estimatedDuration: 60,
+      status: 'pending',
+      address: {
+        street: '123 Test Street',
+        city: 'Test City',
+        state: 'Test State',
+        pincode: '123456'
+      },
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'pending', paidAmount: 0 }
+    });
+  });
+
+  const createOrder = () => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/payments/create-order')
+    .send({ bookingId: booking._id.toString(), amount: 1180 });
+
+  const checkout = (orderId: string, outcome?: string) => request(app)
+    .post(`/api/v1/payments/fake/orders/${orderId}/checkout`)
+    .send(outcome ? { outcome } : {});
+
+  const verify = (fields: any) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/payments/verify')
+    .send({ bookingId: booking._id.toString(), ...fields });
+
+  const deliver = (delivery: { body: string; headers: Record<string, string> }) => request(app)
+    .post('/api/v1/payments/webhook/razorpay')
+    .set(delivery.headers)
+    .send(delivery.body);
+
+  describe('checkout and verify', () => {
+    it('should mark the booking paid and confirm it', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      expect(order.gateway).toBe('razorpay');
+
+      const result = (await checkout(order.orderId).expect(200)).body.data;
+      expect(result.razorpay_signature).toBeDefined();
+
+      await verify(result).expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('paid');
+      expect(updated!.payment.paidAmount).toBe(1180);
+      expect(updated!.payment.transactionId).toBe(result.razorpay_payment_id);
+      expect(updated!.status).toBe('confirmed');
+    });
+
+    it('should reject a forged signature', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      const result = (await checkout(order.orderId).expect(200)).body.data;
+
+      await verify({ ...result, razorpay_signature: 'f'.repeat(64) }).expect(400);
+    });
+
+    it('should not accept a declined card', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      const result = (await checkout(order.orderId, 'declined').expect(200)).body.data;
+
+      expect(result.status).toBe('failed');
+      await verify(result).expect(400);
+
+      await deliver(fakePaymentGateway.buildWebhook('payment.failed', result.razorpay_payment_id)).expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('failed');
+    });
+
+    it('should not let a late failure undo a payment that went through', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      const declined = (await checkout(order.orderId, 'declined').expect(200)).body.data;
+      const result = (await checkout(order.orderId).expect(200)).body.data;
+      await verify(result).expect(200);
+
+      await deliver(fakePaymentGateway.buildWebhook('payment.failed', declined.razorpay_payment_id)).expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('paid');
+      expect(updated!.payment.transactionId).toBe(result.razorpay_payment_id);
+    });
+
+    it('should ignore a failure on an order the booking has moved on from', async () => {
+      const stale = (await createOrder().expect(200)).body.data;
+      await createOrder().expect(200);
+      const declined = (await checkout(stale.orderId, 'declined').expect(200)).body.data;
+
+      await deliver(fakePaymentGateway.buildWebhook('payment.failed', declined.razorpay_payment_id)).expect(200);
+
+      expect((await Booking.findById(booking._id))!.payment.status).toBe('pending');
+    });
+
+    it('should report a gateway outage when opening the order', async () => {
+      fakePaymentGateway.failNext('createOrder');
+
+      await createOrder().expect(500);
+      await createOrder().expect(200);
+    });
+  });
+
+  describe('delayed capture', () => {
+    it('should wait for the captured webhook before marking the booking paid', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      const result = (await checkout(order.orderId, 'authorized').expect(200)).body.data;
+
+      const response = await verify(result).expect(202);
+      expect(response.body.data.status).toBe('authorized');
+      expect((await Booking.findById(booking._id))!.payment.status).toBe('pending');
+
+      await fakePaymentGateway.settle(result.razorpay_payment_id);
+      await deliver(fakePaymentGateway.buildWebhook('payment.captured', result.razorpay_payment_id)).expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('paid');
+      expect(updated!.payment.paidAmount).toBe(1180);
+    });
+
+    it('should count a payment reported by both verify and webhook once', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      const result = (await checkout(order.orderId).expect(200)).body.data;
+
+      await verify(result).expect(200);
+      await deliver(fakePaymentGateway.buildWebhook('payment.captured', result.razorpay_payment_id)).expect(200);
+
+      expect((await Booking.findById(booking._id))!.payment.paidAmount).toBe(1180);
+    });
+  });
+
+  describe('refunds', () => {
+    const payInFull = async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      const result = (await checkout(order.orderId).expect(200)).body.data;
+      await verify(result).expect(200);
+      return (await Booking.findById(booking._id))!;
+    };
+
+    it('should refund in parts up to what was paid', async () => {
+      const paid = await payInFull();
+
+      await paymentService.refundBooking(paid, 400, 'Part of the job was not done');
+      await paid.save();
+      expect(paid.payment.status).toBe('partially_refunded');
+      expect(paid.payment.refundAmount).toBe(400);
+
+      await paymentService.refundBooking(paid, 780, 'Cancelled');
+      await paid.save();
+      expect(paid.payment.status).toBe('refunded');
+      expect(paid.payment.refundAmount).toBe(1180);
+
+      await expect(paymentService.refundBooking(paid, 1, 'Too much')).resolves.toBeNull();
+    });
+
+    it('should not refund more than is left on the payment', async () => {
+      const paid = await payInFull();
+
+      await paymentService.refundBooking(paid, 1000, 'Cancelled');
+      await expect(paymentService.refundBooking(paid, 500, 'Cancelled again')).rejects.toThrow('Failed to refund payment');
+    });
+
+    it('should record a refund reported only by webhook', async () => {
+      const paid = await payInFull();
+      const refund = await fakePaymentGateway.refundPayment(paid.payment.transactionId!, 300);
+
+      await deliver(fakePaymentGateway.buildWebhook('refund.created', refund.id)).expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('partially_refunded');
+      expect(updated!.payment.refundAmount).toBe(300);
+    });
+
+    it('should add a refund reported by webhook to those already made', async () => {
+      const paid = await payInFull();
+      await paymentService.refundBooking(paid, 400, 'Part of the job was not done');
+      await paid.save();
+
+      const refund = await fakePaymentGateway.refundPayment(paid.payment.transactionId!, 300);
+      await deliver(fakePaymentGateway.buildWebhook('refund.created', refund.id)).expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.status).toBe('partially_refunded');
+      expect(updated!.payment.refundAmount).toBe(700);
+    });
+
+    it('should count a refund once when its webhook arrives before the booking is saved', async () => {
+      const paid = await payInFull();
+      const refund = await paymentService.refundBooking(paid, 400, 'Part of the job was not done');
+
+      const delivery = fakePaymentGateway.buildWebhook('refund.created', refund!.gatewayRefund!.id);
+      await deliver(delivery).expect(200);
+      await paid.save();
+      await deliver(delivery).expect(200);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.payment.refundAmount).toBe(400);
+      expect(updated!.payment.status).toBe('partially_refunded');
+    });
+  });
+
+  describe('POST /api/v1/payments/webhook/razorpay', () => {
+    it('should reject a delivery whose body was tampered with', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      const result = (await checkout(order.orderId).expect(200)).body.data;
+      const delivery = fakePaymentGateway.buildWebhook('payment.captured', result.razorpay_payment_id);
+
+      await deliver({ ...delivery, body: delivery.body.replace('118000', '1') }).expect(400);
+    });
+  });
+});
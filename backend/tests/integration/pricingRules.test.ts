@@ -0,0 +1,185 @@
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import PricingRule from '@/models/PricingRule.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import pricingRuleService from '@/services/pricingRule.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Surge pricing and urgent bookings', () => {
+  let customerAuth: any;
+  let adminAuth: any;
+  let provider: any;
+  let service: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+  const address = {
+    street: '123 Test Street',
+    city: 'Test City',
+    state: 'Test State',
+    pincode: '123456'
+  };
+
+  const bookingData = (overrides: any = {}) => ({
+    providerId: provider._id.toString(),
+    serviceId: service._id.toString(),
+    scheduledDate: inMinutes(60).toISOString(),
+    address,
+    contactPhone: '9876543210',
+    ...overrides
+  });
+
+  const createRule = (overrides: any = {}) => PricingRule.create({
+    name: 'Same-day surcharge',
+    kind: 'same_day',
+    multiplier: 1.25,
+    createdBy: adminAuth.user._id,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    service = await DatabaseHelpers.createService(provider._id, { duration: 60, basePrice: 1000 } as any);
+
+    await ServiceProvider.findByIdAndUpdate(provider._id, {
+      services: [service._id],
+      isVerified: true,
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      },
+      serviceArea: { cities: ['Test City'], maxDistance: 25 }
+    });
+  });
+
+  describe('getSurgeCharges', () => {
+    it('should add a charge line for each matching rule', async () => {
+      await createRule();
+      await createRule({ name: 'Round-the-clock surcharge', kind: 'time_of_day', multiplier: 1.1, startTime: '00:00', endTime: '23:59' });
+
+      const charges = await pricingRuleService.getSurgeCharges(service, address as any, inMinutes(60), 1000);
+
+      expect(charges).toEqual([
+        { name: 'Same-day surcharge', amount: 250, description: '1.25x same-day booking' },
+        expect.objectContaining({ name: 'Round-the-clock surcharge', amount: 100 })
+      ]);
+    });
+
+    it('should only apply the steepest rule of each kind', async () => {
+      await createRule();
+      await createRule({ name: 'Test City same-day surcharge', city: 'test city', multiplier: 1.5 });
+
+      const charges = await pricingRuleService.getSurgeCharges(service, address as any, inMinutes(60), 1000);
+
+      expect(charges).toHaveLength(1);
+      expect(charges[0]!.amount).toBe(500);
+    });
+
+    it('should ignore rules for other cities and inactive rules', async () => {
+      await createRule({ city: 'other city' });
+      await createRule({ isActive: false });
+
+      expect(await pricingRuleService.getSurgeCharges(service, address as any, inMinutes(60), 1000)).toEqual([]);
+    });
+
+    it('should cap the combined surge', async () => {
+      await createRule({ multiplier: 1.8 });
+      await createRule({ name: 'Night surcharge', kind: 'time_of_day', multiplier: 1.5, startTime: '00:00', endTime: '23:59' });
+
+      const charges = await pricingRuleService.getSurgeCharges(service, address as any, inMinutes(60), 1000);
+      const total = charges.reduce((sum, charge) => sum + charge.amount, 0);
+
+      expect(total).toBe(1000);
+    });
+
+    it('should apply demand rules once bookings outnumber providers', async () => {
+      await createRule({ name: 'High demand', kind: 'demand', multiplier: 1.3, minDemandRatio: 1 });
+
+      expect(await pricingRuleService.getSurgeCharges(service, address as any, inMinutes(60), 1000)).toEqual([]);
+
+      await Booking.create({
+        customer: customerAuth.user._id,
+        provider: provider._id,
+        service: service._id,
+        scheduledDate: inMinutes(90),
+        estimatedDuration: 60,
+        address,
+        contactPhone: '9876543210',
+        pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+        payment: { status: 'pending', paidAmount: 0 }
+      });
+
+      const charges = await pricingRuleService.getSurgeCharges(service, address as any, inMinutes(60), 1000);
+      expect(charges).toEqual([{ name: 'High demand', amount: 300, description: '1.3x high demand in Test City' }]);
+    });
+  });
+
+  describe('POST /api/v1/bookings', () => {
+    it('should record surge charges on the booking', async () => {
+      await createRule();
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData())
+        .expect(201);
+
+      const { pricing } = response.body.data.booking;
+      expect(pricing.additionalCharges).toHaveLength(1);
+      expect(pricing.additionalCharges[0].amount).toBe(250);
+      expect(pricing.totalAmount).toBe(1475);
+    });
+
+    it('should give urgent bookings a response deadline', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData({ bookingType: 'urgent' }))
+        .expect(201);
+
+      const { booking } = response.body.data;
+      expect(booking.bookingType).toBe('urgent');
+      expect(new Date(booking.urgency.responseDeadline).getTime()).toBeLessThanOrEqual(inMinutes(15).getTime());
+      expect(new Date(booking.acceptance.deadline).getTime()).toBeLessThanOrEqual(inMinutes(5).getTime());
+    });
+
+    it('should reject urgent bookings outside the urgent window', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send(bookingData({ bookingType: 'urgent', scheduledDate: inMinutes(6 * 60).toISOString() }))
+        .expect(400);
+    });
+  });
+
+  describe('Admin pricing rules', () => {
+    it('should create and deactivate a rule', async () => {
+      const created = await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .post('/api/v1/admin/pricing-rules')
+        .send({ name: 'Late night', kind: 'time_of_day', multiplier: 1.2, startTime: '21:00', endTime: '06:00', city: 'Test City' })
+        .expect(201);
+
+      expect(created.body.data.rule.city).toBe('test city');
+
+      const updated = await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .patch(`/api/v1/admin/pricing-rules/${created.body.data.rule.id}`)
+        .send({ isActive: false })
+        .expect(200);
+
+      expect(updated.body.data.rule.isActive).toBe(false);
+    });
+
+    it('should require a time window for time of day rules', async () => {
+      await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .post('/api/v1/admin/pricing-rules')
+        .send({ name: 'Late night', kind: 'time_of_day', multiplier: 1.2 })
+        .expect(400);
+    });
+  });
+});
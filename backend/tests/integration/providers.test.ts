@@ -452,6 +452,67 @@ describe('Providers API', () => {
     });
   });
 
+  describe('GET /api/v1/providers/:id/slots', () => {
+    let testService: any;
+    const nextMonday = new Date();
+    nextMonday.setDate(nextMonday.getDate() + ((8 - nextMonday.getDay()) % 7 || 7));
+    const date = [
+      nextMonday.getFullYear(),
+      String(nextMonday.getMonth() + 1).padStart(2, '0'),
+      String(nextMonday.getDate()).padStart(2, '0')
+    ].join('-');
+
+    beforeEach(async () => {
+      testService = await DatabaseHelpers.createService(testProvider._id, { duration: 60 });
+      await Provider.findByIdAndUpdate(testProvider._id, {
+        services: [testService._id],
+        isAvailable: true,
+        'availability.monday': [{ start: '09:00', end: '12:00', isAvailable: true }]
+      });
+    });
+
+    it('should list slots within the provider schedule', async () => {
+      const response = await request(app)
+        .get(`/api/v1/providers/${testProvider._id}/slots`)
+        .query({ date, serviceId: testService._id.toString() })
+        .expect(200);
+
+      ApiHelpers.expectSuccessResponse(response);
+      expect(response.body.data.duration).toBe(60);
+      expect(response.body.data.slots.length).toBeGreaterThan(0);
+      response.body.data.slots.forEach((slot: any) => {
+        expect(new Date(slot.start).getHours()).toBeGreaterThanOrEqual(9);
+        expect(new Date(slot.end).getHours() * 60 + new Date(slot.end).getMinutes()).toBeLessThanOrEqual(12 * 60);
+      });
+    });
+
+    it('should exclude slots taken by existing bookings', async () => {
+      await DatabaseHelpers.createBooking({
+        provider: testProvider._id,
+        service: testService._id,
+        scheduledDate: new Date(`${date}T09:00:00`),
+        estimatedDuration: 60,
+        status: 'confirmed'
+      });
+
+      const response = await request(app)
+        .get(`/api/v1/providers/${testProvider._id}/slots`)
+        .query({ date, serviceId: testService._id.toString() })
+        .expect(200);
+
+      response.body.data.slots.forEach((slot: any) => {
+        expect(new Date(slot.start).getTime()).toBeGreaterThanOrEqual(new Date(`${date}T10:30:00`).getTime());
+      });
+    });
+
+    it('should fail with an invalid date', async () => {
+      await request(app)
+        .get(`/api/v1/providers/${testProvider._id}/slots`)
+        .query({ date: 'tomorrow', serviceId: testService._id.toString() })
+        .expect(400);
+    });
+  });
+
   describe('PUT /api/v1/providers/:id/availability', () => {
     it('should update availability as provider', async () => {
       const availabilityData = {
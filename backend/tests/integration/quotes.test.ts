@@ -0,0 +1,111 @@
+import app from '@/server';
+import Service from '@/models/Service.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Booking quotes', () => {
+  let customerAuth: any;
+  let provider: any;
+  let floorPolish: any;
+  let electrician: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const tomorrow = () => {
+    const date = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    date.setHours(10, 0, 0, 0);
+    return date;
+  };
+  const address = {
+    street: '123 Test Street',
+    city: 'Test City',
+    state: 'Test State',
+    pincode: '123456'
+  };
+
+  const quote = (service: any, quantity?: any) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/bookings/quote')
+    .send({ serviceId: service._id.toString(), scheduledDate: tomorrow().toISOString(), address, quantity });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+
+    floorPolish = await DatabaseHelpers.createService(provider._id, { duration: 120, basePrice: 5 } as any);
+    await Service.findByIdAndUpdate(floorPolish._id, {
+      priceUnit: 'square_foot',
+      minimumCharge: 1500,
+      priceTiers: [{ upTo: 500, rate: 5 }, { upTo: 1000, rate: 4 }, { rate: 3 }]
+    });
+
+    electrician = await DatabaseHelpers.createService(provider._id, { duration: 60, basePrice: 300 } as any);
+    await Service.findByIdAndUpdate(electrician._id, { priceUnit: 'hourly', minimumQuantity: 1 });
+
+    await ServiceProvider.findByIdAndUpdate(provider._id, {
+      services: [floorPolish._id, electrician._id],
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      }
+    });
+  });
+
+  describe('POST /api/v1/bookings/quote', () => {
+    it('should bill each band of a tiered rate at its own price', async () => {
+      const response = await quote(floorPolish, { squareFeet: 1200 }).expect(200);
+
+      ApiHelpers.expectSuccessResponse(response);
+      const { lines, pricing } = response.body.data;
+      expect(lines.map((line: any) => line.amount)).toEqual([2500, 2000, 600]);
+      expect(pricing.baseAmount).toBe(5100);
+      expect(pricing.taxAmount).toBe(918);
+      expect(pricing.totalAmount).toBe(6018);
+    });
+
+    it('should apply the minimum charge to small jobs', async () => {
+      const response = await quote(floorPolish, { squareFeet: 100 }).expect(200);
+
+      expect(response.body.data.minimumChargeApplied).toBe(true);
+      expect(response.body.data.pricing.baseAmount).toBe(1500);
+    });
+
+    it('should bill hourly services by the hours booked', async () => {
+      const response = await quote(electrician, { hours: 2.5 }).expect(200);
+
+      expect(response.body.data.pricing.baseAmount).toBe(750);
+      expect(response.body.data.estimatedDuration).toBe(150);
+    });
+
+    it('should reject an invalid quantity', async () => {
+      await quote(floorPolish, { squareFeet: -5 }).expect(400);
+    });
+  });
+
+  describe('POST /api/v1/bookings', () => {
+    it('should charge and block time for the quantity booked', async () => {
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/bookings')
+        .send({
+          providerId: provider._id.toString(),
+          serviceId: electrician._id.toString(),
+          scheduledDate: tomorrow().toISOString(),
+          address,
+          contactPhone: '9876543210',
+          quantity: { hours: 3 }
+        })
+        .expect(201);
+
+      const { booking } = response.body.data;
+      expect(booking.quantity.hours).toBe(3);
+      expect(booking.estimatedDuration).toBe(180);
+      expect(booking.pricing.baseAmount).toBe(900);
+      expect(booking.pricing.totalAmount).toBe(1062);
+    });
+  });
+});
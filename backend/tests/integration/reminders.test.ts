@@ -0,0 +1,101 @@
+import Booking from '@/models/Booking.model';
+import Notification from '@/models/Notification.model';
+import reminderService from '@/services/reminder.service';
+import notificationService from '@/services/notification.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers
+} from '../utils/testHelpers';
+import { testBookings } from '../fixtures/testData';
+
+describe('Booking reminder jobs', () => {
+  let customerAuth: any;
+  let providerAuth: any;
+  let testService: any;
+
+  const inHours = (hours: number) => new Date(Date.now() + hours * 3600000);
+
+  const createBooking = async (overrides: any = {}) => {
+    const booking = await DatabaseHelpers.createBooking({
+      customer: customerAuth.user._id,
+      service: testService._id,
+      provider: providerAuth.provider._id,
+      ...testBookings.confirmed
+    });
+    await Booking.updateOne({ _id: booking._id }, overrides);
+    return booking;
+  };
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    providerAuth = await AuthHelpers.createAuthenticatedProvider();
+    testService = await DatabaseHelpers.createService(providerAuth.provider._id, { duration: 60 });
+  });
+
+  describe('sendDueReminders', () => {
+    it('should send the day-before reminder once', async () => {
+      const booking = await createBooking({ scheduledDate: inHours(20) });
+
+      expect(await reminderService.sendDueReminders()).toBe(1);
+      expect(await reminderService.sendDueReminders()).toBe(0);
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.reminders!.dayBeforeSentAt).toBeDefined();
+      expect(updated!.reminders!.hourBeforeSentAt).toBeUndefined();
+    });
+
+    it('should send the hour-before reminder inside the last hour', async () => {
+      const booking = await createBooking({ scheduledDate: inHours(0.5) });
+
+      await reminderService.sendDueReminders();
+
+      const updated = await Booking.findById(booking._id);
+      expect(updated!.reminders!.hourBeforeSentAt).toBeDefined();
+    });
+
+    it('should skip bookings that are not confirmed', async () => {
+      await createBooking({ scheduledDate: inHours(20), status: 'cancelled' });
+
+      expect(await reminderService.sendDueReminders()).toBe(0);
+    });
+  });
+
+  describe('nudgeProviders', () => {
+    it('should nudge the provider about an unanswered booking once', async () => {
+      await createBooking({ status: 'pending', createdAt: inHours(-1) });
+
+      expect(await reminderService.nudgeProviders()).toBe(1);
+      expect(await reminderService.nudgeProviders()).toBe(0);
+    });
+  });
+
+  describe('requestReviews', () => {
+    it('should ask for a review after the delay', async () => {
+      await createBooking({ status: 'completed', 'workSummary.workEndTime': inHours(-3) });
+
+      expect(await reminderService.requestReviews()).toBe(1);
+    });
+  });
+
+  describe('processScheduledNotifications', () => {
+    it('should deliver due notifications without creating copies', async () => {
+      await Notification.create({
+        recipient: customerAuth.user._id,
+        type: 'system',
+        title: 'Scheduled',
+        message: 'Due now',
+        channels: ['in_app'],
+        status: 'scheduled',
+        scheduledFor: inHours(-0.1)
+      });
+
+      await notificationService.processScheduledNotifications();
+
+      const notifications = await Notification.find({ recipient: customerAuth.user._id });
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]!.status).toBe('delivered');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import User from '@/models/User.model';
+import availabilityService from '@/services/availability.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Route planning and travel time', () => {
+  let providerAuth: any;
+  let provider: any;
+  let customerAuth: any;
+  let service: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+
+  // About 15 km apart by straight line; the near point is a few hundred metres from home
+  const home = { latitude: 28.6139, longitude: 77.2090 };
+  const near = { latitude: 28.6180, longitude: 77.2090 };
+  const far = { latitude: 28.6139, longitude: 77.3620 };
+
+  const tomorrowAt = (hours: number, minutes = 0) => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  const addressAt = (coordinates?: { latitude: number; longitude: number }) => ({
+    street: '123 Test Street',
+    city: 'Test City',
+    state: 'Test State',
+    pincode: '123456',
+    ...(coordinates ? { coordinates } : {})
+  });
+
+  const createBooking = (scheduledDate: Date, coordinates?: { latitude: number; longitude: number }) => Booking.create({
+    customer: customerAuth.user._id,
+    provider: provider._id,
+    service: service._id,
+    scheduledDate,
+    estimatedDuration: 60,
+    status: 'confirmed',
+    address: addressAt(coordinates),
+    contactPhone: '9876543210',
+    pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+    payment: { status: 'pending', paidAmount: 0 }
+  });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    providerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'provider' });
+    await User.findByIdAndUpdate(providerAuth.user._id, { address: addressAt(home) });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    service = await DatabaseHelpers.createService(provider._id, { duration: 60 } as any);
+
+    provider = await ServiceProvider.findByIdAndUpdate(provider._id, {
+      user: providerAuth.user._id,
+      services: [service._id],
+      isVerified: true,
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      },
+      serviceArea: { cities: ['Test City'], maxDistance: 25 }
+    }, { new: true });
+  });
+
+  describe('availabilityService.isSlotAvailable', () => {
+    it('should leave time to cross town after the previous job', async () => {
+      await createBooking(tomorrowAt(10), home);
+
+      // The first job ends at 11:00; the far side of town is about an hour away
+      expect(await availabilityService.isSlotAvailable(provider, tomorrowAt(11, 15), 60, { address: addressAt(far) })).toBe(false);
+      expect(await availabilityService.isSlotAvailable(provider, tomorrowAt(12, 15), 60, { address: addressAt(far) })).toBe(true);
+    });
+
+    it('should allow a job nearby straight after the previous one', async () => {
+      await createBooking(tomorrowAt(10), home);
+
+      expect(await availabilityService.isSlotAvailable(provider, tomorrowAt(11, 15), 60, { address: addressAt(near) })).toBe(true);
+    });
+
+    it('should fall back to the flat travel buffer without coordinates', async () => {
+      await createBooking(tomorrowAt(10));
+
+      expect(await availabilityService.isSlotAvailable(provider, tomorrowAt(11, 15), 60, { address: addressAt(near) })).toBe(false);
+      expect(await availabilityService.isSlotAvailable(provider, tomorrowAt(11, 30), 60, { address: addressAt(near) })).toBe(true);
+    });
+  });
+
+  describe('GET /api/v1/providers/dashboard/route', () => {
+    const date = () => {
+      const day = tomorrowAt(0);
+      return [
+        day.getFullYear(),
+        String(day.getMonth() + 1).padStart(2, '0'),
+        String(day.getDate()).padStart(2, '0')
+      ].join('-');
+    };
+
+    it('should warn when there is not enough time to reach the next job', async () => {
+      const first = await createBooking(tomorrowAt(9), near);
+      const second = await createBooking(tomorrowAt(10, 15), far);
+
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .get('/api/v1/providers/dashboard/route')
+        .query({ date: date() })
+        .expect(200);
+
+      ApiHelpers.expectSuccessResponse(response);
+      const { plan } = response.body.data;
+      expect(plan.stops).toHaveLength(2);
+      expect(plan.stops[0].travel.estimated).toBe(true);
+      expect(plan.stops[1].gapMinutes).toBe(15);
+      expect(plan.warnings).toHaveLength(1);
+      expect(plan.warnings[0]).toEqual(expect.objectContaining({
+        bookingNumber: second.bookingNumber,
+        previousBookingNumber: first.bookingNumber
+      }));
+    });
+
+    it('should suggest a visiting order with less travel', async () => {
+      const farJob = await createBooking(tomorrowAt(9), far);
+      const nearJob = await createBooking(tomorrowAt(13), near);
+
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .get('/api/v1/providers/dashboard/route')
+        .query({ date: date() })
+        .expect(200);
+
+      const { plan } = response.body.data;
+      expect(plan.warnings).toHaveLength(0);
+      expect(plan.suggestedSequence.bookingIds).toEqual([nearJob._id.toString(), farJob._id.toString()]);
+      expect(plan.suggestedSequence.travelMinutes).toBeLessThan(plan.travelMinutes);
+    });
+  });
+});
@@ -0,0 +1,446 @@
+import { Types } from 'mongoose';
+import app from '@/server';
+import AmcContract from '@/models/AmcContract.model';
+import Booking from '@/models/Booking.model';
+import Dispute from '@/models/Dispute.model';
+import Payout from '@/models/Payout.model';
+import PayoutRun from '@/models/PayoutRun.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import Settlement from '@/models/Settlement.model';
+import ledgerService from '@/services/ledger.service';
+import settlementService from '@/services/settlement.service';
+import localPayoutAdapter from '@/services/payouts/local.payout';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Settlements and payouts', () => {
+  let customerAuth: any;
+  let adminAuth: any;
+  let providerAuth: any;
+  let provider: any;
+  let service: any;
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  // ₹1180 paid: ₹180 GST, then 5% commission (₹50), 18% GST on it (₹9) and 1% TDS (₹10)
+  const NET_FOR_FULL_BOOKING = 931;
+
+  // Bookings are created in the future and then moved to the state under test
+  const createCompletedBooking = async (overrides: any = {}) => {
+    const booking = await Booking.create({
+      customer: customerAuth.user._id,
+      provider: provider._id,
+      service: service._id,
+      scheduledDate: new Date(Date.now() + 60 * 60 * 1000),
+      estimatedDuration: 60,
+      address: {
+        street: '123 Test Street',
+        city: 'Test City',
+        state: 'Test State',
+        pincode: '123456'
+      },
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'paid', method: 'razorpay', paidAmount: 1180 }
+    });
+
+    await Booking.updateOne({ _id: booking._id }, {
+      status: 'completed',
+      'workSummary.workEndTime': daysAgo(10),
+      ...overrides
+    });
+
+    return (await Booking.findById(booking._id))!;
+  };
+
+  const runPayouts = () => ApiHelpers.authenticatedRequest(app, adminAuth.token)
+    .post('/api/v1/settlements/runs');
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    providerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'provider' });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    service = await DatabaseHelpers.createService(provider._id);
+
+    provider = await ServiceProvider.findByIdAndUpdate(provider._id, {
+      user: providerAuth.user._id
+    }, { new: true });
+  });
+
+  describe('settlementService.calculateShare', () => {
+    it('should take GST, commission, GST on commission and TDS from the share', async () => {
+      const booking = await createCompletedBooking();
+
+      expect(settlementService.calculateShare(1180, booking.pricing)).toEqual({
+        collected: 1180,
+        gst: 180,
+        taxable: 1000,
+        commission: 50,
+        commissionGst: 9,
+        tds: 10,
+        net: NET_FOR_FULL_BOOKING
+      });
+    });
+  });
+
+  describe('POST /api/v1/settlements/runs', () => {
+    it('should pay each provider their net for last week\'s jobs', async () => {
+      const booking = await createCompletedBooking();
+
+      const response = await runPayouts().expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      expect(response.body.data.run.payoutCount).toBe(1);
+      expect(response.body.data.run.totals.net).toBe(NET_FOR_FULL_BOOKING);
+
+      const payout = await Payout.findOne({ provider: provider._id });
+      expect(payout!.status).toBe('paid');
+      expect(payout!.amount).toBe(NET_FOR_FULL_BOOKING);
+      expect(payout!.reference).toMatch(/^local_/);
+
+      const settlement = await Settlement.findOne({ booking: booking._id });
+      expect(settlement!.status).toBe('paid');
+      expect(settlement!.payout!.toString()).toBe(payout!._id.toString());
+    });
+
+    it('should run only once a week', async () => {
+      await runPayouts().expect(201);
+      await runPayouts().expect(409);
+    });
+
+    it('should finish a run that stopped part-way when run again', async () => {
+      const booking = await createCompletedBooking();
+      const commission = jest.spyOn(ledgerService, 'recordCommission')
+        .mockRejectedValueOnce(new Error('Connection lost'));
+
+      await runPayouts().expect(500);
+      expect((await Payout.findOne({ provider: provider._id }))!.status).toBe('pending');
+
+      const response = await runPayouts().expect(201);
+
+      expect(response.body.data.run.status).toBe('completed');
+      expect(response.body.data.run.payoutCount).toBe(1);
+      expect(response.body.data.run.totals.net).toBe(NET_FOR_FULL_BOOKING);
+      expect(await Payout.countDocuments()).toBe(1);
+      expect((await Payout.findOne({ provider: provider._id }))!.status).toBe('paid');
+      expect((await Settlement.findOne({ booking: booking._id }))!.status).toBe('paid');
+
+      commission.mockRestore();
+    });
+
+    it('should not take over a run that is still being worked on', async () => {
+      await createCompletedBooking();
+      const commission = jest.spyOn(ledgerService, 'recordCommission')
+        .mockRejectedValueOnce(new Error('Connection lost'));
+      await runPayouts().expect(500);
+
+      // Someone else picked the run up in the meantime
+      await PayoutRun.updateOne({}, { lockedBy: 'elsewhere', lockedUntil: new Date(Date.now() + 60 * 1000) });
+      const transfer = jest.spyOn(localPayoutAdapter, 'transfer');
+
+      await runPayouts().expect(409);
+
+      expect(transfer).not.toHaveBeenCalled();
+      expect((await Payout.findOne({ provider: provider._id }))!.status).toBe('pending');
+
+      transfer.mockRestore();
+      commission.mockRestore();
+    });
+
+    it('should only send a payout for the settlements it holds', async () => {
+      const booking = await createCompletedBooking();
+      const commission = jest.spyOn(ledgerService, 'recordCommission')
+        .mockRejectedValueOnce(new Error('Connection lost'));
+      await runPayouts().expect(500);
+
+      // A second payout made for the same job before the first was sent
+      const first = (await Payout.findOne({ provider: provider._id }))!;
+      await Payout.create({
+        run: first.run,
+        provider: provider._id,
+        settlements: first.settlements,
+        statement: first.statement,
+        amount: first.amount,
+        adapter: first.adapter
+      });
+      const transfer = jest.spyOn(localPayoutAdapter, 'transfer');
+
+      const response = await runPayouts().expect(201);
+
+      expect(transfer).toHaveBeenCalledTimes(1);
+      expect(response.body.data.run.payoutCount).toBe(1);
+      expect(await Payout.countDocuments()).toBe(1);
+      expect((await Settlement.findOne({ booking: booking._id }))!.payout!.toString()).toBe(first._id.toString());
+
+      transfer.mockRestore();
+      commission.mockRestore();
+    });
+
+    it('should settle a maintenance contract visit at its share of the contract price', async () => {
+      const contract = await AmcContract.create({
+        plan: new Types.ObjectId(),
+        customer: customerAuth.user._id,
+        service: service._id,
+        provider: provider._id,
+        address: {
+          street: '123 Test Street',
+          city: 'Test City',
+          state: 'Test State',
+          pincode: '123456'
+        },
+        contactPhone: '9876543210',
+        preferredTime: '10:00',
+        startDate: daysAgo(30),
+        endDate: new Date(Date.now() + 335 * 24 * 60 * 60 * 1000),
+        visits: [1, 2, 3, 4].map(index => ({ index, dueDate: daysAgo(30), status: 'upcoming' })),
+        pricing: { amount: 4000, taxAmount: 720, totalAmount: 4720 },
+        instalments: [{ index: 1, amount: 4720, dueDate: daysAgo(30), status: 'paid' }],
+        status: 'active'
+      });
+      await createCompletedBooking({
+        amcContract: contract._id,
+        amcVisitIndex: 1,
+        pricing: { baseAmount: 0, additionalCharges: [], taxAmount: 0, totalAmount: 0 },
+        'payment.paidAmount': 0
+      });
+
+      await runPayouts().expect(201);
+
+      // ₹4720 over four visits is ₹1180 a visit
+      expect((await Payout.findOne({ provider: provider._id }))!.amount).toBe(NET_FOR_FULL_BOOKING);
+    });
+
+    it('should hold a maintenance contract visit until the instalments covering it are paid', async () => {
+      const contract = await AmcContract.create({
+        plan: new Types.ObjectId(),
+        customer: customerAuth.user._id,
+        service: service._id,
+        provider: provider._id,
+        address: {
+          street: '123 Test Street',
+          city: 'Test City',
+          state: 'Test State',
+          pincode: '123456'
+        },
+        contactPhone: '9876543210',
+        preferredTime: '10:00',
+        startDate: daysAgo(30),
+        endDate: new Date(Date.now() + 335 * 24 * 60 * 60 * 1000),
+        visits: [1, 2, 3, 4].map(index => ({ index, dueDate: daysAgo(30), status: 'upcoming' })),
+        pricing: { amount: 4000, taxAmount: 720, totalAmount: 4720 },
+        instalments: [1, 2, 3, 4].map(index => ({
+          index,
+          amount: 1180,
+          dueDate: daysAgo(30),
+          status: index === 1 ? 'paid' : 'pending'
+        })),
+        status: 'active'
+      });
+      const visit = await createCompletedBooking({
+        amcContract: contract._id,
+        amcVisitIndex: 2,
+        pricing: { baseAmount: 0, additionalCharges: [], taxAmount: 0, totalAmount: 0 },
+        'payment.paidAmount': 0
+      });
+
+      const response = await runPayouts().expect(201);
+
+      expect(response.body.data.run.payoutCount).toBe(0);
+      const settlement = await Settlement.findOne({ booking: visit._id });
+      expect(settlement!.status).toBe('held');
+      expect(settlement!.holdReason).toBe('instalment');
+      expect(await Payout.countDocuments()).toBe(0);
+    });
+
+    it('should leave jobs completed this week for the next run', async () => {
+      const booking = await createCompletedBooking({ 'workSummary.workEndTime': new Date() });
+
+      const response = await runPayouts().expect(201);
+
+      expect(response.body.data.run.payoutCount).toBe(0);
+      expect((await Settlement.findOne({ booking: booking._id }))!.status).toBe('pending');
+    });
+
+    it('should not settle cash jobs', async () => {
+      await createCompletedBooking({ 'payment.method': 'cash' });
+
+      await runPayouts().expect(201);
+
+      expect(await Settlement.countDocuments()).toBe(0);
+    });
+
+    it('should hold back a booking with an open dispute', async () => {
+      await createCompletedBooking();
+      const disputed = await createCompletedBooking();
+      await Dispute.create({
+        booking: disputed._id,
+        customer: customerAuth.user._id,
+        provider: provider._id,
+        category: 'quality',
+        description: 'The tap is still leaking after the repair',
+        sla: { responseDueAt: new Date(), resolutionDueAt: new Date() }
+      });
+
+      const response = await runPayouts().expect(201);
+
+      expect(response.body.data.run.totals.net).toBe(NET_FOR_FULL_BOOKING);
+      expect(response.body.data.run.heldAmount).toBe(NET_FOR_FULL_BOOKING);
+
+      const held = await Settlement.findOne({ booking: disputed._id });
+      expect(held!.status).toBe('held');
+      expect(held!.holdReason).toBe('dispute');
+    });
+
+    it('should hold back a booking with a refund still to process', async () => {
+      const booking = await createCompletedBooking({ refundAmount: 300 });
+
+      await runPayouts().expect(201);
+
+      const held = await Settlement.findOne({ booking: booking._id });
+      expect(held!.status).toBe('held');
+      expect(held!.holdReason).toBe('refund');
+    });
+
+    it('should pay on what is left after a refund made since the job was settled', async () => {
+      const booking = await createCompletedBooking();
+      await settlementService.syncSettlements();
+
+      await Booking.updateOne({ _id: booking._id }, {
+        'payment.status': 'partially_refunded',
+        'payment.refundAmount': 590,
+        refundAmount: 590
+      });
+
+      await runPayouts().expect(201);
+
+      // ₹590 kept: ₹90 GST, ₹25 commission, ₹5 GST on it and ₹5 TDS
+      const payout = await Payout.findOne({ provider: provider._id });
+      expect(payout!.amount).toBe(465);
+    });
+
+    it('should pay each crew member their share', async () => {
+      const helper = (await AuthHelpers.createAuthenticatedProvider()).provider;
+      await createCompletedBooking({
+        crew: [
+          { provider: provider._id, role: 'lead', sharePercent: 70 },
+          { provider: helper._id, role: 'helper', sharePercent: 30 }
+        ]
+      });
+
+      await runPayouts().expect(201);
+
+      expect((await Payout.findOne({ provider: provider._id }))!.amount).toBe(652);
+      expect((await Payout.findOne({ provider: helper._id }))!.amount).toBe(279);
+    });
+  });
+
+  describe('POST /api/v1/settlements/payouts/:id/retry', () => {
+    it('should keep a failed payout\'s jobs until it is retried', async () => {
+      const booking = await createCompletedBooking();
+      const transfer = jest.spyOn(localPayoutAdapter, 'transfer')
+        .mockRejectedValueOnce(new Error('Bank account not verified'));
+
+      await runPayouts().expect(201);
+
+      const payout = await Payout.findOne({ provider: provider._id });
+      expect(payout!.status).toBe('failed');
+      expect(payout!.failureReason).toBe('Bank account not verified');
+      expect((await Settlement.findOne({ booking: booking._id }))!.status).toBe('in_payout');
+
+      const response = await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .post(`/api/v1/settlements/payouts/${payout!._id}/retry`)
+        .expect(200);
+
+      expect(response.body.data.payout.status).toBe('paid');
+      expect(response.body.data.payout.attempts).toBe(2);
+      expect((await Settlement.findOne({ booking: booking._id }))!.status).toBe('paid');
+
+      transfer.mockRestore();
+    });
+
+    it('should not retry a payout that went through', async () => {
+      await createCompletedBooking();
+      await runPayouts().expect(201);
+      const payout = await Payout.findOne({ provider: provider._id });
+
+      await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .post(`/api/v1/settlements/payouts/${payout!._id}/retry`)
+        .expect(400);
+    });
+  });
+
+  describe('provider views', () => {
+    it('should settle once when the balance is asked for twice at the same time', async () => {
+      await createCompletedBooking();
+
+      const [first, second] = await Promise.all([
+        settlementService.getBalance(provider._id.toString()),
+        settlementService.getBalance(provider._id.toString())
+      ]);
+
+      expect(first.pending).toBe(NET_FOR_FULL_BOOKING);
+      expect(second.pending).toBe(NET_FOR_FULL_BOOKING);
+      expect(await Settlement.countDocuments()).toBe(1);
+    });
+
+    it('should show the balance before and after the run', async () => {
+      await createCompletedBooking();
+
+      const before = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .get('/api/v1/settlements/me')
+        .expect(200);
+      expect(before.body.data.balance.pending).toBe(NET_FOR_FULL_BOOKING);
+
+      await runPayouts().expect(201);
+
+      const after = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .get('/api/v1/settlements/me')
+        .expect(200);
+      expect(after.body.data.balance).toEqual({ pending: 0, held: 0, inPayout: 0, paid: NET_FOR_FULL_BOOKING });
+    });
+
+    it('should show a statement of the jobs in a payout', async () => {
+      const booking = await createCompletedBooking();
+      await runPayouts().expect(201);
+      const payout = await Payout.findOne({ provider: provider._id });
+
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .get(`/api/v1/settlements/payouts/${payout!._id}`)
+        .expect(200);
+
+      expect(response.body.data.payout.statement.commission).toBe(50);
+      expect(response.body.data.settlements).toHaveLength(1);
+      expect(response.body.data.settlements[0].booking.bookingNumber).toBe(booking.bookingNumber);
+    });
+
+    it('should not show another provider\'s statement', async () => {
+      await createCompletedBooking();
+      await runPayouts().expect(201);
+      const payout = await Payout.findOne({ provider: provider._id });
+      const otherAuth = await AuthHelpers.createAuthenticatedUser({ role: 'provider' });
+
+      await ApiHelpers.authenticatedRequest(app, otherAuth.token)
+        .get(`/api/v1/settlements/payouts/${payout!._id}`)
+        .expect(403);
+    });
+
+    it('should report earnings after deductions', async () => {
+      await createCompletedBooking();
+
+      const response = await ApiHelpers.authenticatedRequest(app, providerAuth.token)
+        .get('/api/v1/providers/dashboard/earnings')
+        .expect(200);
+
+      expect(response.body.data.overview.totalEarnings).toBe(NET_FOR_FULL_BOOKING);
+      expect(response.body.data.overview.totalBookings).toBe(1);
+      expect(response.body.data.monthlyEarnings[0].earnings).toBe(NET_FOR_FULL_BOOKING);
+      expect(response.body.data.settlement.pending).toBe(NET_FOR_FULL_BOOKING);
+    });
+  });
+});
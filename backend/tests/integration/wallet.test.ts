@@ -0,0 +1,310 @@
+import request from 'supertest';
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import Wallet from '@/models/Wallet.model';
+import WalletTransaction from '@/models/WalletTransaction.model';
+import ledgerService from '@/services/ledger.service';
+import paymentService from '@/services/payment.service';
+import walletService from '@/services/wallet.service';
+import fakePaymentGateway from '@/services/gateways/fake.gateway';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Customer wallet', () => {
+  let customerAuth: any;
+  let adminAuth: any;
+  let provider: any;
+  let booking: any;
+
+  const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  const grantCredit = (amount: number, expiresAt?: Date) => ApiHelpers.authenticatedRequest(app, adminAuth.token)
+    .post('/api/v1/wallet/credits')
+    .send({
+      userId: customerAuth.user._id.toString(),
+      amount,
+      description: 'Welcome offer',
+      ...(expiresAt && { expiresAt: expiresAt.toISOString() })
+    });
+
+  const createOrder = (fields: any = {}) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post('/api/v1/payments/create-order')
+    .send({ bookingId: booking._id.toString(), amount: 1180, ...fields });
+
+  // Pays an order through the fake gateway's checkout, as the customer would
+  const payOrder = async (orderId: string) => {
+    const result = (await request(app)
+      .post(`/api/v1/payments/fake/orders/${orderId}/checkout`)
+      .send({})
+      .expect(200)).body.data;
+
+    await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+      .post('/api/v1/payments/verify')
+      .send({ bookingId: booking._id.toString(), ...result })
+      .expect(200);
+  };
+
+  const getWallet = async () => (await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .get('/api/v1/wallet')
+    .expect(200)).body.data.wallet;
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+    fakePaymentGateway.reset();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    const service = await DatabaseHelpers.createService(provider._id);
+
+    booking = await Booking.create({
+      customer: customerAuth.user._id,
+      provider: provider._id,
+      service: service._id,
+      scheduledDate: daysFromNow(2),
+      estimatedDuration: 60,
+      status: 'pending',
+      address: {
+        street: '123 Test Street',
+        city: 'Test City',
+        state: 'Test State',
+        pincode: '123456'
+      },
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'pending', paidAmount: 0 }
+    });
+  });
+
+  describe('promotional credit', () => {
+    it('should add the credit to the wallet with its expiry', async () => {
+      const expiresAt = daysFromNow(30);
+
+      const response = await grantCredit(250, expiresAt).expect(201);
+      expect(response.body.data.credit.remaining).toBe(250);
+
+      const wallet = await getWallet();
+      expect(wallet.balance).toBe(250);
+      expect(wallet.promotional).toBe(250);
+      expect(new Date(wallet.promotionalCredits[0].expiresAt).getTime()).toBe(expiresAt.getTime());
+    });
+
+    it('should only be granted by admins', async () => {
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/wallet/credits')
+        .send({ userId: customerAuth.user._id.toString(), amount: 250, description: 'Welcome offer' })
+        .expect(403);
+    });
+
+    it('should spend the credit expiring soonest first and lapse what is left of the rest', async () => {
+      const soon = (await grantCredit(300, daysFromNow(1)).expect(201)).body.data.credit;
+      const later = (await grantCredit(300, daysFromNow(10)).expect(201)).body.data.credit;
+
+      await createOrder({ useWallet: true, walletAmount: 400 }).expect(200);
+
+      expect((await WalletTransaction.findById(soon.id))!.remaining).toBe(0);
+      expect((await WalletTransaction.findById(later.id))!.remaining).toBe(200);
+
+      expect(await walletService.expireCredits(daysFromNow(11))).toBe(1);
+
+      const wallet = await getWallet();
+      expect(wallet.balance).toBe(0);
+      expect(wallet.promotionalCredits).toEqual([]);
+
+      const expiry = await WalletTransaction.findOne({ type: 'expiry' });
+      expect(expiry!.amount).toBe(200);
+
+      // ₹600 granted, ₹200 lapsed
+      const trialBalance = await ledgerService.getTrialBalance();
+      expect(trialBalance.balanced).toBe(true);
+      expect(trialBalance.accounts.find(line => line.account === 'promotions')!.balance).toBe(400);
+      expect(trialBalance.accounts.find(line => line.account === 'wallet')!.balance).toBe(0);
+    });
+
+    it('should not spend or count credit past its expiry before the expiry job runs', async () => {
+      const credit = (await grantCredit(300, daysFromNow(10)).expect(201)).body.data.credit;
+      await WalletTransaction.updateOne({ _id: credit.id }, { expiresAt: daysFromNow(-1) });
+
+      await createOrder({ useWallet: true }).expect(400);
+
+      const wallet = await getWallet();
+      expect(wallet.balance).toBe(0);
+      expect(wallet.promotionalCredits).toEqual([]);
+      expect((await Booking.findById(booking._id))!.payment.paidAmount).toBe(0);
+    });
+  });
+
+  describe('paying from the wallet', () => {
+    it('should pay a booking in full without a gateway order', async () => {
+      await grantCredit(1500).expect(201);
+
+      const response = await createOrder({ useWallet: true }).expect(200);
+
+      expect(response.body.data.status).toBe('paid');
+      expect(response.body.data.walletAmount).toBe(1180);
+      expect(response.body.data.walletBalance).toBe(320);
+
+      const paid = await Booking.findById(booking._id);
+      expect(paid!.status).toBe('confirmed');
+      expect(paid!.payment.status).toBe('paid');
+      expect(paid!.payment.method).toBe('wallet');
+      expect(paid!.payment.walletAmount).toBe(1180);
+    });
+
+    it('should not need an amount when the wallet pays it all', async () => {
+      await grantCredit(1500).expect(201);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/payments/create-order')
+        .send({ bookingId: booking._id.toString(), useWallet: true })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('paid');
+      expect(response.body.data.walletAmount).toBe(1180);
+    });
+
+    it('should have the gateway charge what the wallet does not cover', async () => {
+      await grantCredit(500).expect(201);
+
+      const order = (await createOrder({ useWallet: true }).expect(200)).body.data;
+      expect(order.amount).toBe(680);
+      expect(order.walletAmount).toBe(500);
+
+      await payOrder(order.orderId);
+
+      const paid = await Booking.findById(booking._id);
+      expect(paid!.payment.status).toBe('paid');
+      expect(paid!.payment.paidAmount).toBe(1180);
+      expect((await getWallet()).balance).toBe(0);
+
+      const trialBalance = await ledgerService.getTrialBalance();
+      const balances = Object.fromEntries(trialBalance.accounts.map(line => [line.account, line.balance]));
+      expect(trialBalance.balanced).toBe(true);
+      expect(balances.cash).toBe(680);
+      expect(balances.customer).toBe(1180);
+    });
+
+    it('should refuse to pay from an empty wallet', async () => {
+      await createOrder({ useWallet: true }).expect(400);
+    });
+
+    it('should not let two payments at once both pay what is due', async () => {
+      await grantCredit(2000).expect(201);
+
+      // Both read the booking before either paid
+      const first = (await Booking.findById(booking._id))!;
+      const second = (await Booking.findById(booking._id))!;
+
+      await walletService.payBooking(first);
+      await expect(walletService.payBooking(second)).rejects.toThrow('A payment was made on this booking meanwhile');
+
+      const paid = await Booking.findById(booking._id);
+      expect(paid!.payment.paidAmount).toBe(1180);
+      expect(paid!.payment.walletAmount).toBe(1180);
+      expect((await getWallet()).balance).toBe(820);
+    });
+  });
+
+  describe('refunds to the wallet', () => {
+    it('should refund a cancelled booking into the wallet at once', async () => {
+      const order = (await createOrder().expect(200)).body.data;
+      await payOrder(order.orderId);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .delete(`/api/v1/bookings/${booking._id}`)
+        .send({ reason: 'Plans changed', refundTo: 'wallet' })
+        .expect(200);
+
+      expect(response.body.data.walletRefund.amount).toBe(1180);
+      expect((await getWallet()).balance).toBe(1180);
+
+      const cancelled = await Booking.findById(booking._id);
+      expect(cancelled!.payment.status).toBe('refunded');
+      expect(cancelled!.payment.walletRefundAmount).toBe(1180);
+
+      const history = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .get('/api/v1/wallet/transactions')
+        .query({ type: 'refund' })
+        .expect(200);
+      expect(history.body.data.transactions).toHaveLength(1);
+      expect(history.body.data.transactions[0].booking.bookingNumber).toBe(booking.bookingNumber);
+    });
+
+    it('should give back what the wallet paid when the booking is cancelled before the rest is paid', async () => {
+      await grantCredit(500).expect(201);
+      await createOrder({ useWallet: true }).expect(200);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .delete(`/api/v1/bookings/${booking._id}`)
+        .send({ reason: 'Plans changed', refundTo: 'wallet' })
+        .expect(200);
+
+      expect(response.body.data.walletRefund.amount).toBe(500);
+      expect((await getWallet()).balance).toBe(500);
+
+      const cancelled = await Booking.findById(booking._id);
+      expect(cancelled!.status).toBe('cancelled');
+      expect(cancelled!.payment.status).toBe('refunded');
+      expect(cancelled!.payment.walletRefundAmount).toBe(500);
+    });
+
+    it('should give back what the wallet paid through the refund endpoint too', async () => {
+      await grantCredit(500).expect(201);
+      await createOrder({ useWallet: true }).expect(200);
+
+      await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .delete(`/api/v1/bookings/${booking._id}`)
+        .send({ reason: 'Plans changed' })
+        .expect(200);
+
+      const response = await ApiHelpers.authenticatedRequest(app, customerAuth.token)
+        .post('/api/v1/payments/refund')
+        .send({ bookingId: booking._id.toString(), reason: 'Plans changed' })
+        .expect(200);
+
+      expect(response.body.data.refundAmount).toBe(500);
+      expect((await getWallet()).balance).toBe(500);
+    });
+
+    it('should not credit the same refund twice', async () => {
+      await grantCredit(500).expect(201);
+      await createOrder({ useWallet: true }).expect(200);
+
+      // Both read the booking before either refunded
+      const first = (await Booking.findById(booking._id))!;
+      const second = (await Booking.findById(booking._id))!;
+
+      await walletService.refundBooking(first, 500, 'Booking cancellation');
+      await first.save();
+      await expect(walletService.refundBooking(second, 500, 'Booking cancellation')).rejects.toThrow('already being processed');
+
+      expect((await getWallet()).balance).toBe(500);
+    });
+
+    it('should only let the customer choose the wallet', async () => {
+      await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .delete(`/api/v1/bookings/${booking._id}`)
+        .send({ refundTo: 'wallet' })
+        .expect(403);
+    });
+
+    it('should give the wallet back its part when refunding to the original payment', async () => {
+      await grantCredit(500).expect(201);
+      const order = (await createOrder({ useWallet: true }).expect(200)).body.data;
+      await payOrder(order.orderId);
+
+      const paid = (await Booking.findById(booking._id))!;
+      const refund = await paymentService.refundBooking(paid, 1180, 'Booking cancellation');
+      await paid.save();
+
+      expect(refund!.amount).toBe(1180);
+      expect(refund!.gatewayRefund!.amount).toBe(680);
+      expect(refund!.walletCredit!.amount).toBe(500);
+      expect(paid.payment.status).toBe('refunded');
+      expect((await Wallet.findOne({ user: customerAuth.user._id }))!.balance).toBe(500);
+    });
+  });
+});
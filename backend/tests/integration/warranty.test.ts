@@ -0,0 +1,164 @@
+import app from '@/server';
+import Booking from '@/models/Booking.model';
+import Service from '@/models/Service.model';
+import ServiceProvider from '@/models/ServiceProvider.model';
+import warrantyService from '@/services/warranty.service';
+import {
+  DatabaseHelpers,
+  AuthHelpers,
+  ApiHelpers
+} from '../utils/testHelpers';
+
+describe('Warranty claims', () => {
+  let customerAuth: any;
+  let adminAuth: any;
+  let provider: any;
+  let service: any;
+
+  const allDay = { start: '00:00', end: '23:59', isAvailable: true };
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+  const address = {
+    street: '123 Test Street',
+    city: 'Test City',
+    state: 'Test State',
+    pincode: '123456'
+  };
+
+  // Bookings are created in the future and then marked as completed
+  const createCompletedBooking = async (overrides: any = {}) => {
+    const booking = await Booking.create({
+      customer: customerAuth.user._id,
+      provider: provider._id,
+      service: service._id,
+      scheduledDate: inHours(1),
+      estimatedDuration: 60,
+      address,
+      contactPhone: '9876543210',
+      pricing: { baseAmount: 1000, additionalCharges: [], taxAmount: 180, totalAmount: 1180 },
+      payment: { status: 'paid', paidAmount: 1180 }
+    });
+
+    await Booking.updateOne({ _id: booking._id }, {
+      status: 'completed',
+      'workSummary.workEndTime': new Date(),
+      warrantyExpiresAt: new Date(Date.now() + 30 * DAY_MS),
+      ...overrides
+    });
+
+    return Booking.findById(booking._id);
+  };
+
+  const claim = (booking: any, overrides: any = {}) => ApiHelpers.authenticatedRequest(app, customerAuth.token)
+    .post(`/api/v1/bookings/${booking._id}/warranty-claim`)
+    .send({
+      issue: 'The fan has stopped working again',
+      scheduledDate: inHours(48).toISOString(),
+      ...overrides
+    });
+
+  beforeEach(async () => {
+    await DatabaseHelpers.clearDatabase();
+
+    customerAuth = await AuthHelpers.createAuthenticatedUser({ role: 'customer' });
+    adminAuth = await AuthHelpers.createAuthenticatedUser({ role: 'admin' });
+    provider = (await AuthHelpers.createAuthenticatedProvider()).provider;
+    service = await DatabaseHelpers.createService(provider._id, { duration: 60, basePrice: 1000 } as any);
+    await Service.findByIdAndUpdate(service._id, { warrantyDays: 30 });
+
+    await ServiceProvider.findByIdAndUpdate(provider._id, {
+      services: [service._id],
+      isVerified: true,
+      isAvailable: true,
+      availability: {
+        monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+        friday: [allDay], saturday: [allDay], sunday: [allDay]
+      },
+      serviceArea: { cities: ['Test City'], maxDistance: 25 }
+    });
+  });
+
+  describe('recordCompletion', () => {
+    it('should start the warranty from the end of the work', async () => {
+      const booking = await createCompletedBooking({ warrantyExpiresAt: undefined });
+
+      await warrantyService.recordCompletion(booking!);
+
+      const updated = await Booking.findById(booking!._id);
+      const expected = updated!.workSummary!.workEndTime!.getTime() + 30 * DAY_MS;
+      expect(updated!.warrantyExpiresAt!.getTime()).toBe(expected);
+    });
+  });
+
+  describe('POST /api/v1/bookings/:id/warranty-claim', () => {
+    it('should book a free re-visit with the original provider', async () => {
+      const booking = await createCompletedBooking();
+
+      const response = await claim(booking).expect(201);
+
+      ApiHelpers.expectSuccessResponse(response);
+      const revisit = response.body.data.booking;
+      expect(revisit.pricing.totalAmount).toBe(0);
+      expect(revisit.payment.status).toBe('paid');
+      expect(revisit.provider.id || revisit.provider._id).toBe(provider._id.toString());
+      expect(revisit.warrantyClaim.claimOf).toBe(booking!._id.toString());
+    });
+
+    it('should pass the re-visit to another provider when the original has stopped taking work', async () => {
+      const booking = await createCompletedBooking();
+      const other = (await AuthHelpers.createAuthenticatedProvider()).provider;
+      await ServiceProvider.findByIdAndUpdate(other._id, {
+        services: [service._id],
+        isVerified: true,
+        isAvailable: true,
+        availability: {
+          monday: [allDay], tuesday: [allDay], wednesday: [allDay], thursday: [allDay],
+          friday: [allDay], saturday: [allDay], sunday: [allDay]
+        },
+        serviceArea: { cities: ['Test City'], maxDistance: 25 }
+      });
+      await ServiceProvider.findByIdAndUpdate(provider._id, { isAvailable: false });
+
+      const response = await claim(booking).expect(201);
+
+      const revisit = await Booking.findById(response.body.data.booking.id);
+      expect(revisit!.provider.toString()).toBe(other._id.toString());
+      expect(revisit!.warrantyClaim!.originalProvider.toString()).toBe(provider._id.toString());
+    });
+
+    it('should reject claims after the warranty has expired', async () => {
+      const booking = await createCompletedBooking({ warrantyExpiresAt: new Date(Date.now() - DAY_MS) });
+
+      await claim(booking).expect(400);
+    });
+
+    it('should reject re-visits in the past', async () => {
+      const booking = await createCompletedBooking();
+
+      await claim(booking, { scheduledDate: inHours(-1).toISOString() }).expect(400);
+    });
+
+    it('should only allow one open re-visit per job', async () => {
+      const booking = await createCompletedBooking();
+
+      await claim(booking).expect(201);
+      await claim(booking, { scheduledDate: inHours(72).toISOString() }).expect(409);
+    });
+  });
+
+  describe('GET /api/v1/admin/analytics', () => {
+    it('should report claim rates per provider and service', async () => {
+      const booking = await createCompletedBooking();
+      await createCompletedBooking();
+      await claim(booking).expect(201);
+
+      const response = await ApiHelpers.authenticatedRequest(app, adminAuth.token)
+        .get('/api/v1/admin/analytics')
+        .expect(200);
+
+      const { warrantyClaims } = response.body.data;
+      expect(warrantyClaims.byProvider[0]).toEqual(expect.objectContaining({ coveredBookings: 2, claims: 1, claimRate: 50 }));
+      expect(warrantyClaims.byService[0]).toEqual(expect.objectContaining({ coveredBookings: 2, claims: 1, claimRate: 50 }));
+    });
+  });
+});
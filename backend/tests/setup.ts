@@ -87,6 +87,7 @@ process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
 process.env.JWT_EXPIRE = '1h';
 process.env.JWT_REFRESH_EXPIRE = '7d';
 process.env.BCRYPT_SALT_ROUNDS = '10';
+process.env.PAYMENT_FAKE_GATEWAY = 'true';
 
 // Setup console overrides for cleaner test output
 const originalConsole = console;